@@ -0,0 +1,73 @@
+/**
+ * Tests for passphrase-encrypted API key storage and its migrations.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { apiKeyManager } from '../lib/api-key-manager';
+
+const STORAGE_KEY = 'projectloom:api-keys';
+const ANTHROPIC_KEY = 'sk-ant-test-1234567890';
+
+describe('apiKeyManager encryption', () => {
+  beforeEach(() => {
+    apiKeyManager.clearKeys();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('encrypts plaintext keys and locks them until the passphrase is entered', async () => {
+    apiKeyManager.saveKey('anthropic', ANTHROPIC_KEY);
+
+    expect(await apiKeyManager.enableEncryption('correct horse')).toBe(true);
+    expect(localStorage.getItem(STORAGE_KEY)).not.toContain(btoa(ANTHROPIC_KEY));
+    expect(apiKeyManager.getKey('anthropic')).toBe(ANTHROPIC_KEY);
+
+    apiKeyManager.lock();
+    expect(apiKeyManager.isLocked()).toBe(true);
+    expect(apiKeyManager.getKey('anthropic')).toBeNull();
+    expect(apiKeyManager.saveKey('openai', 'sk-other')).toBe(false);
+
+    expect(await apiKeyManager.unlock('wrong')).toBe(false);
+    expect(await apiKeyManager.unlock('correct horse')).toBe(true);
+    expect(apiKeyManager.getStatus()).toMatchObject({ isEncrypted: true, isLocked: false, hasAnyKey: true });
+  });
+
+  it('migrates encrypted keys back to plaintext, including unsaved edits', async () => {
+    await apiKeyManager.enableEncryption('passphrase');
+    apiKeyManager.saveKey('openai', 'sk-openai-key');
+
+    expect(await apiKeyManager.disableEncryption()).toBe(true);
+    apiKeyManager.lock();
+
+    expect(apiKeyManager.isEncrypted()).toBe(false);
+    expect(apiKeyManager.getKey('openai')).toBe('sk-openai-key');
+  });
+
+  it('writes queued encrypted keys to the storage chosen when they land', async () => {
+    await apiKeyManager.enableEncryption('passphrase');
+    apiKeyManager.saveKey('openai', 'sk-openai-key');
+    apiKeyManager.setStoragePreference('sessionStorage');
+
+    // Waits for the queued write before replacing the envelope
+    expect(await apiKeyManager.disableEncryption()).toBe(true);
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(apiKeyManager.getKey('openai')).toBe('sk-openai-key');
+  });
+
+  it('keeps unlocked keys out of storage so a reload locks them again', async () => {
+    await apiKeyManager.enableEncryption('passphrase');
+    apiKeyManager.saveKey('anthropic', ANTHROPIC_KEY);
+
+    const stored = [localStorage, sessionStorage].flatMap((storage) => (
+      Object.keys(storage).map((key) => storage.getItem(key) ?? '')
+    ));
+    expect(stored.some((value) => value.includes(ANTHROPIC_KEY) || value.includes(btoa(ANTHROPIC_KEY)))).toBe(false);
+
+    vi.resetModules();
+    const { apiKeyManager: reloaded } = await import('../lib/api-key-manager');
+    expect(reloaded.isLocked()).toBe(true);
+    expect(reloaded.getKey('anthropic')).toBeNull();
+  });
+});
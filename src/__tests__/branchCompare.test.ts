@@ -0,0 +1,58 @@
+/**
+ * Tests for branch comparison alignment and word diffs.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { buildBranchComparison, diffWords, type DiffSegment } from '../lib/branch-compare';
+import { makeConversation, makeMessage } from './fixtures';
+
+const join = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments.filter((segment) => segment.type !== skip).map((segment) => segment.text).join('');
+
+describe('diffWords', () => {
+  it('marks changed words and reconstructs both sides', () => {
+    const before = 'Take the job in Berlin for the salary.';
+    const after = 'Take the job in Lisbon for the lifestyle.';
+    const segments = diffWords(before, after);
+
+    expect(join(segments, 'added')).toBe(before);
+    expect(join(segments, 'removed')).toBe(after);
+    expect(segments.filter((s) => s.type === 'removed').map((s) => s.text.trim())).toEqual(['Berlin', 'salary.']);
+    expect(segments.filter((s) => s.type === 'added').map((s) => s.text.trim())).toEqual(['Lisbon', 'lifestyle.']);
+  });
+
+  it('returns a single equal segment for identical text', () => {
+    expect(diffWords('same answer', 'same answer')).toEqual([{ type: 'equal', text: 'same answer' }]);
+  });
+});
+
+describe('buildBranchComparison', () => {
+  it('aligns sibling branches after their shared history', () => {
+    const q1 = makeMessage('q1', 'Which offer?');
+    const a1 = makeMessage('a1', 'It depends.', 'assistant');
+    const root = makeConversation('root', [q1, a1]);
+
+    const branch = (id: string, answer: string) => makeConversation(id, [
+      makeMessage(`${id}-q`, 'Focus on growth'),
+      makeMessage(`${id}-a`, answer, 'assistant'),
+    ], {
+      parentCardIds: ['root'],
+      branchPoint: { parentCardId: 'root', messageIndex: 1 },
+      inheritedContext: { root: { mode: 'full', messages: [q1, a1], timestamp: new Date(), totalParentMessages: 2 } },
+    });
+    const left = branch('left', 'Pick the startup.');
+    const right = branch('right', 'Pick the corporation.');
+
+    const conversations = new Map([root, left, right].map((conv) => [conv.id, conv]));
+    const comparison = buildBranchComparison(['left', 'right'], conversations);
+
+    expect(comparison.sharedMessageCount).toBe(2);
+    expect(comparison.commonAncestor?.id).toBe('root');
+    expect(comparison.rowCount).toBe(2);
+    expect(comparison.branches.map((b) => b.messages.map((m) => m.content))).toEqual([
+      ['Focus on growth', 'Pick the startup.'],
+      ['Focus on growth', 'Pick the corporation.'],
+    ]);
+  });
+});
@@ -5,7 +5,11 @@
 import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
 import type { Node, Edge } from '@xyflow/react';
 
-import { useCanvasStore } from '../stores/canvas-store';
+import { getStaleInheritedContext, selectStaleCardIds, useCanvasStore } from '../stores/canvas-store';
+import { createHistoryBase } from '../lib/canvas-history';
+import { buildSynthesisPrompt, getMergeSynthesisPrompt } from '../lib/merge-strategies';
+import { buildInstructionLayers, resolveCardInstructions } from '../lib/personas';
+import { usePreferencesStore } from '../stores/preferences-store';
 import type {
   Conversation,
   ConversationNodeData,
@@ -121,11 +125,7 @@ const seedStore = (conversations: Conversation[]) => {
     activeConversationId: null,
     draftMessages: new Map(),
     usagePanelOpen: false,
-    history: [{
-      nodes: [...nodes],
-      edges: [...edges],
-      conversations: new Map(conversationMap),
-    }],
+    history: [createHistoryBase({ nodes, edges, conversations: conversationMap })],
     historyIndex: 0,
   }, true);
 };
@@ -177,6 +177,243 @@ describe('branching invariants', () => {
     expect(branch?.inheritedContext[child.id]?.messages).toEqual(child.content.slice(0, 1));
   });
 
+  it('inherits only the chosen context in selective modes', () => {
+    const parentMessage = makeMessage('Parent question');
+    const parent = makeConversation({ id: 'parent', content: [parentMessage] });
+    const childMessages = [makeMessage('Child question'), makeMessage('Child answer', 'assistant')];
+    const child = makeConversation({
+      id: 'child',
+      parentCardIds: [parent.id],
+      inheritedContext: {
+        [parent.id]: { mode: 'full', messages: [parentMessage], timestamp: new Date(), totalParentMessages: 1 },
+      },
+      content: childMessages,
+    });
+
+    seedStore([parent, child]);
+    const store = useCanvasStore.getState();
+    const contentOf = (conversationId: string) => useCanvasStore.getState()
+      .getConversationMessages(conversationId)
+      .map((m) => m.content);
+
+    const lastN = store.branchFromMessage({ sourceCardId: child.id, messageIndex: 1, inheritanceMode: 'last-n', lastN: 2 });
+    expect(Object.keys(lastN?.inheritedContext ?? {})).toEqual([child.id]);
+    expect(lastN?.inheritedContext[child.id]?.mode).toBe('last-n');
+    expect(contentOf(lastN!.id)).toContain('Child answer');
+    expect(contentOf(lastN!.id)).not.toContain('Parent question');
+
+    const custom = store.branchFromMessage({
+      sourceCardId: child.id,
+      messageIndex: 1,
+      inheritanceMode: 'custom',
+      selectedMessageIds: [parentMessage.id],
+    });
+    expect(custom?.inheritedContext[child.id]?.messages.map((m) => m.content)).toEqual(['Parent question']);
+
+    expect(store.branchFromMessage({ sourceCardId: child.id, messageIndex: 1, inheritanceMode: 'summary' })).toBeNull();
+    const summary = store.branchFromMessage({
+      sourceCardId: child.id,
+      messageIndex: 1,
+      inheritanceMode: 'summary',
+      summary: 'They weighed two options.',
+    });
+    const summaryMessages = summary?.inheritedContext[child.id]?.messages ?? [];
+    expect(summaryMessages).toHaveLength(1);
+    expect(summaryMessages[0].role).toBe('system');
+    expect(summaryMessages[0].content).toContain('They weighed two options.');
+    expect(contentOf(summary!.id).some((content) => content.includes('an AI summary of 3 messages'))).toBe(true);
+    expect(contentOf(summary!.id)).not.toContain('Child answer');
+  });
+
+  it('leaves reasoning out of inherited context unless enabled', () => {
+    const root = makeConversation({ id: 'root', content: [makeMessage('Which offer?')] });
+    seedStore([root]);
+    useCanvasStore.getState().addAIMessage(root.id, 'Take the startup.', 'anthropic/claude-sonnet-4-6', undefined, 'answer', undefined, 'Equity outweighs salary here.');
+    expect(useCanvasStore.getState().conversations.get(root.id)!.content[1].reasoning).toBe('Equity outweighs salary here.');
+
+    const branch = useCanvasStore.getState().branchFromMessage({ sourceCardId: root.id, messageIndex: 1, inheritanceMode: 'full' });
+    const inheritedAnswer = () => useCanvasStore.getState().getConversationMessages(branch!.id)
+      .find((m) => m.role === 'assistant')?.content;
+    expect(inheritedAnswer()).toBe('Take the startup.');
+
+    usePreferencesStore.getState().setBranchingPreferences({ includeReasoningInContext: true });
+    try {
+      expect(inheritedAnswer()).toContain('Equity outweighs salary here.');
+      expect(inheritedAnswer()).toMatch(/Take the startup\.$/);
+    } finally {
+      usePreferencesStore.getState().setBranchingPreferences({ includeReasoningInContext: false });
+    }
+  });
+
+  it('sends a compaction summary in place of the messages it covers', () => {
+    const parent = makeConversation({ id: 'parent', content: [makeMessage('Plan a trip'), makeMessage('Go to Rome', 'assistant')] });
+    seedStore([parent]);
+    const branch = useCanvasStore.getState().branchFromMessage({ sourceCardId: parent.id, messageIndex: 1, inheritanceMode: 'full' });
+    const own = [makeMessage('Budget?'), makeMessage('About 2000 EUR', 'assistant'), makeMessage('Hotels?')];
+    useCanvasStore.getState().updateConversation(branch!.id, {
+      content: own,
+      compaction: {
+        summary: 'Rome trip on a 2000 EUR budget.',
+        messageCount: 2,
+        throughMessageId: own[1].id,
+        compactedTokens: 20,
+        model: 'anthropic/claude-haiku-4-5',
+        createdAt: new Date(),
+      },
+    });
+
+    const sent = () => useCanvasStore.getState().getConversationMessages(branch!.id).map((m) => m.content);
+    expect(sent()).toContain('Hotels?');
+    expect(sent().some((content) => content.includes('Rome trip on a 2000 EUR budget.'))).toBe(true);
+    expect(sent()).not.toContain('Go to Rome');
+    expect(sent()).not.toContain('Budget?');
+
+    // Editing a covered message invalidates the checkpoint
+    useCanvasStore.getState().updateConversation(branch!.id, { content: [{ ...own[0], content: 'Budget? Cheap.' }] });
+    expect(sent()).toEqual(expect.arrayContaining(['Go to Rome', 'Budget? Cheap.']));
+  });
+
+  it('detects stale branches and rebases or detaches them', () => {
+    const parent = makeConversation({
+      id: 'parent',
+      content: [makeMessage('Plan a trip'), makeMessage('Go to Rome', 'assistant'), makeMessage('Cheaper?')],
+    });
+    seedStore([parent]);
+
+    const branch = useCanvasStore.getState().branchFromMessage({ sourceCardId: parent.id, messageIndex: 1 });
+    const staleOf = () => {
+      const { conversations } = useCanvasStore.getState();
+      return getStaleInheritedContext(conversations.get(branch!.id)!, conversations);
+    };
+    expect(staleOf()).toHaveLength(0);
+
+    // Edits after the branch point don't matter
+    useCanvasStore.getState().editMessage(parent.id, 2, 'Cheaper options?');
+    expect(staleOf()).toHaveLength(0);
+
+    useCanvasStore.getState().editMessage(parent.id, 0, 'Plan a ski trip');
+    expect(staleOf()).toHaveLength(1);
+    // Computed once per conversations Map and shared by every card
+    const staleIds = selectStaleCardIds(useCanvasStore.getState());
+    expect(Array.from(staleIds)).toEqual([branch!.id]);
+    useCanvasStore.setState({ isAnyNodeDragging: true });
+    expect(selectStaleCardIds(useCanvasStore.getState())).toBe(staleIds);
+    expect(staleOf()[0].current.map((m) => m.content)).toEqual(['Plan a ski trip', 'Go to Rome']);
+
+    expect(useCanvasStore.getState().rebaseBranch(branch!.id)).toBe(true);
+    expect(staleOf()).toHaveLength(0);
+    expect(useCanvasStore.getState().getConversationMessages(branch!.id).map((m) => m.content)).toContain('Plan a ski trip');
+
+    useCanvasStore.getState().editMessage(parent.id, 0, 'Plan a beach trip');
+    expect(useCanvasStore.getState().detachBranch(branch!.id)).toBe(true);
+
+    const detached = useCanvasStore.getState().conversations.get(branch!.id)!;
+    expect(detached.parentCardIds).toEqual([]);
+    expect(detached.detachedContext?.map((m) => m.content)).toEqual(['Plan a ski trip', 'Go to Rome']);
+    expect(useCanvasStore.getState().edges.some((edge) => edge.target === branch!.id)).toBe(false);
+    expect(useCanvasStore.getState().getConversationMessages(branch!.id).map((m) => m.content)).toContain('Plan a ski trip');
+
+    useCanvasStore.getState().undo();
+    const restored = useCanvasStore.getState().conversations.get(branch!.id)!;
+    expect(restored.parentCardIds).toEqual([parent.id]);
+    expect(restored.detachedContext).toBeUndefined();
+  });
+
+  it('re-parents cards and moves or copies subtrees to another workspace', () => {
+    const root = makeConversation({ id: 'root', content: [makeMessage('Idea'), makeMessage('Details', 'assistant')] });
+    const other = makeConversation({ id: 'other', content: [makeMessage('Budget'), makeMessage('Tight', 'assistant')] });
+    seedStore([root, other]);
+
+    const child = useCanvasStore.getState().branchFromMessage({ sourceCardId: root.id, messageIndex: 1 })!;
+    useCanvasStore.getState().updateConversation(child.id, { content: [makeMessage('Go on'), makeMessage('More', 'assistant')] });
+    const grandchild = useCanvasStore.getState().branchFromMessage({ sourceCardId: child.id, messageIndex: 1 })!;
+
+    // A card cannot move under its own descendant
+    expect(useCanvasStore.getState().reparentConversation(root.id, grandchild.id)).toBe(false);
+
+    expect(useCanvasStore.getState().reparentConversation(child.id, other.id)).toBe(true);
+    let state = useCanvasStore.getState();
+    const moved = state.conversations.get(child.id)!;
+    expect(moved.parentCardIds).toEqual([other.id]);
+    expect(Object.keys(moved.inheritedContext)).toEqual([other.id]);
+    expect(moved.branchPoint).toEqual({ parentCardId: other.id, messageIndex: 1 });
+    expect(state.edges.filter((edge) => edge.target === child.id).map((edge) => edge.source)).toEqual([other.id]);
+    expect(state.getConversationMessages(grandchild.id).map((m) => m.content)).toContain('Budget');
+
+    const target = { ...makeWorkspace([], []), id: 'ws-2' };
+    useCanvasStore.setState({ workspaces: [...state.workspaces, target] });
+
+    expect(useCanvasStore.getState().moveSubtreeToWorkspace(child.id, 'ws-2', { copy: true })).toBe(2);
+    state = useCanvasStore.getState();
+    let copies = state.workspaces.find((w) => w.id === 'ws-2')!.conversations;
+    const copiedRoot = copies.find((conv) => conv.parentCardIds.length === 0)!;
+    const copiedChild = copies.find((conv) => conv.parentCardIds.length > 0)!;
+    expect([copiedRoot.id, copiedChild.id]).not.toContain(child.id);
+    expect(copiedRoot.detachedContext?.map((m) => m.content)).toEqual(['Budget', 'Tight']);
+    expect(copiedChild.parentCardIds).toEqual([copiedRoot.id]);
+    expect(Object.keys(copiedChild.inheritedContext)).toEqual([copiedRoot.id]);
+    expect(state.workspaces.find((w) => w.id === 'ws-2')!.edges).toEqual([
+      expect.objectContaining({ source: copiedRoot.id, target: copiedChild.id }),
+    ]);
+    expect(state.conversations.has(child.id)).toBe(true);
+
+    // A merge that also draws from a card outside the subtree stays behind
+    const merge = useCanvasStore.getState().createMergeNode({
+      sourceCardIds: [grandchild.id, root.id],
+      position: { x: 1200, y: 0 },
+      synthesisPrompt: 'Combine',
+    })!;
+
+    expect(useCanvasStore.getState().moveSubtreeToWorkspace(child.id, 'ws-2')).toBe(2);
+    state = useCanvasStore.getState();
+    copies = state.workspaces.find((w) => w.id === 'ws-2')!.conversations;
+    expect(copies.map((conv) => conv.id)).toEqual(expect.arrayContaining([child.id, grandchild.id]));
+    expect(copies.every((conv) => conv.canvasId === 'ws-2')).toBe(true);
+    // Moved descendants only inherit from cards that moved with them
+    expect(Object.keys(copies.find((conv) => conv.id === grandchild.id)!.inheritedContext)).toEqual([child.id]);
+    const leftBehind = state.conversations.get(merge.id)!;
+    expect(leftBehind.parentCardIds).toEqual([root.id]);
+    expect(leftBehind.isMergeNode).toBe(false);
+    expect(leftBehind.mergeMetadata).toBeUndefined();
+    expect(state.conversations.has(child.id)).toBe(false);
+    expect(state.conversations.get(other.id)!.connections).not.toContain(child.id);
+    expect(state.edges.some((edge) => edge.source === child.id || edge.target === child.id)).toBe(false);
+  });
+
+  it('pastes copied card trees with fresh IDs and rewired context', () => {
+    const root = makeConversation({ id: 'root', content: [makeMessage('Idea'), makeMessage('Details', 'assistant')] });
+    seedStore([root]);
+
+    const child = useCanvasStore.getState().branchFromMessage({ sourceCardId: root.id, messageIndex: 1 })!;
+    useCanvasStore.getState().updateConversation(child.id, { content: [makeMessage('Go on'), makeMessage('More', 'assistant')] });
+    const grandchild = useCanvasStore.getState().branchFromMessage({ sourceCardId: child.id, messageIndex: 1 })!;
+
+    expect(useCanvasStore.getState().copyCards([child.id])).toBe(2);
+    const pasted = useCanvasStore.getState().pasteCards({ x: 2000, y: 900 });
+    expect(pasted).toHaveLength(2);
+
+    const state = useCanvasStore.getState();
+    const [pastedChild, pastedGrandchild] = pasted;
+    expect(pasted.map((conv) => conv.id)).not.toContain(child.id);
+    expect(pasted.map((conv) => conv.id)).not.toContain(grandchild.id);
+    expect(pastedChild.position).toEqual({ x: 2000, y: 900 });
+    expect(pastedChild.parentCardIds).toEqual([]);
+    expect(pastedChild.detachedContext?.map((m) => m.content)).toEqual(['Idea', 'Details']);
+    expect(pastedGrandchild.parentCardIds).toEqual([pastedChild.id]);
+    expect(Object.keys(pastedGrandchild.inheritedContext)).toEqual([pastedChild.id]);
+    expect(state.edges.filter((edge) => edge.target === pastedGrandchild.id).map((edge) => edge.source)).toEqual([pastedChild.id]);
+    expect(state.getConversationMessages(pastedGrandchild.id).map((m) => m.content)).toEqual(
+      expect.arrayContaining(['Idea', 'Go on', 'More'])
+    );
+    expect(Array.from(state.selectedNodeIds)).toEqual(pasted.map((conv) => conv.id));
+    // The originals are untouched
+    expect(state.conversations.get(child.id)!.parentCardIds).toEqual([root.id]);
+
+    useCanvasStore.getState().undo();
+    expect(useCanvasStore.getState().conversations.has(pastedChild.id)).toBe(false);
+    expect(useCanvasStore.getState().cardClipboard?.conversations).toHaveLength(2);
+  });
+
   it('enforces merge parent limit', () => {
     const parents = Array.from({ length: 6 }, (_, index) => (
       makeConversation({
@@ -198,6 +435,58 @@ describe('branching invariants', () => {
     expect(useCanvasStore.getState().conversations.size).toBe(parents.length);
   });
 
+  it('stores the synthesis strategy on merge nodes', () => {
+    const parents = ['Rent', 'Buy'].map((title, index) => makeConversation({
+      id: `parent-${index}`,
+      content: [makeMessage(title)],
+      metadata: { title, createdAt: new Date(), updatedAt: new Date(), messageCount: 1, tags: [], isExpanded: false },
+    }));
+    seedStore(parents);
+
+    const merge = useCanvasStore.getState().createMergeNode({
+      sourceCardIds: parents.map((conv) => conv.id),
+      position: { x: 600, y: 0 },
+      strategy: 'custom',
+      customTemplate: 'Weigh {{sources}} ({{count}} options).',
+    })!;
+
+    expect(merge.mergeMetadata?.strategy).toBe('custom');
+    expect(getMergeSynthesisPrompt(merge, useCanvasStore.getState().conversations)).toBe('Weigh "Rent", "Buy" (2 options).');
+
+    useCanvasStore.getState().updateConversation(parents[1].id, {
+      metadata: { ...parents[1].metadata, title: 'Buy a flat' },
+    });
+    expect(getMergeSynthesisPrompt(merge, useCanvasStore.getState().conversations)).toBe('Weigh "Rent", "Buy a flat" (2 options).');
+    expect(buildSynthesisPrompt('pick-best', ['Rent', 'Buy'])).toContain('"Rent", "Buy"');
+  });
+
+  it('inherits card instructions down a branch until overridden', () => {
+    const root = makeConversation({ id: 'root', content: [makeMessage('Review my plan')] });
+    seedStore([root]);
+    useCanvasStore.getState().updateConversation(root.id, { personaId: 'skeptical-reviewer', systemPrompt: 'Focus on cost.' });
+
+    const branch = useCanvasStore.getState().branchFromMessage({ sourceCardId: root.id, messageIndex: 0 })!;
+    const leaf = useCanvasStore.getState().branchFromMessage({ sourceCardId: branch.id, messageIndex: 0 })!;
+    useCanvasStore.getState().updateConversation(branch.id, { systemPrompt: 'Focus on risk.' });
+    useCanvasStore.getState().updateConversation(leaf.id, { personaId: '' });
+
+    const resolve = (id: string) => {
+      const { conversations } = useCanvasStore.getState();
+      return resolveCardInstructions(conversations.get(id)!, conversations);
+    };
+    expect(resolve(branch.id)).toMatchObject({ personaId: 'skeptical-reviewer', personaSourceId: root.id, systemPrompt: 'Focus on risk.' });
+    expect(resolve(leaf.id)).toEqual({ systemPrompt: 'Focus on risk.', systemPromptSourceId: branch.id });
+
+    const layers = buildInstructionLayers({ workspaceInstructions: 'Be brief.', ...resolve(branch.id) });
+    expect(layers.map((layer) => layer.source)).toEqual(['workspace', 'persona', 'card']);
+
+    // Detaching keeps what the card inherited
+    useCanvasStore.getState().detachBranch(branch.id);
+    const detached = useCanvasStore.getState().conversations.get(branch.id)!;
+    expect(detached.personaId).toBe('skeptical-reviewer');
+    expect(detached.systemPrompt).toBe('Focus on risk.');
+  });
+
   it('keeps undo/redo consistent for branch creation', () => {
     const root = makeConversation({
       id: 'root',
@@ -356,4 +645,67 @@ describe('branching invariants', () => {
     const restoredNode = useCanvasStore.getState().nodes.find(n => n.id === 'card-del');
     expect(restoredNode?.data.conversation.content).toHaveLength(2);
   });
+
+  it('fans one prompt out to sibling branches with their own model', () => {
+    const root = makeConversation({
+      id: 'root',
+      content: [makeMessage('Question?', 'user'), makeMessage('Answer!', 'assistant')],
+      position: { x: 0, y: 0 },
+    });
+    seedStore([root]);
+
+    const models = ['anthropic/claude-sonnet-4-6', 'openai/gpt-5.2'];
+    const branches = useCanvasStore.getState().fanOutMessage({
+      sourceCardId: root.id,
+      models,
+      content: 'Compare this',
+    });
+
+    const state = useCanvasStore.getState();
+    const stored = branches.map((branch) => state.conversations.get(branch.id));
+    expect(stored.map((conv) => conv?.model)).toEqual(models);
+    expect(stored.map((conv) => conv?.content.map((msg) => msg.content))).toEqual([['Compare this'], ['Compare this']]);
+    expect(stored.every((conv) => conv?.parentCardIds[0] === root.id)).toBe(true);
+    expect(new Set(stored.map((conv) => conv?.position.y)).size).toBe(2);
+    expect(root.content).toHaveLength(2);
+
+    // One undo step removes every branch
+    state.undo();
+    expect(useCanvasStore.getState().conversations.size).toBe(1);
+  });
+
+  it('keeps regenerated responses as variants through undo', () => {
+    const prompt = makeMessage('Which offer?', 'user');
+    const first = makeMessage('Take the startup.', 'assistant');
+    const root = makeConversation({ id: 'root', content: [prompt, first] });
+    seedStore([root]);
+
+    // Regenerate: ChatPanel truncates the old response, then persists the new one as its variant
+    const state = useCanvasStore.getState();
+    state.updateConversation(root.id, { content: [prompt] });
+    state.addAIMessage(root.id, 'Take the corporation.', 'openai/gpt-5.2', undefined, 'regenerated', first);
+
+    let message = useCanvasStore.getState().conversations.get(root.id)!.content[1];
+    expect(message.content).toBe('Take the corporation.');
+    expect(message.variants?.map((v) => v.content)).toEqual(['Take the startup.', 'Take the corporation.']);
+    expect(message.activeVariantIndex).toBe(1);
+
+    // The active variant is what downstream context sees
+    useCanvasStore.getState().setActiveVariant(root.id, 1, 0);
+    expect(useCanvasStore.getState().getConversationMessages(root.id).map((m) => m.content))
+      .toEqual(['Which offer?', 'Take the startup.']);
+
+    // Promoting a variant branches from the prompt with the variant as the reply
+    const branch = useCanvasStore.getState().promoteVariantToBranch(root.id, 1, 1);
+    expect(branch?.branchPoint?.messageIndex).toBe(0);
+    expect(branch?.content.map((m) => m.content)).toEqual(['Take the corporation.']);
+
+    // Undoing the promotion removes the branch but keeps every variant
+    useCanvasStore.getState().undo();
+    const after = useCanvasStore.getState().conversations;
+    expect(after.has(branch!.id)).toBe(false);
+    message = after.get(root.id)!.content[1];
+    expect(message.variants).toHaveLength(2);
+    expect(message.content).toBe('Take the startup.');
+  });
 });
@@ -0,0 +1,174 @@
+/**
+ * Tests for diff-based canvas history: recording, stepping and trimming.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Edge } from '@xyflow/react';
+
+import {
+  applyHistoryChanges,
+  createHistoryBase,
+  diffHistoryState,
+  getUndoChanges,
+  matchesHistoryHead,
+  pushHistoryEntry,
+  shareLiveReferences,
+  trimHistory,
+  type HistoryEntry,
+  type HistoryState,
+} from '../lib/canvas-history';
+import type { Conversation } from '../types';
+import { FIXTURE_DATE, makeConversation } from './fixtures';
+
+const makeCard = (id: string, title = id, messages: string[] = [], titleIsManual = false): Conversation =>
+  makeConversation(id, messages, { metadata: { title, titleIsManual } });
+
+const makeNode = (conversation: Conversation, x = 0) => ({
+  id: conversation.id,
+  type: 'conversation',
+  position: { x, y: 0 },
+  data: { conversation, isExpanded: false, isSelected: false },
+});
+
+const makeState = (cards: Conversation[], edges: Edge[] = []): HistoryState => ({
+  nodes: cards.map((card) => makeNode(card)),
+  edges,
+  conversations: new Map(cards.map((card) => [card.id, card])),
+});
+
+const withCard = (state: HistoryState, card: Conversation, x = 0): HistoryState => ({
+  nodes: state.nodes.some((node) => node.id === card.id)
+    ? state.nodes.map((node) => (node.id === card.id ? makeNode(card, x) : node))
+    : [...state.nodes, makeNode(card, x)],
+  edges: state.edges,
+  conversations: new Map(state.conversations).set(card.id, card),
+});
+
+function record(history: HistoryEntry[], live: HistoryState, label: string, limit?: number): HistoryEntry[] {
+  const changes = diffHistoryState(history, history.length - 1, live);
+  if (!changes) return history;
+  return pushHistoryEntry(history, history.length - 1, { label, timestamp: FIXTURE_DATE, ...changes }, limit);
+}
+
+describe('diffHistoryState', () => {
+  it('records only the cards and edges that changed', () => {
+    const initial = makeState([makeCard('a'), makeCard('b')]);
+    const history = [createHistoryBase(initial)];
+
+    const edge: Edge = { id: 'edge-1', source: 'a', target: 'c' };
+    const live = { ...withCard(initial, makeCard('c')), edges: [edge] };
+    const changes = diffHistoryState(history, 0, live);
+
+    expect(Array.from(changes!.cards.keys())).toEqual(['c']);
+    expect(changes!.edges).toEqual([edge]);
+    expect(changes!.cards.get('c')?.node).toBe(live.nodes[2]);
+  });
+
+  it('returns null when nothing changed', () => {
+    const initial = makeState([makeCard('a')]);
+    expect(diffHistoryState([createHistoryBase(initial)], 0, initial)).toBeNull();
+  });
+});
+
+describe('undo and redo', () => {
+  it('removes an added card on undo and brings it back on redo', () => {
+    const initial = makeState([makeCard('a')]);
+    const live = withCard(initial, makeCard('b'));
+    const history = record([createHistoryBase(initial)], live, 'Card created');
+
+    const undone = applyHistoryChanges(live, getUndoChanges(history, 1), history[1].cards);
+    expect(Array.from(undone.conversations.keys())).toEqual(['a']);
+    expect(undone.nodes.map((node) => node.id)).toEqual(['a']);
+
+    const redone = applyHistoryChanges(undone, history[1], getUndoChanges(history, 1).cards);
+    expect(Array.from(redone.conversations.keys())).toEqual(['a', 'b']);
+  });
+
+  it('keeps live messages but reverts a recorded manual rename', () => {
+    const initial = makeState([makeCard('a', 'Draft')]);
+    const renamed = withCard(initial, makeCard('a', 'Final', [], true));
+    const history = record([createHistoryBase(initial)], renamed, 'Renamed to "Final"');
+
+    // A message arrives after the rename without being recorded
+    const live = withCard(renamed, makeCard('a', 'Final', ['Hello'], true));
+    const undone = applyHistoryChanges(live, getUndoChanges(history, 1), history[1].cards);
+
+    const card = undone.conversations.get('a')!;
+    expect(card.metadata.title).toBe('Draft');
+    expect(card.content).toHaveLength(1);
+    expect(undone.nodes[0].data.conversation).toBe(card);
+  });
+
+  it('restores an earlier position when undoing a move', () => {
+    const card = makeCard('a');
+    const initial = makeState([card]);
+    const moved = withCard(initial, card, 400);
+    const history = record([createHistoryBase(initial)], moved, 'Card moved');
+
+    const undone = applyHistoryChanges(moved, getUndoChanges(history, 1), history[1].cards);
+    expect(undone.nodes[0].position.x).toBe(0);
+  });
+});
+
+describe('pushHistoryEntry', () => {
+  it('folds the oldest entries into the base past the limit', () => {
+    let live = makeState([]);
+    let history = [createHistoryBase(live)];
+    ['a', 'b', 'c', 'd'].forEach((id) => {
+      live = withCard(live, makeCard(id));
+      history = record(history, live, `Added ${id}`, 3);
+    });
+
+    expect(history).toHaveLength(3);
+    expect(history.map((entry) => entry.label)).toEqual(['Added b', 'Added c', 'Added d']);
+    expect(Array.from(history[0].cards.keys())).toEqual(['a', 'b']);
+    expect(matchesHistoryHead(history, 2, live)).toBe(true);
+  });
+});
+
+describe('trimHistory', () => {
+  it('keeps the newest entries on top of a full base', () => {
+    let live = makeState([]);
+    let history = [createHistoryBase(live)];
+    ['a', 'b', 'c', 'd'].forEach((id) => {
+      live = withCard(live, makeCard(id));
+      history = record(history, live, `Added ${id}`);
+    });
+
+    const trimmed = trimHistory(history, history.length - 1, 2);
+
+    expect(trimmed.entries.map((entry) => entry.label)).toEqual(['Added c', 'Added d']);
+    expect(trimmed.index).toBe(1);
+    expect(Array.from(trimmed.entries[0].cards.keys())).toEqual(['a', 'b', 'c']);
+    expect(matchesHistoryHead(trimmed.entries, trimmed.index, live)).toBe(true);
+  });
+});
+
+describe('shareLiveReferences', () => {
+  it('lets the first diff after a restore record only the changed card', () => {
+    let live = makeState([makeCard('a'), makeCard('b')]);
+    let history = [createHistoryBase(live)];
+    live = withCard(live, makeCard('c'));
+    history = record(history, live, 'Added c');
+
+    // Stored entries come back as copies of the live objects
+    const restored = structuredClone(history);
+    const shared = shareLiveReferences(restored, 1, live);
+
+    expect(diffHistoryState(restored, 1, live)!.cards.size).toBe(3);
+    expect(diffHistoryState(shared, 1, live)).toBeNull();
+
+    const moved = withCard(live, live.conversations.get('b')!, 40);
+    expect(Array.from(diffHistoryState(shared, 1, moved)!.cards.keys())).toEqual(['b']);
+  });
+
+  it('keeps the copy of a card that changed since it was saved', () => {
+    const saved = makeState([makeCard('a')]);
+    const restored = structuredClone([createHistoryBase(saved)]);
+    const live = withCard(saved, makeCard('a', 'Renamed'));
+
+    const shared = shareLiveReferences(restored, 0, live);
+    expect(shared[0].cards.get('a')!.conversation).not.toBe(live.conversations.get('a'));
+    expect(shared[0].edges).toBe(live.edges);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for ChatGPT / Claude export import.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { chatHistoryToWorkspace, parseChatHistoryExport } from '../lib/chat-history-import';
+
+const gptNode = (id: string, parent: string | null, role: string | null, text = '', children: string[] = []) => ({
+  id,
+  parent,
+  children,
+  message: role
+    ? { id, author: { role }, create_time: 1700000000, content: { content_type: 'text', parts: [text] } }
+    : null,
+});
+
+// root → system → "Q1" → "A1" → { "Q2 edited" → "A2b", "Q2" → "A2" }
+const chatGPTExport = [{
+  title: 'Trip planning',
+  create_time: 1700000000,
+  mapping: {
+    root: gptNode('root', null, null, '', ['sys']),
+    sys: gptNode('sys', 'root', 'system', '', ['q1']),
+    q1: gptNode('q1', 'sys', 'user', 'Q1', ['a1']),
+    a1: gptNode('a1', 'q1', 'assistant', 'A1', ['q2', 'q2b']),
+    q2: gptNode('q2', 'a1', 'user', 'Q2', ['a2']),
+    a2: gptNode('a2', 'q2', 'assistant', 'A2'),
+    q2b: gptNode('q2b', 'a1', 'user', 'Q2 edited', ['a2b']),
+    a2b: gptNode('a2b', 'q2b', 'assistant', 'A2b'),
+  },
+}];
+
+describe('parseChatHistoryExport', () => {
+  it('detects the export source', () => {
+    expect(parseChatHistoryExport(JSON.stringify(chatGPTExport)).source).toBe('chatgpt');
+    expect(parseChatHistoryExport(JSON.stringify([{ name: 'x', chat_messages: [] }])).source).toBe('claude');
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseChatHistoryExport('not json')).toThrow('not valid JSON');
+    expect(() => parseChatHistoryExport(JSON.stringify([{ foo: 1 }]))).toThrow('Not a ChatGPT or Claude');
+  });
+});
+
+describe('chatHistoryToWorkspace', () => {
+  it('splits a ChatGPT mapping tree into one card per linear segment', () => {
+    const { source, conversations } = parseChatHistoryExport(JSON.stringify(chatGPTExport));
+    const { workspace, conversationCount } = chatHistoryToWorkspace(source, conversations);
+
+    expect(conversationCount).toBe(1);
+    expect(workspace.conversations).toHaveLength(3);
+
+    const [trunk, ...branches] = workspace.conversations;
+    expect(trunk.metadata.title).toBe('Trip planning');
+    expect(trunk.content.map((msg) => msg.content)).toEqual(['Q1', 'A1']);
+    expect(branches.map((card) => card.content.map((msg) => msg.content)).sort()).toEqual([
+      ['Q2 edited', 'A2b'],
+      ['Q2', 'A2'],
+    ]);
+
+    branches.forEach((card) => {
+      expect(card.canvasId).toBe(workspace.id);
+      expect(card.parentCardIds).toEqual([trunk.id]);
+      expect(card.branchPoint).toEqual({ parentCardId: trunk.id, messageIndex: 1 });
+      expect(card.inheritedContext[trunk.id].messages).toEqual(trunk.content);
+      expect(card.position.x).toBeGreaterThan(trunk.position.x);
+    });
+    expect(workspace.edges).toHaveLength(2);
+    expect(workspace.edges.every((edge) => edge.relationType === 'branch' && edge.source === trunk.id)).toBe(true);
+  });
+
+  it('imports Claude conversations, forking on parent_message_uuid', () => {
+    const raw = JSON.stringify([
+      {
+        name: 'Linear',
+        chat_messages: [
+          { uuid: 'm1', sender: 'human', text: 'Hello' },
+          { uuid: 'm2', sender: 'assistant', content: [{ type: 'text', text: 'Hi there' }] },
+        ],
+      },
+      {
+        name: 'Retried',
+        chat_messages: [
+          { uuid: 'r1', parent_message_uuid: '00000000-0000-4000-8000-000000000000', sender: 'human', text: 'Q' },
+          { uuid: 'r2', parent_message_uuid: 'r1', sender: 'assistant', text: 'First answer' },
+          { uuid: 'r3', parent_message_uuid: 'r1', sender: 'assistant', text: 'Second answer' },
+        ],
+      },
+      { name: 'Empty', chat_messages: [] },
+    ]);
+
+    const { source, conversations } = parseChatHistoryExport(raw);
+    const { workspace, conversationCount } = chatHistoryToWorkspace(source, conversations);
+
+    expect(conversationCount).toBe(2);
+    const titles = workspace.conversations.map((card) => card.metadata.title);
+    expect(titles[0]).toBe('Linear');
+    expect(workspace.conversations[0].content.map((msg) => msg.role)).toEqual(['user', 'assistant']);
+    expect(titles[1]).toBe('Retried');
+    expect(workspace.conversations).toHaveLength(4);
+    expect(workspace.conversations[1].content.map((msg) => msg.content)).toEqual(['Q']);
+  });
+
+  it('attaches children of skipped Claude messages to the nearest kept ancestor', () => {
+    const raw = JSON.stringify([{
+      name: 'Tool use',
+      chat_messages: [
+        { uuid: 'q1', parent_message_uuid: '', sender: 'human', text: 'Search for flights' },
+        { uuid: 'tool', parent_message_uuid: 'q1', sender: 'assistant', content: [{ type: 'tool_use' }] },
+        { uuid: 'a1', parent_message_uuid: 'tool', sender: 'assistant', text: 'Found three' },
+        { uuid: 'a1b', parent_message_uuid: 'tool', sender: 'assistant', text: 'Found two' },
+      ],
+    }]);
+
+    const { source, conversations } = parseChatHistoryExport(raw);
+    expect(conversations[0].turns.map((turn) => turn.parentId)).toEqual([null, 'q1', 'q1']);
+
+    const { workspace } = chatHistoryToWorkspace(source, conversations);
+    const [trunk, ...branches] = workspace.conversations;
+    expect(trunk.content.map((msg) => msg.content)).toEqual(['Search for flights']);
+    expect(branches).toHaveLength(2);
+    expect(branches.every((card) => card.parentCardIds[0] === trunk.id)).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for context-window measurement and compaction checkpoints.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { withInlinedAttachments } from '../lib/attachment-store';
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  KEEP_RECENT_MESSAGES,
+  getCompactionCutoff,
+  getContextUsage,
+  getCurrentCompaction,
+  hasCompactableContext,
+  shouldCompact,
+  splitForSummary,
+} from '../lib/context-compaction';
+import { makeConversation, makeMessage } from './fixtures';
+
+const makeCard = (count: number) => makeConversation(
+  'card',
+  Array.from({ length: count }, (_, i) => `Message ${i}`)
+);
+
+describe('context compaction', () => {
+  it('measures usage against the model context window', () => {
+    const usage = getContextUsage([{ content: 'x'.repeat(4000) }], 'anthropic/claude-sonnet-4-6', 1000);
+    expect(usage.tokens).toBe(2000);
+    expect(usage.contextWindow).toBe(200000);
+    expect(shouldCompact(usage)).toBe(false);
+
+    expect(getContextUsage([], 'unknown/model').contextWindow).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(shouldCompact(getContextUsage([{ content: 'x'.repeat(DEFAULT_CONTEXT_WINDOW * 4) }], 'unknown/model'))).toBe(true);
+  });
+
+  it('keeps recent messages and drops checkpoints that no longer match', () => {
+    const conversation = makeCard(10);
+    expect(getCompactionCutoff(conversation)).toBe(10 - KEEP_RECENT_MESSAGES);
+
+    const checkpoint = {
+      summary: 'Summary',
+      messageCount: 6,
+      throughMessageId: 'card-5',
+      compactedTokens: 30,
+      model: 'anthropic/claude-haiku-4-5',
+      createdAt: new Date(),
+    };
+    expect(getCurrentCompaction({ ...conversation, compaction: checkpoint })).toBe(checkpoint);
+    // Truncated below the checkpoint, or the covered message replaced
+    expect(getCurrentCompaction({ ...conversation, content: conversation.content.slice(0, 4), compaction: checkpoint })).toBeNull();
+    expect(getCurrentCompaction({ ...conversation, compaction: { ...checkpoint, throughMessageId: 'card-x' } })).toBeNull();
+  });
+
+  it('lets a card with few messages compact what it inherits', () => {
+    expect(hasCompactableContext(makeCard(2))).toBe(false);
+    expect(hasCompactableContext(makeCard(6))).toBe(true);
+
+    const branch = { ...makeCard(1), parentCardIds: ['parent'] };
+    expect(hasCompactableContext(branch)).toBe(true);
+    const compacted = {
+      ...branch,
+      compaction: { summary: 'Summary', messageCount: 0, compactedTokens: 30, model: 'anthropic/claude-haiku-4-5', createdAt: new Date() },
+    };
+    expect(getCurrentCompaction(compacted)).toBe(compacted.compaction);
+    expect(hasCompactableContext(compacted)).toBe(false);
+  });
+
+  it('skips compacting when the kept messages alone are past the threshold', () => {
+    const full = getContextUsage([{ content: 'x'.repeat(DEFAULT_CONTEXT_WINDOW * 4) }], 'unknown/model');
+    const small = getContextUsage([{ content: 'recent' }], 'unknown/model');
+    expect(shouldCompact(full, small)).toBe(true);
+    expect(shouldCompact(full, full)).toBe(false);
+  });
+
+  it('measures text attachments inlined into the content', async () => {
+    const text = 'y'.repeat(4000);
+    const message = makeMessage('m', 'See file', 'user', {
+      attachments: [{ id: 'a', name: 'notes.md', contentType: 'text/markdown', url: `data:text/markdown;base64,${btoa(text)}` }],
+    });
+    const [inlined] = await withInlinedAttachments([message]);
+    expect(inlined.content).toContain(text);
+    expect(getContextUsage([inlined], 'unknown/model').tokens).toBeGreaterThan(1000);
+  });
+
+  it('splits history too long for one summary request into stages', () => {
+    // Stages hold half the window minus room for the running summary
+    const stageChars = (DEFAULT_CONTEXT_WINDOW / 2 - 2000) * 4;
+    const messages = [
+      { role: 'user' as const, content: 'a'.repeat(stageChars / 2) },
+      { role: 'assistant' as const, content: 'b'.repeat(stageChars / 2) },
+      { role: 'user' as const, content: 'c'.repeat(stageChars * 2 + 10) },
+    ];
+    const stages = splitForSummary(messages, 'unknown/model');
+
+    expect(stages.map((stage) => stage.map((m) => m.content.length))).toEqual([
+      [stageChars / 2, stageChars / 2],
+      [stageChars],
+      [stageChars],
+      [10],
+    ]);
+    expect(stages[3][0].role).toBe('user');
+    expect(splitForSummary(messages.slice(0, 1), 'anthropic/claude-sonnet-4-6')).toHaveLength(1);
+  });
+});
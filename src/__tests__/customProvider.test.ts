@@ -0,0 +1,91 @@
+/**
+ * Tests for routing custom/... models to an OpenAI-compatible endpoint.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { assertCustomEndpointAllowed, isPublicAddress } from '../lib/custom-endpoint-guard';
+import { createModel, detectProvider, hasAnyProviderCredentials } from '../lib/provider-factory';
+import { calculateCost, getAvailableModels, getModelById } from '../lib/vercel-ai-integration';
+import { CUSTOM_MODEL_CONFIG, getModelConfig } from '../lib/model-configs';
+
+describe('custom provider', () => {
+  it('creates a chat model on the configured base URL', () => {
+    const model = createModel('custom/meta-llama/Llama-3.1-8B', {
+      custom: { baseURL: 'http://localhost:8000/v1/' },
+    });
+
+    expect(detectProvider('custom/llama3.1:8b')).toBe('custom');
+    expect(model).toMatchObject({ provider: 'custom.chat', modelId: 'meta-llama/Llama-3.1-8B' });
+  });
+
+  it('requires an http(s) base URL', () => {
+    expect(() => createModel('custom/llama3', {})).toThrow(/base URL/);
+    expect(hasAnyProviderCredentials({ custom: { baseURL: 'file:///etc' } })).toBe(false);
+    expect(hasAnyProviderCredentials({ custom: { baseURL: 'http://localhost:11434/v1' } })).toBe(true);
+  });
+
+  it('resolves catalog entries, config and pricing for custom models', () => {
+    expect(getModelById('custom/qwen2.5')).toMatchObject({ name: 'qwen2.5', provider: 'custom' });
+    expect(getAvailableModels({ custom: ['qwen2.5'] }).map((model) => model.id)).toEqual(['custom/qwen2.5']);
+    expect(getModelConfig('custom/qwen2.5')).toBe(CUSTOM_MODEL_CONFIG);
+    expect(calculateCost('custom/qwen2.5', 1_000_000, 1_000_000)).toBe(0);
+  });
+});
+
+describe('custom endpoint guard', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  const check = (url: string) => assertCustomEndpointAllowed(new URL(url));
+
+  it('classifies loopback, private and link-local addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0'].forEach((address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+    ['::1', '[::1]', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::10.0.0.1', '64:ff9b::a9fe:a9fe', 'fec0::1', 'fefe::1'].forEach((address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+    ['8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8'].forEach((address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    });
+  });
+
+  it('rejects every host until the server lists some', async () => {
+    vi.stubEnv('CUSTOM_PROVIDER_HOSTS', '');
+    await expect(check('https://api.together.xyz/v1')).rejects.toThrow(/disabled on this server/);
+  });
+
+  it('only allows listed hosts, including internal ones listed by name', async () => {
+    vi.stubEnv('CUSTOM_PROVIDER_HOSTS', 'localhost:11434, llm.example.com');
+
+    await expect(check('http://localhost:11434/v1/chat/completions')).resolves.toBeUndefined();
+    await expect(check('https://llm.example.com:8443/v1')).resolves.toBeUndefined();
+    await expect(check('http://localhost:8080/v1')).rejects.toThrow(/not allowed/);
+    await expect(check('http://169.254.169.254/latest/meta-data')).rejects.toThrow(/not allowed/);
+  });
+
+  it('rejects internal addresses for hosts allowed by the wildcard', async () => {
+    vi.stubEnv('CUSTOM_PROVIDER_HOSTS', '*');
+    const dns = vi.fn(async (input: string) => {
+      const url = new URL(input);
+      const type = Number(url.searchParams.get('type'));
+      const answers: Record<string, Array<{ type: number; data: string }>> = {
+        'public.example.com': [{ type: 1, data: '93.184.215.14' }],
+        'internal.example.com': [{ type: 5, data: 'alias.example.com.' }, { type: 1, data: '10.0.0.5' }],
+      };
+      const Answer = (answers[url.searchParams.get('name') ?? ''] ?? []).filter((answer) => answer.type === type);
+      return new Response(JSON.stringify({ Answer }));
+    });
+    vi.stubGlobal('fetch', dns);
+
+    await expect(check('https://public.example.com/v1')).resolves.toBeUndefined();
+    await expect(check('https://internal.example.com/v1')).rejects.toThrow(/private, loopback or link-local/);
+    await expect(check('http://localhost:11434/v1')).rejects.toThrow(/could not be resolved/);
+    await expect(check('http://169.254.169.254/latest')).rejects.toThrow(/private, loopback or link-local/);
+    await expect(check('http://[::1]:8000/v1')).rejects.toThrow(/private, loopback or link-local/);
+    await expect(check('http://2130706433/v1')).rejects.toThrow(/private, loopback or link-local/);
+  });
+});
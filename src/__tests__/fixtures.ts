@@ -0,0 +1,82 @@
+/**
+ * Shared fixture factories for tests: messages, cards and workspaces with
+ * the required fields filled in and a fixed timestamp.
+ */
+
+import { CURRENT_SCHEMA_VERSION } from '../lib/storage';
+import type { Conversation, ConversationMetadata, EdgeConnection, Message, Workspace } from '../types';
+
+export const FIXTURE_DATE = new Date('2026-01-01T00:00:00Z');
+
+export const makeMessage = (
+  id: string,
+  content: string,
+  role: Message['role'] = 'user',
+  overrides: Partial<Message> = {}
+): Message => ({
+  id,
+  role,
+  content,
+  timestamp: FIXTURE_DATE,
+  ...overrides,
+});
+
+type ConversationOverrides = Partial<Omit<Conversation, 'metadata'>> & { metadata?: Partial<ConversationMetadata> };
+
+/**
+ * A card titled with its ID. Plain strings become user messages with IDs
+ * `${id}-${index}`.
+ */
+export const makeConversation = (
+  id: string,
+  messages: Array<string | Message> = [],
+  { metadata, ...overrides }: ConversationOverrides = {}
+): Conversation => {
+  const content = messages.map((message, index) => (
+    typeof message === 'string' ? makeMessage(`${id}-${index}`, message) : message
+  ));
+  return {
+    id,
+    canvasId: 'ws-1',
+    position: { x: 0, y: 0 },
+    content,
+    connections: [],
+    parentCardIds: [],
+    inheritedContext: {},
+    isMergeNode: false,
+    ...overrides,
+    metadata: {
+      title: id,
+      createdAt: FIXTURE_DATE,
+      updatedAt: FIXTURE_DATE,
+      messageCount: content.length,
+      tags: [],
+      isExpanded: false,
+      ...metadata,
+    },
+  };
+};
+
+export const makeEdge = (id: string, source: string, target: string, overrides: Partial<EdgeConnection> = {}): EdgeConnection => ({
+  id,
+  source,
+  target,
+  curveType: 'bezier',
+  relationType: 'branch',
+  ...overrides,
+});
+
+export const makeWorkspace = (
+  conversations: Conversation[],
+  edges: EdgeConnection[] = [],
+  overrides: Partial<Workspace> = {}
+): Workspace => ({
+  id: 'ws-1',
+  title: 'Research',
+  conversations,
+  edges,
+  tags: [],
+  context: { instructions: '', knowledgeBaseFiles: [], updatedAt: FIXTURE_DATE },
+  metadata: { title: 'Research', createdAt: FIXTURE_DATE, updatedAt: FIXTURE_DATE, schemaVersion: CURRENT_SCHEMA_VERSION },
+  ...overrides,
+});
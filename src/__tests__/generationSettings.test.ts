@@ -0,0 +1,45 @@
+/**
+ * Tests for validating per-card generation settings against model limits.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { getGenerationLimits, validateGenerationSettings } from '../lib/model-configs';
+
+describe('generation settings', () => {
+  it('derives limits from the model config', () => {
+    expect(getGenerationLimits('anthropic/claude-haiku-4-5')).toMatchObject({
+      temperature: { min: 0, max: 1 },
+      maxOutputTokens: { max: 64000 },
+      reasoningEffort: false,
+      thinkingBudget: { min: 1024 },
+    });
+    expect(getGenerationLimits('openai/gpt-5.2')).toMatchObject({
+      temperature: null,
+      reasoningEffort: true,
+      reasoningSummary: true,
+      thinkingBudget: null,
+    });
+  });
+
+  it('drops settings the model does not support and rejects out-of-range values', () => {
+    expect(validateGenerationSettings('openai/gpt-5.2', {
+      temperature: 0.3,
+      reasoningEffort: 'high',
+      thinkingBudget: 4096,
+    })).toEqual({ settings: { reasoningEffort: 'high' } });
+
+    // Reasoning summaries are opt-in and OpenAI-only
+    expect(validateGenerationSettings('openai/gpt-5.2', { reasoningSummary: true })).toEqual({ settings: { reasoningSummary: true } });
+    expect(validateGenerationSettings('anthropic/claude-sonnet-4-6', { reasoningSummary: true })).toEqual({ settings: {} });
+
+    // Extended thinking replaces the temperature
+    expect(validateGenerationSettings('anthropic/claude-sonnet-4-6', { temperature: 0.2, thinkingBudget: 2048 }))
+      .toEqual({ settings: { thinkingBudget: 2048 } });
+
+    expect(validateGenerationSettings('anthropic/claude-sonnet-4-6', { temperature: 1.5 }).error).toMatch(/between 0 and 1/);
+    expect(validateGenerationSettings('anthropic/claude-haiku-4-5', { maxOutputTokens: 100000 }).error).toMatch(/64,000/);
+    expect(validateGenerationSettings('anthropic/claude-haiku-4-5', { maxOutputTokens: 60000, thinkingBudget: 8000 }).error)
+      .toMatch(/plus thinking budget/);
+  });
+});
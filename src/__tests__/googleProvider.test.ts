@@ -0,0 +1,31 @@
+/**
+ * Tests for routing google/... models to the Gemini API.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { createModel, detectProvider, getWebSearchTools } from '../lib/provider-factory';
+import { calculateCost, getAvailableModels, getDefaultModel } from '../lib/vercel-ai-integration';
+import { apiKeyManager } from '../lib/api-key-manager';
+
+const GOOGLE_KEY = 'AIzaSyTest1234567890';
+
+describe('google provider', () => {
+  it('creates Gemini models and search grounding with a Google key', () => {
+    expect(detectProvider('google/gemini-2.5-pro')).toBe('google');
+    expect(createModel('google/gemini-2.5-pro', { google: GOOGLE_KEY })).toMatchObject({ modelId: 'gemini-2.5-pro' });
+    expect(Object.keys(getWebSearchTools('google/gemini-2.5-pro', { google: GOOGLE_KEY }, { webSearch: true }))).toEqual(['web_search']);
+    expect(() => createModel('google/gemini-2.5-pro', {})).toThrow(/Google API key/);
+  });
+
+  it('lists and prices Gemini models', () => {
+    expect(getAvailableModels({ google: true }).every((model) => model.provider === 'google')).toBe(true);
+    expect(getDefaultModel('google').id).toBe('google/gemini-2.5-pro');
+    expect(calculateCost('google/gemini-2.5-flash', 1_000_000, 1_000_000)).toBeCloseTo(2.8);
+  });
+
+  it('validates Google key format', () => {
+    expect(apiKeyManager.validateKeyFormat('google', GOOGLE_KEY).valid).toBe(true);
+    expect(apiKeyManager.validateKeyFormat('google', 'sk-not-google').valid).toBe(false);
+  });
+});
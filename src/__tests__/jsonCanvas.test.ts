@@ -0,0 +1,83 @@
+/**
+ * Tests for the JSON Canvas converter.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { jsonCanvasToWorkspace, parseJsonCanvas, workspaceToJsonCanvas } from '../lib/json-canvas';
+import type { Conversation } from '../types';
+import { makeConversation, makeEdge, makeMessage, makeWorkspace } from './fixtures';
+
+const makeCard = (id: string, x: number, overrides: Partial<Conversation> = {}): Conversation => makeConversation(id, [
+  makeMessage(`${id}-q`, `Question for ${id}`),
+  makeMessage(`${id}-a`, 'An answer', 'assistant', { metadata: { model: 'gpt-4o' } }),
+], { position: { x, y: 40 }, metadata: { title: `Card ${id}` }, ...overrides });
+
+const makeResearchWorkspace = () => makeWorkspace(
+  [makeCard('a', 0), makeCard('b', 400, { parentCardIds: ['a'] })],
+  [makeEdge('edge-branch-a-b', 'a', 'b', { label: 'deeper' })]
+);
+
+describe('workspaceToJsonCanvas', () => {
+  it('maps cards to text nodes and edges to labelled links', () => {
+    const canvas = workspaceToJsonCanvas(makeResearchWorkspace());
+
+    expect(canvas.nodes).toHaveLength(2);
+    expect(canvas.nodes?.[1]).toMatchObject({ id: 'b', type: 'text', x: 400, y: 40 });
+    expect(canvas.nodes?.[0].text).toContain('# Card a');
+    expect(canvas.edges).toEqual([
+      expect.objectContaining({ fromNode: 'a', toNode: 'b', color: '2', label: 'deeper' }),
+    ]);
+  });
+});
+
+describe('jsonCanvasToWorkspace', () => {
+  it('round-trips card titles, messages and positions', () => {
+    const canvas = parseJsonCanvas(JSON.stringify(workspaceToJsonCanvas(makeResearchWorkspace())));
+    const { workspace, skippedEdges } = jsonCanvasToWorkspace(canvas, 'Imported');
+
+    expect(workspace.title).toBe('Imported');
+    expect(skippedEdges).toBe(0);
+    const [a, b] = workspace.conversations;
+    expect(a.id).not.toBe('a');
+    expect(a.canvasId).toBe(workspace.id);
+    expect(a.metadata.title).toBe('Card a');
+    expect(b.position).toEqual({ x: 400, y: 40 });
+    expect(a.content.map((msg) => [msg.role, msg.content, msg.metadata?.model])).toEqual([
+      ['user', 'Question for a', undefined],
+      ['assistant', 'An answer', 'gpt-4o'],
+    ]);
+
+    expect(workspace.edges).toEqual([
+      expect.objectContaining({ source: a.id, target: b.id, relationType: 'reference', label: 'deeper' }),
+    ]);
+  });
+
+  it('treats plain text as a single user message and skips unsupported nodes and cyclic links', () => {
+    const { workspace, skippedNodes, skippedEdges } = jsonCanvasToWorkspace({
+      nodes: [
+        { id: 'n1', type: 'text', x: 0, y: 0, width: 200, height: 100, text: 'Just a note' },
+        { id: 'n2', type: 'text', x: 300, y: 0, width: 200, height: 100, text: '## Topic\n\nMore detail' },
+        { id: 'n3', type: 'file', x: 600, y: 0, width: 200, height: 100, file: 'notes.md' },
+      ],
+      edges: [
+        { id: 'e1', fromNode: 'n1', toNode: 'n2' },
+        { id: 'e2', fromNode: 'n2', toNode: 'n1' },
+        { id: 'e3', fromNode: 'n1', toNode: 'n3' },
+      ],
+    }, 'Notes');
+
+    expect(skippedNodes).toBe(1);
+    expect(skippedEdges).toBe(2);
+    expect(workspace.edges).toHaveLength(1);
+    const [note, topic] = workspace.conversations;
+    expect(note.content).toEqual([expect.objectContaining({ role: 'user', content: 'Just a note' })]);
+    expect(topic.metadata.title).toBe('Topic');
+    expect(topic.content[0].content).toBe('More detail');
+  });
+
+  it('rejects files that are not JSON Canvas documents', () => {
+    expect(() => parseJsonCanvas('not json')).toThrow('not valid JSON');
+    expect(() => parseJsonCanvas(JSON.stringify({ format: 'other' }))).toThrow('Not a JSON Canvas file');
+  });
+});
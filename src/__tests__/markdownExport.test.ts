@@ -0,0 +1,103 @@
+/**
+ * Tests for lineage collection and Markdown export of card lineages and trees.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { exportLineageMarkdown, exportSubtreeMarkdown, renderMessageMarkdown } from '../lib/markdown-export';
+import { collectLineage } from '../stores/canvas-store';
+import type { Conversation, Message } from '../types';
+import { FIXTURE_DATE, makeConversation, makeMessage } from './fixtures';
+
+const inheritFull = (parentId: string, messages: Message[]) => ({
+  [parentId]: { mode: 'full' as const, messages, timestamp: FIXTURE_DATE, totalParentMessages: messages.length },
+});
+
+// root → child (branched at message 2) → grandchild; child + other → merge
+function makeTree(): Map<string, Conversation> {
+  const rootMessages = [
+    makeMessage('r-q1', 'Which city?'),
+    makeMessage('r-a1', 'Rome or Lisbon.', 'assistant', { metadata: { model: 'gpt-4o' } }),
+    makeMessage('r-q2', 'Only Rome then'),
+  ];
+  const childMessages = [makeMessage('c-q', 'Tell me about Lisbon'), makeMessage('c-a', 'It is hilly.', 'assistant')];
+
+  const root = makeConversation('root', rootMessages, { metadata: { title: 'Trip' } });
+  const child = makeConversation('child', childMessages, {
+    metadata: { title: 'Lisbon' },
+    parentCardIds: ['root'],
+    branchPoint: { parentCardId: 'root', messageIndex: 1 },
+    inheritedContext: inheritFull('root', rootMessages.slice(0, 2)),
+  });
+  const grandchild = makeConversation('grandchild', ['Where to stay?'], {
+    metadata: { title: 'Hotels' },
+    parentCardIds: ['child'],
+    branchPoint: { parentCardId: 'child', messageIndex: 1 },
+    inheritedContext: { ...child.inheritedContext, ...inheritFull('child', childMessages) },
+  });
+  const other = makeConversation('other', ['Budget?'], { metadata: { title: 'Budget' } });
+  const merge = makeConversation('merge', [], {
+    metadata: { title: 'Plan' },
+    parentCardIds: ['child', 'other'],
+    isMergeNode: true,
+    mergeMetadata: { sourceCardIds: ['child', 'other'], synthesisPrompt: 'Combine both', createdAt: FIXTURE_DATE },
+    inheritedContext: { ...inheritFull('child', childMessages), ...inheritFull('other', other.content) },
+  });
+
+  return new Map([root, child, grandchild, other, merge].map((conversation) => [conversation.id, conversation]));
+}
+
+describe('collectLineage', () => {
+  it('orders the path root first with the messages each card passed on', () => {
+    const conversations = makeTree();
+    const segments = collectLineage(conversations.get('grandchild')!, conversations);
+
+    expect(segments.map((segment) => segment.conversation.id)).toEqual(['root', 'child', 'grandchild']);
+    // Root contributes only the messages up to the branch point
+    expect(segments[0].messages.map((message) => message.id)).toEqual(['r-q1', 'r-a1']);
+    expect(segments[1].messages.map((message) => message.id)).toEqual(['c-q', 'c-a']);
+    expect(segments[2].messages.map((message) => message.content)).toEqual(['Where to stay?']);
+  });
+
+  it('follows only the primary parent of a merge node', () => {
+    const conversations = makeTree();
+    const segments = collectLineage(conversations.get('merge')!, conversations);
+
+    expect(segments.map((segment) => segment.conversation.id)).toEqual(['root', 'child', 'merge']);
+  });
+});
+
+describe('markdown export', () => {
+  it('formats messages with role, model and attachments', () => {
+    const message = makeMessage('m', '  Rome.  ', 'assistant', {
+      metadata: { model: 'gpt-4o' },
+      attachments: [{ id: 'att-1', name: 'map.png', contentType: 'image/png', url: 'blob:map' }],
+    });
+
+    expect(renderMessageMarkdown(message)).toBe('**Assistant (gpt-4o):**\n\nRome.\n\n_Attachment: map.png_');
+    expect(renderMessageMarkdown(makeMessage('q', 'Why?'))).toBe('**User:**\n\nWhy?');
+  });
+
+  it('exports a lineage with branch-point notes in path order', () => {
+    const markdown = exportLineageMarkdown('grandchild', makeTree())!;
+
+    expect(markdown).toMatch(/^# Lineage: Hotels/);
+    const order = ['## Trip', '## Lisbon', '## Hotels'].map((title) => markdown.indexOf(title));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    expect(markdown).toContain('_Messages up to the branch point (message 2)_');
+    expect(markdown).toContain('> Branched from **Trip** at message 2');
+    expect(markdown).not.toContain('Only Rome then');
+  });
+
+  it('lists merge sources and nests the subtree by heading level', () => {
+    const markdown = exportSubtreeMarkdown('root', makeTree())!;
+
+    expect(markdown).toContain('## Trip');
+    expect(markdown).toContain('### Lisbon');
+    expect(markdown).toContain('#### Hotels');
+    expect(markdown).toContain('> **Merge of:**\n> - Lisbon\n> - Budget');
+    expect(markdown).toContain('> _Synthesis objective: Combine both_');
+    // The merge node appears once, under its primary parent
+    expect(markdown.match(/#### Plan/g)).toHaveLength(1);
+  });
+});
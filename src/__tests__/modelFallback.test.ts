@@ -0,0 +1,61 @@
+/**
+ * Tests for the chat route's retry policy and model fallback chain.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { buildModelChain, classifyProviderError, DEFAULT_RETRY_POLICY, getRetryDelay, waitForRetry } from '../lib/model-fallback';
+
+describe('model fallback', () => {
+  it('classifies provider errors and reads retry-after', () => {
+    expect(classifyProviderError({ statusCode: 429, responseHeaders: { 'retry-after': '3' } }))
+      .toEqual({ kind: 'rate_limited', status: 429, retryAfterMs: 3000 });
+    expect(classifyProviderError({ statusCode: 529, responseHeaders: { 'retry-after-ms': '250' } }))
+      .toMatchObject({ kind: 'unavailable', retryAfterMs: 250 });
+    // Anthropic reports overload mid-stream as an error event
+    expect(classifyProviderError({ type: 'overloaded_error', message: 'Overloaded' }).kind).toBe('unavailable');
+    expect(classifyProviderError({ code: 'ECONNRESET' }).kind).toBe('unavailable');
+    expect(classifyProviderError({ statusCode: 401 }).kind).toBe('fatal');
+    expect(classifyProviderError(new Error('context_length_exceeded')).kind).toBe('fatal');
+  });
+
+  it('backs off exponentially and defers to retry-after within the limit', () => {
+    expect([0, 1, 2].map((retry) => getRetryDelay(DEFAULT_RETRY_POLICY, retry))).toEqual([1000, 2000, 4000]);
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 10)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 0, 3000)).toBe(3000);
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 0, 60_000)).toBeNull();
+  });
+
+  it('moves on once a wait no longer fits the remaining budget', () => {
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, undefined, 2500)).toBe(2000);
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 2, undefined, 2500)).toBeNull();
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 0, 3000, 1000)).toBeNull();
+  });
+
+  it('stops waiting for a retry when the request is aborted', async () => {
+    vi.useFakeTimers();
+    try {
+      const controller = new AbortController();
+      let waited = false;
+      const wait = waitForRetry(DEFAULT_RETRY_POLICY.maxDelayMs, controller.signal).then(() => { waited = true; });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(waited).toBe(false);
+      controller.abort();
+      await wait;
+      expect(waited).toBe(true);
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('builds the chain from the requested model and usable fallbacks', () => {
+    const hasKey = (modelId: string) => !modelId.startsWith('google/');
+    expect(buildModelChain(
+      'anthropic/claude-opus-4-6',
+      ['anthropic/claude-opus-4-6', 'google/gemini-2.5-pro', 'anthropic/claude-sonnet-4-6', 'openai/gpt-5.2'],
+      hasKey
+    )).toEqual(['anthropic/claude-opus-4-6', 'anthropic/claude-sonnet-4-6', 'openai/gpt-5.2']);
+  });
+});
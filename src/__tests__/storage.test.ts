@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { VersionedStorage, createStorage, CURRENT_SCHEMA_VERSION } from '../lib/storage';
+import { VersionedStorage, createStorage, CURRENT_SCHEMA_VERSION, type StorageAdapter } from '../lib/storage';
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -268,6 +268,103 @@ describe('VersionedStorage', () => {
   });
 });
 
+describe('storage adapters', () => {
+  const createMemoryAdapter = (available = true): StorageAdapter & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    return {
+      name: 'memory',
+      items,
+      isAvailable: () => available,
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => {
+        items.set(key, value);
+      },
+      removeItem: (key) => {
+        items.delete(key);
+      },
+      flush: () => Promise.resolve(),
+    };
+  };
+
+  const legacySchema = {
+    version: 1,
+    data: { items: ['legacy'], count: 1 },
+    savedAt: new Date().toISOString(),
+  };
+
+  it('should move data from the legacy adapter on first load', async () => {
+    const adapter = createMemoryAdapter();
+    localStorageMock.setItem('test:storage', JSON.stringify(legacySchema));
+
+    const storage = new VersionedStorage({
+      key: 'test:storage',
+      version: 1,
+      defaultData: { items: [] as string[], count: 0 },
+      adapter,
+      legacyAdapter: {
+        name: 'localStorage',
+        isAvailable: () => true,
+        getItem: (key) => localStorageMock.getItem(key),
+        setItem: (key, value) => localStorageMock.setItem(key, value),
+        removeItem: (key) => localStorageMock.removeItem(key),
+      },
+    });
+    const result = storage.load();
+
+    expect(result.success).toBe(true);
+    expect(result.movedFromLegacy).toBe(true);
+    expect(result.data).toEqual(legacySchema.data);
+    expect(JSON.parse(adapter.items.get('test:storage') ?? '{}').data).toEqual(legacySchema.data);
+
+    // Legacy copy is removed only after the primary adapter commits
+    await vi.waitFor(() => expect(localStorageMock.removeItem).toHaveBeenCalledWith('test:storage'));
+  });
+
+  it('should migrate legacy data while moving it', () => {
+    const adapter = createMemoryAdapter();
+    const legacy = createMemoryAdapter();
+    legacy.items.set('test:storage', JSON.stringify(legacySchema));
+
+    const storage = new VersionedStorage({
+      key: 'test:storage',
+      version: 2,
+      defaultData: { items: [] as string[], count: 0, moved: false },
+      adapter,
+      legacyAdapter: legacy,
+      migrations: [
+        {
+          fromVersion: 1,
+          toVersion: 2,
+          migrate: (data: unknown) => ({ ...(data as object), moved: true }),
+        },
+      ],
+    });
+    const result = storage.load();
+
+    expect(result.migrated).toBe(true);
+    expect(result.data).toEqual({ items: ['legacy'], count: 1, moved: true });
+    expect(JSON.parse(adapter.items.get('test:storage') ?? '{}').version).toBe(2);
+  });
+
+  it('should fall back to the legacy adapter while the primary is unavailable', () => {
+    const adapter = createMemoryAdapter(false);
+    const legacy = createMemoryAdapter();
+
+    const storage = new VersionedStorage({
+      key: 'test:storage',
+      version: 1,
+      defaultData: { items: [] as string[], count: 0 },
+      adapter,
+      legacyAdapter: legacy,
+    });
+
+    expect(storage.save({ items: ['fallback'], count: 1 })).toBe(true);
+    expect(legacy.items.has('test:storage')).toBe(true);
+    expect(adapter.items.has('test:storage')).toBe(false);
+    expect(storage.getBackendName()).toBe('memory');
+  });
+});
+
 describe('createStorage', () => {
   it('should create a VersionedStorage instance', () => {
     const storage = createStorage({
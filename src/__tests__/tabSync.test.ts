@@ -0,0 +1,116 @@
+/**
+ * Tests for cross-tab sync diffing and three-way merge.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectWorkspaceChanges,
+  createSyncBaseline,
+  mergeWorkspaceChanges,
+  type SyncBaseline,
+  type TabSyncMessage,
+} from '../lib/tab-sync';
+import type { Conversation, Workspace } from '../types';
+import { makeConversation, makeWorkspace } from './fixtures';
+
+const withCard = (workspace: Workspace, card: Conversation): Workspace => ({
+  ...workspace,
+  conversations: workspace.conversations.map((conv) => (conv.id === card.id ? card : conv)),
+});
+
+type ChangesMessage = Extract<TabSyncMessage, { type: 'workspace-changes' }>;
+
+/** Two tabs that loaded the same workspace */
+function setupTabs(initial: Workspace): { a: SyncBaseline; b: SyncBaseline } {
+  const a = createSyncBaseline();
+  const b = createSyncBaseline();
+  collectWorkspaceChanges([initial], a);
+  collectWorkspaceChanges([initial], b);
+  return { a, b };
+}
+
+describe('collectWorkspaceChanges', () => {
+  it('reports nothing when nothing changed since the baseline', () => {
+    const workspace = makeWorkspace([makeConversation('card-1', ['Hello'])]);
+    const { a } = setupTabs(workspace);
+
+    expect(collectWorkspaceChanges([{ ...workspace, metadata: { ...workspace.metadata, updatedAt: new Date() } }], a))
+      .toEqual([]);
+  });
+
+  it('reports edited, removed and new cards and edges', () => {
+    const workspace = makeWorkspace([makeConversation('card-1'), makeConversation('card-2')]);
+    const { a } = setupTabs(workspace);
+
+    const [message] = collectWorkspaceChanges([{
+      ...workspace,
+      conversations: [makeConversation('card-1', ['Edited']), makeConversation('card-3')],
+      edges: [{ id: 'edge-1', source: 'card-1', target: 'card-3', curveType: 'bezier', relationType: 'branch' }],
+    }], a) as ChangesMessage[];
+
+    expect(message.upserts.map((change) => change.card.id)).toEqual(['card-1', 'card-3']);
+    expect(message.upserts[1].base).toBeNull();
+    expect(message.removals.map((removal) => removal.id)).toEqual(['card-2']);
+    expect(message.edgeUpserts.map((edge) => edge.id)).toEqual(['edge-1']);
+  });
+});
+
+describe('mergeWorkspaceChanges', () => {
+  it('applies another tab\'s edit to an untouched card', () => {
+    const initial = makeWorkspace([makeConversation('card-1', ['Hello'])]);
+    const { a, b } = setupTabs(initial);
+
+    const edited = makeConversation('card-1', ['Hello', 'More']);
+    const [message] = collectWorkspaceChanges([withCard(initial, edited)], a) as ChangesMessage[];
+    const result = mergeWorkspaceChanges(initial, message, b);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.workspace.conversations[0].content).toHaveLength(2);
+    expect(result.changedCardIds.has('card-1')).toBe(true);
+
+    // Tab B now considers the edit synced and has nothing to send back
+    expect(collectWorkspaceChanges([result.workspace], b)).toEqual([]);
+  });
+
+  it('reports a conflict when both tabs edited the same card', () => {
+    const initial = makeWorkspace([makeConversation('card-1', ['Hello'])]);
+    const { a, b } = setupTabs(initial);
+
+    const [message] = collectWorkspaceChanges([withCard(initial, makeConversation('card-1', ['Hello', 'From A']))], a) as ChangesMessage[];
+    const localB = withCard(initial, makeConversation('card-1', ['Hello', 'From B']));
+    const result = mergeWorkspaceChanges(localB, message, b);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].local?.content[1].content).toBe('From B');
+    expect(result.conflicts[0].remote?.content[1].content).toBe('From A');
+    // Local version is kept
+    expect(result.workspace.conversations[0].content[1].content).toBe('From B');
+  });
+
+  it('takes a moved position without treating it as a conflict', () => {
+    const initial = makeWorkspace([makeConversation('card-1', ['Hello'])]);
+    const { a, b } = setupTabs(initial);
+
+    const moved = { ...initial.conversations[0], position: { x: 500, y: 200 } };
+    const [message] = collectWorkspaceChanges([withCard(initial, moved)], a) as ChangesMessage[];
+    const localB = withCard(initial, makeConversation('card-1', ['Hello', 'Local edit']));
+    const result = mergeWorkspaceChanges(localB, message, b);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.workspace.conversations[0].position).toEqual({ x: 500, y: 200 });
+    expect(result.workspace.conversations[0].content).toHaveLength(2);
+  });
+
+  it('flags a card deleted in one tab and edited in the other', () => {
+    const initial = makeWorkspace([makeConversation('card-1', ['Hello'])]);
+    const { a, b } = setupTabs(initial);
+
+    const [message] = collectWorkspaceChanges([{ ...initial, conversations: [] }], a) as ChangesMessage[];
+    const localB = withCard(initial, makeConversation('card-1', ['Hello', 'Kept working']));
+    const result = mergeWorkspaceChanges(localB, message, b);
+
+    expect(result.conflicts).toEqual([expect.objectContaining({ cardId: 'card-1', remote: null })]);
+    expect(result.workspace.conversations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for .loom workspace archive parsing and re-IDing.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  LOOM_ARCHIVE_FORMAT,
+  LOOM_ARCHIVE_VERSION,
+  parseWorkspaceArchive,
+  remapWorkspaceIds,
+} from '../lib/workspace-archive';
+import { CURRENT_SCHEMA_VERSION } from '../lib/storage';
+import type { Workspace } from '../types';
+import { FIXTURE_DATE, makeConversation, makeEdge, makeMessage, makeWorkspace } from './fixtures';
+
+const makeArchiveWorkspace = (): Workspace => {
+  const rootMessage = makeMessage('msg-root', 'Root question');
+  const root = makeConversation('card-root', [{ ...rootMessage, contextSnapshot: { knowledgeBaseFileIds: ['kb-1'] } }]);
+  const child = makeConversation('card-child', [makeMessage('msg-child', 'Follow-up')], {
+    parentCardIds: ['card-root'],
+    branchPoint: { parentCardId: 'card-root', messageIndex: 0 },
+    inheritedContext: {
+      'card-root': { mode: 'full', messages: [rootMessage], timestamp: FIXTURE_DATE, totalParentMessages: 1 },
+    },
+  });
+
+  return makeWorkspace([root, child], [makeEdge('edge-1', 'card-root', 'card-child')], {
+    context: {
+      instructions: 'Be concise',
+      knowledgeBaseFiles: [{ id: 'kb-1', name: 'notes.md', type: 'text/markdown', size: 10, lastModified: 0 }],
+      updatedAt: FIXTURE_DATE,
+    },
+  });
+};
+
+describe('remapWorkspaceIds', () => {
+  it('assigns fresh IDs and rewrites every internal reference', () => {
+    const original = makeArchiveWorkspace();
+    const remapped = remapWorkspaceIds(original, new Map([['kb-1', 'kb-new']]));
+
+    expect(remapped.id).not.toBe(original.id);
+    const [root, child] = remapped.conversations;
+    expect(root.id).not.toBe('card-root');
+    expect(child.id).not.toBe('card-child');
+    expect(root.canvasId).toBe(remapped.id);
+    expect(child.canvasId).toBe(remapped.id);
+
+    expect(child.parentCardIds).toEqual([root.id]);
+    expect(child.branchPoint?.parentCardId).toBe(root.id);
+    expect(Object.keys(child.inheritedContext)).toEqual([root.id]);
+    expect(remapped.edges).toHaveLength(1);
+    expect(remapped.edges[0]).toMatchObject({ source: root.id, target: child.id });
+    expect(remapped.edges[0].id).not.toBe('edge-1');
+
+    // Inherited copies keep the same (new) ID as the original message
+    expect(root.content[0].id).not.toBe('msg-root');
+    expect(child.inheritedContext[root.id].messages[0].id).toBe(root.content[0].id);
+
+    expect(remapped.context.knowledgeBaseFiles[0].id).toBe('kb-new');
+    expect(root.content[0].contextSnapshot?.knowledgeBaseFileIds).toEqual(['kb-new']);
+    expect(remapped.context.instructions).toBe('Be concise');
+  });
+
+  it('produces distinct IDs when the same workspace is imported twice', () => {
+    const original = makeArchiveWorkspace();
+    const first = remapWorkspaceIds(original);
+    const second = remapWorkspaceIds(original);
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.conversations[0].id).not.toBe(second.conversations[0].id);
+  });
+});
+
+describe('parseWorkspaceArchive', () => {
+  it('accepts a valid archive', () => {
+    const raw = JSON.stringify({
+      format: LOOM_ARCHIVE_FORMAT,
+      version: LOOM_ARCHIVE_VERSION,
+      exportedAt: FIXTURE_DATE.toISOString(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      workspace: makeArchiveWorkspace(),
+      knowledgeBase: [],
+      attachments: {},
+    });
+
+    expect(parseWorkspaceArchive(raw).workspace.title).toBe('Research');
+  });
+
+  it('rejects files that are not workspace archives', () => {
+    expect(() => parseWorkspaceArchive('not json')).toThrow('not valid JSON');
+    expect(() => parseWorkspaceArchive(JSON.stringify({ version: 1, data: {} }))).toThrow('Not a ProjectLoom');
+    expect(() => parseWorkspaceArchive(JSON.stringify({
+      format: LOOM_ARCHIVE_FORMAT,
+      version: LOOM_ARCHIVE_VERSION + 1,
+      workspace: makeArchiveWorkspace(),
+    }))).toThrow('Unsupported archive version');
+  });
+});
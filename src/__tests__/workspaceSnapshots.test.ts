@@ -0,0 +1,50 @@
+/**
+ * Tests for diffing a workspace snapshot against the current state.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { diffWorkspaces } from '../lib/workspace-snapshots';
+import { makeConversation, makeEdge, makeWorkspace } from './fixtures';
+
+describe('diffWorkspaces', () => {
+  it('reports added, removed and changed cards', () => {
+    const snapshot = makeWorkspace(
+      [makeConversation('card-1', ['Hello']), makeConversation('card-2'), makeConversation('card-3', ['Old', 'Reply'])],
+      [makeEdge('edge-1', 'card-1', 'card-2')]
+    );
+    const current = makeWorkspace(
+      [makeConversation('card-1', ['Hello', 'Follow-up']), makeConversation('card-3', ['Old'], { metadata: { title: 'Renamed' } }), makeConversation('card-4')],
+      [makeEdge('edge-2', 'card-1', 'card-4')]
+    );
+
+    const diff = diffWorkspaces(snapshot, current);
+
+    expect(diff.added.map((conv) => conv.id)).toEqual(['card-4']);
+    expect(diff.removed.map((conv) => conv.id)).toEqual(['card-2']);
+    expect(diff.changed.map((change) => ({
+      id: change.after.id,
+      added: change.messagesAdded,
+      removed: change.messagesRemoved,
+      renamed: change.titleChanged,
+    }))).toEqual([
+      { id: 'card-1', added: 1, removed: 0, renamed: false },
+      { id: 'card-3', added: 0, removed: 1, renamed: true },
+    ]);
+    expect(diff.edgesAdded).toBe(1);
+    expect(diff.edgesRemoved).toBe(1);
+  });
+
+  it('ignores cards that were only moved', () => {
+    const snapshot = makeWorkspace([makeConversation('card-1', ['Hello'])]);
+    const current = makeWorkspace([{ ...makeConversation('card-1', ['Hello']), position: { x: 300, y: 120 } }]);
+
+    expect(diffWorkspaces(snapshot, current)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+      edgesAdded: 0,
+      edgesRemoved: 0,
+    });
+  });
+});
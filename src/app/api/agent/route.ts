@@ -11,6 +11,7 @@
 import { runCleanupAgent } from '@/lib/agents/cleanup-agent';
 import { runBranchAgent } from '@/lib/agents/branch-agent';
 import { runSummarizeAgent, type CardContent } from '@/lib/agents/summarize-agent';
+import { hasAnyProviderCredentials, type CustomProviderCredentials } from '@/lib/provider-factory';
 import type {
   AgentId,
   AgentRunnerConfig,
@@ -30,6 +31,8 @@ interface AgentRequestBody {
     modelId: string;
     anthropicKey?: string;
     openaiKey?: string;
+    googleKey?: string;
+    customProvider?: CustomProviderCredentials;
     maxSteps?: number;
     timeoutMs?: number;
     maxCostUsd?: number;
@@ -76,7 +79,8 @@ export async function POST(req: Request): Promise<Response> {
       return errorResponse('Invalid agent ID. Must be cleanup, branch, or summarize.', 'INVALID_AGENT', 400);
     }
 
-    if (!config?.anthropicKey && !config?.openaiKey) {
+    const keys = { anthropic: config?.anthropicKey, openai: config?.openaiKey, google: config?.googleKey, custom: config?.customProvider };
+    if (!hasAnyProviderCredentials(keys)) {
       return errorResponse('At least one API key is required.', 'MISSING_API_KEY', 401);
     }
 
@@ -90,7 +94,7 @@ export async function POST(req: Request): Promise<Response> {
       timeoutMs: config.timeoutMs ?? 60_000,
       maxCostUsd: config.maxCostUsd ?? 0.50,
       modelId: config.modelId || 'anthropic/claude-sonnet-4-6',
-      keys: { anthropic: config.anthropicKey, openai: config.openaiKey },
+      keys,
     };
 
     // Reconstruct Date objects from serialized workspace
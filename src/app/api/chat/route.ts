@@ -4,7 +4,7 @@
  * Streaming chat endpoint using Vercel AI SDK.
  * Models connect directly to Anthropic and OpenAI via their official provider SDKs.
  * Model IDs use provider prefix format: 'anthropic/claude-sonnet-4-6', 'openai/gpt-5.2', etc.
- * Web search is supported via provider-native tools (Anthropic web_search, OpenAI Responses API).
+ * Web search is supported via provider-native tools (Anthropic web_search, OpenAI Responses API, Gemini Google Search grounding).
  * 
  * @version 4.0.0
  */
@@ -12,10 +12,30 @@
 export const runtime = 'edge';
 
 import { streamText, createUIMessageStream, createUIMessageStreamResponse, generateId } from 'ai';
-import { createModel, getWebSearchTools, detectProvider as detectModelProvider } from '@/lib/provider-factory';
-import { getModelConfig } from '@/lib/model-configs';
+import {
+  createModel,
+  getWebSearchTools,
+  detectProvider as detectModelProvider,
+  hasAnyProviderCredentials,
+  hasProviderCredentials,
+  type CustomProviderCredentials,
+  type ProviderType,
+} from '@/lib/provider-factory';
+import { getModelConfig, validateGenerationSettings } from '@/lib/model-configs';
+import {
+  buildModelChain,
+  classifyProviderError,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  MAX_FALLBACK_MODELS,
+  MAX_RETRIES,
+  waitForRetry,
+  type RetryPolicy,
+} from '@/lib/model-fallback';
+import { buildInstructionLayers, getPersona, MAX_CARD_SYSTEM_PROMPT } from '@/lib/personas';
 import { getMockResponse, getOnboardingResponse, getDemoRecordResponse, chunkResponse } from '@/lib/mock-responses';
 import { readTrialCookie, createTrialCookieHeader, createFreshTrialPayload, getTrialCap, isTrialEnabled } from '@/lib/trial-cookie';
+import type { GenerationSettings, ModelFallbackInfo, ModelFallbackReason } from '@/types';
 
 // =============================================================================
 // TYPES
@@ -33,12 +53,28 @@ interface ChatRequestBody {
     instructions?: string;
     knowledgeBase?: string;
   };
+  /** Card-level instructions, already resolved through the card's ancestors */
+  cardContext?: {
+    personaId?: string;
+    systemPrompt?: string;
+  };
   /** Model identifier (e.g., 'anthropic/claude-sonnet-4-6', 'openai/gpt-5.2') */
   model: string;
+  /** Per-card overrides of the model's generation defaults */
+  generationSettings?: GenerationSettings;
+  /** Retries per model and the models to fall back to when the requested one keeps failing */
+  retry?: {
+    maxRetries?: number;
+    fallbackModels?: string[];
+  };
   /** User's Anthropic API key (for Claude models) */
   anthropicKey?: string;
   /** User's OpenAI API key (for GPT models) */
   openaiKey?: string;
+  /** User's Google API key (for Gemini models) */
+  googleKey?: string;
+  /** User's OpenAI-compatible endpoint (for custom/... models) */
+  customProvider?: CustomProviderCredentials;
   /** Optional image attachments for the current message (vision support) */
   attachments?: Array<{
     contentType: string;
@@ -89,8 +125,6 @@ function extractMessageText(message: ChatRequestBody['messages'][number]): strin
 // PROVIDER DETECTION
 // =============================================================================
 
-type ProviderType = 'anthropic' | 'openai';
-
 function detectProvider(model: string): ProviderType {
   return detectModelProvider(model);
 }
@@ -99,6 +133,13 @@ function detectProvider(model: string): ProviderType {
 // ERROR HANDLING
 // =============================================================================
 
+const MISSING_CREDENTIALS_MESSAGES: Record<ProviderType, string> = {
+  anthropic: 'Anthropic API key is required for this model. Configure it in Settings.',
+  openai: 'OpenAI API key is required for this model. Configure it in Settings.',
+  google: 'Google API key is required for this model. Configure it in Settings.',
+  custom: 'A custom endpoint base URL is required for this model. Configure it in Settings.',
+};
+
 function createErrorResponse(
   message: string,
   code: string,
@@ -117,11 +158,14 @@ function createErrorResponse(
 }
 
 function handleProviderError(error: unknown): Response {
-  // Type guard for error objects
-  const err = error as { status?: number; message?: string; code?: string };
+  // Type guard for error objects (AI SDK APICallErrors carry `statusCode`)
+  const err = error as { status?: number; statusCode?: number; message?: string; code?: string };
+  const status = err.status ?? err.statusCode;
+  const failure = classifyProviderError(error);
+  const retryAfter = failure.retryAfterMs !== undefined ? Math.ceil(failure.retryAfterMs / 1000) : undefined;
   
   // Invalid API key
-  if (err.status === 401 || err.message?.includes('invalid_api_key')) {
+  if (status === 401 || err.message?.includes('invalid_api_key')) {
     return createErrorResponse(
       'Invalid API key. Please check your settings.',
       'INVALID_API_KEY',
@@ -131,17 +175,17 @@ function handleProviderError(error: unknown): Response {
   }
 
   // Rate limit
-  if (err.status === 429) {
+  if (failure.kind === 'rate_limited') {
     return createErrorResponse(
       'Rate limit exceeded. Wait a moment and try again.',
       'RATE_LIMIT',
       429,
-      { recoverable: true, retryAfter: 60 }
+      { recoverable: true, retryAfter: retryAfter ?? 60 }
     );
   }
 
   // Context length exceeded
-  if (err.status === 400 && err.message?.includes('context_length')) {
+  if (status === 400 && err.message?.includes('context_length')) {
     return createErrorResponse(
       'Context too long. Try starting a new branch to reduce message history.',
       'CONTEXT_TOO_LONG',
@@ -160,6 +204,16 @@ function handleProviderError(error: unknown): Response {
     );
   }
 
+  // Provider outage (5xx, overloaded)
+  if (failure.kind === 'unavailable') {
+    return createErrorResponse(
+      'The model provider is temporarily unavailable. Try again shortly, or add a fallback model in Settings.',
+      'PROVIDER_UNAVAILABLE',
+      503,
+      { recoverable: true, retryAfter }
+    );
+  }
+
   // Generic error
   return createErrorResponse(
     err.message || 'An unexpected error occurred.',
@@ -169,6 +223,79 @@ function handleProviderError(error: unknown): Response {
   );
 }
 
+// =============================================================================
+// RETRY & FALLBACK
+// =============================================================================
+
+type ChatStreamResult = ReturnType<typeof streamText>;
+
+/** Stream parts emitted before the provider has produced any output */
+const PRE_OUTPUT_PARTS = new Set(['start', 'start-step']);
+
+/**
+ * Wait for the stream's first output. Resolves with the error when the
+ * provider fails before producing anything (so the request can still be
+ * retried), or null once output starts. The peek reads its own tee of the
+ * stream, so the response still receives every part.
+ */
+async function awaitFirstOutput(result: ChatStreamResult): Promise<{ error: unknown } | null> {
+  const reader = result.fullStream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return null;
+      if (PRE_OUTPUT_PARTS.has(value.type)) continue;
+      return value.type === 'error' ? { error: value.error } : null;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Start a stream on the first model in the chain that answers. Each model is
+ * retried with backoff while it is rate-limited or unavailable and the
+ * policy's time budget allows the wait; any other error ends the chain.
+ */
+async function streamWithFallback(
+  modelChain: string[],
+  policy: RetryPolicy,
+  startStream: (modelId: string) => ChatStreamResult,
+  signal: AbortSignal,
+  reqId: string
+): Promise<{ result: ChatStreamResult; model: string; fallbackReason?: ModelFallbackReason } | { error: unknown }> {
+  let fallbackReason: ModelFallbackReason | undefined;
+  let lastError: unknown;
+  const deadline = Date.now() + policy.budgetMs;
+
+  for (const modelId of modelChain) {
+    let reason: ModelFallbackReason | undefined;
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+      const result = startStream(modelId);
+      const failed = await awaitFirstOutput(result);
+      if (!failed) return { result, model: modelId, fallbackReason };
+
+      lastError = failed.error;
+      const failure = classifyProviderError(failed.error);
+      if (failure.kind === 'fatal') return { error: failed.error };
+      reason = failure.kind;
+
+      const delay = attempt < policy.maxRetries
+        ? getRetryDelay(policy, attempt, failure.retryAfterMs, deadline - Date.now())
+        : null;
+      if (delay === null || signal.aborted) break;
+      console.warn(`[chat/route] [${reqId}] ${modelId} ${failure.kind} — retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`);
+      await waitForRetry(delay, signal);
+      if (signal.aborted) break;
+    }
+    if (signal.aborted) break;
+    fallbackReason = reason;
+    console.warn(`[chat/route] [${reqId}] ${modelId} ${reason} — moving to the next model`);
+  }
+
+  return { error: lastError };
+}
+
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
@@ -180,11 +307,11 @@ export async function POST(req: Request): Promise<Response> {
   console.log(`[chat/route] ▶ START [${reqId}] ${new Date().toISOString()}`);
   try {
     const body = await req.json() as ChatRequestBody;
-    const { messages, anthropicKey, openaiKey, attachments, canvasContext, onboarding, demoRecord } = body;
+    const { messages, anthropicKey, openaiKey, googleKey, customProvider, attachments, canvasContext, cardContext, onboarding, demoRecord } = body;
     // `model` is mutable — trial mode overrides it to the cheapest model
     let model = body.model;
     
-    const keys = { anthropic: anthropicKey, openai: openaiKey };
+    const keys = { anthropic: anthropicKey, openai: openaiKey, google: googleKey, custom: customProvider };
     // Trial mode state — populated if platform trial is used
     let trialCookie: string | null = null;
     let trialMessagesUsed: number | null = null;
@@ -204,7 +331,9 @@ export async function POST(req: Request): Promise<Response> {
       hasCanvasContext: !!canvasContext,
       hasInstructions: !!canvasContext?.instructions,
       hasKnowledgeBase: !!canvasContext?.knowledgeBase,
-      knowledgeBasePreview: canvasContext?.knowledgeBase?.substring(0, 100)
+      knowledgeBasePreview: canvasContext?.knowledgeBase?.substring(0, 100),
+      personaId: cardContext?.personaId,
+      hasCardInstructions: !!cardContext?.systemPrompt,
     });
 
     // Validate required fields
@@ -226,6 +355,21 @@ export async function POST(req: Request): Promise<Response> {
       );
     }
 
+    if (cardContext?.systemPrompt !== undefined
+      && (typeof cardContext.systemPrompt !== 'string' || cardContext.systemPrompt.length > MAX_CARD_SYSTEM_PROMPT)) {
+      return createErrorResponse(
+        `Card instructions must be text of at most ${MAX_CARD_SYSTEM_PROMPT} characters.`,
+        'INVALID_REQUEST',
+        400,
+        { recoverable: false }
+      );
+    }
+
+    // Presets can be renamed or removed between releases — an unknown persona is dropped, not fatal
+    if (cardContext?.personaId !== undefined && !getPersona(cardContext.personaId)) {
+      console.warn(`[chat/route] [${reqId}] Unknown persona ignored:`, cardContext.personaId);
+    }
+
     // ── Demo Recording mock response (always, regardless of API keys) ──
     // Demo recording MUST use scripted responses — we're building a marketing
     // video and need deterministic, perfectly formatted output. Never route
@@ -254,7 +398,7 @@ export async function POST(req: Request): Promise<Response> {
       return createUIMessageStreamResponse({ stream });
     }
 
-    if (!anthropicKey && !openaiKey) {
+    if (!hasAnyProviderCredentials(keys)) {
       // ── Onboarding mock response ──
       // When no API key is set and the client signals onboarding mode,
       // return a canned streaming response so the user can experience
@@ -324,7 +468,7 @@ export async function POST(req: Request): Promise<Response> {
         trialMessagesUsed = trialPayload.messagesUsed;
       } else {
         return createErrorResponse(
-          'At least one API key is required. Configure Anthropic or OpenAI key in Settings.',
+          'At least one API key is required. Configure an Anthropic or OpenAI key, or a custom endpoint, in Settings.',
           'MISSING_API_KEY',
           401,
           { recoverable: true, suggestion: 'add_api_key' }
@@ -334,20 +478,54 @@ export async function POST(req: Request): Promise<Response> {
 
     // Validate that the selected model's provider key is present
     const providerType = detectProvider(model);
-    const providerKey = providerType === 'anthropic' ? keys.anthropic : keys.openai;
-    if (!providerKey) {
+    if (!hasProviderCredentials(providerType, keys)) {
       return createErrorResponse(
-        `${providerType === 'anthropic' ? 'Anthropic' : 'OpenAI'} API key is required for this model. Configure it in Settings.`,
+        MISSING_CREDENTIALS_MESSAGES[providerType],
         'MISSING_API_KEY',
         401,
         { recoverable: true, suggestion: 'add_api_key' }
       );
     }
-    
-    // Create model instance via provider factory
-    // Web search tools are added separately via getWebSearchTools()
-    const aiModel = createModel(model, keys);
-    const webSearchTools = getWebSearchTools(model, keys, { webSearch: true });
+
+    // Validate per-card generation settings against the final model's limits.
+    // Trial requests always use the model defaults.
+    let generationSettings: GenerationSettings = {};
+    if (body.generationSettings !== undefined && trialMessagesUsed === null) {
+      const validation = typeof body.generationSettings === 'object' && body.generationSettings !== null
+        ? validateGenerationSettings(model, body.generationSettings)
+        : { settings: {}, error: 'Generation settings must be an object.' };
+      if (validation.error) {
+        return createErrorResponse(
+          validation.error,
+          'INVALID_REQUEST',
+          400,
+          { recoverable: false, suggestion: 'adjust_generation_settings' }
+        );
+      }
+      generationSettings = validation.settings;
+    }
+
+    // Retry policy and fallback chain. Trial requests never fall back — the trial model is fixed.
+    const retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+    let fallbackModels: string[] = [];
+    if (body.retry !== undefined) {
+      const { maxRetries, fallbackModels: requestedFallbacks } = body.retry ?? {};
+      if ((maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > MAX_RETRIES))
+        || (requestedFallbacks !== undefined && (!Array.isArray(requestedFallbacks)
+          || requestedFallbacks.length > MAX_FALLBACK_MODELS
+          || requestedFallbacks.some((id) => typeof id !== 'string')))) {
+        return createErrorResponse(
+          `Retry settings allow at most ${MAX_RETRIES} retries and ${MAX_FALLBACK_MODELS} fallback models.`,
+          'INVALID_REQUEST',
+          400,
+          { recoverable: false }
+        );
+      }
+      if (maxRetries !== undefined) retryPolicy.maxRetries = maxRetries;
+      if (requestedFallbacks && trialMessagesUsed === null) fallbackModels = requestedFallbacks;
+    }
+    // Fallback models without a configured key are skipped
+    const modelChain = buildModelChain(model, fallbackModels, (modelId) => hasProviderCredentials(detectProvider(modelId), keys));
 
     // Build messages for AI SDK, handling both text and image attachments
     // Find the index of the last user message (not just checking if the last message overall is user)
@@ -405,21 +583,33 @@ export async function POST(req: Request): Promise<Response> {
     // Anthropic requires all system content in a single system parameter
     const systemMessageParts: string[] = [];
     
-    // Add model identity so the AI can answer correctly about itself
+    // Model identity so the AI can answer correctly about itself. Added per
+    // model when the call is built, since a fallback model answers as itself.
     const { getModelById } = await import('@/lib/vercel-ai-integration');
-    const modelInfo = getModelById(model);
-    if (modelInfo) {
-      systemMessageParts.push(`You are ${modelInfo.name} (model ID: ${model}), ${modelInfo.description}`);
-      console.log('[chat/route] Model identity injected:', { model, name: modelInfo.name });
-    } else {
-      console.warn('[chat/route] Model not found in registry:', model);
-    }
+    const getModelIdentity = (modelId: string): string | null => {
+      const modelInfo = getModelById(modelId);
+      if (!modelInfo) {
+        console.warn('[chat/route] Model not found in registry:', modelId);
+        return null;
+      }
+      console.log('[chat/route] Model identity injected:', { model: modelId, name: modelInfo.name });
+      return `You are ${modelInfo.name} (model ID: ${modelId}), ${modelInfo.description}`;
+    };
     
-    // Add canvas context to system prompt
-    if (canvasContext?.instructions?.trim()) {
-      systemMessageParts.push(`## Workspace Instructions\n\n${canvasContext.instructions.trim()}`);
-      console.log('[chat/route] Instructions added, length:', canvasContext.instructions.length);
+    // Add instruction layers in order: workspace → persona → card
+    const instructionLayers = buildInstructionLayers({
+      workspaceInstructions: canvasContext?.instructions,
+      personaId: cardContext?.personaId,
+      systemPrompt: cardContext?.systemPrompt,
+    });
+    for (const layer of instructionLayers) {
+      systemMessageParts.push(`## ${layer.heading}\n\n${layer.text}`);
     }
+    if (instructionLayers.length > 0) {
+      console.log('[chat/route] Instruction layers added:', instructionLayers.map((layer) => `${layer.source} (${layer.text.length})`));
+    }
+
+    // Add canvas context to system prompt
     if (canvasContext?.knowledgeBase?.trim()) {
       systemMessageParts.push(`## Knowledge Base Context\n\nYou have been provided with the following workspace files and content. These files ARE available to you - reference them directly in your responses:\n\n${canvasContext.knowledgeBase.trim()}`);
       console.log('[chat/route] Knowledge base content added, length:', canvasContext.knowledgeBase.length);
@@ -496,43 +686,82 @@ export async function POST(req: Request): Promise<Response> {
       );
     }
 
-    // Get per-model tuning (temperature, maxTokens)
-    const modelConfig = getModelConfig(model);
-
-    // Combine all system messages into ONE system prompt
-    // This ensures Anthropic compatibility (requires single system parameter)
-    const combinedSystemPrompt = systemMessageParts.length > 0
-      ? systemMessageParts.join('\n\n')
-      : modelConfig.systemPrompt;
-
-    console.log('[chat/route] Final system prompt length:', combinedSystemPrompt?.length || 0);
-    console.log('[chat/route] System prompt preview:', combinedSystemPrompt?.substring(0, 200) || 'none');
-
-    // Token config
-    const tokenConfig = { maxOutputTokens: modelConfig.maxTokens };
-
-    // Reasoning models (gpt-5.2, gpt-5.1) don't support temperature — omit entirely.
-    // GPT-5 Mini only supports temperature: 1 — must explicitly set it.
-    const temperatureConfig = modelConfig.reasoning
-      ? {}
-      : (providerType === 'openai' && model === 'openai/gpt-5-mini')
-        ? { temperature: 1 }
-        : { temperature: modelConfig.temperature };
-
-    // =========================================================================
-    // SYSTEM PROMPT FINALIZATION
-    // =========================================================================
-
-    const finalSystemPrompt = combinedSystemPrompt;
-
-    // Stream the response with error handling
-    const result = streamText({
-      model: aiModel,
-      system: finalSystemPrompt,
-      ...temperatureConfig,
-      ...tokenConfig,
-      // Provider-native web search tools (Anthropic webSearch / OpenAI Responses API)
-      ...(Object.keys(webSearchTools).length > 0 ? { tools: webSearchTools } : {}),
+    if (Object.keys(generationSettings).length > 0) {
+      console.log(`[chat/route] [${reqId}] Card generation settings:`, generationSettings);
+    }
+
+    // Per-model call options — every model in the fallback chain gets its own
+    // identity, tuning, provider options and web search tools
+    const buildModelCall = (modelId: string) => {
+      // Get per-model tuning (temperature, maxTokens)
+      const modelConfig = getModelConfig(modelId);
+      const modelProvider = detectProvider(modelId);
+
+      // Card settings were checked against the requested model; a fallback
+      // model that can't take them runs with its own defaults
+      const fallbackValidation = modelId === model ? null : validateGenerationSettings(modelId, generationSettings);
+      const settings = fallbackValidation
+        ? (fallbackValidation.error ? {} : fallbackValidation.settings)
+        : generationSettings;
+
+      // Combine all system messages into ONE system prompt
+      // This ensures Anthropic compatibility (requires single system parameter)
+      const identity = getModelIdentity(modelId);
+      const promptParts = identity ? [identity, ...systemMessageParts] : systemMessageParts;
+      const combinedSystemPrompt = promptParts.length > 0
+        ? promptParts.join('\n\n')
+        : modelConfig.systemPrompt;
+
+      console.log('[chat/route] Final system prompt length:', combinedSystemPrompt?.length || 0);
+      console.log('[chat/route] System prompt preview:', combinedSystemPrompt?.substring(0, 200) || 'none');
+
+      // Token config (per-card settings override the model defaults)
+      const tokenConfig = { maxOutputTokens: settings.maxOutputTokens ?? modelConfig.maxTokens };
+
+      // Reasoning models (gpt-5.2, gpt-5.1) don't support temperature — omit entirely,
+      // as does Anthropic extended thinking.
+      // GPT-5 Mini only supports temperature: 1 — must explicitly set it.
+      const temperatureConfig = modelConfig.reasoning || settings.thinkingBudget !== undefined
+        ? {}
+        : (modelProvider === 'openai' && modelId === 'openai/gpt-5-mini')
+          ? { temperature: 1 }
+          : { temperature: settings.temperature ?? modelConfig.temperature };
+
+      // Extended thinking (Anthropic) and reasoning effort (reasoning models).
+      // OpenAI reasoning models only stream reasoning when the card asks for a
+      // summary; it costs output tokens and fails for unverified organizations.
+      const openaiOptions = modelProvider === 'openai' && modelConfig.reasoning
+        ? {
+            ...(settings.reasoningSummary ? { reasoningSummary: 'auto' } : {}),
+            ...(settings.reasoningEffort ? { reasoningEffort: settings.reasoningEffort } : {}),
+          }
+        : {};
+      const providerOptions: Parameters<typeof streamText>[0]['providerOptions'] = settings.thinkingBudget !== undefined
+        ? { anthropic: { thinking: { type: 'enabled', budgetTokens: settings.thinkingBudget } } }
+        : Object.keys(openaiOptions).length > 0
+          ? { openai: openaiOptions }
+          : undefined;
+
+      // Create model instance via provider factory
+      // Web search tools are added separately via getWebSearchTools()
+      const webSearchTools = getWebSearchTools(modelId, keys, { webSearch: true });
+
+      return {
+        model: createModel(modelId, keys),
+        system: combinedSystemPrompt,
+        ...temperatureConfig,
+        ...tokenConfig,
+        ...(providerOptions ? { providerOptions } : {}),
+        // Provider-native web search tools (Anthropic webSearch / OpenAI Responses API / Gemini grounding)
+        ...(Object.keys(webSearchTools).length > 0 ? { tools: webSearchTools } : {}),
+      };
+    };
+
+    // Stream the response with error handling. Retries are ours (streamWithFallback),
+    // so the SDK's built-in retries are off.
+    const startStream = (modelId: string) => streamText({
+      ...buildModelCall(modelId),
+      maxRetries: 0,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       messages: conversationMessages as any,
       onStepFinish: ({ toolCalls, toolResults }) => {
@@ -573,8 +802,8 @@ export async function POST(req: Request): Promise<Response> {
       },
       onError: (error) => {
         console.error(`[chat/route] [${reqId}] ❌ Streaming error after ${Date.now() - reqStart}ms`, {
-          provider: providerType,
-          model,
+          provider: detectProvider(modelId),
+          model: modelId,
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
           ...(typeof error === 'object' && error !== null ? error : {}),
@@ -592,10 +821,26 @@ export async function POST(req: Request): Promise<Response> {
       },
     });
 
+    const started = await streamWithFallback(modelChain, retryPolicy, startStream, req.signal, reqId);
+    if ('error' in started) {
+      console.error(`[chat/route] [${reqId}] ❌ No model in the chain answered:`, modelChain);
+      return handleProviderError(started.error);
+    }
+    const { result } = started;
+    const fallback: ModelFallbackInfo | undefined = started.fallbackReason
+      ? { requestedModel: model, reason: started.fallbackReason }
+      : undefined;
+    if (fallback) {
+      console.log(`[chat/route] [${reqId}] ↪ Fell back from ${model} to ${started.model} (${fallback.reason})`);
+    }
+
     const streamResponse = result.toUIMessageStreamResponse({
       // Forward source parts (web search citations) to the client.
       // Without this, source-url parts are generated server-side but never sent.
       sendSources: true,
+      // Forward reasoning parts (extended thinking / reasoning summaries) so the
+      // client can store them apart from the answer text.
+      sendReasoning: true,
       // Extract and pass citations via metadata for dropdown UI display.
       // Note: messageMetadata only receives { part }, not { message }.
       // We accumulate text from text-delta parts and extract citations on finish.
@@ -607,6 +852,14 @@ export async function POST(req: Request): Promise<Response> {
         return ({ part }: { part: { type: string; text?: string; totalUsage?: { inputTokens?: number; outputTokens?: number }; usage?: { inputTokens?: number; outputTokens?: number }; providerMetadata?: any } }) => {
         const metadata: Record<string, unknown> = {};
 
+        // Record the model that actually answered (a fallback, or the trial model)
+        if (part.type === 'start') {
+          metadata.model = started.model;
+          if (fallback) {
+            metadata.fallback = fallback;
+          }
+        }
+
         // 'finish-step' carries providerMetadata — capture token details
         if (part.type === 'finish-step') {
           // Anthropic cache token details
@@ -3,26 +3,32 @@
  * 
  * Generates a concise, meaningful title for a conversation card
  * based on the first user message and AI response.
- * Uses direct Anthropic/OpenAI provider SDKs.
+ * Uses direct Anthropic/OpenAI/Google provider SDKs.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateText } from 'ai';
-import { createModel, detectProvider as detectModelProvider } from '@/lib/provider-factory';
+import {
+  createModel,
+  detectProvider as detectModelProvider,
+  hasAnyProviderCredentials,
+  type CustomProviderCredentials,
+  type ProviderType,
+} from '@/lib/provider-factory';
 import { getModelConfig } from '@/lib/model-configs';
 import { isTrialEnabled } from '@/lib/trial-cookie';
 
 export const runtime = 'edge';
 export const maxDuration = 30;
 
-type ProviderType = 'anthropic' | 'openai';
-
 interface GenerateTitleRequest {
   userMessage: string;
   assistantMessage: string;
   model: string;
   anthropicKey?: string;
   openaiKey?: string;
+  googleKey?: string;
+  customProvider?: CustomProviderCredentials;
 }
 
 /**
@@ -40,9 +46,9 @@ function detectProvider(model: string): ProviderType {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json() as GenerateTitleRequest;
-    const { userMessage, assistantMessage, anthropicKey, openaiKey } = body;
+    const { userMessage, assistantMessage, anthropicKey, openaiKey, googleKey, customProvider } = body;
     let model = body.model;
-    const keys = { anthropic: anthropicKey, openai: openaiKey };
+    const keys = { anthropic: anthropicKey, openai: openaiKey, google: googleKey, custom: customProvider };
 
     console.log('[Generate Title API] Request received:', {
       model,
@@ -59,7 +65,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Allow trial mode: inject platform key when no user key exists
-    if (!anthropicKey && !openaiKey) {
+    if (!hasAnyProviderCredentials(keys)) {
       if (isTrialEnabled()) {
         keys.openai = process.env.TRIAL_OPENAI_KEY!;
         model = 'openai/gpt-5-mini';
@@ -3,7 +3,8 @@
  *
  * Async classifier that runs after each chat response to detect genuine
  * decision forks. Uses a cheap/fast model (Haiku or GPT-5 Mini) from the
- * same provider the user has keys for.
+ * same provider the user has keys for, or the user's own model on a custom
+ * OpenAI-compatible endpoint.
  *
  * Returns `{ branches: [{ title, seedPrompt }] }` when a fork is detected,
  * or `{ branches: null }` when no fork exists.
@@ -14,7 +15,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { createModel, detectProvider as detectModelProvider } from '@/lib/provider-factory';
+import {
+  createModel,
+  detectProvider as detectModelProvider,
+  hasAnyProviderCredentials,
+  hasProviderCredentials,
+  type CustomProviderCredentials,
+  type ProviderKeys,
+} from '@/lib/provider-factory';
 import { createRouteLogger } from '@/lib/route-logger';
 import { isTrialEnabled } from '@/lib/trial-cookie';
 
@@ -35,6 +43,8 @@ interface SuggestBranchRequest {
   /** BYOK keys */
   anthropicKey?: string;
   openaiKey?: string;
+  googleKey?: string;
+  customProvider?: CustomProviderCredentials;
 }
 
 export interface BranchSuggestion {
@@ -100,16 +110,21 @@ Output ONLY the JSON object. No explanation, no markdown, no commentary.`;
 const CHEAP_MODELS: Record<string, string> = {
   anthropic: 'anthropic/claude-haiku-4-5',
   openai: 'openai/gpt-5-mini',
+  google: 'google/gemini-2.5-flash',
 };
 
 function selectClassifierModel(
   userModel: string,
-  keys: { anthropic?: string; openai?: string },
+  keys: ProviderKeys,
 ): string {
   // Use cheap model from the same provider the user is on
   try {
     const provider = detectModelProvider(userModel);
-    if (keys[provider]) {
+    // Custom endpoints have no known cheap tier — classify with the user's model
+    if (provider === 'custom' && hasProviderCredentials(provider, keys)) {
+      return userModel;
+    }
+    if (provider !== 'custom' && keys[provider]) {
       return CHEAP_MODELS[provider];
     }
   } catch {
@@ -119,6 +134,7 @@ function selectClassifierModel(
   // Fallback: use whichever provider has a key
   if (keys.anthropic) return CHEAP_MODELS.anthropic;
   if (keys.openai) return CHEAP_MODELS.openai;
+  if (keys.google) return CHEAP_MODELS.google;
 
   // No keys at all — will be handled by trial logic below
   return CHEAP_MODELS.openai;
@@ -133,11 +149,13 @@ export async function POST(request: NextRequest): Promise<Response> {
 
   try {
     const body = (await request.json()) as SuggestBranchRequest;
-    const { messages, anthropicKey, openaiKey } = body;
+    const { messages, anthropicKey, openaiKey, googleKey, customProvider } = body;
     const userModel = body.model;
-    const keys: { anthropic?: string; openai?: string } = {
+    const keys: ProviderKeys = {
       anthropic: anthropicKey,
       openai: openaiKey,
+      google: googleKey,
+      custom: customProvider,
     };
 
     // Validation
@@ -150,7 +168,7 @@ export async function POST(request: NextRequest): Promise<Response> {
     let classifierModel = selectClassifierModel(userModel, keys);
 
     // Trial fallback: inject platform key if user has no keys
-    if (!keys.anthropic && !keys.openai) {
+    if (!hasAnyProviderCredentials(keys)) {
       if (isTrialEnabled()) {
         keys.openai = process.env.TRIAL_OPENAI_KEY!;
         classifierModel = CHEAP_MODELS.openai;
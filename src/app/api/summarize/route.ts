@@ -8,7 +8,13 @@
  */
 
 import { generateText } from 'ai';
-import { createModel, detectProvider as detectModelProvider } from '@/lib/provider-factory';
+import {
+  createModel,
+  detectProvider as detectModelProvider,
+  hasAnyProviderCredentials,
+  type CustomProviderCredentials,
+  type ProviderType,
+} from '@/lib/provider-factory';
 import { getModelConfig } from '@/lib/model-configs';
 
 // =============================================================================
@@ -27,10 +33,18 @@ interface SummarizeRequestBody {
   anthropicKey?: string;
   /** User's OpenAI API key */
   openaiKey?: string;
+  /** User's Google API key */
+  googleKey?: string;
+  /** User's OpenAI-compatible endpoint */
+  customProvider?: CustomProviderCredentials;
   /** Parent card title for context */
   parentTitle?: string;
+  /** 'branch' (default) summarizes a parent for a branch; 'compaction' replaces a card's older history */
+  purpose?: SummaryPurpose;
 }
 
+type SummaryPurpose = 'branch' | 'compaction';
+
 interface SummarizeResponse {
   /** Generated summary text */
   summary: string;
@@ -52,8 +66,6 @@ interface APIError {
 // PROVIDER DETECTION
 // =============================================================================
 
-type ProviderType = 'anthropic' | 'openai';
-
 function detectProvider(model: string): ProviderType {
   return detectModelProvider(model);
 }
@@ -113,7 +125,8 @@ function handleProviderError(error: unknown): Response {
 
 function buildSummaryPrompt(
   messages: SummarizeRequestBody['messages'],
-  parentTitle?: string
+  parentTitle?: string,
+  purpose: SummaryPurpose = 'branch'
 ): string {
   const conversationText = messages
     .map((m) => `[${m.role.toUpperCase()}]: ${m.content}`)
@@ -123,6 +136,24 @@ function buildSummaryPrompt(
     ? `The conversation is titled "${parentTitle}". ` 
     : '';
 
+  if (purpose === 'compaction') {
+    return `You are compacting a long conversation in a thinking workspace so it fits the model's context window. ${titleContext}The summary replaces the earlier part of the conversation below, and the conversation continues right after it, so preserve:
+
+1. The user's goals, constraints and stated preferences
+2. Key decisions made and their rationale
+3. Facts, names, numbers, code and other details later messages may refer to
+4. Unresolved questions or open items
+5. Where the conversation left off
+
+Messages marked SYSTEM carry context inherited from parent cards; fold what still matters into the summary. Write in 300-600 words. Use clear, factual language.
+
+CONVERSATION (${messages.length} messages):
+
+${conversationText}
+
+SUMMARY:`;
+  }
+
   return `You are summarizing a conversation for context inheritance in a thinking workspace. ${titleContext}The summary will be used as context for a branched follow-up conversation, so preserve:
 
 1. Key decisions made and their rationale
@@ -151,12 +182,13 @@ export async function POST(req: Request): Promise<Response> {
   console.log(`[summarize] ▶ START [${reqId}] ${new Date().toISOString()}`);
   try {
     const body = (await req.json()) as SummarizeRequestBody;
-    const { messages, model, anthropicKey, openaiKey, parentTitle } = body;
-    const keys = { anthropic: anthropicKey, openai: openaiKey };
+    const { messages, model, anthropicKey, openaiKey, googleKey, customProvider, parentTitle, purpose } = body;
+    const keys = { anthropic: anthropicKey, openai: openaiKey, google: googleKey, custom: customProvider };
     console.log(`[summarize] [${reqId}] Request:`, {
       model,
       messageCount: messages?.length ?? 0,
       parentTitle: parentTitle ?? '(none)',
+      purpose: purpose ?? 'branch',
       provider: detectProvider(model),
     });
 
@@ -179,7 +211,7 @@ export async function POST(req: Request): Promise<Response> {
       );
     }
 
-    if (!anthropicKey && !openaiKey) {
+    if (!hasAnyProviderCredentials(keys)) {
       return createErrorResponse(
         'At least one API key is required. Configure it in Settings.',
         'MISSING_API_KEY',
@@ -205,9 +237,10 @@ export async function POST(req: Request): Promise<Response> {
     // Generate summary (non-streaming)
     const result = await generateText({
       model: aiModel,
-      prompt: buildSummaryPrompt(messages, parentTitle),
+      prompt: buildSummaryPrompt(messages, parentTitle, purpose),
       ...temperatureConfig,
-      maxOutputTokens: 1000, // Summaries should be concise
+      // Summaries should be concise; compaction keeps more detail
+      maxOutputTokens: purpose === 'compaction' ? 2000 : 1000,
     });
 
     const response: SummarizeResponse = {
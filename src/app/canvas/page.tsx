@@ -7,14 +7,16 @@ import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { InfiniteCanvas } from '@/components/InfiniteCanvas';
 import { ToastContainer } from '@/components/ToastContainer';
 import { HierarchicalMergeDialog } from '@/components/HierarchicalMergeDialog';
+import { SyncConflictDialog } from '@/components/SyncConflictDialog';
 import { KeyboardShortcutsPanelProvider } from '@/components/KeyboardShortcutsPanel';
 import { APIKeySetupModal } from '@/components/APIKeySetupModal';
+import { APIKeyWarningBanner } from '@/components/APIKeyWarningBanner';
 import { OnboardingGuide } from '@/components/OnboardingGuide';
 import { DemoRecordGuide } from '@/components/DemoRecordGuide';
 import { WorkspaceNameModal } from '@/components/WorkspaceNameModal';
 import { MobileLayout } from '@/components/MobileLayout';
 import { MobileTabContent } from '@/components/MobileTabContent';
-import { useCanvasStore } from '@/stores/canvas-store';
+import { useCanvasStore, clearWorkspaceStorage } from '@/stores/canvas-store';
 import { hasSeenOnboarding } from '@/stores/onboarding-store';
 import { useDemoRecordStore } from '@/stores/demo-record-store';
 import { colors } from '@/lib/design-tokens';
@@ -63,9 +65,11 @@ export default function CanvasPage() {
           // clear it explicitly for true first-time resets.
           keysToRemove.push(STORAGE_KEYS.USAGE);
           keysToRemove.forEach((key) => localStorage.removeItem(key));
-          void clearKnowledgeBaseStorage().catch(() => {
+          void Promise.allSettled([
+            clearKnowledgeBaseStorage(),
+            clearWorkspaceStorage(),
+          ]).finally(() => {
             // Best-effort in dev reset flow
-          }).finally(() => {
             location.href = window.location.pathname;
           });
         })();
@@ -74,16 +78,22 @@ export default function CanvasPage() {
 
       localStorage.removeItem('projectloom:onboarding-seen');
       localStorage.removeItem('projectloom:onboarding-v2');
-      localStorage.removeItem('projectloom:canvas-data');
-      localStorage.removeItem('projectloom:workspaces');
       localStorage.removeItem(STORAGE_KEYS.USAGE);
-      location.href = window.location.pathname;
+      void clearWorkspaceStorage().catch(() => {
+        // Best-effort in dev reset flow
+      }).finally(() => {
+        location.href = window.location.pathname;
+      });
     }
   }, []);
 
-  // Listen for API key setup requests from deep in the component tree
+  // Listen for API key setup requests from deep in the component tree.
+  // Locked keys are unlocked from the banner instead of being re-entered.
   useEffect(() => {
-    const handler = () => setShowAPIKeySetup(true);
+    const handler = () => {
+      if (apiKeyManager.isLocked()) return;
+      setShowAPIKeySetup(true);
+    };
     window.addEventListener('projectloom:requestAPIKeySetup', handler);
     return () => window.removeEventListener('projectloom:requestAPIKeySetup', handler);
   }, []);
@@ -95,12 +105,14 @@ export default function CanvasPage() {
       </ReactFlowProvider>
       <ToastContainer />
       <HierarchicalMergeDialog />
+      <SyncConflictDialog />
       <KeyboardShortcutsPanelProvider />
       <APIKeySetupModal
         isOpen={showAPIKeySetup}
         onClose={() => setShowAPIKeySetup(false)}
         onSuccess={() => setShowAPIKeySetup(false)}
       />
+      <APIKeyWarningBanner showDevModeWarning={false} />
     </ErrorBoundary>
   );
 }
@@ -121,10 +133,16 @@ function CanvasWrapper() {
 
   useEffect(() => {
     if (!isInitialized) {
-      initializeFromStorage();
+      void initializeFromStorage();
     }
   }, [initializeFromStorage, isInitialized]);
 
+  // Keep other open tabs in sync once the store is ready
+  useEffect(() => {
+    if (!isInitialized) return;
+    return useCanvasStore.getState().startTabSync();
+  }, [isInitialized]);
+
   // Fire canvas_loaded once the store is ready
   useEffect(() => {
     if (!isInitialized) return;
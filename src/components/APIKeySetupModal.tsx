@@ -39,6 +39,7 @@ const INITIAL_KEY_STATE: KeyState = {
 export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModalProps) {
   const [anthropicKey, setAnthropicKey] = useState<KeyState>(INITIAL_KEY_STATE);
   const [openaiKey, setOpenaiKey] = useState<KeyState>(INITIAL_KEY_STATE);
+  const [googleKey, setGoogleKey] = useState<KeyState>(INITIAL_KEY_STATE);
   const [isSaving, setIsSaving] = useState(false);
   const [storagePreference, setStoragePreference] = useState<StorageType>('localStorage');
   const overlayMouseDownRef = useRef(false);
@@ -49,6 +50,7 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
     if (isOpen) {
       const existingAnthropic = apiKeyManager.getKey('anthropic');
       const existingOpenai = apiKeyManager.getKey('openai');
+      const existingGoogle = apiKeyManager.getKey('google');
       const currentStoragePreference = apiKeyManager.getStoragePreference();
 
       if (existingAnthropic) {
@@ -57,6 +59,9 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
       if (existingOpenai) {
         setOpenaiKey(prev => ({ ...prev, value: existingOpenai, isValid: true }));
       }
+      if (existingGoogle) {
+        setGoogleKey(prev => ({ ...prev, value: existingGoogle, isValid: true }));
+      }
       setStoragePreference(currentStoragePreference);
     }
   }, [isOpen]);
@@ -73,6 +78,10 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
       if (!key.startsWith('sk-')) {
         return 'OpenAI keys start with "sk-"';
       }
+    } else if (provider === 'google') {
+      if (!key.startsWith('AIza')) {
+        return 'Google keys start with "AIza"';
+      }
     }
     
     if (key.length < 20) {
@@ -125,14 +134,15 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
       // Validate keys
       const anthropicValid = await validateKey('anthropic', anthropicKey.value, setAnthropicKey);
       const openaiValid = await validateKey('openai', openaiKey.value, setOpenaiKey);
+      const googleValid = await validateKey('google', googleKey.value, setGoogleKey);
 
-      if (!anthropicValid || !openaiValid) {
+      if (!anthropicValid || !openaiValid || !googleValid) {
         setIsSaving(false);
         return;
       }
 
       // At least one key is required
-      if (!anthropicKey.value.trim() && !openaiKey.value.trim()) {
+      if (!anthropicKey.value.trim() && !openaiKey.value.trim() && !googleKey.value.trim()) {
         setAnthropicKey(prev => ({ ...prev, error: 'At least one API key is required' }));
         setIsSaving(false);
         return;
@@ -148,6 +158,9 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
       if (openaiKey.value.trim()) {
         apiKeyManager.saveKey('openai', openaiKey.value.trim());
       }
+      if (googleKey.value.trim()) {
+        apiKeyManager.saveKey('google', googleKey.value.trim());
+      }
 
       // Mark setup as complete
       if (typeof window !== 'undefined') {
@@ -158,10 +171,13 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
       useTrialStore.getState().dismiss();
 
       // Analytics: which provider(s) were saved
-      const savedAnthropic = !!anthropicKey.value.trim();
-      const savedOpenai = !!openaiKey.value.trim();
+      const savedProviders = ([
+        ['anthropic', anthropicKey.value],
+        ['openai', openaiKey.value],
+        ['google', googleKey.value],
+      ] as const).filter(([, value]) => value.trim()).map(([provider]) => provider);
       analytics.apiKeySaved({
-        provider: savedAnthropic && savedOpenai ? 'both' : savedAnthropic ? 'anthropic' : 'openai',
+        provider: savedProviders.length > 1 ? 'both' : savedProviders[0],
         was_trial_exhausted: isTrialExhausted,
       });
 
@@ -170,7 +186,7 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
     } finally {
       setIsSaving(false);
     }
-  }, [anthropicKey.value, openaiKey.value, storagePreference, validateKey, isTrialExhausted, onSuccess, onClose]);
+  }, [anthropicKey.value, openaiKey.value, googleKey.value, storagePreference, validateKey, isTrialExhausted, onSuccess, onClose]);
 
   // Handle escape key
   useEffect(() => {
@@ -263,7 +279,7 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
             {/* Info banner */}
             <div style={styles.infoBanner}>
               <p style={styles.infoText}>
-                Add your API keys to use Claude and GPT models. You can add one or both:
+                Add your API keys to use Claude, GPT and Gemini models. You can add any of them:
               </p>
               <div style={styles.links}>
                 <a
@@ -300,6 +316,23 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
                   <span style={styles.linkText}>OpenAI Platform</span>
                   <ExternalLink size={18} style={{ flexShrink: 0 }} />
                 </a>
+                <a
+                  href="https://aistudio.google.com/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={styles.link}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = 'var(--accent-muted)';
+                    e.currentTarget.style.borderColor = colors.accent.primary;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.bg.inset;
+                    e.currentTarget.style.borderColor = 'var(--border-primary)';
+                  }}
+                >
+                  <span style={styles.linkText}>Google AI Studio</span>
+                  <ExternalLink size={18} style={{ flexShrink: 0 }} />
+                </a>
               </div>
             </div>
 
@@ -359,6 +392,17 @@ export function APIKeySetupModal({ isOpen, onClose, onSuccess }: APIKeySetupModa
               isValidating={openaiKey.isValidating}
               error={openaiKey.error}
             />
+
+            {/* Google Gemini API Key */}
+            <KeyInput
+              label="Google Gemini API Key"
+              placeholder="AIza..."
+              value={googleKey.value}
+              onChange={(v) => handleKeyChange('google', v, setGoogleKey)}
+              isValid={googleKey.isValid}
+              isValidating={googleKey.isValidating}
+              error={googleKey.error}
+            />
           </div>
 
           {/* Footer */}
@@ -559,7 +603,7 @@ const styles: Record<string, React.CSSProperties> = {
 
   links: {
     display: 'grid',
-    gridTemplateColumns: '1fr 1fr',
+    gridTemplateColumns: 'repeat(3, 1fr)',
     gap: spacing[2],
     marginTop: spacing[2],
   },
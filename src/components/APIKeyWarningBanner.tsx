@@ -2,7 +2,7 @@
 
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AlertTriangle, X, ExternalLink, Shield } from 'lucide-react';
+import { AlertTriangle, X, ExternalLink, Shield, Lock } from 'lucide-react';
 
 import { colors, spacing, effects, animation, typography } from '@/lib/design-tokens';
 import { apiKeyManager, useAPIKeyStatus } from '@/lib/api-key-manager';
@@ -16,15 +16,19 @@ interface APIKeyWarningBannerProps {
   dismissible?: boolean;
   /** Position of the banner */
   position?: 'top' | 'bottom';
+  /** Whether to show the dev-mode storage warning (the locked state always shows) */
+  showDevModeWarning?: boolean;
 }
 
 /**
  * Warning banner shown when API keys are stored in localStorage (dev mode).
  * Encourages users to use environment variables for production.
+ * While passphrase-encrypted keys are locked it asks for the passphrase instead.
  */
 export function APIKeyWarningBanner({
   dismissible = true,
   position = 'top',
+  showDevModeWarning = true,
 }: APIKeyWarningBannerProps) {
   const [isDismissed, setIsDismissed] = useState(() => {
     if (typeof window === 'undefined') return false;
@@ -36,8 +40,12 @@ export function APIKeyWarningBanner({
   // Check if we should show the warning (only if dev mode keys exist)
   const hasDevModeKeys = hookHasDevModeKeys || apiKeyManager.hasDevModeKeys();
 
+  if (keyStatus.isLocked) {
+    return <LockedKeysBanner position={position} />;
+  }
+
   // Don't render if no dev mode keys or dismissed
-  if (!hasDevModeKeys || isDismissed) {
+  if (!showDevModeWarning || !hasDevModeKeys || isDismissed) {
     return null;
   }
 
@@ -108,6 +116,11 @@ export function APIKeyWarningBanner({
                           OpenAI: {keyStatus.providers.openai.source === 'env' ? '✓ Environment variable' : '⚠ Browser storage'}
                         </li>
                       )}
+                      {keyStatus.providers.google.key && (
+                        <li>
+                          Google: {keyStatus.providers.google.source === 'env' ? '✓ Environment variable' : '⚠ Browser storage'}
+                        </li>
+                      )}
                     </ul>
                     <p style={styles.detailText}>
                       <strong>To secure your keys:</strong>
@@ -149,6 +162,95 @@ export function APIKeyWarningBanner({
   );
 }
 
+// =============================================================================
+// LOCKED KEYS BANNER
+// =============================================================================
+
+/**
+ * Passphrase prompt for encrypted keys. Unlocked keys live only in memory, so a
+ * reload or a new tab asks again.
+ */
+function LockedKeysBanner({ position }: { position: 'top' | 'bottom' }) {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    const success = await apiKeyManager.unlock(passphrase);
+    setIsUnlocking(false);
+    if (!success) {
+      setError('Wrong passphrase');
+      return;
+    }
+    setPassphrase('');
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Delete the encrypted API keys? You will need to enter your keys again.')) {
+      apiKeyManager.clearKeys();
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: position === 'top' ? -20 : 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={animation.spring.gentle}
+      style={{
+        ...styles.container,
+        [position]: 0,
+      }}
+    >
+      <div style={styles.content}>
+        <div style={styles.iconContainer}>
+          <Lock size={18} style={{ color: colors.accent.primary }} />
+        </div>
+
+        <div style={styles.messageContainer}>
+          <p style={styles.title}>API Keys Locked</p>
+          <p style={styles.message}>
+            Your API keys are encrypted. Enter your passphrase to use them in this session.
+          </p>
+
+          <form onSubmit={handleUnlock} style={styles.unlockForm}>
+            <input
+              type="password"
+              name="api-key-passphrase"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              aria-label="Passphrase"
+              style={styles.passphraseInput}
+            />
+            <button
+              type="submit"
+              disabled={!passphrase || isUnlocking}
+              style={{
+                ...styles.unlockButton,
+                opacity: !passphrase || isUnlocking ? 0.6 : 1,
+              }}
+            >
+              {isUnlocking ? 'Unlocking…' : 'Unlock'}
+            </button>
+          </form>
+
+          {error && <p style={styles.errorText}>{error}</p>}
+
+          <button onClick={handleReset} style={styles.detailsToggle}>
+            Forgot passphrase?
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
 // =============================================================================
 // STYLES
 // =============================================================================
@@ -262,6 +364,44 @@ const styles: Record<string, React.CSSProperties> = {
     fontFamily: typography.fonts.body,
   },
 
+  unlockForm: {
+    display: 'flex',
+    gap: spacing[2],
+    marginTop: spacing[2],
+  },
+
+  passphraseInput: {
+    flex: 1,
+    minWidth: 0,
+    padding: `${spacing[1]} ${spacing[2]}`,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    color: colors.fg.primary,
+    backgroundColor: colors.bg.inset,
+    border: `1px solid ${colors.border.default}`,
+    borderRadius: effects.border.radius.default,
+    outline: 'none',
+  },
+
+  unlockButton: {
+    padding: `${spacing[1]} ${spacing[3]}`,
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold,
+    fontFamily: typography.fonts.body,
+    color: colors.fg.primary,
+    backgroundColor: colors.accent.muted,
+    border: `1px solid ${colors.accent.primary}`,
+    borderRadius: effects.border.radius.default,
+    cursor: 'pointer',
+  },
+
+  errorText: {
+    margin: 0,
+    fontSize: typography.sizes.xs,
+    color: colors.semantic.error,
+    fontFamily: typography.fonts.body,
+  },
+
   dismissButton: {
     background: 'none',
     border: 'none',
@@ -62,6 +62,20 @@ function getActionIcon(type: AgentAction['type']) {
   }
 }
 
+/**
+ * Undo label for an agent run, e.g. "Agent renamed 4 cards"
+ */
+function describeAppliedActions(applied: { deleted: number; renamed: number; created: number }): string {
+  const cards = (count: number) => `${count} card${count === 1 ? '' : 's'}`;
+  const parts = [
+    applied.deleted > 0 ? `deleted ${cards(applied.deleted)}` : null,
+    applied.renamed > 0 ? `renamed ${cards(applied.renamed)}` : null,
+    applied.created > 0 ? `created ${cards(applied.created)}` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? `Agent ${parts.join(', ')}` : 'Agent actions';
+}
+
 function getActionColor(type: AgentAction['type']): string {
   switch (type) {
     case 'delete': return colors.semantic.error;
@@ -132,6 +146,20 @@ export function AgentConfirmationDialog({ result, onComplete, onCancel }: AgentC
     let successCount = 0;
     let failCount = 0;
 
+    // Keep a restorable copy of the workspace before the agent changes it
+    const { activeWorkspaceId, createWorkspaceSnapshot, beginHistoryBatch, endHistoryBatch } = useCanvasStore.getState();
+    if (result.actions.some((action) => approvals[action.id])) {
+      try {
+        await createWorkspaceSnapshot(activeWorkspaceId, 'Before agent actions', 'agent');
+      } catch (error) {
+        console.warn('[AgentConfirmationDialog] Failed to snapshot workspace', error);
+      }
+    }
+
+    // All approved actions become one undo step
+    const applied = { deleted: 0, renamed: 0, created: 0 };
+    beginHistoryBatch();
+
     for (const action of result.actions) {
       if (!approvals[action.id]) {
         log.push(`⏭️ Skipped: ${action.description}`);
@@ -145,6 +173,7 @@ export function AgentConfirmationDialog({ result, onComplete, onCancel }: AgentC
             const cardTitle = action.data.cardTitle as string;
             deleteConversation(cardId);
             log.push(`✅ Deleted: "${cardTitle}"`);
+            applied.deleted++;
             successCount++;
             break;
           }
@@ -169,6 +198,7 @@ export function AgentConfirmationDialog({ result, onComplete, onCancel }: AgentC
                   },
                 });
                 log.push(`✅ Renamed: "${action.data.currentTitle}" → "${limitedTitle}"`);
+                applied.renamed++;
                 successCount++;
               }
             } else {
@@ -200,6 +230,7 @@ export function AgentConfirmationDialog({ result, onComplete, onCancel }: AgentC
                     branchReason,
                   });
                   log.push(`✅ Created branch: "${branchReason}"`);
+                  applied.created++;
                   successCount++;
                 }
               } else {
@@ -227,6 +258,7 @@ export function AgentConfirmationDialog({ result, onComplete, onCancel }: AgentC
                 },
               });
               log.push(`✅ Created card: "${branchReason}"`);
+              applied.created++;
               successCount++;
             }
             break;
@@ -262,6 +294,8 @@ export function AgentConfirmationDialog({ result, onComplete, onCancel }: AgentC
       }
     }
 
+    endHistoryBatch(describeAppliedActions(applied));
+
     setExecutionLog(log);
     setIsExecuting(false);
 
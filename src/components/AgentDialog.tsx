@@ -17,7 +17,7 @@ import { Bot, Trash2, GitBranch, FileText, X, Play, Loader2, AlertCircle, CheckC
 import { useCanvasStore } from '@/stores/canvas-store';
 import { colors, spacing, effects, typography } from '@/lib/design-tokens';
 import { apiKeyManager } from '@/lib/api-key-manager';
-import { detectProvider, estimateCost, formatCost } from '@/lib/vercel-ai-integration';
+import { createCustomModelDefinition, detectProvider, estimateCost, formatCost, getDefaultModel } from '@/lib/vercel-ai-integration';
 import { useUsageStore } from '@/stores/usage-store';
 import { AgentConfirmationDialog } from './AgentConfirmationDialog';
 
@@ -188,16 +188,23 @@ export function AgentDialog({ isOpen, onClose }: AgentDialogProps) {
     // Check API keys
     const anthropicKey = apiKeyManager.getKey('anthropic') ?? undefined;
     const openaiKey = apiKeyManager.getKey('openai') ?? undefined;
-    const modelId = 'anthropic/claude-sonnet-4-6'; // Default agent model
-
-    if (!anthropicKey && !openaiKey) {
-      setError('No API key configured. Add one in Settings.');
-      return;
-    }
-
-    // Agents use Claude by default — need anthropic key
-    if (!anthropicKey) {
-      setError('Anthropic API key is required for agents (uses Claude). Add it in Settings.');
+    const googleKey = apiKeyManager.getKey('google') ?? undefined;
+    const customProvider = apiKeyManager.getCustomProviderCredentials();
+    const customModel = apiKeyManager.getCustomProvider()?.models[0];
+    // Agents use Claude by default; without an Anthropic key fall back to
+    // Gemini, GPT, then the first custom model
+    const modelId = anthropicKey
+      ? 'anthropic/claude-sonnet-4-6'
+      : googleKey
+        ? getDefaultModel('google').id
+        : openaiKey
+          ? getDefaultModel('openai').id
+          : customModel
+            ? createCustomModelDefinition(customModel).id
+            : null;
+
+    if (!modelId) {
+      setError('Agents need an Anthropic, OpenAI or Google API key, or a custom endpoint with a model. Add one in Settings.');
       return;
     }
 
@@ -220,6 +227,8 @@ export function AgentDialog({ isOpen, onClose }: AgentDialogProps) {
           modelId,
           anthropicKey,
           openaiKey,
+          googleKey,
+          customProvider,
           maxSteps: 10,
           timeoutMs: 60_000,
           maxCostUsd: 0.50,
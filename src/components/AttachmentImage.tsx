@@ -0,0 +1,34 @@
+'use client';
+
+import React, { memo } from 'react';
+
+import { useAttachmentUrl } from '@/hooks/useAttachmentUrl';
+import type { MessageAttachment } from '@/types';
+
+interface AttachmentImageProps {
+  attachment: MessageAttachment;
+  style?: React.CSSProperties;
+  /** Receives the resolved data URL */
+  onOpen?: (url: string) => void;
+}
+
+/**
+ * Image attachment thumbnail that resolves blob-backed attachments lazily
+ */
+export const AttachmentImage = memo(function AttachmentImage({ attachment, style, onOpen }: AttachmentImageProps) {
+  const url = useAttachmentUrl(attachment);
+
+  if (!url) {
+    return <div style={style} aria-label={attachment.name} />;
+  }
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element -- base64 data URLs not supported by next/image
+    <img
+      src={url}
+      alt={attachment.name}
+      style={style}
+      onClick={onOpen ? () => onOpen(url) : undefined}
+    />
+  );
+});
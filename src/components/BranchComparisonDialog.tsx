@@ -0,0 +1,345 @@
+'use client';
+
+/**
+ * BranchComparisonDialog - Side-by-side view of two or more cards
+ *
+ * Messages are aligned after the history the cards share. Assistant responses
+ * are diffed word by word against the first card's response in the same row,
+ * and each column header shows the card's model, tokens and cost.
+ */
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Columns2, X } from 'lucide-react';
+
+import { useCanvasStore } from '@/stores/canvas-store';
+import { formatUsd, getConversationUsage, useUsageStore } from '@/stores/usage-store';
+import { buildBranchComparison, diffWords, type DiffSegment } from '@/lib/branch-compare';
+import { getModelById } from '@/lib/vercel-ai-integration';
+import { colors, typography, spacing, effects, animation } from '@/lib/design-tokens';
+import { zIndex } from '@/constants/zIndex';
+import type { Conversation, Message } from '@/types';
+
+interface BranchComparisonDialogProps {
+  /** Cards to compare; null closes the dialog */
+  cardIds: string[] | null;
+  onClose: () => void;
+}
+
+/** Minimum column width before the grid scrolls horizontally */
+const COLUMN_MIN_WIDTH = 280;
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const overlayStyles: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  backgroundColor: 'var(--bg-overlay)',
+  backdropFilter: 'blur(4px)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: zIndex.overlay.modal,
+};
+
+const dialogStyles: React.CSSProperties = {
+  backgroundColor: colors.bg.secondary,
+  borderRadius: effects.border.radius.md,
+  border: `1px solid ${colors.border.default}`,
+  boxShadow: effects.shadow.lg,
+  width: '95%',
+  maxWidth: '1200px',
+  maxHeight: '85vh',
+  overflow: 'hidden',
+  display: 'flex',
+  flexDirection: 'column',
+};
+
+const headerStyles: React.CSSProperties = {
+  padding: spacing[4],
+  borderBottom: `1px solid ${colors.border.default}`,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: spacing[3],
+};
+
+const mutedTextStyles: React.CSSProperties = {
+  fontSize: typography.sizes.xs,
+  fontFamily: typography.fonts.body,
+  color: colors.fg.tertiary,
+};
+
+const cellStyles: React.CSSProperties = {
+  padding: spacing[3],
+  backgroundColor: colors.bg.inset,
+  border: `1px solid ${colors.border.default}`,
+  borderRadius: effects.border.radius.default,
+  fontSize: typography.sizes.sm,
+  fontFamily: typography.fonts.body,
+  color: colors.fg.primary,
+  whiteSpace: 'pre-wrap',
+  overflowWrap: 'anywhere',
+  minWidth: 0,
+};
+
+const roleLabelStyles: React.CSSProperties = {
+  ...mutedTextStyles,
+  display: 'block',
+  marginBottom: spacing[1],
+  fontWeight: typography.weights.semibold,
+  textTransform: 'uppercase',
+  letterSpacing: '0.04em',
+};
+
+const addedStyles: React.CSSProperties = {
+  backgroundColor: colors.semantic.successBg,
+  color: colors.semantic.successFg,
+  borderRadius: 2,
+};
+
+const removedStyles: React.CSSProperties = {
+  backgroundColor: colors.semantic.errorBg,
+  color: colors.semantic.errorFg,
+  borderRadius: 2,
+  textDecoration: 'line-through',
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Card model, falling back to the model of its latest response */
+function branchModel(conversation: Conversation, messages: Message[]): string | undefined {
+  if (conversation.model) return conversation.model;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const model = messages[i].metadata?.model;
+    if (messages[i].role === 'assistant' && model) return model;
+  }
+  return undefined;
+}
+
+/**
+ * Render diff segments for one side: the baseline shows what it has that the
+ * other side lacks (`removed`), every other column shows its additions.
+ */
+function DiffText({ segments, side }: { segments: DiffSegment[]; side: 'before' | 'after' }) {
+  return (
+    <>
+      {segments.map((segment, index) => {
+        if (segment.type === 'equal') return <span key={index}>{segment.text}</span>;
+        if (segment.type === 'added' && side === 'after') {
+          return <span key={index} style={addedStyles}>{segment.text}</span>;
+        }
+        if (segment.type === 'removed' && side === 'before') {
+          return <span key={index} style={removedStyles}>{segment.text}</span>;
+        }
+        return null;
+      })}
+    </>
+  );
+}
+
+function MessageCell({ message, baseline, showRemoved }: {
+  message: Message | undefined;
+  /** Message in the first column of the same row */
+  baseline: Message | undefined;
+  /** Baseline column with exactly one other column: mark text the other side lacks */
+  showRemoved: Message | undefined;
+}) {
+  if (!message) {
+    return <div style={{ ...cellStyles, ...mutedTextStyles, backgroundColor: 'transparent' }}>No message</div>;
+  }
+
+  const isResponse = message.role === 'assistant';
+  let body: React.ReactNode = message.content;
+  if (isResponse && showRemoved?.role === 'assistant') {
+    body = <DiffText segments={diffWords(message.content, showRemoved.content)} side="before" />;
+  } else if (isResponse && baseline && baseline !== message && baseline.role === 'assistant') {
+    body = <DiffText segments={diffWords(baseline.content, message.content)} side="after" />;
+  }
+
+  return (
+    <div style={cellStyles}>
+      <span style={roleLabelStyles}>{isResponse ? 'Assistant' : 'User'}</span>
+      {body}
+    </div>
+  );
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function BranchComparisonDialog({ cardIds, onClose }: BranchComparisonDialogProps) {
+  const conversations = useCanvasStore((s) => s.conversations);
+  const usageRecords = useUsageStore((s) => s.records);
+  const overlayMouseDownRef = useRef(false);
+
+  const comparison = useMemo(
+    () => (cardIds ? buildBranchComparison(cardIds, conversations) : null),
+    [cardIds, conversations]
+  );
+
+  const columns = useMemo(() => (comparison?.branches ?? []).map((branch) => {
+    const modelId = branchModel(branch.conversation, branch.messages);
+    return {
+      ...branch,
+      modelName: modelId ? getModelById(modelId)?.name ?? modelId : 'Default model',
+      usage: getConversationUsage(usageRecords, branch.conversation.id),
+    };
+  }), [comparison, usageRecords]);
+
+  useEffect(() => {
+    if (!cardIds) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cardIds, onClose]);
+
+  const gridTemplateColumns = `repeat(${Math.max(columns.length, 1)}, minmax(${COLUMN_MIN_WIDTH}px, 1fr))`;
+  const rows = Array.from({ length: comparison?.rowCount ?? 0 }, (_, index) => index);
+
+  return (
+    <AnimatePresence>
+      {cardIds && comparison && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          style={overlayStyles}
+          onMouseDown={(e) => {
+            overlayMouseDownRef.current = e.target === e.currentTarget;
+          }}
+          onMouseUp={(e) => {
+            if (overlayMouseDownRef.current && e.target === e.currentTarget) {
+              onClose();
+            }
+            overlayMouseDownRef.current = false;
+          }}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 10 }}
+            transition={animation.spring.snappy}
+            style={dialogStyles}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="branch-comparison-title"
+          >
+            <div style={headerStyles}>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 2, minWidth: 0 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: spacing[2] }}>
+                  <Columns2 size={18} color={colors.fg.secondary} />
+                  <h3
+                    id="branch-comparison-title"
+                    style={{
+                      margin: 0,
+                      fontSize: typography.sizes.lg,
+                      fontFamily: typography.fonts.heading,
+                      color: colors.fg.primary,
+                    }}
+                  >
+                    Compare {columns.length} branches
+                  </h3>
+                </div>
+                <span style={mutedTextStyles}>
+                  {comparison.sharedMessageCount > 0
+                    ? `${comparison.sharedMessageCount} shared ${comparison.sharedMessageCount === 1 ? 'message' : 'messages'}${comparison.commonAncestor ? ` from "${comparison.commonAncestor.metadata.title || 'Untitled'}"` : ''} hidden`
+                    : 'No shared history'}
+                  {columns.length > 1 && ' · differences are highlighted against the first branch'}
+                </span>
+              </div>
+              <button
+                onClick={onClose}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  color: colors.fg.tertiary,
+                  display: 'flex',
+                  alignItems: 'center',
+                }}
+                aria-label="Close"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            <div style={{ overflow: 'auto', padding: spacing[4] }}>
+              <div style={{ display: 'grid', gridTemplateColumns, gap: spacing[3] }}>
+                {columns.map((column) => (
+                  <div
+                    key={column.conversation.id}
+                    style={{
+                      position: 'sticky',
+                      top: `calc(-1 * ${spacing[4]})`,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      gap: 2,
+                      padding: `${spacing[2]} 0`,
+                      backgroundColor: colors.bg.secondary,
+                      borderBottom: `1px solid ${colors.border.default}`,
+                      minWidth: 0,
+                    }}
+                  >
+                    <span
+                      style={{
+                        fontSize: typography.sizes.sm,
+                        fontFamily: typography.fonts.body,
+                        fontWeight: typography.weights.semibold,
+                        color: colors.fg.primary,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {column.conversation.metadata.title || 'Untitled'}
+                    </span>
+                    <span style={mutedTextStyles}>{column.modelName}</span>
+                    <span style={mutedTextStyles}>
+                      {column.usage.recordCount > 0
+                        ? `${column.usage.totalTokens.toLocaleString()} tokens · ${formatUsd(column.usage.costUsd)}`
+                        : 'No recorded usage'}
+                    </span>
+                  </div>
+                ))}
+
+                {rows.map((rowIndex) => {
+                  const baseline = columns[0]?.messages[rowIndex];
+                  return columns.map((column, columnIndex) => (
+                    <MessageCell
+                      key={`${column.conversation.id}-${rowIndex}`}
+                      message={column.messages[rowIndex]}
+                      baseline={baseline}
+                      showRemoved={columnIndex === 0 && columns.length === 2 ? columns[1].messages[rowIndex] : undefined}
+                    />
+                  ));
+                })}
+              </div>
+
+              {rows.length === 0 && (
+                <div style={{ ...mutedTextStyles, padding: spacing[3], textAlign: 'center' }}>
+                  These cards have no messages after their shared history.
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -15,6 +15,7 @@ import {
   saveKnowledgeBaseFile,
   updateKnowledgeBaseFileMeta,
 } from '@/lib/knowledge-base-db';
+import { formatBytes } from '@/utils/formatters';
 
 const MAX_INSTRUCTIONS = 1500;
 const MAX_FILES = 10;
@@ -203,12 +204,6 @@ interface UploadingFile {
   status: 'reading' | 'saving' | 'error';
 }
 
-function formatBytes(size: number): string {
-  if (size < 1024) return `${size} B`;
-  if (size < 1024 * 1024) return `${Math.round(size / 1024)} KB`;
-  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
-}
-
 function formatDate(value: number): string {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) return 'Unknown';
@@ -15,6 +15,12 @@ import {
   MoreHorizontal,
   Settings,
   Bot,
+  Download,
+  Upload,
+  History,
+  Unlink,
+  FolderInput,
+  CopyPlus,
 } from 'lucide-react';
 
 import { useCanvasStore } from '@/stores/canvas-store';
@@ -24,6 +30,24 @@ import { colors, spacing, effects, typography, layout, components } from '@/lib/
 import { enforceTitleWordLimit } from '@/utils/formatters';
 import type { Conversation, Workspace } from '@/types';
 import { usePreferencesStore, selectUIPreferences } from '@/stores/preferences-store';
+import { useToast } from '@/stores/toast-store';
+import { WorkspaceSnapshotsDialog } from './WorkspaceSnapshotsDialog';
+import {
+  LOOM_FILE_EXTENSION,
+  createWorkspaceArchive,
+  importWorkspaceArchive,
+  isWorkspaceArchive,
+  parseWorkspaceArchive,
+} from '@/lib/workspace-archive';
+import {
+  JSON_CANVAS_FILE_EXTENSION,
+  isJsonCanvas,
+  jsonCanvasToWorkspace,
+  parseJsonCanvas,
+  workspaceToJsonCanvas,
+} from '@/lib/json-canvas';
+import { chatHistoryToWorkspace, detectChatHistorySource, parseChatHistoryExport } from '@/lib/chat-history-import';
+import { downloadFile, toFileSlug } from '@/utils/download';
 
 // =============================================================================
 // CONSTANTS
@@ -41,6 +65,9 @@ interface ConversationTreeProps {
   onFocusNode?: (nodeId: string) => void;
 }
 
+/** dataTransfer type for dragging a card onto a new parent in the tree */
+const TREE_CARD_DRAG_TYPE = 'application/x-projectloom-card';
+
 // Track collapsed conversation nodes
 const collapsedNodesState = new Map<string, Set<string>>(); // workspaceId -> Set of collapsed conversation IDs
 
@@ -68,9 +95,15 @@ function ConversationTree({ workspaceId, isExpanded, onFocusNode }: Conversation
   const setSelected = useCanvasStore(state => state.setSelected);
   const openChatPanel = useCanvasStore(state => state.openChatPanel);
   const updateConversation = useCanvasStore(state => state.updateConversation);
+  const recordHistory = useCanvasStore(state => state.recordHistory);
   const deleteConversation = useCanvasStore(state => state.deleteConversation);
   const requestDeleteConversation = useCanvasStore(state => state.requestDeleteConversation);
+  const reparentConversation = useCanvasStore(state => state.reparentConversation);
+  const detachBranch = useCanvasStore(state => state.detachBranch);
+  const moveSubtreeToWorkspace = useCanvasStore(state => state.moveSubtreeToWorkspace);
+  const workspaces = useCanvasStore(state => state.workspaces);
   const uiPrefs = usePreferencesStore(selectUIPreferences);
+  const toast = useToast();
   const onboardingActive = useOnboardingStore((s) => s.active);
   const setTree = useCanvasTreeStore((state) => state.setTree);
   const rootNodes = useCanvasTreeStore(
@@ -90,6 +123,13 @@ function ConversationTree({ workspaceId, isExpanded, onFocusNode }: Conversation
   const [showConversationMenu, setShowConversationMenu] = useState(false);
   const [conversationMenuPos, setConversationMenuPos] = useState({ x: 0, y: 0 });
   const [conversationMenuId, setConversationMenuId] = useState<string | null>(null);
+  // Workspace picker inside the card menu
+  const [transferMode, setTransferMode] = useState<'move' | 'copy' | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const menuCardHasParents = useCanvasStore(state =>
+    !!conversationMenuId && (state.conversations.get(conversationMenuId)?.parentCardIds.length ?? 0) > 0
+  );
   
   // PERFORMANCE: Use a stable key for the workspace tree to minimize recalculations
   // useMemo dependency is now just the serialized tree structure
@@ -152,11 +192,12 @@ function ConversationTree({ workspaceId, isExpanded, onFocusNode }: Conversation
           updatedAt: new Date(),
         },
       });
+      recordHistory(`Renamed to "${limitedTitle}"`);
     }
 
     setRenamingId(null);
     setRenamingValue('');
-  }, [renamingValue, updateConversation]);
+  }, [renamingValue, updateConversation, recordHistory]);
 
   const handleCancelRename = useCallback(() => {
     setRenamingId(null);
@@ -168,8 +209,30 @@ function ConversationTree({ workspaceId, isExpanded, onFocusNode }: Conversation
     e.stopPropagation();
     setConversationMenuPos({ x: e.clientX, y: e.clientY });
     setConversationMenuId(conversation.id);
+    setTransferMode(null);
     setShowConversationMenu(true);
   }, []);
+
+  const handleTransfer = useCallback((conversationId: string, target: Workspace, mode: 'move' | 'copy') => {
+    const count = moveSubtreeToWorkspace(conversationId, target.id, { copy: mode === 'copy' });
+    if (count > 0) {
+      toast.success(`${mode === 'copy' ? 'Copied' : 'Moved'} ${count} ${count === 1 ? 'card' : 'cards'} to "${target.metadata.title}"`);
+    } else {
+      toast.error(`Failed to ${mode} cards`);
+    }
+    setShowConversationMenu(false);
+  }, [moveSubtreeToWorkspace, toast]);
+
+  // Drop a dragged card onto another to make it the new parent
+  const handleDrop = useCallback((e: React.DragEvent, parentId: string) => {
+    const draggedId = e.dataTransfer.getData(TREE_CARD_DRAG_TYPE);
+    e.preventDefault();
+    setDraggingId(null);
+    setDropTargetId(null);
+    if (draggedId && draggedId !== parentId) {
+      reparentConversation(draggedId, parentId);
+    }
+  }, [reparentConversation]);
   
   // Auto-expand path to selected node
   useEffect(() => {
@@ -279,10 +342,39 @@ function ConversationTree({ workspaceId, isExpanded, onFocusNode }: Conversation
             <div style={{ width: 12 }} />
           )}
           
-          {/* Clickable content */}
+          {/* Clickable content (drag onto another card to re-parent) */}
           <div
             onClick={() => handleSelectCard(conversation.id)}
-            style={{ display: 'flex', alignItems: 'center', gap: spacing[1], flex: 1, cursor: 'pointer' }}
+            draggable={!onboardingActive && renamingId !== conversation.id}
+            onDragStart={(e) => {
+              e.dataTransfer.setData(TREE_CARD_DRAG_TYPE, conversation.id);
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggingId(conversation.id);
+            }}
+            onDragEnd={() => {
+              setDraggingId(null);
+              setDropTargetId(null);
+            }}
+            onDragOver={(e) => {
+              if (!draggingId || draggingId === conversation.id) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              if (dropTargetId !== conversation.id) setDropTargetId(conversation.id);
+            }}
+            onDragLeave={() => {
+              if (dropTargetId === conversation.id) setDropTargetId(null);
+            }}
+            onDrop={(e) => handleDrop(e, conversation.id)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: spacing[1],
+              flex: 1,
+              cursor: 'pointer',
+              borderRadius: effects.border.radius.default,
+              outline: dropTargetId === conversation.id ? `1px dashed ${colors.accent.primary}` : 'none',
+              opacity: draggingId === conversation.id ? 0.5 : 1,
+            }}
           >
             {/* Icon */}
             {isMerge ? (
@@ -430,6 +522,61 @@ function ConversationTree({ workspaceId, isExpanded, onFocusNode }: Conversation
               <Edit2 size={14} />
               Rename
             </button>
+            {!onboardingActive && transferMode === null && (
+              <>
+                {menuCardHasParents && (
+                  <button
+                    onClick={() => {
+                      detachBranch(conversationMenuId);
+                      setShowConversationMenu(false);
+                    }}
+                    style={conversationMenuItemStyles}
+                    title="Make this card a root that keeps its inherited messages"
+                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${colors.accent.primary}15`}
+                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                  >
+                    <Unlink size={14} />
+                    Detach from parent
+                  </button>
+                )}
+                {workspaces.length > 1 && (['move', 'copy'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setTransferMode(mode)}
+                    style={conversationMenuItemStyles}
+                    title={`${mode === 'move' ? 'Move' : 'Copy'} this card and its branches to another workspace`}
+                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${colors.accent.primary}15`}
+                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                  >
+                    {mode === 'move' ? <FolderInput size={14} /> : <CopyPlus size={14} />}
+                    {mode === 'move' ? 'Move tree to workspace…' : 'Copy tree to workspace…'}
+                  </button>
+                ))}
+              </>
+            )}
+            {transferMode !== null && (
+              <div style={{ borderTop: '1px solid var(--border-secondary)', marginTop: spacing[1], paddingTop: spacing[1] }}>
+                <div style={{ padding: `${spacing[1]} ${spacing[2]}`, fontSize: typography.sizes.xs, color: colors.fg.tertiary }}>
+                  {transferMode === 'move' ? 'Move to' : 'Copy to'}
+                </div>
+                {workspaces
+                  .filter((w) => w.id !== workspaceId)
+                  .map((w) => (
+                    <button
+                      key={w.id}
+                      onClick={() => handleTransfer(conversationMenuId, w, transferMode)}
+                      style={conversationMenuItemStyles}
+                      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${colors.accent.primary}15`}
+                      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                    >
+                      <Folder size={14} />
+                      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {w.metadata.title}
+                      </span>
+                    </button>
+                  ))}
+              </div>
+            )}
             <button
               onClick={() => {
                 if (onboardingActive) {
@@ -488,6 +635,23 @@ const headerStyles: React.CSSProperties = {
   flexShrink: 0,
 };
 
+const conversationMenuItemStyles: React.CSSProperties = {
+  width: '100%',
+  display: 'flex',
+  alignItems: 'center',
+  gap: spacing[2],
+  padding: `${spacing[2]} ${spacing[2]}`,
+  background: 'none',
+  border: 'none',
+  borderRadius: effects.border.radius.default,
+  color: colors.fg.primary,
+  fontSize: typography.sizes.sm,
+  fontFamily: typography.fonts.body,
+  cursor: 'pointer',
+  textAlign: 'left',
+  transition: 'background-color 0.15s ease',
+};
+
 const contentStyles: React.CSSProperties = {
   flex: 1,
   overflowY: 'auto',
@@ -500,6 +664,26 @@ const contentStyles: React.CSSProperties = {
 // WORKSPACE ITEM COMPONENT
 // =============================================================================
 
+type WorkspaceExportFormat = 'loom' | 'json-canvas';
+
+/**
+ * Recognize an import file by its content rather than its extension: a
+ * JSON Canvas file or a .loom archive can arrive as plain `.json` too.
+ */
+function detectImportFormat(raw: string): WorkspaceExportFormat | 'chat-history' {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (isWorkspaceArchive(parsed)) return 'loom';
+  if (isJsonCanvas(parsed)) return 'json-canvas';
+  if (detectChatHistorySource(parsed)) return 'chat-history';
+  throw new Error('Not a ProjectLoom archive, JSON Canvas file or ChatGPT/Claude conversations export');
+}
+
 interface WorkspaceItemProps {
   workspace: Workspace;
   isActive: boolean;
@@ -508,6 +692,8 @@ interface WorkspaceItemProps {
   onSelect: (id: string) => void;
   onDelete: (id: string) => void;
   onRename: (id: string, newName: string) => void;
+  onExport: (id: string, format: WorkspaceExportFormat) => void;
+  onOpenSnapshots: (id: string) => void;
   triggerRename?: boolean;
   onRenameStart?: () => void;
   selectedNodeId?: string; // For auto-expanding when card is selected
@@ -522,6 +708,8 @@ function WorkspaceItem({
   onSelect,
   onDelete,
   onRename,
+  onExport,
+  onOpenSnapshots,
   triggerRename,
   onRenameStart,
   selectedNodeId,
@@ -787,6 +975,90 @@ function WorkspaceItem({
               <Edit2 size={14} />
               Rename
             </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowContextMenu(false);
+                onOpenSnapshots(workspace.id);
+              }}
+              style={{
+                width: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                gap: spacing[2],
+                padding: `${spacing[2]} ${spacing[2]}`,
+                background: 'none',
+                border: 'none',
+                borderRadius: effects.border.radius.default,
+                color: colors.fg.primary,
+                fontSize: typography.sizes.sm,
+                fontFamily: typography.fonts.body,
+                cursor: 'pointer',
+                textAlign: 'left',
+                transition: 'background-color 0.15s ease',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${colors.accent.primary}15`}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <History size={14} />
+              Snapshots…
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowContextMenu(false);
+                onExport(workspace.id, 'loom');
+              }}
+              style={{
+                width: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                gap: spacing[2],
+                padding: `${spacing[2]} ${spacing[2]}`,
+                background: 'none',
+                border: 'none',
+                borderRadius: effects.border.radius.default,
+                color: colors.fg.primary,
+                fontSize: typography.sizes.sm,
+                fontFamily: typography.fonts.body,
+                cursor: 'pointer',
+                textAlign: 'left',
+                transition: 'background-color 0.15s ease',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${colors.accent.primary}15`}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <Download size={14} />
+              Export as {LOOM_FILE_EXTENSION}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowContextMenu(false);
+                onExport(workspace.id, 'json-canvas');
+              }}
+              style={{
+                width: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                gap: spacing[2],
+                padding: `${spacing[2]} ${spacing[2]}`,
+                background: 'none',
+                border: 'none',
+                borderRadius: effects.border.radius.default,
+                color: colors.fg.primary,
+                fontSize: typography.sizes.sm,
+                fontFamily: typography.fonts.body,
+                cursor: 'pointer',
+                textAlign: 'left',
+                transition: 'background-color 0.15s ease',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${colors.accent.primary}15`}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              <Download size={14} />
+              Export as JSON Canvas ({JSON_CANVAS_FILE_EXTENSION})
+            </button>
             {canDelete && (
               <button
                 onClick={(e) => {
@@ -878,6 +1150,9 @@ export function CanvasTreeSidebar({
   const [isResizeHovered, setIsResizeHovered] = useState(false);
   const [triggerF2Rename, setTriggerF2Rename] = useState(false);
   const sidebarRef = useRef<HTMLDivElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [snapshotsWorkspaceId, setSnapshotsWorkspaceId] = useState<string | null>(null);
+  const toast = useToast();
   
   // Use external state for open/close
   const isOpen = externalIsOpen;
@@ -889,6 +1164,8 @@ export function CanvasTreeSidebar({
   const selectedNodeIds = useCanvasStore((s) => s.selectedNodeIds);
   const navigateToWorkspace = useCanvasStore((s) => s.navigateToWorkspace);
   const updateWorkspace = useCanvasStore((s) => s.updateWorkspace);
+  const getWorkspaceSnapshot = useCanvasStore((s) => s.getWorkspaceSnapshot);
+  const importWorkspace = useCanvasStore((s) => s.importWorkspace);
 
   // Resize handlers
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -946,6 +1223,99 @@ export function CanvasTreeSidebar({
     }
   }, [workspaces, updateWorkspace]);
 
+  const handleExport = useCallback(async (workspaceId: string, format: WorkspaceExportFormat) => {
+    const workspace = getWorkspaceSnapshot(workspaceId);
+    if (!workspace) return;
+
+    const fileStem = toFileSlug(workspace.metadata.title, 'workspace');
+    try {
+      if (format === 'json-canvas') {
+        downloadFile(
+          JSON.stringify(workspaceToJsonCanvas(workspace), null, 2),
+          `${fileStem}${JSON_CANVAS_FILE_EXTENSION}`,
+          'application/json'
+        );
+      } else {
+        const archive = await createWorkspaceArchive(workspace);
+        downloadFile(JSON.stringify(archive), `${fileStem}${LOOM_FILE_EXTENSION}`, 'application/json');
+      }
+      toast.success(`Exported "${workspace.metadata.title}"`);
+    } catch (error) {
+      console.error('[CanvasTreeSidebar] Workspace export failed', error);
+      toast.error('Failed to export workspace');
+    }
+  }, [getWorkspaceSnapshot, toast]);
+
+  const handleImportClick = useCallback(() => {
+    if (mutationsDisabled) return;
+    archiveInputRef.current?.click();
+  }, [mutationsDisabled]);
+
+  const handleImportArchive = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const raw = await file.text();
+      const format = detectImportFormat(raw);
+
+      // ChatGPT / Claude data export (conversations.json)
+      if (format === 'chat-history') {
+        const { source, conversations } = parseChatHistoryExport(raw);
+        const { workspace, conversationCount } = chatHistoryToWorkspace(source, conversations);
+        if (conversationCount === 0) {
+          toast.warning('No conversations with messages found in this export');
+          return;
+        }
+        importWorkspace(workspace);
+        toast.success(
+          `Imported ${conversationCount} conversation${conversationCount === 1 ? '' : 's'} into "${workspace.metadata.title}"`
+        );
+        return;
+      }
+
+      if (format === 'json-canvas') {
+        const title = file.name.replace(/\.(canvas|json)$/i, '') || 'Imported Canvas';
+        const { workspace, skippedNodes } = jsonCanvasToWorkspace(parseJsonCanvas(raw), title);
+        importWorkspace(workspace);
+        toast.success(
+          skippedNodes > 0
+            ? `Imported "${title}" (${skippedNodes} non-text node${skippedNodes === 1 ? '' : 's'} skipped)`
+            : `Imported "${title}"`
+        );
+        return;
+      }
+
+      const archive = parseWorkspaceArchive(raw);
+      const workspace = await importWorkspaceArchive(archive);
+      importWorkspace(workspace);
+      toast.success(`Imported "${workspace.metadata.title}"`);
+    } catch (error) {
+      console.error('[CanvasTreeSidebar] Workspace import failed', error);
+      toast.error(error instanceof Error ? `Import failed: ${error.message}` : 'Failed to import workspace');
+    }
+  }, [importWorkspace, toast]);
+
+  // Hidden file input shared by the desktop and mobile headers
+  // (.loom archives, .canvas files and ChatGPT/Claude conversations.json exports)
+  const archiveInput = (
+    <input
+      ref={archiveInputRef}
+      type="file"
+      accept={`${LOOM_FILE_EXTENSION},${JSON_CANVAS_FILE_EXTENSION},.json,application/json`}
+      onChange={handleImportArchive}
+      style={{ display: 'none' }}
+    />
+  );
+
+  const snapshotsDialog = (
+    <WorkspaceSnapshotsDialog
+      workspaceId={snapshotsWorkspaceId}
+      onClose={() => setSnapshotsWorkspaceId(null)}
+    />
+  );
+
   // F2 keyboard shortcut for renaming
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -1010,27 +1380,49 @@ export function CanvasTreeSidebar({
           }}>
             Workspaces
           </span>
-          <button
-            onClick={() => {
-              handleCreateWorkspace(`New Workspace ${workspaces.length + 1}`);
-            }}
-            disabled={mutationsDisabled}
-            style={{
-              background: 'none',
-              border: 'none',
-              padding: spacing[1],
-              cursor: mutationsDisabled ? 'not-allowed' : 'pointer',
-              opacity: mutationsDisabled ? 0.5 : 1,
-              borderRadius: effects.border.radius.default,
-              color: colors.accent.contrast,
-              backgroundColor: colors.accent.primary,
-              display: 'flex',
-              alignItems: 'center',
-            }}
-            title="Create new workspace"
-          >
-            <Plus size={16} />
-          </button>
+          <div style={{ display: 'flex', gap: spacing[1] }}>
+            {archiveInput}
+            {snapshotsDialog}
+            <button
+              onClick={handleImportClick}
+              disabled={mutationsDisabled}
+              style={{
+                background: 'none',
+                border: '1px solid var(--border-primary)',
+                padding: spacing[1],
+                cursor: mutationsDisabled ? 'not-allowed' : 'pointer',
+                opacity: mutationsDisabled ? 0.5 : 1,
+                borderRadius: effects.border.radius.default,
+                color: colors.fg.secondary,
+                display: 'flex',
+                alignItems: 'center',
+              }}
+              title={`Import workspace (${LOOM_FILE_EXTENSION}, ${JSON_CANVAS_FILE_EXTENSION} or ChatGPT/Claude conversations.json)`}
+            >
+              <Upload size={16} />
+            </button>
+            <button
+              onClick={() => {
+                handleCreateWorkspace(`New Workspace ${workspaces.length + 1}`);
+              }}
+              disabled={mutationsDisabled}
+              style={{
+                background: 'none',
+                border: 'none',
+                padding: spacing[1],
+                cursor: mutationsDisabled ? 'not-allowed' : 'pointer',
+                opacity: mutationsDisabled ? 0.5 : 1,
+                borderRadius: effects.border.radius.default,
+                color: colors.accent.contrast,
+                backgroundColor: colors.accent.primary,
+                display: 'flex',
+                alignItems: 'center',
+              }}
+              title="Create new workspace"
+            >
+              <Plus size={16} />
+            </button>
+          </div>
         </div>
 
         {/* Workspace list */}
@@ -1077,6 +1469,8 @@ export function CanvasTreeSidebar({
                 onSelect={handleSelect}
                 onDelete={handleDelete}
                 onRename={handleRename}
+                onExport={handleExport}
+                onOpenSnapshots={setSnapshotsWorkspaceId}
                 triggerRename={triggerF2Rename}
                 onRenameStart={handleRenameStart}
                 selectedNodeId={Array.from(selectedNodeIds)[0]}
@@ -1292,27 +1686,49 @@ export function CanvasTreeSidebar({
         }}>
           Workspaces
         </span>
-        <button
-          onClick={() => {
-            handleCreateWorkspace(`New Workspace ${workspaces.length + 1}`);
-          }}
-          disabled={mutationsDisabled}
-          style={{
-            background: 'none',
-            border: 'none',
-            padding: spacing[1],
-            cursor: mutationsDisabled ? 'not-allowed' : 'pointer',
-            opacity: mutationsDisabled ? 0.5 : 1,
-            borderRadius: effects.border.radius.default,
-            color: colors.accent.contrast,
-            backgroundColor: colors.accent.primary,
-            display: 'flex',
-            alignItems: 'center',
-          }}
-          title="Create new workspace"
-        >
-          <Plus size={16} />
-        </button>
+        <div style={{ display: 'flex', gap: spacing[1] }}>
+          {archiveInput}
+          {snapshotsDialog}
+          <button
+            onClick={handleImportClick}
+            disabled={mutationsDisabled}
+            style={{
+              background: 'none',
+              border: '1px solid var(--border-primary)',
+              padding: spacing[1],
+              cursor: mutationsDisabled ? 'not-allowed' : 'pointer',
+              opacity: mutationsDisabled ? 0.5 : 1,
+              borderRadius: effects.border.radius.default,
+              color: colors.fg.secondary,
+              display: 'flex',
+              alignItems: 'center',
+            }}
+            title={`Import workspace (${LOOM_FILE_EXTENSION}, ${JSON_CANVAS_FILE_EXTENSION} or ChatGPT/Claude conversations.json)`}
+          >
+            <Upload size={16} />
+          </button>
+          <button
+            onClick={() => {
+              handleCreateWorkspace(`New Workspace ${workspaces.length + 1}`);
+            }}
+            disabled={mutationsDisabled}
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: spacing[1],
+              cursor: mutationsDisabled ? 'not-allowed' : 'pointer',
+              opacity: mutationsDisabled ? 0.5 : 1,
+              borderRadius: effects.border.radius.default,
+              color: colors.accent.contrast,
+              backgroundColor: colors.accent.primary,
+              display: 'flex',
+              alignItems: 'center',
+            }}
+            title="Create new workspace"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
       </div>
 
       {/* Workspace list (flat, no tree hierarchy) */}
@@ -1359,6 +1775,8 @@ export function CanvasTreeSidebar({
               onSelect={handleSelect}
               onDelete={handleDelete}
               onRename={handleRename}
+              onExport={handleExport}
+              onOpenSnapshots={setSnapshotsWorkspaceId}
               triggerRename={triggerF2Rename}
               onRenameStart={handleRenameStart}
               selectedNodeId={Array.from(selectedNodeIds)[0]}
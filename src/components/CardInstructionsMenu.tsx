@@ -0,0 +1,441 @@
+'use client';
+
+/**
+ * CardInstructionsMenu - Persona and system prompt for a single card
+ *
+ * Header button with a popover to pick a persona preset and write card
+ * instructions, plus the chip row ChatPanelHeader shows for the instruction
+ * layers that apply (workspace → persona → card). Branches inherit both
+ * values from their parent until they set their own.
+ */
+
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollText, ChevronRight } from 'lucide-react';
+
+import { useCanvasStore } from '@/stores/canvas-store';
+import {
+  PERSONA_PRESETS,
+  MAX_CARD_SYSTEM_PROMPT,
+  buildInstructionLayers,
+  getPersona,
+  resolveCardInstructions,
+  type InstructionLayer,
+  type ResolvedCardInstructions,
+} from '@/lib/personas';
+import { colors, typography, spacing, effects } from '@/lib/design-tokens';
+import { zIndex } from '@/constants/zIndex';
+import type { Conversation } from '@/types';
+
+const INHERIT_OPTION = '__inherit';
+const NONE_OPTION = '__none';
+
+// =============================================================================
+// HOOKS
+// =============================================================================
+
+/** Resolved card instructions and the layers the chat route will send */
+export function useInstructionLayers(conversation: Conversation): {
+  resolved: ResolvedCardInstructions;
+  layers: InstructionLayer[];
+} {
+  const conversations = useCanvasStore((s) => s.conversations);
+  const workspaceInstructions = useCanvasStore(
+    (s) => s.workspaces.find((w) => w.id === s.activeWorkspaceId)?.context?.instructions
+  );
+
+  return useMemo(() => {
+    const resolved = resolveCardInstructions(conversation, conversations);
+    return {
+      resolved,
+      layers: buildInstructionLayers({
+        workspaceInstructions,
+        personaId: resolved.personaId,
+        systemPrompt: resolved.systemPrompt,
+      }),
+    };
+  }, [conversation, conversations, workspaceInstructions]);
+}
+
+// =============================================================================
+// LAYER CHIPS
+// =============================================================================
+
+interface InstructionLayerChipsProps {
+  layers: InstructionLayer[];
+  onClick: () => void;
+}
+
+/** Row of active instruction layers, in the order they are sent */
+export const InstructionLayerChips = memo(function InstructionLayerChips({ layers, onClick }: InstructionLayerChipsProps) {
+  if (layers.length === 0) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      style={styles.chipRow}
+      title="Instructions sent with every message, in this order"
+      aria-label="Edit card instructions"
+    >
+      {layers.map((layer, index) => (
+        <React.Fragment key={layer.source}>
+          {index > 0 && <ChevronRight size={10} color={colors.fg.tertiary} />}
+          <span style={styles.chip} title={layer.text}>
+            {layer.label}
+          </span>
+        </React.Fragment>
+      ))}
+    </button>
+  );
+});
+
+// =============================================================================
+// MENU
+// =============================================================================
+
+interface CardInstructionsMenuProps {
+  conversation: Conversation;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const CardInstructionsMenu = memo(function CardInstructionsMenu({
+  conversation,
+  isOpen,
+  onOpenChange,
+}: CardInstructionsMenuProps) {
+  const conversations = useCanvasStore((s) => s.conversations);
+  const updateConversation = useCanvasStore((s) => s.updateConversation);
+  const recordHistory = useCanvasStore((s) => s.recordHistory);
+  const { resolved, layers } = useInstructionLayers(conversation);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const hasParents = conversation.parentCardIds.length > 0;
+  const hasCardLayer = !!resolved.personaId || !!resolved.systemPrompt;
+  const ownPrompt = conversation.systemPrompt;
+  const inheritsPrompt = hasParents && ownPrompt === undefined;
+  const [draftPrompt, setDraftPrompt] = useState(ownPrompt ?? '');
+
+  // Inherited values as the parent sees them, for the "Inherit" choices
+  const inherited = useMemo(() => {
+    const parent = hasParents ? conversations.get(conversation.parentCardIds[0]) : undefined;
+    return parent ? resolveCardInstructions(parent, conversations) : {};
+  }, [hasParents, conversation.parentCardIds, conversations]);
+
+  // Keep the draft in sync when the card or its stored prompt changes - intentional reset
+  useEffect(() => {
+    /* eslint-disable-next-line react-hooks/set-state-in-effect */
+    setDraftPrompt(ownPrompt ?? '');
+  }, [conversation.id, ownPrompt]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent | TouchEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        onOpenChange(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside as EventListener);
+    document.addEventListener('touchstart', handleClickOutside as EventListener);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside as EventListener);
+      document.removeEventListener('touchstart', handleClickOutside as EventListener);
+    };
+  }, [isOpen, onOpenChange]);
+
+  const sourceLabel = (sourceId: string | undefined) => {
+    if (!sourceId || sourceId === conversation.id) return 'this card';
+    return `"${conversations.get(sourceId)?.metadata.title || 'Untitled'}"`;
+  };
+
+  const personaValue = conversation.personaId === undefined
+    ? (hasParents ? INHERIT_OPTION : NONE_OPTION)
+    : (getPersona(conversation.personaId) ? conversation.personaId : NONE_OPTION);
+
+  const handlePersonaChange = (value: string) => {
+    let personaId: string | undefined;
+    if (value === INHERIT_OPTION) personaId = undefined;
+    else if (value === NONE_OPTION) personaId = hasParents ? '' : undefined;
+    else personaId = value;
+    if (personaId === conversation.personaId) return;
+
+    updateConversation(conversation.id, { personaId });
+    recordHistory(personaId ? `Set persona "${getPersona(personaId)?.name}"` : 'Cleared persona');
+  };
+
+  const handleInheritPromptChange = (inherit: boolean) => {
+    // Opting out starts from the inherited text so it can be edited rather than retyped
+    const systemPrompt = inherit ? undefined : (inherited.systemPrompt ?? '');
+    updateConversation(conversation.id, { systemPrompt });
+    recordHistory(inherit ? 'Inherited card instructions' : 'Overrode card instructions');
+  };
+
+  const handleSavePrompt = () => {
+    const trimmed = draftPrompt.trim();
+    // Roots have nothing to inherit, so an empty prompt is the same as none
+    const systemPrompt = trimmed || hasParents ? trimmed : undefined;
+    if (systemPrompt === ownPrompt || (systemPrompt === undefined && ownPrompt === '')) return;
+    updateConversation(conversation.id, { systemPrompt });
+    recordHistory('Edited card instructions');
+  };
+
+  const selectedPersona = getPersona(resolved.personaId);
+
+  return (
+    <div ref={containerRef} style={styles.container}>
+      <button
+        type="button"
+        onClick={() => onOpenChange(!isOpen)}
+        style={{
+          ...styles.triggerButton,
+          backgroundColor: isOpen || hasCardLayer ? colors.accent.muted : 'transparent',
+          borderColor: isOpen || hasCardLayer ? colors.accent.primary : 'var(--border-primary)',
+          color: isOpen || hasCardLayer ? colors.accent.primary : colors.fg.secondary,
+        }}
+        title="Card instructions & persona"
+        aria-label="Card instructions and persona"
+        aria-expanded={isOpen}
+      >
+        <ScrollText size={16} />
+      </button>
+
+      {isOpen && (
+        <div style={styles.popover} role="dialog" aria-label="Card instructions">
+          <div style={styles.section}>
+            <label style={styles.label} htmlFor={`persona-${conversation.id}`}>Persona</label>
+            <select
+              id={`persona-${conversation.id}`}
+              value={personaValue}
+              onChange={(e) => handlePersonaChange(e.target.value)}
+              style={styles.select}
+            >
+              {hasParents && (
+                <option value={INHERIT_OPTION}>
+                  Inherit ({getPersona(inherited.personaId)?.name ?? 'none'})
+                </option>
+              )}
+              <option value={NONE_OPTION}>No persona</option>
+              {PERSONA_PRESETS.map((persona) => (
+                <option key={persona.id} value={persona.id}>{persona.name}</option>
+              ))}
+            </select>
+            {selectedPersona && (
+              <span style={styles.muted}>
+                {selectedPersona.description}
+                {resolved.personaSourceId !== conversation.id && ` · from ${sourceLabel(resolved.personaSourceId)}`}
+              </span>
+            )}
+          </div>
+
+          <div style={styles.section}>
+            <span style={styles.label}>Card instructions</span>
+            {hasParents && (
+              <label style={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={inheritsPrompt}
+                  onChange={(e) => handleInheritPromptChange(e.target.checked)}
+                />
+                Inherit from parent
+              </label>
+            )}
+            {inheritsPrompt ? (
+              <div style={styles.inheritedPrompt}>
+                {resolved.systemPrompt
+                  ? <>{resolved.systemPrompt}<span style={styles.muted}> · from {sourceLabel(resolved.systemPromptSourceId)}</span></>
+                  : <span style={styles.muted}>No card instructions above this card</span>}
+              </div>
+            ) : (
+              <>
+                <textarea
+                  value={draftPrompt}
+                  onChange={(e) => setDraftPrompt(e.target.value)}
+                  onBlur={handleSavePrompt}
+                  maxLength={MAX_CARD_SYSTEM_PROMPT}
+                  rows={5}
+                  placeholder="e.g. Answer as if reviewing a design doc for a payments team."
+                  style={styles.textarea}
+                  aria-label="Card instructions"
+                />
+                <span style={{ ...styles.muted, alignSelf: 'flex-end' }}>
+                  {draftPrompt.length}/{MAX_CARD_SYSTEM_PROMPT}
+                </span>
+              </>
+            )}
+          </div>
+
+          <div style={styles.section}>
+            <span style={styles.label}>Sent in this order</span>
+            {layers.length === 0 ? (
+              <span style={styles.muted}>No instructions apply to this card.</span>
+            ) : (
+              <ol style={styles.layerList}>
+                {layers.map((layer) => (
+                  <li key={layer.source} style={styles.layerItem}>
+                    <span style={{ color: colors.fg.primary }}>{layer.heading}</span>
+                    <span style={styles.muted}>
+                      {layer.source === 'workspace' && ' · workspace settings'}
+                      {layer.source === 'persona' && ` · ${sourceLabel(resolved.personaSourceId)}`}
+                      {layer.source === 'card' && ` · ${sourceLabel(resolved.systemPromptSourceId)}`}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <span style={styles.muted}>Later layers refine earlier ones. Branches inherit this card&apos;s persona and instructions.</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'relative',
+    display: 'flex',
+  },
+
+  triggerButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing[1],
+    backgroundColor: 'transparent',
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.secondary,
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+  },
+
+  popover: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    marginTop: spacing[1],
+    width: 320,
+    maxHeight: '70vh',
+    overflowY: 'auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[3],
+    padding: spacing[3],
+    backgroundColor: colors.bg.inset,
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.3)',
+    zIndex: zIndex.ui.dropdown,
+    fontFamily: typography.fonts.body,
+  },
+
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[1],
+  },
+
+  label: {
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold,
+    color: colors.fg.secondary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+  },
+
+  select: {
+    width: '100%',
+    padding: `${spacing[1]} ${spacing[2]}`,
+    backgroundColor: colors.bg.secondary,
+    border: `1px solid ${colors.border.default}`,
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.primary,
+    fontSize: typography.sizes.sm,
+    fontFamily: typography.fonts.body,
+    cursor: 'pointer',
+    outline: 'none',
+  },
+
+  checkboxLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: spacing[2],
+    fontSize: typography.sizes.xs,
+    color: colors.fg.secondary,
+    cursor: 'pointer',
+  },
+
+  textarea: {
+    width: '100%',
+    padding: spacing[2],
+    backgroundColor: colors.bg.secondary,
+    border: `1px solid ${colors.border.default}`,
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.primary,
+    fontSize: typography.sizes.sm,
+    fontFamily: typography.fonts.body,
+    resize: 'vertical',
+    outline: 'none',
+    boxSizing: 'border-box',
+  },
+
+  inheritedPrompt: {
+    padding: spacing[2],
+    backgroundColor: colors.bg.secondary,
+    border: `1px dashed ${colors.border.default}`,
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.secondary,
+    fontSize: typography.sizes.xs,
+    whiteSpace: 'pre-wrap',
+    overflowWrap: 'anywhere',
+  },
+
+  muted: {
+    fontSize: typography.sizes.xs,
+    color: colors.fg.tertiary,
+  },
+
+  layerList: {
+    margin: 0,
+    paddingLeft: spacing[4],
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 2,
+    fontSize: typography.sizes.xs,
+  },
+
+  layerItem: {
+    overflowWrap: 'anywhere',
+  },
+
+  chipRow: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 4,
+    padding: `0 ${spacing[3]} ${spacing[2]} ${spacing[3]}`,
+    margin: 0,
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+
+  chip: {
+    padding: `1px ${spacing[2]}`,
+    backgroundColor: colors.bg.inset,
+    border: `1px solid ${colors.border.default}`,
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.secondary,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    whiteSpace: 'nowrap',
+  },
+};
+
+export default CardInstructionsMenu;
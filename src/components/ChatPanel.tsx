@@ -2,15 +2,14 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useChat } from '@ai-sdk/react';
-import type { UIMessage } from 'ai';
 import { PanelRightClose } from 'lucide-react';
 
 import { colors, typography, spacing } from '@/lib/design-tokens';
 import { zIndex } from '@/constants/zIndex';
 import { useCanvasStore, selectChatPanelOpen, selectActiveConversationId } from '@/stores/canvas-store';
 import { usePreferencesStore, selectUIPreferences } from '@/stores/preferences-store';
-import { apiKeyManager } from '@/lib/api-key-manager';
-import { detectProvider, getDefaultModel, getModelById } from '@/lib/vercel-ai-integration';
+import { apiKeyManager, useAPIKeyStatus } from '@/lib/api-key-manager';
+import { createCustomModelDefinition, detectProvider, estimateTokens, getDefaultModel, getModelById } from '@/lib/vercel-ai-integration';
 import { useUsageStore } from '@/stores/usage-store';
 import { useOnboardingStore } from '@/stores/onboarding-store';
 import { useDemoRecordStore, DEMO_PROMPTS } from '@/stores/demo-record-store';
@@ -18,13 +17,25 @@ import { useTrialStore, selectIsTrialActive, selectIsTrialExhausted } from '@/st
 import { analytics } from '@/lib/analytics';
 import { canUserCloseChatPanel } from '@/lib/onboarding-guards';
 import { getKnowledgeBaseContents } from '@/lib/knowledge-base-db';
+import {
+  inlineTextAttachments,
+  resolveAttachments,
+  resolveMessageAttachments,
+  toAttachmentReference,
+  withInlinedAttachments,
+} from '@/lib/attachment-store';
 import { buildKnowledgeBaseContext, buildRagIndex } from '@/lib/rag-utils';
+import { resolveCardInstructions } from '@/lib/personas';
+import { extractWebSearchSources, getMessageReasoning, getMessageText } from '@/lib/ui-message-utils';
+import { getCompactionCutoff, getContextUsage, shouldCompact } from '@/lib/context-compaction';
 import { ChatPanelHeader } from './ChatPanelHeader';
 import { MessageThread } from './MessageThread';
 import { MessageInput } from './MessageInput';
 import { SidePanel } from './SidePanel';
 import { useBranchSuggestionStore } from '@/stores/branch-suggestion-store';
-import type { MessageAttachment, MessageMetadata } from '@/types';
+import { useFanOutStore } from '@/stores/fan-out-store';
+import { useCompactionStore } from '@/stores/compaction-store';
+import type { GenerationSettings, Message, MessageAttachment, MessageMetadata } from '@/types';
 
 // =============================================================================
 // CONSTANTS
@@ -38,47 +49,65 @@ const KB_FULL_CONTEXT_MAX_CHARS = 400_000;
 // Fallback TF-IDF retrieval cap used only when KB exceeds the full-context threshold
 const KB_RAG_FALLBACK_MAX_CHARS = 5_000;
 
-/** Extract text content from a UIMessage's parts array */
-function getMessageText(message: UIMessage): string {
-  return message.parts
-    .filter((p): p is { type: 'text'; text: string } => p.type === 'text')
-    .map(p => p.text)
-    .join('');
+/**
+ * Request body fields that come from the card: its persona and system prompt
+ * (resolved through its ancestors) and its generation settings.
+ */
+function withCardSettings(conversationId: string | null): {
+  cardContext?: { personaId?: string; systemPrompt?: string };
+  generationSettings?: GenerationSettings;
+} {
+  const { conversations } = useCanvasStore.getState();
+  const conversation = conversationId ? conversations.get(conversationId) : undefined;
+  if (!conversation) return {};
+  const { personaId, systemPrompt } = resolveCardInstructions(conversation, conversations);
+  return {
+    ...(personaId || systemPrompt ? { cardContext: { personaId, systemPrompt } } : {}),
+    ...(conversation.generationSettings ? { generationSettings: conversation.generationSettings } : {}),
+  };
 }
 
 /**
- * For a stored Message, inline any text file attachments back into the content
- * so the model has access to file contents throughout the conversation history,
- * not just in the turn the file was originally attached.
+ * Request body field with the user's retry policy. Fan-out branches compare
+ * specific models, so they retry but never fall back to another model.
  */
-function inlineTextAttachments(msg: { content: string; attachments?: MessageAttachment[] }): string {
-  const content = msg.content ?? '';
-  if (!msg.attachments?.length) return content;
-  const parts: string[] = [];
-  for (const att of msg.attachments) {
-    const contentType = att.contentType ?? '';
-    const url = att.url ?? '';
-    // Accept text/* content types, OR any non-image data URL (handles Windows .md files
-    // that the browser reports with empty MIME type before normalizeContentType was applied)
-    const isTextType = contentType.startsWith('text/');
-    const isNonImageDataUrl = !contentType.startsWith('image/') && url.startsWith('data:');
-    if ((isTextType || isNonImageDataUrl) && url.startsWith('data:')) {
-      try {
-        const base64Data = url.split(',')[1];
-        if (base64Data) {
-          const binaryString = atob(base64Data);
-          const bytes = new Uint8Array(binaryString.length);
-          for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-          const text = new TextDecoder('utf-8').decode(bytes);
-          parts.push(`[Attached file: ${att.name}]\n\n${text}`);
-        }
-      } catch {
-        // Silently skip undecodable attachments
-      }
-    }
+function withRetryPolicy(allowFallback = true): { retry: { maxRetries: number; fallbackModels: string[] } } {
+  const { maxRetries, fallbackModels } = usePreferencesStore.getState().preferences.retry;
+  return { retry: { maxRetries, fallbackModels: allowFallback ? fallbackModels : [] } };
+}
+
+/** Estimated tokens of the workspace instructions and knowledge base sent with a request */
+function estimateCanvasContextTokens(canvasContext: { instructions?: string; knowledgeBase?: string } | null): number {
+  return estimateTokens(canvasContext?.instructions ?? '') + estimateTokens(canvasContext?.knowledgeBase ?? '');
+}
+
+/**
+ * Compact the card's context when the next request would pass the compaction
+ * threshold (see context-compaction). A failed summary is reported by the
+ * compaction store and the request goes out uncompacted. Guided flows and
+ * trial requests are skipped: they have no key for /api/summarize.
+ */
+async function compactIfNeeded(
+  conversationId: string,
+  model: string,
+  canvasContext: { instructions?: string; knowledgeBase?: string } | null
+): Promise<void> {
+  if (useOnboardingStore.getState().active || useDemoRecordStore.getState().active) return;
+  if (selectIsTrialActive(useTrialStore.getState())) return;
+  const { conversations, getConversationMessages } = useCanvasStore.getState();
+  const conversation = conversations.get(conversationId);
+  if (!conversation) return;
+
+  // Measure what the request sends, with text attachments inlined
+  const extraTokens = estimateCanvasContextTokens(canvasContext);
+  const [messages, kept] = await Promise.all([
+    withInlinedAttachments(getConversationMessages(conversationId)),
+    withInlinedAttachments(conversation.content.slice(getCompactionCutoff(conversation))),
+  ]);
+  const usage = getContextUsage(messages, model, extraTokens);
+  if (shouldCompact(usage, getContextUsage(kept, model, extraTokens))) {
+    await useCompactionStore.getState().compact(conversationId, model);
   }
-  if (parts.length === 0) return content;
-  return parts.join('\n\n---\n\n') + '\n\n---\n\n' + content;
 }
 
 // =============================================================================
@@ -102,8 +131,18 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     timestamp: number;
     requestId: string;
     onboardingStep?: string;
+    /** Response being regenerated — kept as a variant of the new one */
+    regenerating?: Message;
   } | null>(null);
 
+  // A failed or empty regeneration puts the previous response back in place
+  const restoreRegeneratedResponse = useCallback((conversationId: string, previous: Message) => {
+    const state = useCanvasStore.getState();
+    const conversation = state.conversations.get(conversationId);
+    if (!conversation || conversation.content.some((msg) => msg.id === previous.id)) return;
+    state.updateConversation(conversationId, { content: [...conversation.content, previous] });
+  }, []);
+
   // Abort controller for in-flight branch-suggestion classifier.
   // Cancelled whenever a new message is sent so stale suggestions never appear.
   const branchClassifierAbortRef = useRef<AbortController | null>(null);
@@ -166,7 +205,9 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
   const isTrialActive = useTrialStore(selectIsTrialActive);
   const isTrialExhausted = useTrialStore(selectIsTrialExhausted);
   const syncTrialFromServer = useTrialStore((s) => s.syncFromServer);
-  const hasAnyApiKey = apiKeyManager.hasAnyKey() || onboardingActive || demoRecordActive || (isTrialActive && !isTrialExhausted);
+  // Re-renders after encrypted keys are unlocked or locked
+  const { status: keyStatus } = useAPIKeyStatus();
+  const hasAnyApiKey = keyStatus.hasAnyKey || apiKeyManager.hasAnyKey() || onboardingActive || demoRecordActive || (isTrialActive && !isTrialExhausted);
 
   // Determine current model for conversation
   const currentModel = useMemo(() => {
@@ -178,6 +219,7 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     // Check which providers have keys
     const hasAnthropicKey = !!apiKeyManager.getKey('anthropic');
     const hasOpenaiKey = !!apiKeyManager.getKey('openai');
+    const hasGoogleKey = !!apiKeyManager.getKey('google');
 
     if (hasAnthropicKey) {
       return getDefaultModel('anthropic').id;
@@ -185,6 +227,14 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     if (hasOpenaiKey) {
       return getDefaultModel('openai').id;
     }
+    if (hasGoogleKey) {
+      return getDefaultModel('google').id;
+    }
+
+    const customModels = apiKeyManager.getCustomProvider()?.models ?? [];
+    if (customModels.length > 0) {
+      return createCustomModelDefinition(customModels[0]).id;
+    }
 
     // During onboarding or demo recording, use a placeholder model ID so the request can proceed
     if (useOnboardingStore.getState().active || useDemoRecordStore.getState().active) {
@@ -197,16 +247,20 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     }
 
     return null;
-  }, [activeConversationId, conversationModel, isTrialActive]);
+  // keyStatus re-runs the key lookup after an unlock
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeConversationId, conversationModel, isTrialActive, keyStatus]);
 
   // Get API keys for all providers (reads from module-level singleton — no reactive deps needed)
   const currentKeys = useMemo(() => {
     return {
       anthropic: apiKeyManager.getKey('anthropic') ?? undefined,
       openai: apiKeyManager.getKey('openai') ?? undefined,
+      google: apiKeyManager.getKey('google') ?? undefined,
+      custom: apiKeyManager.getCustomProviderCredentials(),
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeConversationId, conversationModel]);
+  }, [activeConversationId, conversationModel, keyStatus]);
 
   // Check if current model supports vision
   const supportsVision = useMemo(() => {
@@ -230,6 +284,12 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     [workspaces, activeWorkspaceId]
   );
 
+  // Workspace instructions and knowledge base count toward the context meter
+  const canvasContextTokens = useMemo(() => estimateCanvasContextTokens({
+    instructions: activeWorkspace?.context?.instructions?.trim(),
+    knowledgeBase: kbContent && kbContent.length <= KB_FULL_CONTEXT_MAX_CHARS ? kbContent : undefined,
+  }), [activeWorkspace, kbContent]);
+
   const knowledgeBaseKey = useMemo(() => {
     const files = activeWorkspace?.context?.knowledgeBaseFiles || [];
     return files.map((file) => `${file.id}:${file.lastModified}`).join('|');
@@ -327,54 +387,24 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       // (providers reject conversations containing empty-content turns).
       if (!messageText.trim()) {
         console.warn('[ChatPanel] onFinish: empty assistant message, skipping addAIMessage');
+        if (metadata.regenerating) {
+          restoreRegeneratedResponse(metadata.conversationId, metadata.regenerating);
+        }
         streamingRequestMetadataRef.current = null;
         setPendingAttachments([]);
         return;
       }
 
-      // Extract web search sources from message parts.
-      // AI SDK v6: tool parts have type 'tool-${toolName}' with state/input/output.
-      // Source parts are emitted by the SDK for some providers.
-      const webSearchSources: Array<{ title: string; url: string }> = [];
-      let webSearchUsed = false;
-      type AISV6ToolPart = { type: string; state: string; input?: unknown; output?: unknown };
-      type AISV6SourcePart = { type: 'source-url'; url: string; title?: string };
-      for (const part of message.parts ?? []) {
-        // Tool parts: type is 'tool-web_search', 'tool-whatever', etc.
-        if (part.type.startsWith('tool-')) {
-          const toolName = part.type.slice(5); // Strip 'tool-' prefix
-          const tp = part as unknown as AISV6ToolPart;
-          if (toolName === 'web_search' && tp.state === 'output' && tp.output) {
-            webSearchUsed = true;
-            // Anthropic: output is an array of result objects with url/title
-            // OpenAI: output is { action: { query }, sources: [{ type: 'url', url }] }
-            const out = tp.output as Record<string, unknown> | unknown[];
-            const rawResults = Array.isArray(out)
-              ? out
-              : Array.isArray((out as Record<string, unknown>).sources)
-                ? (out as Record<string, unknown>).sources as unknown[]
-                : [];
-            for (const r of rawResults) {
-              const res = r as { url?: string; title?: string };
-              if (res.url) webSearchSources.push({ url: res.url, title: res.title ?? res.url });
-            }
-          }
-        }
-        // source-url parts: emitted by AI SDK for web citations
-        if (part.type === 'source-url') {
-          const sp = part as unknown as AISV6SourcePart;
-          if (sp.url && !webSearchSources.find((s) => s.url === sp.url)) {
-            webSearchUsed = true;
-            webSearchSources.push({ url: sp.url, title: sp.title ?? sp.url });
-          }
-        }
-      }
+      // Extract web search sources from message parts
+      const { used: webSearchUsed, sources: webSearchSources } = extractWebSearchSources(message);
       if (webSearchUsed) {
         console.log('[ChatPanel] 🔍 Web search sources extracted:', webSearchSources.length);
       }
 
       // Merge server metadata (usage/tokenDetails) with extracted web search data
       const serverMeta = message.metadata as MessageMetadata | undefined;
+      // The server reports the model that answered — a fallback may have stood in for the card's
+      const answeredModel = serverMeta?.model ?? metadata.model;
       const aiMessageMetadata: MessageMetadata = {
         ...serverMeta,
         ...(metadata.onboardingStep ? {
@@ -400,9 +430,11 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       addAIMessage(
         metadata.conversationId,
         messageText,
-        metadata.model,
+        answeredModel,
         aiMessageMetadata,
-        message.id
+        message.id,
+        metadata.regenerating,
+        getMessageReasoning(message)
       );
 
       // Track usage from message metadata (sent by server via messageMetadata)
@@ -433,8 +465,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
 
       if (usage && (usage.inputTokens > 0 || usage.outputTokens > 0)) {
         console.log('[ChatPanel] Tracking usage:', {
-          model: metadata.model,
-          provider: detectProvider(metadata.model),
+          model: answeredModel,
+          provider: detectProvider(answeredModel),
           inputTokens: usage.inputTokens,
           outputTokens: usage.outputTokens,
           hasActualCost: !!msgMetadata?.actualCost,
@@ -442,8 +474,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
           conversationId: metadata.conversationId,
         });
         addUsage({
-          provider: detectProvider(metadata.model),
-          model: metadata.model,
+          provider: detectProvider(answeredModel),
+          model: answeredModel,
           inputTokens: usage.inputTokens,
           outputTokens: usage.outputTokens,
           conversationId: metadata.conversationId,
@@ -461,8 +493,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
         const estimatedOutputTokens = Math.ceil(messageText.length / CHARS_PER_TOKEN);
         
         console.warn('[ChatPanel] Usage data missing, using estimation:', {
-          model: metadata.model,
-          provider: detectProvider(metadata.model),
+          model: answeredModel,
+          provider: detectProvider(answeredModel),
           conversationId: metadata.conversationId,
           messageLength: messageText.length,
           estimatedInputTokens,
@@ -470,8 +502,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
         });
         
         addUsage({
-          provider: detectProvider(metadata.model),
-          model: metadata.model,
+          provider: detectProvider(answeredModel),
+          model: answeredModel,
           inputTokens: estimatedInputTokens,
           outputTokens: estimatedOutputTokens,
           conversationId: metadata.conversationId,
@@ -507,6 +539,7 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       if (!isOnboardingMsg && !isDemoRecordMsg && hasEnoughMessages) {
         const anthropicKey = apiKeyManager.getKey('anthropic') ?? undefined;
         const openaiKey = apiKeyManager.getKey('openai') ?? undefined;
+        const googleKey = apiKeyManager.getKey('google') ?? undefined;
         const recentMessages = conversationForSuggest.content
           .slice(-6)
           .filter((m) => m.role === 'user' || m.role === 'assistant')
@@ -529,6 +562,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
             model: metadata.model,
             anthropicKey,
             openaiKey,
+            googleKey,
+            customProvider: apiKeyManager.getCustomProviderCredentials(),
           }),
         })
           .then((res) => res.json())
@@ -574,6 +609,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
 
       // Clear metadata ref on error to prevent stale data
       if (streamingRequestMetadataRef.current) {
+        const { conversationId, regenerating } = streamingRequestMetadataRef.current;
+        if (regenerating) restoreRegeneratedResponse(conversationId, regenerating);
         streamingRequestMetadataRef.current = null;
       }
     },
@@ -595,6 +632,24 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     }
   }, [isStreaming]);
 
+  // Fan-out branches stream outside useChat; show the viewed card's stream if it has one
+  const fanOutStream = useFanOutStore(
+    useCallback((s) => activeConversationId ? s.streams.get(activeConversationId) ?? null : null, [activeConversationId])
+  );
+  const stopFanOutStream = useFanOutStore((s) => s.stopStream);
+  const threadStreamingMessages = useMemo(() => {
+    if (fanOutStream) return fanOutStream.message ? [fanOutStream.message] : [];
+    return activeConversationId === streamingConversationId ? chatMessages : [];
+  }, [fanOutStream, activeConversationId, streamingConversationId, chatMessages]);
+  const isThreadStreaming = !!fanOutStream || (isStreaming && activeConversationId === streamingConversationId);
+  const handleStop = useCallback(() => {
+    if (fanOutStream) {
+      stopFanOutStream(fanOutStream.conversationId);
+    } else {
+      stop();
+    }
+  }, [fanOutStream, stopFanOutStream, stop]);
+
   const buildCanvasContextPayload = useCallback(async (explicitMessage?: string) => {
     const instructions = activeWorkspace?.context?.instructions?.trim() || '';
 
@@ -704,9 +759,13 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     // 4. Build canvas context (async — safe because sync effect is blocked by ref)
     const canvasContextPayload = await buildCanvasContextPayload(text);
 
+    // 4½. Summarize older context if the request would overflow the context window
+    await compactIfNeeded(activeConversationId, currentModel, canvasContextPayload);
+
     // 5. Load full conversation from store (includes user msg from step 2)
-    // inlineTextAttachments ensures file contents from earlier turns stay in history
-    const storeMessages = getConversationMessages(activeConversationId);
+    // inlineTextAttachments ensures file contents from earlier turns stay in history;
+    // blob-backed attachments are resolved first so their contents are available
+    const storeMessages = await resolveMessageAttachments(getConversationMessages(activeConversationId));
     setMessages(storeMessages.map((msg, idx) => ({
       id: `msg-${idx}`,
       role: msg.role as 'user' | 'assistant' | 'system',
@@ -726,6 +785,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       model: currentModel,
       anthropicKey: currentKeys.anthropic,
       openaiKey: currentKeys.openai,
+      googleKey: currentKeys.google,
+      customProvider: currentKeys.custom,
       ...(isOnboarding ? { onboarding: true, onboardingStep } : {}),
       ...(isDemoRecord ? { demoRecord: true, demoRecordStep } : {}),
       ...(attachments?.length ? {
@@ -736,6 +797,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
         })),
       } : {}),
       ...(canvasContextPayload ? { canvasContext: canvasContextPayload } : {}),
+      ...withCardSettings(activeConversationId),
+      ...withRetryPolicy(),
     };
 
     // Analytics: first real message + trial message tracking
@@ -744,7 +807,7 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       if (!localStorage.getItem(firstMsgKey)) {
         localStorage.setItem(firstMsgKey, '1');
         analytics.firstRealMessage({
-          has_api_key: !!(currentKeys.anthropic || currentKeys.openai),
+          has_api_key: !!(currentKeys.anthropic || currentKeys.openai || currentKeys.google),
           model: currentModel,
         });
       }
@@ -768,7 +831,84 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     }
   }, [setInput, buildCanvasContextPayload, sendMessage, isStreaming, isTrialActive, activeConversationId, currentModel, currentKeys, setStreamingConversationId, getConversationMessages, setMessages, setPendingAttachments]);
 
-  // Handle retry: remove all messages after the target user message and re-send it
+  // Send injected prompts flagged for sending (e.g. a new merge card's synthesis request)
+  // once their card is open. Without a key or model the text stays in the input as a draft.
+  const sentInjectionSeqRef = useRef<number | null>(null);
+  useEffect(() => {
+    const sendInjection = () => {
+      const injection = useCanvasStore.getState().inputInjection;
+      if (!injection?.send || injection.seq === sentInjectionSeqRef.current) return;
+      if (injection.cardId !== activeConversationId || isStreaming) return;
+      sentInjectionSeqRef.current = injection.seq;
+      if (!currentModel || !hasAnyApiKey) return;
+      useCanvasStore.getState().setDraftMessage(injection.cardId, '');
+      void handleSubmit(injection.text);
+    };
+
+    sendInjection();
+    return useCanvasStore.subscribe((state) => state.inputInjection, sendInjection);
+  }, [activeConversationId, isStreaming, currentModel, hasAnyApiKey, handleSubmit]);
+
+  // Handle fan-out: branch the card once per model and stream every branch concurrently
+  const handleFanOutSubmit = useCallback(async (text: string, attachments: MessageAttachment[] | undefined, models: string[]) => {
+    if (!text.trim() && !(attachments?.length)) return;
+    if (!activeConversationId) return;
+
+    setInput('');
+
+    const branches = useCanvasStore.getState().fanOutMessage({
+      sourceCardId: activeConversationId,
+      models,
+      content: text,
+      attachments,
+    });
+    if (branches.length === 0) {
+      console.warn('[ChatPanel] Fan-out created no branches');
+      return;
+    }
+
+    // Follow the first branch so its stream is visible right away
+    useCanvasStore.getState().openChatPanel(branches[0].id);
+    useCanvasStore.getState().requestFocusNode(branches[0].id);
+
+    const canvasContextPayload = await buildCanvasContextPayload(text);
+    const startStream = useFanOutStore.getState().startStream;
+
+    await Promise.all(branches.map(async (branch) => {
+      const model = branch.model ?? models[0];
+      await compactIfNeeded(branch.id, model, canvasContextPayload);
+      const storeMessages = await resolveMessageAttachments(getConversationMessages(branch.id));
+      return startStream({
+        conversationId: branch.id,
+        model,
+        messages: storeMessages.map((msg, idx) => ({
+          id: `msg-${idx}`,
+          role: msg.role as 'user' | 'assistant' | 'system',
+          parts: [{ type: 'text' as const, text: inlineTextAttachments(msg) }],
+        })),
+        body: {
+          model,
+          anthropicKey: currentKeys.anthropic,
+          openaiKey: currentKeys.openai,
+          googleKey: currentKeys.google,
+          customProvider: currentKeys.custom,
+          ...(attachments?.length ? {
+            attachments: attachments.map(a => ({
+              contentType: a.contentType,
+              name: a.name,
+              url: a.url,
+            })),
+          } : {}),
+          ...(canvasContextPayload ? { canvasContext: canvasContextPayload } : {}),
+          ...withCardSettings(branch.id),
+          ...withRetryPolicy(false),
+        },
+      });
+    }));
+  }, [activeConversationId, buildCanvasContextPayload, currentKeys, getConversationMessages]);
+
+  // Handle retry: remove all messages after the target user message and re-send it.
+  // The response being replaced is kept as a variant of the new one.
   const handleRetry = useCallback(async (messageIndex: number) => {
     if (useOnboardingStore.getState().active) return;
     if (!activeConversation) return;
@@ -797,6 +937,10 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     const demoRecordState = useDemoRecordStore.getState();
     const demoRecordStep = demoRecordState.active ? demoRecordState.step : undefined;
     
+    const previousResponse = messages[messageIndex + 1]?.role === 'assistant'
+      ? messages[messageIndex + 1]
+      : undefined;
+
     // 1. Lock sync effect — MUST be before store mutation
     streamingRequestMetadataRef.current = {
       conversationId: activeConversationId,
@@ -804,6 +948,7 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       timestamp: Date.now(),
       requestId: crypto.randomUUID(),
       onboardingStep,
+      regenerating: previousResponse,
     };
     setStreamingConversationId(activeConversationId);
 
@@ -813,17 +958,20 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       content: truncatedMessages,
     });
 
-    const messageAttachments = targetMessage.attachments || [];
+    const messageAttachments = await resolveAttachments(targetMessage.attachments || []);
     if (messageAttachments.length > 0) {
       setPendingAttachments(messageAttachments);
     }
     
     // 3. Build canvas context (async — safe because sync effect is blocked)
     const canvasContextPayload = await buildCanvasContextPayload(targetMessage.content);
+
+    // 3½. Summarize older context if the request would overflow the context window
+    await compactIfNeeded(activeConversationId, currentModel, canvasContextPayload);
     
     // 4. Load full conversation from store (truncated, includes target user msg)
     // inlineTextAttachments ensures file contents from earlier turns stay in history
-    const storeMessages = getConversationMessages(activeConversation.id);
+    const storeMessages = await resolveMessageAttachments(getConversationMessages(activeConversation.id));
     setMessages(storeMessages.map((msg, idx) => ({
       id: `msg-${idx}`,
       role: msg.role as 'user' | 'assistant' | 'system',
@@ -835,6 +983,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
       model: currentModel,
       anthropicKey: currentKeys.anthropic,
       openaiKey: currentKeys.openai,
+      googleKey: currentKeys.google,
+      customProvider: currentKeys.custom,
       ...(onboardingStep ? { onboarding: true, onboardingStep } : {}),
       ...(demoRecordStep ? { demoRecord: true, demoRecordStep } : {}),
       ...(messageAttachments.length > 0 ? {
@@ -845,6 +995,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
         })),
       } : {}),
       ...(canvasContextPayload ? { canvasContext: canvasContextPayload } : {}),
+      ...withCardSettings(activeConversation.id),
+      ...withRetryPolicy(),
     };
 
     // 6. Send to API — undefined means "use current messages, don't add a new one"
@@ -898,7 +1050,7 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     const updatedMessage = {
       ...originalMessage,
       content: content.trim(),
-      attachments: attachments.length > 0 ? attachments : undefined,
+      attachments: attachments.length > 0 ? attachments.map(toAttachmentReference) : undefined,
       timestamp: new Date(),
       metadata: {
         ...originalMessage?.metadata,
@@ -926,30 +1078,38 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     // 3. Build canvas context (async — safe because sync effect is blocked)
     const canvasContextPayload = await buildCanvasContextPayload(content.trim());
 
+    // 3½. Summarize older context if the request would overflow the context window
+    await compactIfNeeded(activeConversationId, currentModel, canvasContextPayload);
+
     // 4. Load full conversation from store (truncated, includes edited user msg)
     // inlineTextAttachments ensures file contents from earlier turns stay in history
-    const storeMessages = getConversationMessages(activeConversation.id);
+    const storeMessages = await resolveMessageAttachments(getConversationMessages(activeConversation.id));
     setMessages(storeMessages.map((msg, idx) => ({
       id: `msg-${idx}`,
       role: msg.role as 'user' | 'assistant' | 'system',
       parts: [{ type: 'text' as const, text: inlineTextAttachments(msg) }],
     })));
 
-    // 5. Build request body inline
+    // 5. Build request body inline (kept attachments may only be blob references)
+    const requestAttachments = await resolveAttachments(attachments);
     const body = {
       model: currentModel,
       anthropicKey: currentKeys.anthropic,
       openaiKey: currentKeys.openai,
+      googleKey: currentKeys.google,
+      customProvider: currentKeys.custom,
       ...(onboardingStep ? { onboarding: true, onboardingStep } : {}),
       ...(demoRecordStep ? { demoRecord: true, demoRecordStep } : {}),
-      ...(attachments.length > 0 ? {
-        attachments: attachments.map(a => ({
+      ...(requestAttachments.length > 0 ? {
+        attachments: requestAttachments.map(a => ({
           contentType: a.contentType,
           name: a.name,
           url: a.url,
         })),
       } : {}),
       ...(canvasContextPayload ? { canvasContext: canvasContextPayload } : {}),
+      ...withCardSettings(activeConversation.id),
+      ...withRetryPolicy(),
     };
 
     // 6. Send to API — undefined means "use current messages, don't add a new one"
@@ -979,8 +1139,16 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
     const streamingConvIdRef = streamingRequestMetadataRef.current?.conversationId ?? null;
     if (activeConversationId === streamingConvIdRef) return;
 
-    if (activeConversationId) {
-      const storeMessages = getConversationMessages(activeConversationId);
+    if (!activeConversationId) {
+      setMessages([]);
+      return;
+    }
+
+    // Blob-backed attachments resolve asynchronously; drop the result if the
+    // active card changed or a request started in the meantime
+    let cancelled = false;
+    void resolveMessageAttachments(getConversationMessages(activeConversationId)).then((storeMessages) => {
+      if (cancelled || streamingRequestMetadataRef.current?.conversationId === activeConversationId) return;
       // Convert to useChat UIMessage format (v6 uses parts instead of content)
       // inlineTextAttachments ensures file contents from earlier turns stay in history
       const formattedMessages = storeMessages.map((msg, idx) => ({
@@ -989,9 +1157,11 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
         parts: [{ type: 'text' as const, text: inlineTextAttachments(msg) }],
       }));
       setMessages(formattedMessages);
-    } else {
-      setMessages([]);
-    }
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [activeConversationId, isStreaming, streamingConversationId, getConversationMessages, setMessages]);
 
   // Save partial message when streaming stops (e.g., user clicks stop button)
@@ -1069,7 +1239,15 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
           
           // Save partial message using CAPTURED values.
           // Pass lastMessage.id to keep the stored id stable and avoid a flash.
-          addAIMessage(metadata.conversationId, lastMessageText, metadata.model, partialWebSearchMetadata, lastMessage.id);
+          addAIMessage(
+            metadata.conversationId,
+            lastMessageText,
+            metadata.model,
+            partialWebSearchMetadata,
+            lastMessage.id,
+            undefined,
+            getMessageReasoning(lastMessage)
+          );
           
           // Don't clear metadata here - let onFinish/onError handle cleanup
           // This prevents race condition where metadata is cleared before onFinish gets it
@@ -1215,6 +1393,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
           <>
             <ChatPanelHeader
               conversation={activeConversation}
+              model={currentModel}
+              contextExtraTokens={canvasContextTokens}
               onClose={handleClose}
               onMaximize={handleMaximize}
               branchEnabled={!onboardingActive}
@@ -1224,10 +1404,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
             />
             <MessageThread
               conversation={activeConversation}
-              streamingMessages={
-                activeConversationId === streamingConversationId ? chatMessages : []
-              }
-              isStreaming={isStreaming && activeConversationId === streamingConversationId}
+              streamingMessages={threadStreamingMessages}
+              isStreaming={isThreadStreaming}
               onHeightChange={setMessageListHeight}
               isMaximized={false}
               onRetry={handleRetry}
@@ -1242,8 +1420,10 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
               input={input}
               setInput={setInput}
               onSubmit={handleSubmit}
-              isStreaming={isStreaming && activeConversationId === streamingConversationId}
-              onStop={stop}
+              onFanOutSubmit={onboardingActive ? undefined : handleFanOutSubmit}
+              canFanOut={activeConversation.content.length > 0 || activeConversation.parentCardIds.length > 0}
+              isStreaming={isThreadStreaming}
+              onStop={handleStop}
               hasApiKey={hasAnyApiKey}
               isTrialExhausted={isTrialExhausted}
               error={chatError}
@@ -1294,6 +1474,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
           {/* Header */}
           <ChatPanelHeader
             conversation={activeConversation}
+            model={currentModel}
+            contextExtraTokens={canvasContextTokens}
             onClose={handleClose}
             onMaximize={handleMaximize}
             branchEnabled={!onboardingActive}
@@ -1309,10 +1491,8 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
               doesn't bleed through to an unrelated conversation view. */}
           <MessageThread
             conversation={activeConversation}
-            streamingMessages={
-              activeConversationId === streamingConversationId ? chatMessages : []
-            }
-            isStreaming={isStreaming && activeConversationId === streamingConversationId}
+            streamingMessages={threadStreamingMessages}
+            isStreaming={isThreadStreaming}
             onHeightChange={setMessageListHeight}
             isMaximized={isMaximized}
             onRetry={handleRetry}
@@ -1329,8 +1509,10 @@ export function ChatPanel({ isMobile = false }: ChatPanelProps) {
             input={input}
             setInput={setInput}
             onSubmit={handleSubmit}
-            isStreaming={isStreaming && activeConversationId === streamingConversationId}
-            onStop={stop}
+            onFanOutSubmit={onboardingActive ? undefined : handleFanOutSubmit}
+            canFanOut={activeConversation.content.length > 0 || activeConversation.parentCardIds.length > 0}
+            isStreaming={isThreadStreaming}
+            onStop={handleStop}
             hasApiKey={hasAnyApiKey}
             isTrialExhausted={isTrialExhausted}
             error={chatError}
@@ -6,6 +6,9 @@ import { X, GitBranch, Zap, Maximize2, BarChart3 } from 'lucide-react';
 import { colors, typography, spacing, effects } from '@/lib/design-tokens';
 import { useCanvasStore, selectUsagePanelOpen } from '@/stores/canvas-store';
 import { enforceTitleWordLimit } from '@/utils/formatters';
+import { CardInstructionsMenu, InstructionLayerChips, useInstructionLayers } from './CardInstructionsMenu';
+import { GenerationSettingsMenu } from './GenerationSettingsMenu';
+import { ContextMeter } from './ContextMeter';
 import type { Conversation } from '@/types';
 
 // =============================================================================
@@ -14,6 +17,10 @@ import type { Conversation } from '@/types';
 
 interface ChatPanelHeaderProps {
   conversation: Conversation;
+  /** Model the card sends with (limits for the generation settings) */
+  model?: string | null;
+  /** Estimated tokens of workspace instructions and knowledge base (for the context meter) */
+  contextExtraTokens?: number;
   onClose: () => void;
   onMaximize?: () => void;
   branchEnabled?: boolean;
@@ -25,6 +32,8 @@ interface ChatPanelHeaderProps {
 
 export const ChatPanelHeader = memo(function ChatPanelHeader({ 
   conversation, 
+  model = null,
+  contextExtraTokens = 0,
   onClose,
   onMaximize,
   branchEnabled = true,
@@ -34,11 +43,16 @@ export const ChatPanelHeader = memo(function ChatPanelHeader({
 }: ChatPanelHeaderProps) {
   const branchFromMessage = useCanvasStore((s) => s.branchFromMessage);
   const updateConversation = useCanvasStore((s) => s.updateConversation);
+  const recordHistory = useCanvasStore((s) => s.recordHistory);
   const openChatPanel = useCanvasStore((s) => s.openChatPanel);
   const requestFocusNode = useCanvasStore((s) => s.requestFocusNode);
   const toggleUsagePanel = useCanvasStore((s) => s.toggleUsagePanel);
   const usagePanelOpen = useCanvasStore(selectUsagePanelOpen);
   const [isRenaming, setIsRenaming] = useState(false);
+  const [instructionsOpen, setInstructionsOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [contextOpen, setContextOpen] = useState(false);
+  const { layers: instructionLayers } = useInstructionLayers(conversation);
   const [draftTitle, setDraftTitle] = useState(conversation.metadata.title);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -80,6 +94,14 @@ export const ChatPanelHeader = memo(function ChatPanelHeader({
     /* eslint-enable react-hooks/set-state-in-effect */
   }, [conversation.id, conversation.metadata.title]);
 
+  useEffect(() => {
+    /* eslint-disable react-hooks/set-state-in-effect */
+    setInstructionsOpen(false);
+    setSettingsOpen(false);
+    setContextOpen(false);
+    /* eslint-enable react-hooks/set-state-in-effect */
+  }, [conversation.id]);
+
   useEffect(() => {
     if (isRenaming) {
       requestAnimationFrame(() => inputRef.current?.focus());
@@ -111,13 +133,14 @@ export const ChatPanelHeader = memo(function ChatPanelHeader({
           updatedAt: new Date(),
         },
       });
+      recordHistory(`Renamed to "${limitedTitle}"`);
     }
 
     if (limitedTitle !== trimmed) {
       setDraftTitle(limitedTitle);
     }
     setIsRenaming(false);
-  }, [conversation.id, conversation.metadata, draftTitle, updateConversation]);
+  }, [conversation.id, conversation.metadata, draftTitle, updateConversation, recordHistory]);
 
   const handleCancelRename = useCallback(() => {
     setDraftTitle(conversation.metadata.title);
@@ -179,6 +202,30 @@ export const ChatPanelHeader = memo(function ChatPanelHeader({
 
         {/* Right side: Actions */}
         <div style={headerStyles.actions}>
+          {/* Context window usage & compaction */}
+          <ContextMeter
+            conversation={conversation}
+            model={model}
+            extraTokens={contextExtraTokens}
+            isOpen={contextOpen}
+            onOpenChange={setContextOpen}
+          />
+
+          {/* Card instructions & persona */}
+          <CardInstructionsMenu
+            conversation={conversation}
+            isOpen={instructionsOpen}
+            onOpenChange={setInstructionsOpen}
+          />
+
+          {/* Per-card generation settings */}
+          <GenerationSettingsMenu
+            conversation={conversation}
+            model={model}
+            isOpen={settingsOpen}
+            onOpenChange={setSettingsOpen}
+          />
+
           {/* Branch button */}
           {branchEnabled && (
             <button
@@ -236,6 +283,9 @@ export const ChatPanelHeader = memo(function ChatPanelHeader({
           </button>
         </div>
       </div>
+
+      {/* Instruction layers in the order they are sent: workspace → persona → card */}
+      <InstructionLayerChips layers={instructionLayers} onClick={() => setInstructionsOpen(true)} />
     </div>
   );
 });
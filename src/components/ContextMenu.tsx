@@ -3,7 +3,7 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GitBranch, Trash2, Maximize2, Copy, Edit2 } from 'lucide-react';
+import { GitBranch, Trash2, Maximize2, Copy, CopyPlus, Edit2, FileText, FileDown, Unlink } from 'lucide-react';
 
 import { colors, spacing, effects, typography } from '@/lib/design-tokens';
 
@@ -139,6 +139,10 @@ export function getConversationMenuItems(
     onExpand?: () => void;
     onCopy?: () => void;
     onRename?: () => void;
+    onExportLineage?: () => void;
+    onExportSubtree?: () => void;
+    onDetach?: () => void;
+    onDuplicate?: () => void;
   },
   isMac = false
 ): ContextMenuItem[] {
@@ -174,6 +178,16 @@ export function getConversationMenuItems(
     });
   }
 
+  if (handlers.onDuplicate) {
+    items.push({
+      id: 'duplicate',
+      label: 'Duplicate with branches',
+      icon: <CopyPlus size={14} />,
+      shortcut: isMac ? '⌘D' : 'Ctrl+D',
+      onClick: handlers.onDuplicate,
+    });
+  }
+
   if (handlers.onRename) {
     items.push({
       id: 'rename',
@@ -183,6 +197,33 @@ export function getConversationMenuItems(
     });
   }
 
+  if (handlers.onExportLineage) {
+    items.push({
+      id: 'export-lineage',
+      label: 'Export lineage as Markdown',
+      icon: <FileText size={14} />,
+      onClick: handlers.onExportLineage,
+    });
+  }
+
+  if (handlers.onExportSubtree) {
+    items.push({
+      id: 'export-subtree',
+      label: 'Export card tree as Markdown',
+      icon: <FileDown size={14} />,
+      onClick: handlers.onExportSubtree,
+    });
+  }
+
+  if (handlers.onDetach) {
+    items.push({
+      id: 'detach',
+      label: 'Detach from parent',
+      icon: <Unlink size={14} />,
+      onClick: handlers.onDetach,
+    });
+  }
+
   if (handlers.onDelete) {
     items.push({
       id: 'delete',
@@ -0,0 +1,291 @@
+'use client';
+
+/**
+ * ContextMeter - Live context-window use for the open card
+ *
+ * Header button showing how much of the model's context window the card's
+ * next request would fill (inherited context, messages, workspace
+ * instructions and knowledge base). The popover shows the numbers and the
+ * card's compaction checkpoint, and can compact or discard it by hand.
+ * ChatPanel compacts automatically past COMPACTION_THRESHOLD.
+ */
+
+import React, { memo, useEffect, useRef, useState } from 'react';
+
+import { withInlinedAttachments } from '@/lib/attachment-store';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { useCompactionStore } from '@/stores/compaction-store';
+import {
+  COMPACTION_THRESHOLD,
+  KEEP_RECENT_MESSAGES,
+  formatTokenCount,
+  getContextUsage,
+  getCurrentCompaction,
+  hasCompactableContext,
+} from '@/lib/context-compaction';
+import { getModelById } from '@/lib/vercel-ai-integration';
+import { colors, typography, spacing, effects } from '@/lib/design-tokens';
+import { zIndex } from '@/constants/zIndex';
+import type { Conversation } from '@/types';
+
+/** Share of the context window where the meter turns to a warning */
+const WARNING_RATIO = 0.6;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+interface ContextMeterProps {
+  conversation: Conversation;
+  /** Model the card sends with; its context window is the meter's limit */
+  model: string | null;
+  /** Estimated tokens sent outside the messages (workspace instructions, knowledge base) */
+  extraTokens?: number;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ContextMeter = memo(function ContextMeter({
+  conversation,
+  model,
+  extraTokens = 0,
+  isOpen,
+  onOpenChange,
+}: ContextMeterProps) {
+  // Inherited context comes from the parents, so recompute when any card changes
+  const conversations = useCanvasStore((s) => s.conversations);
+  const getConversationMessages = useCanvasStore((s) => s.getConversationMessages);
+  const isCompacting = useCompactionStore((s) => s.compacting.has(conversation.id));
+  const compact = useCompactionStore((s) => s.compact);
+  const discard = useCompactionStore((s) => s.discard);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const [usage, setUsage] = useState(() => getContextUsage([], model, extraTokens));
+
+  // Text attachments are sent inline, so measure the messages as a request resolves them
+  useEffect(() => {
+    let cancelled = false;
+    const messages = conversations.has(conversation.id) ? getConversationMessages(conversation.id) : [];
+    void withInlinedAttachments(messages).then((resolved) => {
+      if (!cancelled) setUsage(getContextUsage(resolved, model, extraTokens));
+    });
+    return () => { cancelled = true; };
+  }, [conversations, conversation.id, getConversationMessages, model, extraTokens]);
+  const compaction = getCurrentCompaction(conversation);
+  const canCompact = !!model && !isCompacting && hasCompactableContext(conversation);
+  const modelName = model ? getModelById(model)?.name ?? model : 'Default model';
+  const percent = Math.round(usage.ratio * 100);
+  const meterColor = usage.ratio >= COMPACTION_THRESHOLD
+    ? colors.semantic.error
+    : usage.ratio >= WARNING_RATIO ? colors.semantic.warning : colors.accent.primary;
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent | TouchEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        onOpenChange(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside as EventListener);
+    document.addEventListener('touchstart', handleClickOutside as EventListener);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside as EventListener);
+      document.removeEventListener('touchstart', handleClickOutside as EventListener);
+    };
+  }, [isOpen, onOpenChange]);
+
+  return (
+    <div ref={containerRef} style={styles.container}>
+      <button
+        type="button"
+        onClick={() => onOpenChange(!isOpen)}
+        style={{
+          ...styles.triggerButton,
+          backgroundColor: isOpen ? colors.accent.muted : 'transparent',
+          borderColor: isOpen ? colors.accent.primary : 'var(--border-primary)',
+        }}
+        title={`Context: ${formatTokenCount(usage.tokens)} of ${formatTokenCount(usage.contextWindow)} tokens`}
+        aria-label="Context window usage"
+        aria-expanded={isOpen}
+      >
+        <span style={styles.track}>
+          <span style={{ ...styles.fill, width: `${Math.min(percent, 100)}%`, backgroundColor: meterColor }} />
+        </span>
+        <span style={{ ...styles.percent, color: usage.ratio >= WARNING_RATIO ? meterColor : colors.fg.secondary }}>
+          {isCompacting ? '…' : `${percent}%`}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div style={styles.popover} role="dialog" aria-label="Context window">
+          <div style={styles.heading}>
+            <span style={styles.label}>Context window</span>
+            <span style={styles.muted}>
+              ~{usage.tokens.toLocaleString()} of {usage.contextWindow.toLocaleString()} tokens ({modelName})
+            </span>
+          </div>
+
+          <span style={styles.muted}>
+            Past {Math.round(COMPACTION_THRESHOLD * 100)}%, the inherited context and all but the
+            last {KEEP_RECENT_MESSAGES} messages are summarized before sending. The full history stays on the card.
+          </span>
+
+          {compaction && (
+            <div style={styles.field}>
+              <span style={styles.fieldLabel}>
+                {compaction.messageCount === 0
+                  ? 'Summary of the inherited context'
+                  : `Summary of ${compaction.messageCount} ${compaction.messageCount === 1 ? 'message' : 'messages'}`}
+              </span>
+              <span style={styles.muted}>
+                Replaces ~{formatTokenCount(compaction.compactedTokens)} tokens ·{' '}
+                {getModelById(compaction.model)?.name ?? compaction.model} ·{' '}
+                {new Date(compaction.createdAt).toLocaleString()}
+              </span>
+            </div>
+          )}
+
+          <div style={styles.footer}>
+            {compaction ? (
+              <button
+                type="button"
+                onClick={() => discard(conversation.id)}
+                disabled={isCompacting}
+                style={styles.secondaryButton}
+              >
+                Discard summary
+              </button>
+            ) : <span />}
+            <button
+              type="button"
+              onClick={() => { if (model) void compact(conversation.id, model); }}
+              disabled={!canCompact}
+              style={{ ...styles.secondaryButton, opacity: canCompact ? 1 : 0.5, cursor: canCompact ? 'pointer' : 'default' }}
+            >
+              {isCompacting ? 'Compacting…' : 'Compact now'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'relative',
+    display: 'flex',
+  },
+
+  triggerButton: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: spacing[1],
+    padding: `${spacing[1]} ${spacing[2]}`,
+    backgroundColor: 'transparent',
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+  },
+
+  track: {
+    position: 'relative',
+    width: 32,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.bg.inset,
+    overflow: 'hidden',
+  },
+
+  fill: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    bottom: 0,
+    borderRadius: 2,
+    transition: 'width 0.2s ease',
+  },
+
+  percent: {
+    minWidth: 28,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    fontVariantNumeric: 'tabular-nums',
+    textAlign: 'right',
+  },
+
+  popover: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    marginTop: spacing[1],
+    width: 280,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[3],
+    padding: spacing[3],
+    backgroundColor: colors.bg.inset,
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.3)',
+    zIndex: zIndex.ui.dropdown,
+    fontFamily: typography.fonts.body,
+  },
+
+  heading: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 2,
+  },
+
+  label: {
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold,
+    color: colors.fg.secondary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+  },
+
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+  },
+
+  fieldLabel: {
+    fontSize: typography.sizes.xs,
+    color: colors.fg.primary,
+  },
+
+  muted: {
+    fontSize: typography.sizes.xs,
+    color: colors.fg.tertiary,
+  },
+
+  footer: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing[2],
+  },
+
+  secondaryButton: {
+    padding: `2px ${spacing[2]}`,
+    backgroundColor: 'transparent',
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.secondary,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    whiteSpace: 'nowrap',
+    cursor: 'pointer',
+  },
+};
+
+export default ContextMeter;
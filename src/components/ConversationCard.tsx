@@ -7,15 +7,17 @@ import { motion } from 'framer-motion';
 import { colors, typography, spacing, effects, card, animation } from '@/lib/design-tokens';
 import { getCardZIndex } from '@/constants/zIndex';
 import { getTextStyles } from '@/lib/language-utils';
-import { useCanvasStore, selectIsAnyNodeDragging, selectActiveConversationId, selectSkipMountAnimation } from '@/stores/canvas-store';
+import { useCanvasStore, selectIsAnyNodeDragging, selectActiveConversationId, selectSkipMountAnimation, selectStaleCardIds } from '@/stores/canvas-store';
 import { useOnboardingStore } from '@/stores/onboarding-store';
 import { usePreferencesStore, selectUIPreferences, getResolvedTheme, selectTheme } from '@/stores/preferences-store';
 import { ContextMenu, useContextMenu, getConversationMenuItems } from './ContextMenu';
 import { InlineBranchPanel } from './InlineBranchPanel';
 import type { ConversationNodeData, Message } from '@/types';
-import { GitBranch, Zap } from 'lucide-react';
-import { canBranchFromCard, canDeleteConversations } from '@/lib/onboarding-guards';
+import { AlertTriangle, GitBranch, Zap } from 'lucide-react';
+import { canBranchFromCard, canCreateConversation, canDeleteConversations } from '@/lib/onboarding-guards';
 import { analytics } from '@/lib/analytics';
+import { exportLineageMarkdown, exportSubtreeMarkdown } from '@/lib/markdown-export';
+import { downloadFile, toFileSlug } from '@/utils/download';
 
 // Tracks which branched card IDs have already played their intro animation.
 // Module-level so it persists across remounts caused by onlyRenderVisibleElements.
@@ -110,6 +112,8 @@ function ConversationCardComponent({
   // Root cards (no parents) don't need a left handle — nothing connects into them
   const isRootCard = conversation.parentCardIds.length === 0 && !isMergeNode;
   const skipMountAnimation = useCanvasStore(selectSkipMountAnimation);
+  // A parent's messages changed after this card inherited them
+  const hasStaleContext = useCanvasStore((s) => selectStaleCardIds(s).has(conversation.id));
 
   // Only play the branch intro animation the very first time this card mounts.
   // After that, animatedCardIds records the id so viewport re-entries (caused by
@@ -188,8 +192,31 @@ function ConversationCardComponent({
         deleteConversation(conversation.id);
       }
     },
+    onExportLineage: () => {
+      const markdown = exportLineageMarkdown(conversation.id, useCanvasStore.getState().conversations);
+      if (markdown) {
+        downloadFile(markdown, `${toFileSlug(conversation.metadata.title)}-lineage.md`, 'text/markdown');
+      }
+    },
+    onExportSubtree: () => {
+      const markdown = exportSubtreeMarkdown(conversation.id, useCanvasStore.getState().conversations);
+      if (markdown) {
+        downloadFile(markdown, `${toFileSlug(conversation.metadata.title)}-tree.md`, 'text/markdown');
+      }
+    },
+    onDuplicate: () => {
+      if (!canCreateConversation(useOnboardingStore.getState())) return;
+      useCanvasStore.getState().duplicateCards([conversation.id]);
+    },
+    // Detached cards become roots that keep their inherited messages
+    onDetach: conversation.parentCardIds.length > 0
+      ? () => {
+        if (useOnboardingStore.getState().active) return;
+        useCanvasStore.getState().detachBranch(conversation.id);
+      }
+      : undefined,
     // No onExpand - cards are fixed size, conversation happens in chat panel
-  }, isMac), [conversation.id, deleteConversation, requestDeleteConversation, uiPrefs.confirmOnDelete]);
+  }, isMac), [conversation.id, conversation.metadata.title, conversation.parentCardIds.length, deleteConversation, requestDeleteConversation, uiPrefs.confirmOnDelete]);
 
   // Handle right-click: Check if clicked item is "Branch from here"
   // If so, open dialog directly (centered modal per phase_2.md spec)
@@ -350,6 +377,14 @@ function ConversationCardComponent({
             </span>
           )}
           <h3 style={cardStyles.title}>{metadata.title}</h3>
+          {hasStaleContext && (
+            <span
+              style={{ display: 'flex', alignItems: 'center', flexShrink: 0 }}
+              title="Parent changed since this card branched. Open it to review, rebase or detach."
+            >
+              <AlertTriangle size={14} color={colors.semantic.warning} />
+            </span>
+          )}
           {/* Merge source count badge with warning/error colors */}
           {isMergeNode && mergeSourceCount > 0 && (
             <span
@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { Check } from 'lucide-react';
+
+import { colors, typography, spacing, effects } from '@/lib/design-tokens';
+import type { ModelDefinition } from '@/lib/vercel-ai-integration';
+
+// =============================================================================
+// FAN-OUT MODEL PICKER
+// =============================================================================
+
+interface FanOutModelPickerProps {
+  /** Models the user has credentials for */
+  models: ModelDefinition[];
+  /** Selected model IDs — one sibling branch is created per model */
+  selected: string[];
+  /** Toggle a model in or out of the selection */
+  onToggle: (modelId: string) => void;
+}
+
+/**
+ * Chip row shown above the message textarea in "send to N models" mode.
+ */
+export function FanOutModelPicker({ models, selected, onToggle }: FanOutModelPickerProps) {
+  return (
+    <div style={styles.container} role="group" aria-label="Models to send to">
+      <span style={styles.label}>
+        Send to {selected.length} {selected.length === 1 ? 'model' : 'models'}:
+      </span>
+      {models.map((model) => {
+        const isSelected = selected.includes(model.id);
+        return (
+          <button
+            key={model.id}
+            type="button"
+            onClick={() => onToggle(model.id)}
+            title={model.description}
+            aria-pressed={isSelected}
+            style={{
+              ...styles.chip,
+              ...(isSelected ? styles.chipSelected : {}),
+            }}
+          >
+            {isSelected && <Check size={10} />}
+            {model.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: spacing[1],
+    padding: `${spacing[1]} ${spacing[2]}`,
+  },
+
+  label: {
+    fontSize: typography.sizes.xs,
+    color: colors.fg.tertiary,
+    fontFamily: typography.fonts.body,
+    marginRight: spacing[1],
+  },
+
+  chip: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 4,
+    padding: `2px ${spacing[2]}`,
+    backgroundColor: 'transparent',
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.secondary,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+  },
+
+  chipSelected: {
+    backgroundColor: 'var(--accent-muted)',
+    borderColor: colors.accent.primary,
+    color: colors.fg.primary,
+  },
+};
+
+export default FanOutModelPicker;
@@ -0,0 +1,419 @@
+'use client';
+
+/**
+ * GenerationSettingsMenu - Per-card generation settings
+ *
+ * Header button with a popover for temperature, max output tokens, reasoning
+ * effort and summaries (reasoning models) and the Anthropic extended-thinking budget.
+ * Empty fields use the model's defaults from MODEL_CONFIGS. Values are
+ * checked against the card's current model before they are saved; settings
+ * the model doesn't support are kept on the card but not sent.
+ */
+
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+
+import { useCanvasStore } from '@/stores/canvas-store';
+import {
+  REASONING_EFFORTS,
+  MIN_THINKING_BUDGET,
+  getGenerationLimits,
+  getModelConfig,
+  validateGenerationSettings,
+} from '@/lib/model-configs';
+import { getModelById } from '@/lib/vercel-ai-integration';
+import { colors, typography, spacing, effects } from '@/lib/design-tokens';
+import { zIndex } from '@/constants/zIndex';
+import type { Conversation, GenerationSettings, ReasoningEffort } from '@/types';
+
+/** Budget suggested when extended thinking is switched on */
+const DEFAULT_THINKING_BUDGET = 4096;
+
+const REASONING_EFFORT_LABELS: Record<ReasoningEffort, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+interface Drafts {
+  temperature: string;
+  maxOutputTokens: string;
+  thinkingBudget: string;
+}
+
+function toDrafts(settings: GenerationSettings | undefined): Drafts {
+  return {
+    temperature: settings?.temperature?.toString() ?? '',
+    maxOutputTokens: settings?.maxOutputTokens?.toString() ?? '',
+    thinkingBudget: settings?.thinkingBudget?.toString() ?? '',
+  };
+}
+
+function parseDraft(value: string): number | undefined {
+  const trimmed = value.trim();
+  return trimmed ? Number(trimmed) : undefined;
+}
+
+/** Drop unset fields; no fields at all means "use the model defaults" */
+function compactSettings(settings: GenerationSettings): GenerationSettings | undefined {
+  const entries = Object.entries(settings).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) as GenerationSettings : undefined;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+interface GenerationSettingsMenuProps {
+  conversation: Conversation;
+  /** Model the card sends with; limits and defaults come from it */
+  model: string | null;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const GenerationSettingsMenu = memo(function GenerationSettingsMenu({
+  conversation,
+  model,
+  isOpen,
+  onOpenChange,
+}: GenerationSettingsMenuProps) {
+  const updateConversation = useCanvasStore((s) => s.updateConversation);
+  const recordHistory = useCanvasStore((s) => s.recordHistory);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const settings = conversation.generationSettings;
+  const [drafts, setDrafts] = useState<Drafts>(() => toDrafts(settings));
+  const [error, setError] = useState<string | null>(null);
+
+  const modelId = model ?? '';
+  const limits = useMemo(() => getGenerationLimits(modelId), [modelId]);
+  const defaults = useMemo(() => getModelConfig(modelId), [modelId]);
+  const modelName = model ? getModelById(model)?.name ?? model : 'Default model';
+  const thinkingEnabled = settings?.thinkingBudget !== undefined;
+  const hasSettings = !!settings && Object.keys(settings).length > 0;
+
+  const ignoredCount = useMemo(() => {
+    if (!settings) return 0;
+    const { settings: applied } = validateGenerationSettings(modelId, settings);
+    return Object.keys(settings).length - Object.keys(applied).length;
+  }, [modelId, settings]);
+
+  // Reset drafts when the card or its stored settings change (switching cards, undo) - intentional
+  useEffect(() => {
+    /* eslint-disable react-hooks/set-state-in-effect */
+    setDrafts(toDrafts(settings));
+    setError(null);
+    /* eslint-enable react-hooks/set-state-in-effect */
+  }, [conversation.id, settings]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent | TouchEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        onOpenChange(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside as EventListener);
+    document.addEventListener('touchstart', handleClickOutside as EventListener);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside as EventListener);
+      document.removeEventListener('touchstart', handleClickOutside as EventListener);
+    };
+  }, [isOpen, onOpenChange]);
+
+  /** Validate against the current model and save; invalid values stay in the draft */
+  const saveSettings = (updates: GenerationSettings) => {
+    const next = compactSettings({ ...settings, ...updates });
+    if (JSON.stringify(next ?? {}) === JSON.stringify(settings ?? {})) {
+      setError(null);
+      return;
+    }
+
+    const validation = validateGenerationSettings(modelId, next ?? {});
+    if (validation.error) {
+      setError(validation.error);
+      return;
+    }
+
+    setError(null);
+    updateConversation(conversation.id, { generationSettings: next });
+    recordHistory(next ? 'Changed generation settings' : 'Reset generation settings');
+  };
+
+  const commitNumber = (field: keyof Drafts) => {
+    const value = parseDraft(drafts[field]);
+    if (value !== undefined && Number.isNaN(value)) {
+      setError('Enter a number.');
+      return;
+    }
+    saveSettings({ [field]: value });
+  };
+
+  const numberInput = (field: keyof Drafts, props: { placeholder: string; step?: number; disabled?: boolean }) => (
+    <input
+      type="number"
+      inputMode="decimal"
+      value={drafts[field]}
+      onChange={(e) => setDrafts((current) => ({ ...current, [field]: e.target.value }))}
+      onBlur={() => commitNumber(field)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitNumber(field);
+      }}
+      placeholder={props.placeholder}
+      step={props.step}
+      disabled={props.disabled}
+      style={{ ...styles.input, opacity: props.disabled ? 0.5 : 1 }}
+    />
+  );
+
+  return (
+    <div ref={containerRef} style={styles.container}>
+      <button
+        type="button"
+        onClick={() => onOpenChange(!isOpen)}
+        style={{
+          ...styles.triggerButton,
+          backgroundColor: isOpen || hasSettings ? colors.accent.muted : 'transparent',
+          borderColor: isOpen || hasSettings ? colors.accent.primary : 'var(--border-primary)',
+          color: isOpen || hasSettings ? colors.accent.primary : colors.fg.secondary,
+        }}
+        title="Generation settings"
+        aria-label="Generation settings"
+        aria-expanded={isOpen}
+      >
+        <SlidersHorizontal size={16} />
+      </button>
+
+      {isOpen && (
+        <div style={styles.popover} role="dialog" aria-label="Generation settings">
+          <div style={styles.heading}>
+            <span style={styles.label}>Generation settings</span>
+            <span style={styles.muted}>{modelName} · empty fields use its defaults</span>
+          </div>
+
+          {limits.temperature && (
+            <div style={styles.field}>
+              <span style={styles.fieldLabel}>Temperature</span>
+              {numberInput('temperature', {
+                placeholder: `${defaults.temperature}`,
+                step: 0.1,
+                disabled: thinkingEnabled,
+              })}
+              <span style={styles.muted}>
+                {thinkingEnabled
+                  ? 'Not used with extended thinking'
+                  : `${limits.temperature.min}–${limits.temperature.max}`}
+              </span>
+            </div>
+          )}
+
+          <div style={styles.field}>
+            <span style={styles.fieldLabel}>Max output tokens</span>
+            {numberInput('maxOutputTokens', { placeholder: `${defaults.maxTokens}`, step: 256 })}
+            <span style={styles.muted}>up to {limits.maxOutputTokens.max.toLocaleString()}</span>
+          </div>
+
+          {limits.reasoningEffort && (
+            <div style={styles.field}>
+              <span style={styles.fieldLabel}>Reasoning effort</span>
+              <select
+                value={settings?.reasoningEffort ?? ''}
+                onChange={(e) => saveSettings({ reasoningEffort: (e.target.value || undefined) as ReasoningEffort | undefined })}
+                style={styles.input}
+              >
+                <option value="">Default</option>
+                {REASONING_EFFORTS.map((effort) => (
+                  <option key={effort} value={effort}>{REASONING_EFFORT_LABELS[effort]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {limits.reasoningSummary && (
+            <div style={styles.field}>
+              <label style={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={!!settings?.reasoningSummary}
+                  onChange={(e) => saveSettings({ reasoningSummary: e.target.checked || undefined })}
+                />
+                Show reasoning summary
+              </label>
+              <span style={styles.muted}>Uses extra output tokens; needs a verified OpenAI organization</span>
+            </div>
+          )}
+
+          {limits.thinkingBudget && (
+            <div style={styles.field}>
+              <label style={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={thinkingEnabled}
+                  onChange={(e) => saveSettings({
+                    thinkingBudget: e.target.checked ? DEFAULT_THINKING_BUDGET : undefined,
+                  })}
+                />
+                Extended thinking
+              </label>
+              {thinkingEnabled && (
+                <>
+                  {numberInput('thinkingBudget', { placeholder: `${DEFAULT_THINKING_BUDGET}`, step: 1024 })}
+                  <span style={styles.muted}>
+                    Budget in tokens, {MIN_THINKING_BUDGET.toLocaleString()} or more; with max output tokens up to {limits.outputTokenLimit.toLocaleString()}
+                  </span>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && <span style={styles.error} role="alert">{error}</span>}
+
+          {ignoredCount > 0 && (
+            <span style={styles.muted}>
+              {ignoredCount === 1 ? '1 setting doesn’t' : `${ignoredCount} settings don’t`} apply to {modelName} and {ignoredCount === 1 ? 'is' : 'are'} not sent.
+            </span>
+          )}
+
+          <div style={styles.footer}>
+            <span style={styles.muted}>Branches start with these settings.</span>
+            <button
+              type="button"
+              onClick={() => saveSettings({
+                temperature: undefined,
+                maxOutputTokens: undefined,
+                reasoningEffort: undefined,
+                reasoningSummary: undefined,
+                thinkingBudget: undefined,
+              })}
+              disabled={!hasSettings}
+              style={{ ...styles.resetButton, opacity: hasSettings ? 1 : 0.5, cursor: hasSettings ? 'pointer' : 'default' }}
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'relative',
+    display: 'flex',
+  },
+
+  triggerButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing[1],
+    backgroundColor: 'transparent',
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.secondary,
+    cursor: 'pointer',
+    transition: 'all 0.15s ease',
+  },
+
+  popover: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    marginTop: spacing[1],
+    width: 280,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[3],
+    padding: spacing[3],
+    backgroundColor: colors.bg.inset,
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.3)',
+    zIndex: zIndex.ui.dropdown,
+    fontFamily: typography.fonts.body,
+  },
+
+  heading: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 2,
+  },
+
+  label: {
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold,
+    color: colors.fg.secondary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+  },
+
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 4,
+  },
+
+  fieldLabel: {
+    fontSize: typography.sizes.xs,
+    color: colors.fg.primary,
+  },
+
+  input: {
+    width: '100%',
+    padding: `${spacing[1]} ${spacing[2]}`,
+    backgroundColor: colors.bg.secondary,
+    border: `1px solid ${colors.border.default}`,
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.primary,
+    fontSize: typography.sizes.sm,
+    fontFamily: typography.fonts.body,
+    outline: 'none',
+    boxSizing: 'border-box',
+  },
+
+  checkboxLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: spacing[2],
+    fontSize: typography.sizes.xs,
+    color: colors.fg.primary,
+    cursor: 'pointer',
+  },
+
+  muted: {
+    fontSize: typography.sizes.xs,
+    color: colors.fg.tertiary,
+  },
+
+  error: {
+    fontSize: typography.sizes.xs,
+    color: colors.semantic.errorFg,
+  },
+
+  footer: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing[2],
+  },
+
+  resetButton: {
+    padding: `2px ${spacing[2]}`,
+    backgroundColor: 'transparent',
+    border: '1px solid var(--border-primary)',
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.secondary,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    whiteSpace: 'nowrap',
+  },
+};
+
+export default GenerationSettingsMenu;
@@ -1,19 +1,31 @@
 'use client';
 
 /**
- * HierarchicalMergeDialog - Educational dialog for merge node best practices
+ * HierarchicalMergeDialog - Merge node dialog
  * 
  * Shows when user tries to exceed 5-parent limit on merge nodes.
  * Explains hierarchical merging pattern and offers to create intermediate merge.
  * 
- * @version 4.0.0
+ * Opened with a pending merge, it asks for the synthesis strategy instead,
+ * creates the merge node and sends the synthesis request right away.
+ * 
+ * @version 4.1.0
  */
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useCanvasStore } from '@/stores/canvas-store';
+import { analytics } from '@/lib/analytics';
+import {
+  DEFAULT_MERGE_STRATEGY,
+  MERGE_STRATEGIES,
+  buildSynthesisPrompt,
+  getMergeStrategy,
+  getMergeSynthesisPrompt,
+} from '@/lib/merge-strategies';
 import { colors, typography, spacing, effects, animation } from '@/lib/design-tokens';
 import { zIndex } from '@/constants/zIndex';
+import type { CreateMergeNodeData, MergeStrategy } from '@/types';
 
 // =============================================================================
 // ICONS (inline SVG)
@@ -85,6 +97,169 @@ const footerStyles: React.CSSProperties = {
   gap: spacing[3],
 };
 
+const strategyOptionStyles: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 2,
+  width: '100%',
+  padding: `${spacing[2]} ${spacing[3]}`,
+  backgroundColor: 'transparent',
+  border: '1px solid var(--border-primary)',
+  borderRadius: effects.border.radius.sm,
+  color: colors.fg.primary,
+  fontFamily: typography.fonts.body,
+  textAlign: 'left',
+  cursor: 'pointer',
+  transition: 'border-color 0.15s, background-color 0.15s',
+};
+
+const secondaryButtonStyles: React.CSSProperties = {
+  padding: `${spacing[2]} ${spacing[4]}`,
+  backgroundColor: 'transparent',
+  color: colors.fg.secondary,
+  border: '1px solid var(--border-primary)',
+  borderRadius: effects.border.radius.sm,
+  fontSize: typography.sizes.sm,
+  fontWeight: typography.weights.medium,
+  cursor: 'pointer',
+};
+
+const primaryButtonStyles: React.CSSProperties = {
+  padding: `${spacing[2]} ${spacing[4]}`,
+  backgroundColor: colors.semantic.success,
+  color: colors.fg.primary,
+  border: 'none',
+  borderRadius: effects.border.radius.sm,
+  fontSize: typography.sizes.sm,
+  fontWeight: typography.weights.medium,
+  cursor: 'pointer',
+  transition: 'background-color 0.15s, transform 0.1s, filter 0.15s',
+};
+
+// =============================================================================
+// STRATEGY PICKER
+// =============================================================================
+
+function MergeStrategyContent({ pendingMerge, onClose }: { pendingMerge: CreateMergeNodeData; onClose: () => void }) {
+  const conversations = useCanvasStore((s) => s.conversations);
+  const [strategy, setStrategy] = useState<MergeStrategy>(DEFAULT_MERGE_STRATEGY);
+  const [customTemplate, setCustomTemplate] = useState(getMergeStrategy('custom').template);
+  const [generateNow, setGenerateNow] = useState(true);
+
+  const sourceTitles = useMemo(
+    () => pendingMerge.sourceCardIds.map((id) => conversations.get(id)?.metadata.title || 'Untitled'),
+    [pendingMerge.sourceCardIds, conversations]
+  );
+  const preview = buildSynthesisPrompt(strategy, sourceTitles, customTemplate);
+
+  const handleCreate = () => {
+    const store = useCanvasStore.getState();
+    const mergeNode = store.createMergeNode({
+      ...pendingMerge,
+      strategy,
+      ...(strategy === 'custom' ? { customTemplate } : {}),
+    });
+    onClose();
+    if (!mergeNode) return;
+
+    analytics.mergeCompleted(pendingMerge.sourceCardIds.length);
+    store.openChatPanel(mergeNode.id);
+    store.requestFocusNode(mergeNode.id);
+
+    const prompt = getMergeSynthesisPrompt(mergeNode, useCanvasStore.getState().conversations);
+    if (prompt) {
+      store.injectInputValue(mergeNode.id, prompt, { send: generateNow });
+    }
+  };
+
+  return (
+    <>
+      <div style={{ ...contentStyles, display: 'flex', flexDirection: 'column', gap: spacing[3] }}>
+        <p style={{ margin: 0, color: colors.fg.secondary, fontSize: typography.sizes.sm, lineHeight: 1.6 }}>
+          Merging {sourceTitles.map((title) => `"${title}"`).join(', ')}. How should they be synthesized?
+        </p>
+
+        <div role="radiogroup" aria-label="Synthesis strategy" style={{ display: 'flex', flexDirection: 'column', gap: spacing[2] }}>
+          {MERGE_STRATEGIES.map((option) => {
+            const isSelected = option.id === strategy;
+            return (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => setStrategy(option.id)}
+                style={{
+                  ...strategyOptionStyles,
+                  borderColor: isSelected ? colors.semantic.success : 'var(--border-primary)',
+                  backgroundColor: isSelected ? 'var(--success-muted)' : 'transparent',
+                }}
+              >
+                <span style={{ fontSize: typography.sizes.sm, fontWeight: typography.weights.medium }}>
+                  {option.label}
+                </span>
+                <span style={{ fontSize: typography.sizes.xs, color: colors.fg.tertiary }}>
+                  {option.description}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        {strategy === 'custom' ? (
+          <textarea
+            value={customTemplate}
+            onChange={(e) => setCustomTemplate(e.target.value)}
+            rows={3}
+            aria-label="Custom synthesis template"
+            style={{
+              width: '100%',
+              padding: spacing[2],
+              backgroundColor: 'var(--bg-inset)',
+              border: '1px solid var(--border-primary)',
+              borderRadius: effects.border.radius.sm,
+              color: colors.fg.primary,
+              fontSize: typography.sizes.sm,
+              fontFamily: typography.fonts.body,
+              resize: 'vertical',
+            }}
+          />
+        ) : (
+          <div style={{
+            padding: spacing[3],
+            backgroundColor: 'var(--bg-inset)',
+            borderRadius: effects.border.radius.sm,
+            fontSize: typography.sizes.xs,
+            color: colors.fg.secondary,
+            lineHeight: 1.6,
+            whiteSpace: 'pre-wrap',
+          }}>
+            {preview}
+          </div>
+        )}
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: spacing[2], fontSize: typography.sizes.sm, color: colors.fg.secondary, cursor: 'pointer' }}>
+          <input type="checkbox" checked={generateNow} onChange={(e) => setGenerateNow(e.target.checked)} />
+          Generate the synthesis right away
+        </label>
+      </div>
+
+      <div style={footerStyles}>
+        <button onClick={onClose} style={secondaryButtonStyles}>
+          Cancel
+        </button>
+        <button
+          onClick={handleCreate}
+          disabled={!preview}
+          style={{ ...primaryButtonStyles, opacity: preview ? 1 : 0.5, cursor: preview ? 'pointer' : 'not-allowed' }}
+        >
+          Create merge
+        </button>
+      </div>
+    </>
+  );
+}
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -92,6 +267,7 @@ const footerStyles: React.CSSProperties = {
 export function HierarchicalMergeDialog() {
   const isOpen = useCanvasStore((s) => s.hierarchicalMergeDialogOpen);
   const closeDialog = useCanvasStore((s) => s.closeHierarchicalMergeDialog);
+  const pendingMerge = useCanvasStore((s) => s.pendingMerge);
   const overlayMouseDownRef = useRef(false);
 
   // Handle Escape key
@@ -105,14 +281,14 @@ export function HierarchicalMergeDialog() {
         return;
       }
 
-      if (e.key === 'Enter') {
+      if (e.key === 'Enter' && !pendingMerge) {
         closeDialog();
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, closeDialog]);
+  }, [isOpen, closeDialog, pendingMerge]);
 
   return (
     <AnimatePresence>
@@ -162,7 +338,7 @@ export function HierarchicalMergeDialog() {
                   fontWeight: typography.weights.semibold, 
                   color: colors.fg.primary 
                 }}>
-                  Merge Node Limit Reached
+                  {pendingMerge ? `Merge ${pendingMerge.sourceCardIds.length} cards` : 'Merge Node Limit Reached'}
                 </h2>
               </div>
               <button
@@ -192,142 +368,148 @@ export function HierarchicalMergeDialog() {
               </button>
             </div>
 
-            {/* Content */}
-            <div style={contentStyles}>
-              {/* Explanation */}
-              <p style={{ 
-                margin: `0 0 ${spacing[4]}`, 
-                color: colors.fg.secondary,
-                fontSize: typography.sizes.base,
-                lineHeight: 1.6,
-              }}>
-                Merge nodes work best with <strong style={{ color: colors.semantic.success }}>2-5 sources</strong>. 
-                For more sources, use a hierarchical pattern to maintain AI response quality.
-              </p>
-
-              {/* Visual Example */}
-              <div style={{
-                backgroundColor: 'var(--bg-inset)',
-                borderRadius: effects.border.radius.sm,
-                padding: spacing[4],
-                marginBottom: spacing[4],
-              }}>
-                <div style={{ 
-                  display: 'flex', 
-                  alignItems: 'center', 
-                  gap: spacing[2],
-                  marginBottom: spacing[3],
-                  color: colors.accent.primary,
+            {pendingMerge ? (
+              <MergeStrategyContent pendingMerge={pendingMerge} onClose={closeDialog} />
+            ) : (
+              <>
+              {/* Content */}
+              <div style={contentStyles}>
+                {/* Explanation */}
+                <p style={{ 
+                  margin: `0 0 ${spacing[4]}`, 
+                  color: colors.fg.secondary,
+                  fontSize: typography.sizes.base,
+                  lineHeight: 1.6,
                 }}>
-                  <LightbulbIcon />
-                  <span style={{ fontWeight: typography.weights.medium, fontSize: typography.sizes.sm }}>
-                    Hierarchical Merge Pattern
-                  </span>
-                </div>
+                  Merge nodes work best with <strong style={{ color: colors.semantic.success }}>2-5 sources</strong>. 
+                  For more sources, use a hierarchical pattern to maintain AI response quality.
+                </p>
 
-                {/* Bad Pattern */}
-                <div style={{ marginBottom: spacing[3] }}>
-                  <p style={{ 
-                    margin: `0 0 ${spacing[2]}`, 
-                    fontSize: typography.sizes.xs, 
-                    color: colors.semantic.error,
-                    fontWeight: typography.weights.medium,
-                    textTransform: 'uppercase',
-                    letterSpacing: '0.05em',
-                  }}>
-                    ✕ Instead of:
-                  </p>
-                  <code style={{
-                    display: 'block',
-                    fontFamily: '"JetBrains Mono", monospace',
-                    fontSize: typography.sizes.sm,
-                    color: colors.fg.secondary,
-                    backgroundColor: 'var(--error-muted)',
-                    padding: `${spacing[2]} ${spacing[3]}`,
-                    borderRadius: effects.border.radius.sm,
-                    border: '1px solid var(--error-muted)',
+                {/* Visual Example */}
+                <div style={{
+                  backgroundColor: 'var(--bg-inset)',
+                  borderRadius: effects.border.radius.sm,
+                  padding: spacing[4],
+                  marginBottom: spacing[4],
+                }}>
+                  <div style={{ 
+                    display: 'flex', 
+                    alignItems: 'center', 
+                    gap: spacing[2],
+                    marginBottom: spacing[3],
+                    color: colors.accent.primary,
                   }}>
-                    [A] [B] [C] [D] [E] [F] → [Final]  <span style={{ color: colors.semantic.error }}>{'// 6 sources - too many!'}</span>
-                  </code>
-                </div>
+                    <LightbulbIcon />
+                    <span style={{ fontWeight: typography.weights.medium, fontSize: typography.sizes.sm }}>
+                      Hierarchical Merge Pattern
+                    </span>
+                  </div>
 
-                {/* Good Pattern */}
-                <div>
-                  <p style={{ 
-                    margin: `0 0 ${spacing[2]}`, 
-                    fontSize: typography.sizes.xs, 
-                    color: colors.semantic.success,
-                    fontWeight: typography.weights.medium,
-                    textTransform: 'uppercase',
-                    letterSpacing: '0.05em',
-                  }}>
-                    ✓ Try this:
-                  </p>
-                  <code style={{
-                    display: 'block',
-                    fontFamily: '"JetBrains Mono", monospace',
-                    fontSize: typography.sizes.sm,
-                    color: colors.fg.secondary,
-                    backgroundColor: 'var(--success-muted)',
-                    padding: `${spacing[2]} ${spacing[3]}`,
-                    borderRadius: effects.border.radius.sm,
-                    border: '1px solid var(--success-muted)',
-                    whiteSpace: 'pre-wrap',
-                    lineHeight: 1.8,
-                  }}>
+                  {/* Bad Pattern */}
+                  <div style={{ marginBottom: spacing[3] }}>
+                    <p style={{ 
+                      margin: `0 0 ${spacing[2]}`, 
+                      fontSize: typography.sizes.xs, 
+                      color: colors.semantic.error,
+                      fontWeight: typography.weights.medium,
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.05em',
+                    }}>
+                      ✕ Instead of:
+                    </p>
+                    <code style={{
+                      display: 'block',
+                      fontFamily: '"JetBrains Mono", monospace',
+                      fontSize: typography.sizes.sm,
+                      color: colors.fg.secondary,
+                      backgroundColor: 'var(--error-muted)',
+                      padding: `${spacing[2]} ${spacing[3]}`,
+                      borderRadius: effects.border.radius.sm,
+                      border: '1px solid var(--error-muted)',
+                    }}>
+                      [A] [B] [C] [D] [E] [F] → [Final]  <span style={{ color: colors.semantic.error }}>{'// 6 sources - too many!'}</span>
+                    </code>
+                  </div>
+
+                  {/* Good Pattern */}
+                  <div>
+                    <p style={{ 
+                      margin: `0 0 ${spacing[2]}`, 
+                      fontSize: typography.sizes.xs, 
+                      color: colors.semantic.success,
+                      fontWeight: typography.weights.medium,
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.05em',
+                    }}>
+                      ✓ Try this:
+                    </p>
+                    <code style={{
+                      display: 'block',
+                      fontFamily: '"JetBrains Mono", monospace',
+                      fontSize: typography.sizes.sm,
+                      color: colors.fg.secondary,
+                      backgroundColor: 'var(--success-muted)',
+                      padding: `${spacing[2]} ${spacing[3]}`,
+                      borderRadius: effects.border.radius.sm,
+                      border: '1px solid var(--success-muted)',
+                      whiteSpace: 'pre-wrap',
+                      lineHeight: 1.8,
+                    }}>
 {`[A] [B] [C] → [Group 1]
 [D] [E] [F] → [Group 2]
 [Group 1] [Group 2] → [Final]`}
-                  </code>
+                    </code>
+                  </div>
                 </div>
-              </div>
 
-              {/* Benefits */}
-              <div style={{ 
-                fontSize: typography.sizes.sm, 
-                color: colors.fg.secondary,
-                lineHeight: 1.6,
-              }}>
-                <strong style={{ color: colors.fg.secondary }}>Benefits:</strong>
-                <ul style={{ margin: `${spacing[2]} 0 0`, paddingLeft: spacing[5] }}>
-                  <li>Better AI response quality with focused context</li>
-                  <li>Easier to understand conversation flow</li>
-                  <li>More modular and reusable merge nodes</li>
-                </ul>
+                {/* Benefits */}
+                <div style={{ 
+                  fontSize: typography.sizes.sm, 
+                  color: colors.fg.secondary,
+                  lineHeight: 1.6,
+                }}>
+                  <strong style={{ color: colors.fg.secondary }}>Benefits:</strong>
+                  <ul style={{ margin: `${spacing[2]} 0 0`, paddingLeft: spacing[5] }}>
+                    <li>Better AI response quality with focused context</li>
+                    <li>Easier to understand conversation flow</li>
+                    <li>More modular and reusable merge nodes</li>
+                  </ul>
+                </div>
               </div>
-            </div>
 
-            {/* Footer */}
-            <div style={footerStyles}>
-              <button
-                onClick={closeDialog}
-                style={{
-                  padding: `${spacing[2]} ${spacing[4]}`,
-                  backgroundColor: colors.semantic.success,
-                  color: colors.fg.primary,
-                  border: 'none',
-                  borderRadius: effects.border.radius.sm,
-                  fontSize: typography.sizes.sm,
-                  fontWeight: typography.weights.medium,
-                  cursor: 'pointer',
-                  transition: 'background-color 0.15s, transform 0.1s, filter 0.15s',
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.filter = 'brightness(1.1)';
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.filter = 'brightness(1)';
-                }}
-                onMouseDown={(e) => {
-                  e.currentTarget.style.transform = 'scale(0.98)';
-                }}
-                onMouseUp={(e) => {
-                  e.currentTarget.style.transform = 'scale(1)';
-                }}
-              >
-                Got It
-              </button>
-            </div>
+              {/* Footer */}
+              <div style={footerStyles}>
+                <button
+                  onClick={closeDialog}
+                  style={{
+                    padding: `${spacing[2]} ${spacing[4]}`,
+                    backgroundColor: colors.semantic.success,
+                    color: colors.fg.primary,
+                    border: 'none',
+                    borderRadius: effects.border.radius.sm,
+                    fontSize: typography.sizes.sm,
+                    fontWeight: typography.weights.medium,
+                    cursor: 'pointer',
+                    transition: 'background-color 0.15s, transform 0.1s, filter 0.15s',
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.filter = 'brightness(1.1)';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.filter = 'brightness(1)';
+                  }}
+                  onMouseDown={(e) => {
+                    e.currentTarget.style.transform = 'scale(0.98)';
+                  }}
+                  onMouseUp={(e) => {
+                    e.currentTarget.style.transform = 'scale(1)';
+                  }}
+                >
+                  Got It
+                </button>
+              </div>
+              </>
+            )}
           </motion.div>
         </motion.div>
       )}
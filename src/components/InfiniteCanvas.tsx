@@ -197,6 +197,8 @@ export function InfiniteCanvas({ isMobile = false }: InfiniteCanvasProps) {
   const suppressNextPaneClickRef = useRef(false);
   const overlayRef = useRef<HTMLDivElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
+  // Last pointer position over the canvas (screen coordinates), where Ctrl+V pastes
+  const pointerPositionRef = useRef<{ x: number; y: number } | null>(null);
 
   // Settings panel state
   const [settingsOpen, setSettingsOpen] = useState(false);
@@ -255,7 +257,7 @@ export function InfiniteCanvas({ isMobile = false }: InfiniteCanvasProps) {
   const onConnect = useCanvasStore((s) => s.onConnect);
   const setSelected = useCanvasStore((s) => s.setSelected);
   const clearSelection = useCanvasStore((s) => s.clearSelection);
-  const deleteConversation = useCanvasStore((s) => s.deleteConversation);
+  const deleteConversations = useCanvasStore((s) => s.deleteConversations);
   const branchFromMessage = useCanvasStore((s) => s.branchFromMessage);
   const navigateToWorkspace = useCanvasStore((s) => s.navigateToWorkspace);
   const deleteWorkspace = useCanvasStore((s) => s.deleteWorkspace);
@@ -328,9 +330,9 @@ export function InfiniteCanvas({ isMobile = false }: InfiniteCanvasProps) {
     }
 
     if (pendingDeleteConversationIds.length === 0) return;
-    pendingDeleteConversationIds.forEach((id) => deleteConversation(id));
+    deleteConversations(pendingDeleteConversationIds);
     clearDeleteConversationRequest();
-  }, [pendingDeleteConversationIds, deleteConversation, clearDeleteConversationRequest]);
+  }, [pendingDeleteConversationIds, deleteConversations, clearDeleteConversationRequest]);
 
   const cancelDeleteConversation = useCallback(() => {
     clearDeleteConversationRequest();
@@ -964,7 +966,7 @@ export function InfiniteCanvas({ isMobile = false }: InfiniteCanvasProps) {
           return;
         }
 
-        selectedIds.forEach(id => deleteConversation(id));
+        deleteConversations(selectedIds);
       },
       onEscape: () => {
         // Priority: Close chat panel first, then deselect
@@ -1027,6 +1029,28 @@ export function InfiniteCanvas({ isMobile = false }: InfiniteCanvasProps) {
           }
         }
       },
+      onCopy: () => {
+        const selectedIds = Array.from(selectedNodeIds);
+        if (selectedIds.length === 0) return;
+        const count = useCanvasStore.getState().copyCards(selectedIds);
+        if (count > 0) {
+          useToastStore.getState().info(`Copied ${count} ${count === 1 ? 'card' : 'cards'}.`);
+        }
+      },
+      onPaste: () => {
+        if (!canCreateConversation(useOnboardingStore.getState())) return;
+        if (!useCanvasStore.getState().cardClipboard) return;
+
+        const pointer = pointerPositionRef.current;
+        const position = pointer ? reactFlowInstance.current?.screenToFlowPosition(pointer) : undefined;
+        useCanvasStore.getState().pasteCards(position);
+      },
+      onDuplicate: () => {
+        if (!canCreateConversation(useOnboardingStore.getState())) return;
+        const selectedIds = Array.from(selectedNodeIds);
+        if (selectedIds.length === 0) return;
+        useCanvasStore.getState().duplicateCards(selectedIds);
+      },
       onAddConversation: () => {
         // N: Add new conversation at center of viewport
         handleAddConversation();
@@ -1206,7 +1230,16 @@ export function InfiniteCanvas({ isMobile = false }: InfiniteCanvasProps) {
               </div>
             </div>
 
-            <div ref={canvasContainerRef} style={canvasStyles}>
+            <div
+              ref={canvasContainerRef}
+              style={canvasStyles}
+              onMouseMove={(e) => {
+                pointerPositionRef.current = { x: e.clientX, y: e.clientY };
+              }}
+              onMouseLeave={() => {
+                pointerPositionRef.current = null;
+              }}
+            >
               {/* Empty canvas hint — fades out once the first card is created */}
               <AnimatePresence>
                 {nodes.length === 0 && rfReady && (
@@ -4,15 +4,28 @@
  * InlineBranchPanel - Mouse-driven inline branching UI
  * 
  * Appears when user clicks branch icon on a message.
- * Provides quick context inheritance options.
+ * Lets the user choose how much context the branch inherits: everything,
+ * the last N messages, a hand-picked selection, or an AI summary.
  * 
- * @version 4.0.0
+ * @version 4.1.0
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GitBranch, FileText, X, AlertCircle } from 'lucide-react';
-import { useCanvasStore } from '@/stores/canvas-store';
+import { collectBranchContext, useCanvasStore } from '@/stores/canvas-store';
+import { usePreferencesStore, selectBranchingPreferences } from '@/stores/preferences-store';
+import { useUsageStore } from '@/stores/usage-store';
+import {
+  DEFAULT_LAST_N,
+  INHERITANCE_MODE_LABELS,
+  estimateTokens,
+  requestContextSummary,
+  selectContextMessages,
+} from '@/lib/context-utils';
+import { detectProvider } from '@/lib/vercel-ai-integration';
+import { MessageSelector } from './MessageSelector';
+import type { InheritanceMode } from '@/types';
 
 // =============================================================================
 // TYPES
@@ -48,25 +61,85 @@ export function InlineBranchPanel({
   const branchFromMessage = useCanvasStore((s) => s.branchFromMessage);
   const openChatPanel = useCanvasStore((s) => s.openChatPanel);
   const requestFocusNode = useCanvasStore((s) => s.requestFocusNode);
+  const conversations = useCanvasStore((s) => s.conversations);
+  const lastUsedModel = useCanvasStore((s) => s.lastUsedModel);
+  const { defaultInheritanceMode } = usePreferencesStore(selectBranchingPreferences);
   
+  const [mode, setMode] = useState<InheritanceMode>(defaultInheritanceMode);
+  const [lastN, setLastN] = useState(DEFAULT_LAST_N);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const parent = conversations.get(parentCardId);
+
+  // Everything the branch could inherit (parent's inherited context + messages up to here)
+  const candidates = useMemo(
+    () => (parent ? collectBranchContext(parent, messageIndex, conversations) : []),
+    [parent, messageIndex, conversations]
+  );
+  // Custom selection starts with everything selected
+  const selection = useMemo(
+    () => selectedIds ?? new Set(candidates.map((m) => m.id)),
+    [selectedIds, candidates]
+  );
+  const inherited = useMemo(
+    () => selectContextMessages(candidates, { mode, lastN, selectedIds: [...selection] }),
+    [candidates, mode, lastN, selection]
+  );
+
   // Calculate context info
-  const contextMessageCount = messageIndex + 1;
-  const estimatedTokens = Math.ceil(contextMessageCount * 150); // Rough estimate
+  const contextMessageCount = mode === 'summary' ? candidates.length : inherited.length;
+  const estimatedTokens = estimateTokens(inherited);
+  const canCreate = !isCreating && (mode === 'summary' ? candidates.length > 0 : mode === 'full' || inherited.length > 0);
 
   const handleCreateBranch = useCallback(async () => {
     setIsCreating(true);
     setError(null);
 
     try {
+      let summary: string | undefined;
+      let summaryUsage: { model: string; inputTokens: number; outputTokens: number } | null = null;
+      if (mode === 'summary') {
+        const model = parent?.model ?? lastUsedModel;
+        if (!model) {
+          setError('Choose a model for this card before summarizing.');
+          return;
+        }
+        try {
+          const result = await requestContextSummary(candidates, model, parent?.metadata.title);
+          summary = result.summary;
+          summaryUsage = {
+            model,
+            inputTokens: result.usage.promptTokens,
+            outputTokens: result.usage.completionTokens,
+          };
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to summarize the conversation.');
+          return;
+        }
+      }
+
       const result = branchFromMessage({
         sourceCardId: parentCardId,
         messageIndex,
+        inheritanceMode: mode,
+        lastN,
+        selectedMessageIds: [...selection],
+        summary,
       });
 
       if (result) {
+        if (summaryUsage && (summaryUsage.inputTokens > 0 || summaryUsage.outputTokens > 0)) {
+          useUsageStore.getState().addUsage({
+            provider: detectProvider(summaryUsage.model),
+            model: summaryUsage.model,
+            inputTokens: summaryUsage.inputTokens,
+            outputTokens: summaryUsage.outputTokens,
+            conversationId: result.id,
+            source: 'summarize',
+          });
+        }
         openChatPanel(result.id);
         requestFocusNode(result.id);
         onComplete?.();
@@ -80,7 +153,10 @@ export function InlineBranchPanel({
     } finally {
       setIsCreating(false);
     }
-  }, [branchFromMessage, openChatPanel, requestFocusNode, parentCardId, messageIndex, onClose, onComplete]);
+  }, [
+    branchFromMessage, openChatPanel, requestFocusNode, parentCardId, messageIndex, onClose, onComplete,
+    mode, lastN, selection, candidates, parent, lastUsedModel,
+  ]);
 
   return (
     <AnimatePresence>
@@ -90,7 +166,7 @@ export function InlineBranchPanel({
         exit={{ opacity: 0, scale: 0.95, y: -10 }}
         transition={{ duration: 0.15, ease: 'easeOut' }}
         className={`
-          absolute z-50 w-72 bg-bg-secondary rounded-lg border border-border-default
+          absolute z-50 ${mode === 'custom' ? 'w-96' : 'w-72'} bg-bg-secondary rounded-lg border border-border-default
           shadow-xl shadow-black/50
           ${position === 'right' ? 'left-full ml-2' : 'right-full mr-2'}
         `}
@@ -110,19 +186,77 @@ export function InlineBranchPanel({
           </button>
         </div>
 
+        {/* Inheritance Mode */}
+        <div className="px-3 py-2 flex flex-col gap-2" role="radiogroup" aria-label="Context to inherit">
+          <div className="grid grid-cols-2 gap-1">
+            {(Object.keys(INHERITANCE_MODE_LABELS) as InheritanceMode[]).map((option) => (
+              <button
+                key={option}
+                role="radio"
+                aria-checked={mode === option}
+                onClick={() => {
+                  setMode(option);
+                  setError(null);
+                }}
+                disabled={isCreating}
+                className={`px-2 py-1 text-xs rounded-md border transition-colors disabled:opacity-50 ${
+                  mode === option
+                    ? 'border-accent-primary bg-accent-muted text-fg-primary'
+                    : 'border-border-default text-fg-secondary hover:bg-bg-tertiary'
+                }`}
+              >
+                {INHERITANCE_MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'last-n' && (
+            <label className="flex items-center justify-between text-xs text-fg-secondary">
+              <span>Messages to keep</span>
+              <input
+                type="number"
+                min={1}
+                max={Math.max(1, candidates.length)}
+                value={lastN}
+                onChange={(e) => setLastN(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                className="w-16 px-2 py-1 text-xs rounded-md bg-bg-inset border border-border-default text-fg-primary"
+              />
+            </label>
+          )}
+
+          {mode === 'custom' && (
+            <div className="max-h-72 overflow-y-auto">
+              <MessageSelector
+                messages={candidates}
+                selectedIds={selection}
+                onSelectionChange={setSelectedIds}
+              />
+            </div>
+          )}
+        </div>
+
         {/* Context Info */}
         <div className="px-3 py-2 bg-bg-tertiary text-xs text-fg-tertiary">
           <div className="flex justify-between">
-            <span>Messages to inherit:</span>
-            <span className="text-fg-secondary">{contextMessageCount} of {totalMessages}</span>
+            <span>{mode === 'summary' ? 'Messages to summarize:' : 'Messages to inherit:'}</span>
+            <span className="text-fg-secondary">
+              {contextMessageCount} of {candidates.length}
+            </span>
           </div>
           <div className="flex justify-between mt-1">
             <span>Estimated tokens:</span>
-            <span className="text-fg-secondary">~{estimatedTokens}</span>
+            <span className="text-fg-secondary">
+              {mode === 'summary' ? `~${estimatedTokens} → summary` : `~${estimatedTokens}`}
+            </span>
           </div>
           <div className="flex items-center gap-1.5 mt-1 text-fg-secondary">
             <FileText className="w-3 h-3" />
-            <span>Full context inheritance</span>
+            <span>
+              {mode === 'full' && `Full context inheritance (first ${messageIndex + 1} of ${totalMessages} messages)`}
+              {mode === 'last-n' && 'Only the most recent messages are inherited'}
+              {mode === 'custom' && 'Only the selected messages are inherited'}
+              {mode === 'summary' && 'Inherits an AI summary instead of the messages'}
+            </span>
           </div>
         </div>
 
@@ -145,7 +279,7 @@ export function InlineBranchPanel({
           </button>
           <button
             onClick={handleCreateBranch}
-            disabled={isCreating}
+            disabled={!canCreate}
             className="flex-1 px-3 py-2 text-sm font-medium text-accent-contrast bg-accent-primary hover:brightness-110 rounded-md transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
           >
             {isCreating ? (
@@ -155,7 +289,7 @@ export function InlineBranchPanel({
                   transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
                   className="w-4 h-4 border-2 border-accent-contrast/30 border-t-accent-contrast rounded-full"
                 />
-                Creating...
+                {mode === 'summary' ? 'Summarizing...' : 'Creating...'}
               </>
             ) : (
               <>
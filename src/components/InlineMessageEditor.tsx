@@ -5,7 +5,9 @@ import { Check, X, Paperclip, Trash2 } from 'lucide-react';
 import { nanoid } from 'nanoid';
 
 import { colors, spacing, typography, effects } from '@/lib/design-tokens';
+import { storeAttachment } from '@/lib/attachment-store';
 import type { MessageAttachment } from '@/types';
+import { AttachmentImage } from './AttachmentImage';
 
 interface InlineMessageEditorProps {
   initialContent: string;
@@ -83,12 +85,12 @@ export function InlineMessageEditor({
         reader.readAsDataURL(file);
       });
 
-      newAttachments.push({
+      newAttachments.push(await storeAttachment({
         id: nanoid(),
         contentType: file.type,
         name: file.name,
         url: dataUrl,
-      });
+      }));
     }
 
     setAttachments([...attachments, ...newAttachments]);
@@ -110,10 +112,8 @@ export function InlineMessageEditor({
         <div style={styles.attachmentsContainer}>
           {attachments.map(attachment => (
             <div key={attachment.id} style={styles.attachmentPreview}>
-              {/* eslint-disable-next-line @next/next/no-img-element -- base64 data URLs not supported by next/image */}
-              <img 
-                src={attachment.url} 
-                alt={attachment.name}
+              <AttachmentImage
+                attachment={attachment}
                 style={styles.attachmentImage}
               />
               <button
@@ -1,13 +1,17 @@
 'use client';
 
-import React, { useRef, useEffect, useCallback, useState } from 'react';
-import { Send, Square, AlertCircle, Settings, Paperclip, X, FileText } from 'lucide-react';
+import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react';
+import { Send, Square, AlertCircle, Settings, Paperclip, X, FileText, GitFork } from 'lucide-react';
 
 import { colors, typography, spacing, effects } from '@/lib/design-tokens';
 import { useCanvasStore } from '@/stores/canvas-store';
 import { useOnboardingStore } from '@/stores/onboarding-store';
 import { useDemoRecordStore } from '@/stores/demo-record-store';
+import { storeAttachment } from '@/lib/attachment-store';
+import { apiKeyManager, useAPIKeyStatus } from '@/lib/api-key-manager';
+import { getAvailableModels } from '@/lib/vercel-ai-integration';
 import { ModelSelector } from './ModelSelector';
+import { FanOutModelPicker } from './FanOutModelPicker';
 import type { MessageAttachment } from '@/types';
 
 // =============================================================================
@@ -53,6 +57,10 @@ interface MessageInputProps {
   maxTextareaHeight?: number;
   /** Whether chat panel is maximized (fullscreen) */
   isMaximized?: boolean;
+  /** Fan-out handler — sends the message to each model as a sibling branch */
+  onFanOutSubmit?: (text: string, attachments: MessageAttachment[] | undefined, models: string[]) => void;
+  /** Whether the card has a message to branch from (fan-out is disabled otherwise) */
+  canFanOut?: boolean;
 }
 
 // Attachment support constants
@@ -114,10 +122,45 @@ export function MessageInput({
   onModelChange,
   maxTextareaHeight,
   isMaximized = false,
+  onFanOutSubmit,
+  canFanOut = false,
 }: MessageInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [attachmentError, setAttachmentError] = useState<string | null>(null);
+
+  // Fan-out mode: null = off, otherwise the models that each get a sibling branch
+  const [fanOutSelection, setFanOutSelection] = useState<string[] | null>(null);
+  const { status: keyStatus } = useAPIKeyStatus();
+  const fanOutModels = useMemo(() => getAvailableModels({
+    anthropic: !!keyStatus.providers.anthropic.key,
+    openai: !!keyStatus.providers.openai.key,
+    google: !!keyStatus.providers.google.key,
+    custom: apiKeyManager.getCustomProvider()?.models,
+  }), [keyStatus]);
+  const isFanOutAvailable = !!onFanOutSubmit && fanOutModels.length > 1;
+  const isFanOutActive = isFanOutAvailable && canFanOut && fanOutSelection !== null;
+
+  // Leave fan-out mode when switching cards
+  useEffect(() => {
+    setFanOutSelection(null);
+  }, [conversationId]);
+
+  const handleToggleFanOut = useCallback(() => {
+    setFanOutSelection((prev) => {
+      if (prev !== null) return null;
+      return currentModel && fanOutModels.some((m) => m.id === currentModel) ? [currentModel] : [];
+    });
+  }, [currentModel, fanOutModels]);
+
+  const handleToggleFanOutModel = useCallback((modelId: string) => {
+    setFanOutSelection((prev) => {
+      const selection = prev ?? [];
+      return selection.includes(modelId)
+        ? selection.filter((id) => id !== modelId)
+        : [...selection, modelId];
+    });
+  }, []);
   
   // Store actions - fallback for when not using useChat
   const sendMessage = useCanvasStore((s) => s.sendMessage);
@@ -365,6 +408,7 @@ export function MessageInput({
     );
 
     Promise.all(readers)
+      .then(results => Promise.all(results.map(storeAttachment)))
       .then(results => onAttachmentsChange?.([...attachments, ...results]))
       .catch(err => {
         console.error('[MessageInput] Failed to read file:', err);
@@ -421,7 +465,13 @@ export function MessageInput({
     // Use text content or a placeholder for image-only messages
     const messageContent = inputValue.trim() || (attachments.length > 0 ? '[Image]' : '');
 
-    if (onSubmit) {
+    if (isFanOutActive && onFanOutSubmit && fanOutSelection) {
+      if (fanOutSelection.length < 2) return;
+      onFanOutSubmit(messageContent, attachments.length > 0 ? attachments : undefined, fanOutSelection);
+      setDraftMessage(conversationId, '');
+      onAttachmentsChange?.([]);
+      setFanOutSelection(null);
+    } else if (onSubmit) {
       // Let parent (ChatPanel) orchestrate: persist to store + trigger AI request
       // in a single code path to eliminate timing races between dual state systems
       onSubmit(messageContent, attachments.length > 0 ? attachments : undefined);
@@ -441,7 +491,7 @@ export function MessageInput({
     if (!isTouchDevice) {
       textareaRef.current?.focus();
     }
-  }, [inputValue, isStreaming, hasApiKey, onSubmit, sendMessage, conversationId, setDraftMessage, attachments, onAttachmentsChange]);
+  }, [inputValue, isStreaming, hasApiKey, onSubmit, sendMessage, conversationId, setDraftMessage, attachments, onAttachmentsChange, isFanOutActive, onFanOutSubmit, fanOutSelection]);
 
   // Keep handleSendRef in sync for auto-typing callback
   useEffect(() => {
@@ -457,7 +507,8 @@ export function MessageInput({
   }, [handleSend]);
 
   // Determine button state — allow sending without a key so handleSend can open the key modal
-  const canSend = (inputValue.trim() || attachments.length > 0) && !isStreaming;
+  const canSend = (inputValue.trim() || attachments.length > 0) && !isStreaming
+    && (!isFanOutActive || (fanOutSelection?.length ?? 0) > 1);
 
   return (
     <div style={inputStyles.container} data-testid="message-input">
@@ -558,6 +609,13 @@ export function MessageInput({
 
       <form onSubmit={handleSend} style={inputStyles.inputWrapper}>
         <div style={inputStyles.inputSurface}>
+          {isFanOutActive && (
+            <FanOutModelPicker
+              models={fanOutModels}
+              selected={fanOutSelection ?? []}
+              onToggle={handleToggleFanOutModel}
+            />
+          )}
           <textarea
             ref={textareaRef}
             rows={1}
@@ -565,7 +623,7 @@ export function MessageInput({
             onChange={handleChange}
             onKeyDown={handleKeyDown}
             onPaste={handlePaste}
-            placeholder={hasApiKey ? "Type a message..." : isTrialExhausted ? "Add your API key to keep chatting..." : "Type a message and add an API key to send..."}
+            placeholder={isFanOutActive ? "Type a message to compare models..." : hasApiKey ? "Type a message..." : isTrialExhausted ? "Add your API key to keep chatting..." : "Type a message and add an API key to send..."}
             className="chat-textarea"
             style={{
               ...inputStyles.textarea,
@@ -596,8 +654,28 @@ export function MessageInput({
                 </button>
               )}
 
+              {/* Fan-out toggle */}
+              {isFanOutAvailable && (
+                <button
+                  type="button"
+                  onClick={handleToggleFanOut}
+                  disabled={isStreaming || !canFanOut}
+                  style={{
+                    ...inputStyles.attachButton,
+                    color: isFanOutActive ? colors.accent.primary : colors.fg.tertiary,
+                    opacity: canFanOut ? 1 : 0.4,
+                    cursor: canFanOut ? 'pointer' : 'not-allowed',
+                  }}
+                  title={canFanOut ? 'Send to several models as sibling branches' : 'Send a first message before comparing models'}
+                  aria-label="Send to several models"
+                  aria-pressed={isFanOutActive}
+                >
+                  <GitFork size={14} />
+                </button>
+              )}
+
               {/* Model selector */}
-              {onModelChange && (
+              {onModelChange && !isFanOutActive && (
                 <div style={inputStyles.modelSelectorWrapper}>
                   <ModelSelector
                     currentModel={currentModel ?? null}
@@ -2,19 +2,25 @@
 
 import React, { useMemo, useRef, useEffect, useState, useCallback, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GitBranch, Globe, Loader, Image as ImageIcon, Copy, Edit2, ArrowRight, ChevronDown, FileText, RefreshCcw, Link2 } from 'lucide-react';
+import { Archive, ArrowRightLeft, Brain, GitBranch, GitBranchPlus, Globe, Loader, Image as ImageIcon, Copy, Edit2, ArrowRight, ChevronDown, ChevronLeft, ChevronRight, FileText, RefreshCcw, Link2 } from 'lucide-react';
 import { SimpleChatMarkdown } from './SimpleChatMarkdown';
 import type { UIMessage } from 'ai';
 
 import { colors, typography, spacing, effects } from '@/lib/design-tokens';
 import { getTextStyles } from '@/lib/language-utils';
+import { INHERITANCE_MODE_LABELS } from '@/lib/context-utils';
+import { getMessageReasoning } from '@/lib/ui-message-utils';
+import { getCurrentCompaction } from '@/lib/context-compaction';
+import { getModelById } from '@/lib/vercel-ai-integration';
 import { useCanvasStore } from '@/stores/canvas-store';
 import { useOnboardingStore } from '@/stores/onboarding-store';
 import { useToast } from '@/stores/toast-store';
-import type { Conversation, InheritedContextEntry, Message, MessageAttachment } from '@/types';
+import type { CompactionCheckpoint, Conversation, InheritedContextEntry, Message, MessageAttachment, MessageMetadata } from '@/types';
 import { InlineMessageEditor } from './InlineMessageEditor';
+import { AttachmentImage } from './AttachmentImage';
 import { useBranchSuggestionStore } from '@/stores/branch-suggestion-store';
 import { BranchSuggestionCard } from './BranchSuggestionCard';
+import { StaleContextBanner } from './StaleContextBanner';
 
 /** Extract text content from a UIMessage (v6 uses parts instead of content) */
 function getStreamingMessageText(message: UIMessage): string {
@@ -80,6 +86,11 @@ const InheritedFromBanner = memo(function InheritedFromBanner({
           <ArrowRight size={14} style={inheritedBannerStyles.icon} />
           <span style={inheritedBannerStyles.label}>Inherited from</span>
           <span style={inheritedBannerStyles.title}>{parent.metadata.title}</span>
+          {inheritedContext[parent.id] && inheritedContext[parent.id].mode !== 'full' && (
+            <span style={inheritedBannerStyles.label}>
+              · {INHERITANCE_MODE_LABELS[inheritedContext[parent.id].mode]}
+            </span>
+          )}
         </button>
       ))}
     </div>
@@ -241,16 +252,20 @@ export function MessageThread({
         }
 
         // Graft the in-flight assistant message onto the persisted messages
+        const streamingMeta = lastStreaming.metadata as MessageMetadata | undefined;
         return [
           ...conversation.content,
           {
             id: lastStreaming.id ?? `streaming-${conversation.id}`,
             role: 'assistant' as const,
             content: getStreamingMessageText(lastStreaming),
+            reasoning: getMessageReasoning(lastStreaming) || undefined,
             timestamp: new Date(),
             metadata: {
               isStreaming: true,
               ...(streamingWebSearch !== 'none' ? { streamingWebSearch } : {}),
+              // Sent by /api/chat at stream start when a fallback model answers
+              ...(streamingMeta?.fallback ? { model: streamingMeta.model, fallback: streamingMeta.fallback } : {}),
             },
           },
         ];
@@ -279,6 +294,8 @@ export function MessageThread({
   
   // Branch actions
   const branchFromMessage = useCanvasStore((s) => s.branchFromMessage);
+  const setActiveVariant = useCanvasStore((s) => s.setActiveVariant);
+  const promoteVariantToBranch = useCanvasStore((s) => s.promoteVariantToBranch);
   const openChatPanel = useCanvasStore((s) => s.openChatPanel);
   const requestFocusNode = useCanvasStore((s) => s.requestFocusNode);
 
@@ -388,6 +405,20 @@ export function MessageThread({
     }
   }, [conversation.id, branchFromMessage, openChatPanel, requestFocusNode]);
 
+  // Switch the response variant shown (and used as context) for a message
+  const handleVariantChange = useCallback((messageIndex: number, variantIndex: number) => {
+    setActiveVariant(conversation.id, messageIndex, variantIndex);
+  }, [conversation.id, setActiveVariant]);
+
+  // Open a response variant in its own branch card
+  const handlePromoteVariant = useCallback((messageIndex: number, variantIndex: number) => {
+    const newConversation = promoteVariantToBranch(conversation.id, messageIndex, variantIndex);
+    if (newConversation) {
+      openChatPanel(newConversation.id);
+      requestFocusNode(newConversation.id);
+    }
+  }, [conversation.id, promoteVariantToBranch, openChatPanel, requestFocusNode]);
+
   // Handle retry from specific message
   const handleRetryClick = useCallback((messageIndex: number, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -413,6 +444,15 @@ export function MessageThread({
     setHoveredMessageIndex(null);
   }, []);
 
+  // Covered messages stay visible; a divider after them marks where the
+  // model's view switches from the compaction summary to the raw messages
+  const compaction = useMemo(() => getCurrentCompaction(conversation), [conversation]);
+  const compactionDividerIndex = useMemo(() => (
+    compaction
+      ? displayMessages.findIndex((message, index) => index >= compaction.messageCount && message?.role !== 'system')
+      : -1
+  ), [compaction, displayMessages]);
+
   return (
     <div ref={scrollContainerRef} style={threadStyles.container} onScroll={handleScroll}>
       <div style={isMaximized ? threadStyles.maximizedContent : threadStyles.normalContent}>
@@ -423,6 +463,14 @@ export function MessageThread({
             inheritedContext={conversation.inheritedContext}
           />
         )}
+        {conversation.parentCardIds.length > 0 && <StaleContextBanner conversation={conversation} />}
+        {conversation.parentCardIds.length === 0 && !!conversation.detachedContext?.length && (
+          <div style={{ ...inheritedBannerStyles.container, fontSize: typography.sizes.sm, fontFamily: typography.fonts.body }}>
+            <span style={inheritedBannerStyles.label}>
+              Detached branch · keeps {conversation.detachedContext.length} inherited {conversation.detachedContext.length === 1 ? 'message' : 'messages'}
+            </span>
+          </div>
+        )}
         
         <AnimatePresence mode="sync">
         {displayMessages
@@ -432,10 +480,14 @@ export function MessageThread({
             typeof item.message.id === 'string' && 
             item.message.role !== 'system'
           )
-          .map(({ message, originalIndex }) => {
+          .flatMap(({ message, originalIndex }) => {
+            const divider = compaction && originalIndex === compactionDividerIndex
+              ? [<CompactionDivider key={`compaction-${compaction.throughMessageId ?? 'start'}`} checkpoint={compaction} />]
+              : [];
+
             // If this message is being edited, show the inline editor
             if (editingMessageIndex === originalIndex && message.role === 'user' && onEditClick) {
-              return (
+              return [...divider, (
                 <div key={`editing-${message.id}`} style={{ padding: `${spacing[2]} ${spacing[3]}` }}>
                   <InlineMessageEditor
                     initialContent={message.content}
@@ -448,10 +500,10 @@ export function MessageThread({
                     }}
                   />
                 </div>
-              );
+              )];
             }
 
-            return (
+            return [...divider, (
               <MessageBubble
                 key={message.id}
                 message={message}
@@ -464,9 +516,11 @@ export function MessageThread({
                 onBranchClick={handleBranchClick}
                 onRetryClick={handleRetryClick}
                 onEditClick={handleEditClickLocal}
+                onVariantChange={handleVariantChange}
+                onPromoteVariant={handlePromoteVariant}
                 mutationActionsEnabled={canMutateFromActions}
               />
-            );
+            )];
           })}
       </AnimatePresence>
 
@@ -516,6 +570,8 @@ interface MessageBubbleProps {
   onBranchClick: (index: number, e: React.MouseEvent) => void;
   onRetryClick: (index: number, e: React.MouseEvent) => void;
   onEditClick: (index: number, e: React.MouseEvent) => void;
+  onVariantChange: (index: number, variantIndex: number) => void;
+  onPromoteVariant: (index: number, variantIndex: number) => void;
   mutationActionsEnabled?: boolean;
 }
 
@@ -530,6 +586,8 @@ const MessageBubble = memo(function MessageBubble({
   onBranchClick,
   onRetryClick,
   onEditClick,
+  onVariantChange,
+  onPromoteVariant,
   mutationActionsEnabled = true,
 }: MessageBubbleProps) {
   const isUser = message.role === 'user';
@@ -641,6 +699,14 @@ const MessageBubble = memo(function MessageBubble({
     onRetryClick(index, e);
   }, [onRetryClick, index]);
 
+  const handleVariantChangeLocal = useCallback((variantIndex: number) => {
+    onVariantChange(index, variantIndex);
+  }, [onVariantChange, index]);
+
+  const handlePromoteVariantLocal = useCallback((variantIndex: number) => {
+    onPromoteVariant(index, variantIndex);
+  }, [onPromoteVariant, index]);
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -663,12 +729,30 @@ const MessageBubble = memo(function MessageBubble({
         }}
       >
 
+        {!isUser && message.metadata?.fallback && (
+          <div style={bubbleStyles.fallbackNotice}>
+            <ArrowRightLeft size={12} style={{ flexShrink: 0 }} />
+            <span>
+              Answered by {getModelName(message.metadata.model)} —{' '}
+              {getModelName(message.metadata.fallback.requestedModel)}{' '}
+              {message.metadata.fallback.reason === 'rate_limited' ? 'was rate-limited' : 'was unavailable'}
+            </span>
+          </div>
+        )}
+
         {!isUser && webSearchData.used && (
           <div style={bubbleStyles.webSearchBadgeRow}>
             <span style={bubbleStyles.webSearchBadge}>Web search</span>
           </div>
         )}
 
+        {!isUser && !isSystem && message.reasoning && (
+          <ThinkingSection
+            reasoning={message.reasoning}
+            isThinking={isStreamingMessage && !message.content}
+          />
+        )}
+
         {/* Message content */}
         <div
           style={{
@@ -771,12 +855,10 @@ const MessageBubble = memo(function MessageBubble({
                 // Image attachment
                 return (
                   <div key={att.id} style={bubbleStyles.attachmentContainer}>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={att.url}
-                      alt={att.name}
+                    <AttachmentImage
+                      attachment={att}
                       style={bubbleStyles.attachmentImage}
-                      onClick={() => window.open(att.url, '_blank')}
+                      onOpen={(url) => window.open(url, '_blank')}
                     />
                     <span style={bubbleStyles.attachmentLabel}>
                       <ImageIcon size={10} style={{ flexShrink: 0 }} />
@@ -836,12 +918,181 @@ const MessageBubble = memo(function MessageBubble({
               mutationActionsEnabled={mutationActionsEnabled}
             />
           </div>
+
+          {!isUser && message.variants && message.variants.length > 1 && (
+            <VariantNavigator
+              activeIndex={message.activeVariantIndex ?? message.variants.length - 1}
+              count={message.variants.length}
+              onChange={handleVariantChangeLocal}
+              onPromote={handlePromoteVariantLocal}
+              mutationActionsEnabled={mutationActionsEnabled}
+            />
+          )}
         </div>
       )}
     </motion.div>
   );
 });
 
+/** Display name of a model, falling back to its ID */
+function getModelName(modelId: string | undefined): string {
+  if (!modelId) return 'another model';
+  return getModelById(modelId)?.name ?? modelId;
+}
+
+// =============================================================================
+// THINKING SECTION COMPONENT
+// =============================================================================
+
+interface ThinkingSectionProps {
+  reasoning: string;
+  /** Reasoning is still streaming and no answer text has arrived yet */
+  isThinking?: boolean;
+}
+
+/**
+ * Collapsible reasoning / extended-thinking text above an assistant answer.
+ * Collapsed by default; it is not part of the answer or its copied text.
+ */
+const ThinkingSection = memo(function ThinkingSection({ reasoning, isThinking = false }: ThinkingSectionProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div style={bubbleStyles.thinking}>
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        style={bubbleStyles.thinkingToggle}
+        aria-expanded={expanded}
+      >
+        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Brain size={13} className={isThinking ? 'animate-pulse' : undefined} style={{ flexShrink: 0 }} />
+        <span>{isThinking ? 'Thinking…' : 'Thinking'}</span>
+      </button>
+      {expanded && (
+        <div style={bubbleStyles.thinkingContent}>
+          <SimpleChatMarkdown content={reasoning} />
+        </div>
+      )}
+    </div>
+  );
+});
+
+// =============================================================================
+// COMPACTION DIVIDER COMPONENT
+// =============================================================================
+
+interface CompactionDividerProps {
+  checkpoint: CompactionCheckpoint;
+}
+
+/**
+ * Marks the end of the messages a compaction checkpoint covers. Messages
+ * above it are sent to the model as the summary, which expands below.
+ */
+const CompactionDivider = memo(function CompactionDivider({ checkpoint }: CompactionDividerProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div style={threadStyles.compaction}>
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        style={threadStyles.compactionToggle}
+        aria-expanded={expanded}
+        title="The model sees a summary of the messages above instead of the messages themselves"
+      >
+        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Archive size={13} style={{ flexShrink: 0 }} />
+        <span>
+          Earlier context summarized for the model · {checkpoint.messageCount} {checkpoint.messageCount === 1 ? 'message' : 'messages'}
+        </span>
+      </button>
+      {expanded && (
+        <div style={threadStyles.compactionContent}>
+          <SimpleChatMarkdown content={checkpoint.summary} />
+        </div>
+      )}
+    </div>
+  );
+});
+
+// =============================================================================
+// VARIANT NAVIGATOR COMPONENT
+// =============================================================================
+
+interface VariantNavigatorProps {
+  activeIndex: number;
+  count: number;
+  onChange: (variantIndex: number) => void;
+  onPromote: (variantIndex: number) => void;
+  mutationActionsEnabled?: boolean;
+}
+
+/**
+ * ◀ n/N ▶ switcher for regenerated responses. The active variant is the one
+ * later messages and branches see as context.
+ */
+const VariantNavigator = memo(function VariantNavigator({
+  activeIndex,
+  count,
+  onChange,
+  onPromote,
+  mutationActionsEnabled = true,
+}: VariantNavigatorProps) {
+  const canPrevious = mutationActionsEnabled && activeIndex > 0;
+  const canNext = mutationActionsEnabled && activeIndex < count - 1;
+
+  return (
+    <div style={actionButtonGroupStyles.container} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => onChange(activeIndex - 1)}
+        disabled={!canPrevious}
+        style={{
+          ...actionButtonGroupStyles.button,
+          color: colors.fg.tertiary,
+          opacity: canPrevious ? 1 : 0.4,
+          cursor: canPrevious ? 'pointer' : 'default',
+        }}
+        title="Previous response"
+        aria-label="Previous response"
+      >
+        <ChevronLeft size={12} />
+      </button>
+      <span style={bubbleStyles.timestamp} aria-live="polite">
+        {activeIndex + 1}/{count}
+      </span>
+      <button
+        onClick={() => onChange(activeIndex + 1)}
+        disabled={!canNext}
+        style={{
+          ...actionButtonGroupStyles.button,
+          color: colors.fg.tertiary,
+          opacity: canNext ? 1 : 0.4,
+          cursor: canNext ? 'pointer' : 'default',
+        }}
+        title="Next response"
+        aria-label="Next response"
+      >
+        <ChevronRight size={12} />
+      </button>
+      {mutationActionsEnabled && (
+        <button
+          onClick={() => onPromote(activeIndex)}
+          style={{
+            ...actionButtonGroupStyles.button,
+            color: colors.accent.primary,
+          }}
+          title="Open this response in a new branch"
+          aria-label="Open this response in a new branch"
+        >
+          <GitBranchPlus size={12} />
+        </button>
+      )}
+    </div>
+  );
+});
+
 // =============================================================================
 // MESSAGE ACTION BUTTONS COMPONENT
 // =============================================================================
@@ -1005,6 +1256,35 @@ const threadStyles: Record<string, React.CSSProperties> = {
     fontSize: typography.sizes.xs,
     color: colors.fg.tertiary,
   },
+
+  compaction: {
+    margin: `${spacing[3]} 0`,
+    padding: `${spacing[2]} 0`,
+    borderTop: `1px dashed ${colors.border.muted}`,
+    borderBottom: `1px dashed ${colors.border.muted}`,
+  },
+
+  compactionToggle: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: spacing[1],
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+    color: colors.fg.tertiary,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    userSelect: 'none',
+  },
+
+  compactionContent: {
+    marginTop: spacing[2],
+    paddingLeft: spacing[3],
+    borderLeft: `2px solid ${colors.border.muted}`,
+    color: colors.fg.secondary,
+    fontSize: typography.sizes.sm,
+  },
 };
 
 const bubbleStyles: Record<string, React.CSSProperties> = {
@@ -1216,6 +1496,42 @@ const bubbleStyles: Record<string, React.CSSProperties> = {
     color: colors.accent.primary,
   },
 
+  thinking: {
+    marginBottom: spacing[2],
+  },
+
+  fallbackNotice: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: spacing[1],
+    marginBottom: spacing[1],
+    fontSize: typography.sizes.xs,
+    color: colors.fg.tertiary,
+    fontFamily: typography.fonts.body,
+  },
+
+  thinkingToggle: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: spacing[1],
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+    color: colors.fg.tertiary,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    userSelect: 'none',
+  },
+
+  thinkingContent: {
+    marginTop: spacing[1],
+    paddingLeft: spacing[3],
+    borderLeft: `2px solid ${colors.border.muted}`,
+    color: colors.fg.secondary,
+    fontSize: typography.sizes.sm,
+  },
+
   searchingIndicator: {
     display: 'inline-flex',
     alignItems: 'center',
@@ -9,6 +9,7 @@ import { apiKeyManager } from '@/lib/api-key-manager';
 import { useTrialStore, selectIsTrialActive } from '@/stores/trial-store';
 import { 
   AVAILABLE_MODELS, 
+  createCustomModelDefinition,
   getModelById,
   getCostTierInfo,
   type ModelDefinition,
@@ -52,7 +53,18 @@ export function ModelSelector({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen]);
 
-  const hasAnyKey = hasAnthropicKey || hasOpenaiKey;
+  const hasGoogleKey = useMemo(() => {
+    return !!apiKeyManager.getKey('google');
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  // Models on the user's OpenAI-compatible endpoint
+  const customModels = useMemo(() => {
+    return (apiKeyManager.getCustomProvider()?.models ?? []).map(createCustomModelDefinition);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const hasAnyKey = hasAnthropicKey || hasOpenaiKey || hasGoogleKey || customModels.length > 0;
 
   // Get current model info
   const currentModelInfo = useMemo(() => {
@@ -198,6 +210,38 @@ export function ModelSelector({
                   </>
                 )}
 
+                {/* Google Gemini Models */}
+                {(hasGoogleKey || (!hasAnyKey && hasApiKey)) && (
+                  <>
+                    {(hasAnthropicKey || hasOpenaiKey || (!hasAnyKey && hasApiKey)) && <div style={styles.divider} />}
+                    {AVAILABLE_MODELS
+                      .filter(m => m.provider === 'google')
+                      .map(model => (
+                        <ModelOption
+                          key={model.id}
+                          model={model}
+                          isSelected={model.id === currentModel}
+                          onSelect={handleSelect}
+                        />
+                      ))}
+                  </>
+                )}
+
+                {/* Custom endpoint models */}
+                {customModels.length > 0 && (
+                  <>
+                    {(hasAnthropicKey || hasOpenaiKey || hasGoogleKey) && <div style={styles.divider} />}
+                    {customModels.map(model => (
+                      <ModelOption
+                        key={model.id}
+                        model={model}
+                        isSelected={model.id === currentModel}
+                        onSelect={handleSelect}
+                      />
+                    ))}
+                  </>
+                )}
+
                 {/* No key configured */}
                 {!hasAnyKey && !hasApiKey && (
                   <div style={styles.noKeys}>
@@ -2,17 +2,19 @@
  * MultiSelectFloatingBar
  *
  * Floating action bar that appears when 2+ conversation cards are selected.
- * Provides a "Merge" button that creates a merge node from the selected cards.
+ * Provides a "Merge" button that asks for a synthesis strategy (see
+ * HierarchicalMergeDialog) and creates a merge node from the selected cards,
+ * and a "Compare" button that opens them side by side.
  *
  * Positioned at the midpoint above the selected nodes on the canvas.
  */
 
 'use client';
 
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GitMerge } from 'lucide-react';
+import { Columns2, GitMerge } from 'lucide-react';
 import { useReactFlow } from '@xyflow/react';
 import { analytics } from '@/lib/analytics';
 import { useCanvasStore } from '@/stores/canvas-store';
@@ -20,6 +22,7 @@ import { useOnboardingStore } from '@/stores/onboarding-store';
 import { colors, typography, effects } from '@/lib/design-tokens';
 import { zIndex } from '@/constants/zIndex';
 import { canMergeSelectedCards } from '@/lib/onboarding-guards';
+import { BranchComparisonDialog } from './BranchComparisonDialog';
 
 // =============================================================================
 // CONSTANTS
@@ -41,6 +44,7 @@ export function MultiSelectFloatingBar() {
   const openChatPanel = useCanvasStore((s) => s.openChatPanel);
   const requestFocusNode = useCanvasStore((s) => s.requestFocusNode);
   const setDraftMessage = useCanvasStore((s) => s.setDraftMessage);
+  const openHierarchicalMergeDialog = useCanvasStore((s) => s.openHierarchicalMergeDialog);
   const reactFlow = useReactFlow();
   const onboardingActive = useOnboardingStore((s) => s.active);
   const onboardingStep = useOnboardingStore((s) => s.step);
@@ -48,6 +52,8 @@ export function MultiSelectFloatingBar() {
   const onboardingBranch1CardId = useOnboardingStore((s) => s.branch1CardId);
   const onboardingBranch2CardId = useOnboardingStore((s) => s.branch2CardId);
 
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+
   const selectedIds = useMemo(() => Array.from(selectedNodeIds), [selectedNodeIds]);
 
   // Calculate screen-space midpoint of selected nodes
@@ -100,6 +106,12 @@ export function MultiSelectFloatingBar() {
 
     const mergePosition = { x: maxX + MERGE_CARD_OFFSET_X, y: avgY };
 
+    // Outside the guided tour, pick a synthesis strategy first
+    if (!onboardingActive) {
+      openHierarchicalMergeDialog({ sourceCardIds: selectedIds, position: mergePosition });
+      return;
+    }
+
     const mergeNode = createMergeNode({
       sourceCardIds: selectedIds,
       position: mergePosition,
@@ -128,6 +140,7 @@ export function MultiSelectFloatingBar() {
     nodes,
     conversations,
     createMergeNode,
+    openHierarchicalMergeDialog,
     openChatPanel,
     requestFocusNode,
     setDraftMessage,
@@ -138,6 +151,14 @@ export function MultiSelectFloatingBar() {
     onboardingBranch2CardId,
   ]);
 
+  // Snapshot the selection so the dialog stays put if the canvas selection changes
+  const handleCompare = useCallback(() => {
+    if (selectedIds.length < 2) return;
+    setCompareIds(selectedIds);
+  }, [selectedIds]);
+
+  const handleCloseCompare = useCallback(() => setCompareIds(null), []);
+
   const canMerge = canMergeSelectedCards({
     active: onboardingActive,
     step: onboardingStep,
@@ -169,6 +190,12 @@ export function MultiSelectFloatingBar() {
             <span style={styles.label}>
               {selectedIds.length} cards selected
             </span>
+            {!onboardingActive && (
+              <button onClick={handleCompare} style={styles.compareBtn}>
+                <Columns2 size={14} />
+                Compare
+              </button>
+            )}
             <button data-onboarding="merge-button" onClick={handleMerge} style={styles.mergeBtn}>
               <GitMerge size={14} />
               Merge
@@ -181,7 +208,15 @@ export function MultiSelectFloatingBar() {
 
   // Render into document.body to escape React Flow's CSS-transform stacking
   // context, which otherwise blocks pointer events on the fixed-position bar.
-  return typeof document !== 'undefined' ? createPortal(bar, document.body) : null;
+  return typeof document !== 'undefined'
+    ? createPortal(
+      <>
+        {bar}
+        <BranchComparisonDialog cardIds={compareIds} onClose={handleCloseCompare} />
+      </>,
+      document.body
+    )
+    : null;
 }
 
 // =============================================================================
@@ -206,6 +241,21 @@ const styles: Record<string, React.CSSProperties> = {
     color: colors.fg.secondary,
     fontWeight: typography.weights.medium,
   },
+  compareBtn: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 6,
+    padding: '6px 14px',
+    borderRadius: 10,
+    border: `1px solid ${colors.border.default}`,
+    backgroundColor: 'transparent',
+    color: colors.fg.primary,
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold,
+    fontFamily: typography.fonts.body,
+    cursor: 'pointer',
+    transition: 'background-color 0.15s ease',
+  },
   mergeBtn: {
     display: 'inline-flex',
     alignItems: 'center',
@@ -2,16 +2,27 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Settings, X, RotateCcw, Key, Eye, EyeOff, Trash2, CheckCircle, Monitor, Sun, Moon, MessageSquare, Bug, PlayCircle } from 'lucide-react';
+import { Settings, X, RotateCcw, ArrowRightLeft, Key, Eye, EyeOff, Trash2, CheckCircle, Monitor, Sun, Moon, MessageSquare, Bug, PlayCircle, HardDrive, Lock } from 'lucide-react';
 import { FeedbackModal } from './FeedbackModal';
 
-import { usePreferencesStore, selectUIPreferences, selectTheme } from '@/stores/preferences-store';
-import { apiKeyManager, type ProviderType, type StorageType } from '@/lib/api-key-manager';
+import { usePreferencesStore, selectUIPreferences, selectTheme, selectBranchingPreferences, selectRetryPreferences } from '@/stores/preferences-store';
+import { apiKeyManager, useAPIKeyStatus, type ProviderType, type StorageType } from '@/lib/api-key-manager';
 import { useTrialStore } from '@/stores/trial-store';
 import { STORAGE_KEYS, createBackupPayload, applyBackupPayload } from '@/lib/storage';
+import { estimateStorageUsage, type StorageEstimate } from '@/lib/indexeddb-storage';
+import { PERSISTED_HISTORY_LENGTH, clearUndoHistoryStorage } from '@/lib/canvas-history';
+import { getWorkspaceStorageInfo, type WorkspaceStorageInfo } from '@/stores/canvas-store';
+import { formatBytes } from '@/utils/formatters';
+import { downloadFile } from '@/utils/download';
 import { launchOnboardingInDemoWorkspace } from '@/lib/onboarding-demo-workspace';
 import { useToast } from '@/stores/toast-store';
 import { colors, spacing, effects, typography, animation } from '@/lib/design-tokens';
+import { INHERITANCE_MODE_LABELS } from '@/lib/context-utils';
+import { MAX_FALLBACK_MODELS, MAX_RETRIES } from '@/lib/model-fallback';
+import { AVAILABLE_MODELS, getModelById } from '@/lib/vercel-ai-integration';
+import type { InheritanceMode } from '@/types';
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 // =============================================================================
 // STYLES
@@ -128,6 +139,10 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
   const uiPrefs = usePreferencesStore(selectUIPreferences);
   const currentTheme = usePreferencesStore(selectTheme);
   const setUIPreferences = usePreferencesStore((s) => s.setUIPreferences);
+  const branchingPrefs = usePreferencesStore(selectBranchingPreferences);
+  const setBranchingPreferences = usePreferencesStore((s) => s.setBranchingPreferences);
+  const retryPrefs = usePreferencesStore(selectRetryPreferences);
+  const setRetryPreferences = usePreferencesStore((s) => s.setRetryPreferences);
   const setTheme = usePreferencesStore((s) => s.setTheme);
   const resetToDefaults = usePreferencesStore((s) => s.resetToDefaults);
   const loadPreferences = usePreferencesStore((s) => s.loadPreferences);
@@ -139,10 +154,24 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
   // API Keys state — separate keys for each provider
   const [anthropicKey, setAnthropicKey] = useState('');
   const [openaiKey, setOpenaiKey] = useState('');
+  const [googleKey, setGoogleKey] = useState('');
   const [showAnthropicKey, setShowAnthropicKey] = useState(false);
   const [showOpenaiKey, setShowOpenaiKey] = useState(false);
+  const [showGoogleKey, setShowGoogleKey] = useState(false);
   const [keysLoaded, setKeysLoaded] = useState(false);
   const [storagePreference, setStoragePreference] = useState<StorageType>('localStorage');
+  const { status: keyStatus } = useAPIKeyStatus();
+  const [showEncryptionForm, setShowEncryptionForm] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [customBaseURL, setCustomBaseURL] = useState('');
+  const [customKey, setCustomKey] = useState('');
+  const [customModels, setCustomModels] = useState('');
+
+  // Storage usage (refreshed each time the panel opens)
+  const [storageInfo, setStorageInfo] = useState<WorkspaceStorageInfo | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
 
   // Feedback modal state
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
@@ -162,10 +191,19 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
     if (!keysLoaded) {
       const savedAnthropicKey = apiKeyManager.getKey('anthropic');
       const savedOpenaiKey = apiKeyManager.getKey('openai');
+      const savedGoogleKey = apiKeyManager.getKey('google');
+      const savedCustomKey = apiKeyManager.getKey('custom');
+      const savedCustomProvider = apiKeyManager.getCustomProvider();
       const currentStoragePreference = apiKeyManager.getStoragePreference();
 
       if (savedAnthropicKey) setAnthropicKey(savedAnthropicKey);
       if (savedOpenaiKey) setOpenaiKey(savedOpenaiKey);
+      if (savedGoogleKey) setGoogleKey(savedGoogleKey);
+      if (savedCustomKey) setCustomKey(savedCustomKey);
+      if (savedCustomProvider) {
+        setCustomBaseURL(savedCustomProvider.baseURL);
+        setCustomModels(savedCustomProvider.models.join(', '));
+      }
 
       setStoragePreference(currentStoragePreference);
 
@@ -173,6 +211,25 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
     }
   }, [isOpen, keysLoaded]);
 
+  // Reload keys once encrypted keys are unlocked (or cleared) while open
+  useEffect(() => {
+    if (!keyStatus.isLocked) setKeysLoaded(false);
+  }, [keyStatus.isLocked]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    void estimateStorageUsage().then((estimate) => {
+      if (cancelled) return;
+      setStorageInfo(getWorkspaceStorageInfo());
+      setStorageEstimate(estimate);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
   // Handle escape key
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -222,29 +279,81 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
         setAnthropicKey('');
       } else if (provider === 'openai') {
         setOpenaiKey('');
+      } else if (provider === 'google') {
+        setGoogleKey('');
+      } else if (provider === 'custom') {
+        setCustomKey('');
       }
     }
   }, []);
 
+  const handleSaveCustomProvider = useCallback(() => {
+    if (!customBaseURL.trim()) return;
+
+    const validation = apiKeyManager.validateCustomBaseURL(customBaseURL);
+    if (!validation.valid) {
+      toast.error(validation.error ?? 'Invalid base URL');
+      return;
+    }
+    const models = customModels.split(/[\n,]/);
+    apiKeyManager.saveCustomProvider({ baseURL: customBaseURL, models });
+    if (models.some((model) => model.trim())) {
+      localStorage.setItem('projectloom:keys-configured', 'true');
+      useTrialStore.getState().dismiss();
+    }
+  }, [customBaseURL, customModels, toast]);
+
+  const handleRemoveCustomProvider = useCallback(() => {
+    if (window.confirm('Remove the custom endpoint?')) {
+      apiKeyManager.removeCustomProvider();
+      setCustomBaseURL('');
+      setCustomKey('');
+      setCustomModels('');
+    }
+  }, []);
+
   const handleChangeStoragePreference = useCallback((type: StorageType) => {
     apiKeyManager.setStoragePreference(type);
     setStoragePreference(type);
   }, []);
 
+  const handleEnableEncryption = useCallback(async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      toast.error('Passphrases do not match');
+      return;
+    }
+
+    setIsEncrypting(true);
+    const success = await apiKeyManager.enableEncryption(passphrase);
+    setIsEncrypting(false);
+    if (!success) {
+      toast.error('Failed to encrypt API keys');
+      return;
+    }
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setShowEncryptionForm(false);
+    toast.success('API keys encrypted');
+  }, [passphrase, confirmPassphrase, toast]);
+
+  const handleDisableEncryption = useCallback(async () => {
+    if (!window.confirm('Store API keys without a passphrase?')) return;
+    const success = await apiKeyManager.disableEncryption();
+    if (success) {
+      toast.success('API keys decrypted');
+    } else {
+      toast.error('Unlock your API keys first');
+    }
+  }, [toast]);
+
   const handleExportBackup = useCallback(() => {
     const payload = createBackupPayload();
-    const json = JSON.stringify(payload, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
     const dateStamp = payload.exportedAt.slice(0, 10);
-
-    link.href = url;
-    link.download = `projectloom-backup-${dateStamp}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(JSON.stringify(payload, null, 2), `projectloom-backup-${dateStamp}.json`, 'application/json');
 
     localStorage.setItem(STORAGE_KEYS.BACKUP_LAST_EXPORT, payload.exportedAt);
     toast.success('Backup exported');
@@ -269,7 +378,7 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
     }
 
     const reader = new FileReader();
-    reader.onload = () => {
+    reader.onload = async () => {
       try {
         const raw = typeof reader.result === 'string' ? reader.result : '';
         const parsed = JSON.parse(raw) as { version?: number; exportedAt?: string; data?: Record<string, string | null> };
@@ -278,7 +387,7 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
           throw new Error('Invalid backup file');
         }
 
-        applyBackupPayload({
+        await applyBackupPayload({
           version: 1,
           exportedAt: parsed.exportedAt || new Date().toISOString(),
           data: parsed.data,
@@ -470,6 +579,176 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
                     </span>
                   </div>
                 </label>
+
+                {/* Persist Undo History */}
+                <label style={checkboxLabelStyles}>
+                  <input
+                    type="checkbox"
+                    checked={uiPrefs.persistUndoHistory}
+                    onChange={(e) => {
+                      setUIPreferences({ persistUndoHistory: e.target.checked });
+                      if (!e.target.checked) {
+                        void clearUndoHistoryStorage().catch((error) => {
+                          console.warn('[SettingsPanel] Failed to clear undo history', error);
+                        });
+                      }
+                    }}
+                    style={{
+                      width: 16,
+                      height: 16,
+                      accentColor: colors.accent.primary,
+                      cursor: 'pointer',
+                    }}
+                  />
+                  <div>
+                    <span style={{
+                      fontSize: typography.sizes.sm,
+                      color: colors.fg.primary,
+                      fontFamily: typography.fonts.body,
+                    }}>
+                      Keep undo history after reload
+                    </span>
+                    <div style={{
+                      fontSize: typography.sizes.xs,
+                      color: colors.fg.tertiary,
+                      fontFamily: typography.fonts.body,
+                    }}>
+                      Saves the last {PERSISTED_HISTORY_LENGTH} undo steps of each workspace in this browser
+                    </div>
+                  </div>
+                </label>
+
+                {/* Default Branch Context */}
+                <div style={{ marginTop: spacing[3] }}>
+                  <label style={labelStyles}>Default branch context</label>
+                  <select
+                    value={branchingPrefs.defaultInheritanceMode}
+                    onChange={(e) => setBranchingPreferences({ defaultInheritanceMode: e.target.value as InheritanceMode })}
+                    style={selectStyles}
+                  >
+                    {(Object.keys(INHERITANCE_MODE_LABELS) as InheritanceMode[]).map((mode) => (
+                      <option key={mode} value={mode}>{INHERITANCE_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Include Reasoning In Context */}
+                <label style={{ ...checkboxLabelStyles, marginTop: spacing[3] }}>
+                  <input
+                    type="checkbox"
+                    checked={branchingPrefs.includeReasoningInContext}
+                    onChange={(e) => setBranchingPreferences({ includeReasoningInContext: e.target.checked })}
+                    style={{
+                      width: 16,
+                      height: 16,
+                      accentColor: colors.accent.primary,
+                      cursor: 'pointer',
+                    }}
+                  />
+                  <div>
+                    <span style={{
+                      fontSize: typography.sizes.sm,
+                      color: colors.fg.primary,
+                      fontFamily: typography.fonts.body,
+                    }}>
+                      Include reasoning in branch context
+                    </span>
+                    <div style={{
+                      fontSize: typography.sizes.xs,
+                      color: colors.fg.tertiary,
+                      fontFamily: typography.fonts.body,
+                    }}>
+                      Sends the thinking of inherited responses along with their answers
+                    </div>
+                  </div>
+                </label>
+              </div>
+
+              {/* Model Fallback Section */}
+              <div style={sectionStyles}>
+                <div style={sectionTitleStyles}>
+                  <ArrowRightLeft size={16} color={colors.accent.primary} />
+                  Model Fallback
+                </div>
+
+                {/* Retries */}
+                <div style={{ marginBottom: spacing[3] }}>
+                  <label style={labelStyles}>Retries when a model is rate-limited or down</label>
+                  <select
+                    value={retryPrefs.maxRetries}
+                    onChange={(e) => setRetryPreferences({ maxRetries: Number(e.target.value) })}
+                    style={selectStyles}
+                  >
+                    {Array.from({ length: MAX_RETRIES + 1 }, (_, count) => (
+                      <option key={count} value={count}>{count === 0 ? 'Don\'t retry' : `${count} ${count === 1 ? 'retry' : 'retries'}`}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Fallback Chain */}
+                <label style={labelStyles}>Fallback models</label>
+                <div style={{
+                  fontSize: typography.sizes.xs,
+                  color: colors.fg.tertiary,
+                  fontFamily: typography.fonts.body,
+                  marginBottom: spacing[2],
+                }}>
+                  Tried in order once retries run out. Models without an API key are skipped.
+                </div>
+                {retryPrefs.fallbackModels.map((modelId, index) => (
+                  <div
+                    key={modelId}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'space-between',
+                      gap: spacing[2],
+                      padding: `${spacing[1]} ${spacing[2]}`,
+                      marginBottom: spacing[1],
+                      backgroundColor: colors.bg.inset,
+                      border: `1px solid ${colors.border.default}`,
+                      borderRadius: effects.border.radius.default,
+                      fontSize: typography.sizes.sm,
+                      color: colors.fg.primary,
+                      fontFamily: typography.fonts.body,
+                    }}
+                  >
+                    <span>{index + 1}. {getModelById(modelId)?.name ?? modelId}</span>
+                    <button
+                      onClick={() => setRetryPreferences({ fallbackModels: retryPrefs.fallbackModels.filter((id) => id !== modelId) })}
+                      style={{
+                        display: 'flex',
+                        padding: 2,
+                        background: 'none',
+                        border: 'none',
+                        color: colors.fg.tertiary,
+                        cursor: 'pointer',
+                      }}
+                      title="Remove fallback model"
+                      aria-label={`Remove ${getModelById(modelId)?.name ?? modelId}`}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+                {retryPrefs.fallbackModels.length < MAX_FALLBACK_MODELS && (
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value) {
+                        setRetryPreferences({ fallbackModels: [...retryPrefs.fallbackModels, e.target.value] });
+                      }
+                    }}
+                    style={selectStyles}
+                  >
+                    <option value="">Add a fallback model…</option>
+                    {AVAILABLE_MODELS
+                      .filter((model) => !retryPrefs.fallbackModels.includes(model.id))
+                      .map((model) => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                      ))}
+                  </select>
+                )}
               </div>
 
               {/* API Keys Section */}
@@ -492,6 +771,100 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
                   </select>
                 </div>
 
+                {/* Passphrase Encryption */}
+                <div style={{ marginBottom: spacing[3] }}>
+                  <label style={checkboxLabelStyles}>
+                    <input
+                      type="checkbox"
+                      checked={keyStatus.isEncrypted || showEncryptionForm}
+                      disabled={keyStatus.isLocked}
+                      onChange={(e) => {
+                        if (e.target.checked) {
+                          setShowEncryptionForm(true);
+                        } else if (keyStatus.isEncrypted) {
+                          void handleDisableEncryption();
+                        } else {
+                          setShowEncryptionForm(false);
+                        }
+                      }}
+                      style={{
+                        width: 16,
+                        height: 16,
+                        accentColor: colors.accent.primary,
+                        cursor: keyStatus.isLocked ? 'not-allowed' : 'pointer',
+                      }}
+                    />
+                    <div>
+                      <span style={{
+                        fontSize: typography.sizes.sm,
+                        color: colors.fg.primary,
+                        fontFamily: typography.fonts.body,
+                      }}>
+                        Encrypt keys with a passphrase
+                      </span>
+                      <div style={{
+                        fontSize: typography.sizes.xs,
+                        color: colors.fg.tertiary,
+                        fontFamily: typography.fonts.body,
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: spacing[1],
+                      }}>
+                        {keyStatus.isLocked && <Lock size={12} />}
+                        {keyStatus.isLocked
+                          ? 'Locked. Enter your passphrase in the banner to edit keys'
+                          : keyStatus.isEncrypted
+                            ? 'Unlocked for this session. The passphrase is asked again after reload'
+                            : 'The passphrase cannot be recovered. Forgetting it means re-entering your keys'}
+                      </div>
+                    </div>
+                  </label>
+
+                  {showEncryptionForm && !keyStatus.isEncrypted && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: spacing[2], marginTop: spacing[2] }}>
+                      <input
+                        type="password"
+                        name="api-key-passphrase"
+                        autoComplete="new-password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        placeholder="Passphrase"
+                        aria-label="Passphrase"
+                        style={selectStyles}
+                      />
+                      <input
+                        type="password"
+                        name="api-key-passphrase-confirm"
+                        autoComplete="new-password"
+                        value={confirmPassphrase}
+                        onChange={(e) => setConfirmPassphrase(e.target.value)}
+                        placeholder="Confirm passphrase"
+                        aria-label="Confirm passphrase"
+                        style={selectStyles}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => void handleEnableEncryption()}
+                        disabled={!passphrase || isEncrypting}
+                        style={{
+                          alignSelf: 'flex-start',
+                          padding: `${spacing[2]} ${spacing[3]}`,
+                          backgroundColor: colors.bg.inset,
+                          border: `1px solid ${colors.border.default}`,
+                          borderRadius: effects.border.radius.default,
+                          color: colors.fg.primary,
+                          fontSize: typography.sizes.sm,
+                          fontFamily: typography.fonts.body,
+                          cursor: !passphrase || isEncrypting ? 'not-allowed' : 'pointer',
+                          opacity: !passphrase || isEncrypting ? 0.6 : 1,
+                        }}
+                      >
+                        {isEncrypting ? 'Encrypting…' : 'Encrypt keys'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+
                 {/* Anthropic API Key */}
                 <div style={{ marginBottom: spacing[3] }}>
                   <label htmlFor="settings-anthropic-key" style={labelStyles}>Anthropic API Key</label>
@@ -499,6 +872,7 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
                     <div style={{ flex: 1, position: 'relative' }}>
                       <input
                         id="settings-anthropic-key"
+                        disabled={keyStatus.isLocked}
                         name="anthropic-api-key"
                         autoComplete="off"
                         type={showAnthropicKey ? 'text' : 'password'}
@@ -563,6 +937,7 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
                     <div style={{ flex: 1, position: 'relative' }}>
                       <input
                         id="settings-openai-key"
+                        disabled={keyStatus.isLocked}
                         name="openai-api-key"
                         autoComplete="off"
                         type={showOpenaiKey ? 'text' : 'password'}
@@ -619,6 +994,138 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
                     For GPT models with web search. Get your key at platform.openai.com
                   </p>
                 </div>
+
+                {/* Google Gemini API Key */}
+                <div style={{ marginBottom: spacing[3] }}>
+                  <label htmlFor="settings-google-key" style={labelStyles}>Google Gemini API Key</label>
+                  <div style={{ display: 'flex', gap: spacing[2] }}>
+                    <div style={{ flex: 1, position: 'relative' }}>
+                      <input
+                        id="settings-google-key"
+                        disabled={keyStatus.isLocked}
+                        name="google-api-key"
+                        autoComplete="off"
+                        type={showGoogleKey ? 'text' : 'password'}
+                        value={googleKey}
+                        onChange={(e) => setGoogleKey(e.target.value)}
+                        onBlur={() => handleSaveKey('google', googleKey)}
+                        placeholder="AIza..."
+                        style={{
+                          ...selectStyles,
+                          fontFamily: typography.fonts.code,
+                          paddingRight: '40px',
+                        }}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowGoogleKey(!showGoogleKey)}
+                        style={{
+                          position: 'absolute',
+                          right: spacing[2],
+                          top: '50%',
+                          transform: 'translateY(-50%)',
+                          background: 'none',
+                          border: 'none',
+                          color: colors.fg.tertiary,
+                          cursor: 'pointer',
+                          padding: spacing[1],
+                        }}
+                      >
+                        {showGoogleKey ? <EyeOff size={14} /> : <Eye size={14} />}
+                      </button>
+                    </div>
+                    {googleKey && (
+                      <>
+                        <span style={{ display: 'flex', alignItems: 'center', color: 'var(--success-solid)' }}>
+                          <CheckCircle size={16} />
+                        </span>
+                        <button
+                          onClick={() => handleDeleteKey('google')}
+                          title="Delete key"
+                          style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.fg.tertiary,
+                            cursor: 'pointer',
+                            padding: spacing[1],
+                          }}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  <p style={{ fontSize: typography.sizes.xs, color: colors.fg.tertiary, marginTop: spacing[1] }}>
+                    For Gemini models with Google Search grounding. Get your key at aistudio.google.com
+                  </p>
+                </div>
+
+                {/* Custom OpenAI-compatible endpoint */}
+                <div style={{ marginBottom: spacing[3] }}>
+                  <label htmlFor="settings-custom-base-url" style={labelStyles}>Custom Endpoint (OpenAI-compatible)</label>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: spacing[2] }}>
+                    <div style={{ display: 'flex', gap: spacing[2] }}>
+                      <input
+                        id="settings-custom-base-url"
+                        name="custom-base-url"
+                        autoComplete="off"
+                        type="url"
+                        value={customBaseURL}
+                        onChange={(e) => setCustomBaseURL(e.target.value)}
+                        onBlur={handleSaveCustomProvider}
+                        placeholder="http://localhost:11434/v1"
+                        style={{ ...selectStyles, fontFamily: typography.fonts.code }}
+                      />
+                      {customBaseURL && (
+                        <button
+                          onClick={handleRemoveCustomProvider}
+                          title="Remove endpoint"
+                          style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.fg.tertiary,
+                            cursor: 'pointer',
+                            padding: spacing[1],
+                          }}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      name="custom-api-key"
+                      aria-label="Custom endpoint API key"
+                      autoComplete="off"
+                      type="password"
+                      disabled={keyStatus.isLocked}
+                      value={customKey}
+                      onChange={(e) => setCustomKey(e.target.value)}
+                      onBlur={() => {
+                        if (customKey.trim()) {
+                          handleSaveKey('custom', customKey);
+                        } else if (apiKeyManager.getKey('custom')) {
+                          apiKeyManager.removeKey('custom');
+                        }
+                      }}
+                      placeholder="API key (optional)"
+                      style={{ ...selectStyles, fontFamily: typography.fonts.code }}
+                    />
+                    <input
+                      name="custom-models"
+                      aria-label="Custom endpoint models"
+                      autoComplete="off"
+                      value={customModels}
+                      onChange={(e) => setCustomModels(e.target.value)}
+                      onBlur={handleSaveCustomProvider}
+                      placeholder="llama3.1:8b, qwen2.5-coder:14b"
+                      style={{ ...selectStyles, fontFamily: typography.fonts.code }}
+                    />
+                  </div>
+                  <p style={{ fontSize: typography.sizes.xs, color: colors.fg.tertiary, marginTop: spacing[1] }}>
+                    For vLLM, Ollama, LM Studio and other OpenAI-compatible servers. List model names separated by commas.
+                    Requests go through the app server, which only calls hosts listed in its CUSTOM_PROVIDER_HOSTS setting.
+                  </p>
+                </div>
               </div>
               
               {/* Backup Section */}
@@ -670,6 +1177,49 @@ export function SettingsPanel({ isOpen, onClose, isMobile = false }: SettingsPan
                   />
                 </div>
               </div>
+
+              {/* Storage Section */}
+              <div style={sectionStyles}>
+                <div style={sectionTitleStyles}>
+                  <HardDrive size={16} color={colors.accent.primary} />
+                  Storage
+                </div>
+
+                <div style={{ ...labelStyles, marginBottom: 0 }}>
+                  {storageInfo
+                    ? `Workspaces: ${formatBytes(storageInfo.size)} in ${storageInfo.backend ?? 'memory only'}`
+                    : 'Workspaces: calculating...'}
+                </div>
+                {storageEstimate && storageEstimate.quota > 0 && (
+                  <>
+                    <div
+                      style={{
+                        height: 6,
+                        marginTop: spacing[2],
+                        backgroundColor: colors.bg.inset,
+                        borderRadius: effects.border.radius.default,
+                        overflow: 'hidden',
+                      }}
+                    >
+                      <div
+                        style={{
+                          width: `${Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)}%`,
+                          height: '100%',
+                          backgroundColor: colors.accent.primary,
+                        }}
+                      />
+                    </div>
+                    <p style={{ fontSize: typography.sizes.xs, color: colors.fg.tertiary, marginTop: spacing[1] }}>
+                      {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} browser storage used
+                    </p>
+                  </>
+                )}
+                {storageInfo?.backend === 'localStorage' && (
+                  <p style={{ fontSize: typography.sizes.xs, color: colors.semantic.warning, marginTop: spacing[1] }}>
+                    IndexedDB is unavailable in this browser. Workspaces are limited to about 5 MB and image attachments are not saved.
+                  </p>
+                )}
+              </div>
               </>
             </div>
 
@@ -0,0 +1,295 @@
+'use client';
+
+/**
+ * StaleContextBanner - Warns when a parent changed after this card branched
+ *
+ * Shown above the thread when messages the card inherited were edited,
+ * regenerated or removed in a parent. Lists the old vs new inherited
+ * messages and offers to rebase (refresh the inherited context) or detach
+ * (keep the current context and become a standalone root). Merge cards with a
+ * synthesis strategy send their synthesis request again after a rebase.
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, RefreshCcw, Unlink } from 'lucide-react';
+
+import { getStaleInheritedContext, useCanvasStore } from '@/stores/canvas-store';
+import { useUsageStore } from '@/stores/usage-store';
+import { diffMessages, diffWords, type MessageChange } from '@/lib/branch-compare';
+import { requestContextSummary } from '@/lib/context-utils';
+import { getMergeSynthesisPrompt } from '@/lib/merge-strategies';
+import { detectProvider } from '@/lib/vercel-ai-integration';
+import { colors, typography, spacing, effects } from '@/lib/design-tokens';
+import type { Conversation } from '@/types';
+
+interface StaleContextBannerProps {
+  conversation: Conversation;
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    margin: `${spacing[2]} ${spacing[4]} 0 ${spacing[4]}`,
+    padding: `${spacing[2]} ${spacing[3]}`,
+    border: `1px solid ${colors.semantic.warningBorder}`,
+    backgroundColor: colors.semantic.warningBg,
+    borderRadius: '6px',
+    fontSize: typography.sizes.sm,
+    fontFamily: typography.fonts.body,
+    color: colors.semantic.warningFg,
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: spacing[2],
+    flexWrap: 'wrap',
+  },
+  message: {
+    flex: 1,
+    minWidth: 160,
+  },
+  button: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 4,
+    padding: `2px ${spacing[2]}`,
+    backgroundColor: 'transparent',
+    border: `1px solid ${colors.semantic.warningBorder}`,
+    borderRadius: effects.border.radius.default,
+    color: colors.semantic.warningFg,
+    fontSize: typography.sizes.xs,
+    fontFamily: typography.fonts.body,
+    cursor: 'pointer',
+  },
+  changes: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[2],
+    marginTop: spacing[2],
+    maxHeight: 320,
+    overflowY: 'auto',
+  },
+  parentTitle: {
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold,
+    color: colors.fg.secondary,
+  },
+  change: {
+    padding: spacing[2],
+    backgroundColor: colors.bg.inset,
+    border: `1px solid ${colors.border.default}`,
+    borderRadius: effects.border.radius.default,
+    color: colors.fg.primary,
+    fontSize: typography.sizes.xs,
+    whiteSpace: 'pre-wrap',
+    overflowWrap: 'anywhere',
+  },
+  changeLabel: {
+    display: 'block',
+    marginBottom: 2,
+    color: colors.fg.tertiary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+  },
+  muted: {
+    fontSize: typography.sizes.xs,
+    color: colors.fg.tertiary,
+  },
+  added: {
+    backgroundColor: colors.semantic.successBg,
+    color: colors.semantic.successFg,
+    borderRadius: 2,
+  },
+  removed: {
+    backgroundColor: colors.semantic.errorBg,
+    color: colors.semantic.errorFg,
+    borderRadius: 2,
+    textDecoration: 'line-through',
+  },
+  error: {
+    marginTop: spacing[1],
+    fontSize: typography.sizes.xs,
+    color: colors.semantic.errorFg,
+  },
+};
+
+const CHANGE_LABELS: Record<Exclude<MessageChange['type'], 'unchanged'>, string> = {
+  changed: 'Edited',
+  added: 'New',
+  removed: 'Removed',
+};
+
+// =============================================================================
+// COMPONENTS
+// =============================================================================
+
+function ChangeItem({ change }: { change: MessageChange }) {
+  if (change.type === 'unchanged') return null;
+  const message = change.current ?? change.previous;
+  const role = message?.role === 'assistant' ? 'Assistant' : 'User';
+
+  let body: React.ReactNode = message?.content;
+  if (change.type === 'changed') {
+    body = diffWords(change.previous?.content ?? '', change.current?.content ?? '').map((segment, index) => (
+      <span
+        key={index}
+        style={segment.type === 'added' ? styles.added : segment.type === 'removed' ? styles.removed : undefined}
+      >
+        {segment.text}
+      </span>
+    ));
+  } else if (change.type === 'added') {
+    body = <span style={styles.added}>{message?.content}</span>;
+  } else if (change.type === 'removed') {
+    body = <span style={styles.removed}>{message?.content}</span>;
+  }
+
+  return (
+    <div style={styles.change}>
+      <span style={styles.changeLabel}>{CHANGE_LABELS[change.type]} · {role}</span>
+      {body}
+    </div>
+  );
+}
+
+export const StaleContextBanner = memo(function StaleContextBanner({ conversation }: StaleContextBannerProps) {
+  const conversations = useCanvasStore((s) => s.conversations);
+  const lastUsedModel = useCanvasStore((s) => s.lastUsedModel);
+  const rebaseBranch = useCanvasStore((s) => s.rebaseBranch);
+  const detachBranch = useCanvasStore((s) => s.detachBranch);
+
+  const [showChanges, setShowChanges] = useState(false);
+  const [isRebasing, setIsRebasing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stale = useMemo(
+    () => getStaleInheritedContext(conversation, conversations),
+    [conversation, conversations]
+  );
+
+  const handleRebase = useCallback(async () => {
+    setIsRebasing(true);
+    setError(null);
+    try {
+      // Summary branches get a fresh summary of the parent's current messages
+      let summary: string | undefined;
+      const summaryItem = stale.find((item) => item.mode === 'summary');
+      if (summaryItem) {
+        const model = conversation.model ?? lastUsedModel;
+        if (!model) {
+          setError('Choose a model for this card before summarizing.');
+          return;
+        }
+        const parentTitle = conversations.get(summaryItem.parentId)?.metadata.title;
+        const result = await requestContextSummary(summaryItem.current, model, parentTitle);
+        summary = result.summary;
+        if (result.usage.promptTokens > 0 || result.usage.completionTokens > 0) {
+          useUsageStore.getState().addUsage({
+            provider: detectProvider(model),
+            model,
+            inputTokens: result.usage.promptTokens,
+            outputTokens: result.usage.completionTokens,
+            conversationId: conversation.id,
+            source: 'summarize',
+          });
+        }
+      }
+
+      if (!rebaseBranch(conversation.id, summary)) {
+        setError('Failed to rebase. Please try again.');
+        return;
+      }
+      setShowChanges(false);
+
+      const { conversations: current, injectInputValue } = useCanvasStore.getState();
+      const rebased = current.get(conversation.id);
+      const synthesisPrompt = rebased ? getMergeSynthesisPrompt(rebased, current) : null;
+      if (synthesisPrompt) {
+        injectInputValue(conversation.id, synthesisPrompt, { send: true });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rebase.');
+    } finally {
+      setIsRebasing(false);
+    }
+  }, [stale, conversation.id, conversation.model, conversations, lastUsedModel, rebaseBranch]);
+
+  if (stale.length === 0) return null;
+
+  const resynthesizes = !!conversation.mergeMetadata?.strategy;
+  const parentTitles = stale.map((item) => `"${conversations.get(item.parentId)?.metadata.title || 'Untitled'}"`);
+
+  return (
+    <div style={styles.container} role="status">
+      <div style={styles.row}>
+        <AlertTriangle size={14} style={{ flexShrink: 0 }} />
+        <span style={styles.message}>
+          {parentTitles.join(', ')} changed since this card inherited {stale.length === 1 ? 'its' : 'their'} messages
+        </span>
+        <button type="button" style={styles.button} onClick={() => setShowChanges((open) => !open)}>
+          {showChanges ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          Changes
+        </button>
+        <button
+          type="button"
+          style={{ ...styles.button, opacity: isRebasing ? 0.6 : 1 }}
+          onClick={handleRebase}
+          disabled={isRebasing}
+          title={resynthesizes
+            ? "Replace the inherited messages with the parents' current ones and run the synthesis again"
+            : "Replace the inherited messages with the parent's current ones"}
+        >
+          <RefreshCcw size={12} />
+          {isRebasing ? 'Rebasing...' : resynthesizes ? 'Rebase & re-synthesize' : 'Rebase'}
+        </button>
+        <button
+          type="button"
+          style={styles.button}
+          onClick={() => detachBranch(conversation.id)}
+          disabled={isRebasing}
+          title="Keep the current inherited messages and make this card a standalone root"
+        >
+          <Unlink size={12} />
+          Detach
+        </button>
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      {showChanges && (
+        <div style={styles.changes}>
+          {stale.map((item) => {
+            const changes = item.mode === 'summary' ? [] : diffMessages(item.previous, item.current);
+            const unchanged = changes.filter((change) => change.type === 'unchanged').length;
+            return (
+              <div key={item.parentId} style={{ display: 'flex', flexDirection: 'column', gap: spacing[1] }}>
+                <span style={styles.parentTitle}>
+                  From &quot;{conversations.get(item.parentId)?.metadata.title || 'Untitled'}&quot;
+                </span>
+                {item.mode === 'summary' ? (
+                  <span style={styles.muted}>
+                    Messages covered by the summary were edited. Rebasing summarizes the {item.current.length} current messages again.
+                  </span>
+                ) : (
+                  <>
+                    {changes.map((change, index) => <ChangeItem key={index} change={change} />)}
+                    {unchanged > 0 && (
+                      <span style={styles.muted}>
+                        {unchanged} unchanged {unchanged === 1 ? 'message' : 'messages'}
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default StaleContextBanner;
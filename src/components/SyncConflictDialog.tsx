@@ -0,0 +1,285 @@
+'use client';
+
+/**
+ * SyncConflictDialog - Resolve cards changed in two tabs at once
+ *
+ * Lists cards that cross-tab sync could not merge and lets the user keep
+ * this tab's version or take the other tab's, per card.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, X } from 'lucide-react';
+
+import { useCanvasStore } from '@/stores/canvas-store';
+import { colors, typography, spacing, effects, animation } from '@/lib/design-tokens';
+import { zIndex } from '@/constants/zIndex';
+import type { Conversation } from '@/types';
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const overlayStyles: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  backgroundColor: 'var(--bg-overlay)',
+  backdropFilter: 'blur(4px)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: zIndex.overlay.modal,
+};
+
+const dialogStyles: React.CSSProperties = {
+  backgroundColor: colors.bg.secondary,
+  borderRadius: effects.border.radius.md,
+  border: `1px solid ${colors.semantic.warningBorder}`,
+  boxShadow: effects.shadow.lg,
+  width: '90%',
+  maxWidth: '620px',
+  maxHeight: '80vh',
+  overflow: 'hidden',
+  display: 'flex',
+  flexDirection: 'column',
+};
+
+const headerStyles: React.CSSProperties = {
+  padding: spacing[4],
+  borderBottom: `1px solid ${colors.border.default}`,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: spacing[3],
+};
+
+const contentStyles: React.CSSProperties = {
+  padding: spacing[4],
+  display: 'flex',
+  flexDirection: 'column',
+  gap: spacing[3],
+  overflowY: 'auto',
+};
+
+const conflictStyles: React.CSSProperties = {
+  border: `1px solid ${colors.border.default}`,
+  borderRadius: effects.border.radius.default,
+  padding: spacing[3],
+  display: 'flex',
+  flexDirection: 'column',
+  gap: spacing[2],
+};
+
+const versionsStyles: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '1fr 1fr',
+  gap: spacing[2],
+};
+
+const versionStyles: React.CSSProperties = {
+  backgroundColor: colors.bg.inset,
+  borderRadius: effects.border.radius.default,
+  padding: spacing[2],
+  display: 'flex',
+  flexDirection: 'column',
+  gap: spacing[1],
+  fontSize: typography.sizes.xs,
+  fontFamily: typography.fonts.body,
+  color: colors.fg.secondary,
+  minWidth: 0,
+};
+
+const buttonStyles: React.CSSProperties = {
+  backgroundColor: 'transparent',
+  border: `1px solid ${colors.border.default}`,
+  borderRadius: effects.border.radius.default,
+  color: colors.fg.primary,
+  padding: `${spacing[1]} ${spacing[3]}`,
+  cursor: 'pointer',
+  fontSize: typography.sizes.sm,
+  fontFamily: typography.fonts.body,
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function VersionSummary({ label, conversation }: { label: string; conversation: Conversation | null }) {
+  const lastMessage = conversation?.content[conversation.content.length - 1];
+
+  return (
+    <div style={versionStyles}>
+      <span style={{ color: colors.fg.primary, fontWeight: typography.weights.semibold }}>{label}</span>
+      {conversation ? (
+        <>
+          <span>
+            {conversation.content.length} message{conversation.content.length === 1 ? '' : 's'}
+            {conversation.metadata.title ? ` · "${conversation.metadata.title}"` : ''}
+          </span>
+          {lastMessage && (
+            <span
+              style={{
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                color: colors.fg.tertiary,
+              }}
+              title={lastMessage.content}
+            >
+              {lastMessage.role === 'user' ? 'You: ' : 'AI: '}{lastMessage.content}
+            </span>
+          )}
+        </>
+      ) : (
+        <span style={{ color: colors.semantic.error }}>Deleted</span>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function SyncConflictDialog() {
+  const isOpen = useCanvasStore((s) => s.syncConflictDialogOpen);
+  const conflicts = useCanvasStore((s) => s.syncConflicts);
+  const conversations = useCanvasStore((s) => s.conversations);
+  const workspaces = useCanvasStore((s) => s.workspaces);
+  const resolveSyncConflict = useCanvasStore((s) => s.resolveSyncConflict);
+  const closeDialog = useCanvasStore((s) => s.closeSyncConflictDialog);
+  const overlayMouseDownRef = useRef(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        closeDialog();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, closeDialog]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && conflicts.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          style={overlayStyles}
+          onMouseDown={(e) => {
+            overlayMouseDownRef.current = e.target === e.currentTarget;
+          }}
+          onMouseUp={(e) => {
+            if (overlayMouseDownRef.current && e.target === e.currentTarget) {
+              closeDialog();
+            }
+            overlayMouseDownRef.current = false;
+          }}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 10 }}
+            transition={animation.spring.snappy}
+            style={dialogStyles}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="sync-conflict-title"
+          >
+            <div style={headerStyles}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: spacing[2] }}>
+                <AlertTriangle size={18} color={colors.semantic.warning} />
+                <h3
+                  id="sync-conflict-title"
+                  style={{
+                    margin: 0,
+                    fontSize: typography.sizes.lg,
+                    fontFamily: typography.fonts.heading,
+                    color: colors.fg.primary,
+                  }}
+                >
+                  Changed in another tab
+                </h3>
+              </div>
+              <button
+                onClick={closeDialog}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  color: colors.fg.tertiary,
+                  display: 'flex',
+                  alignItems: 'center',
+                }}
+                aria-label="Close"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            <div style={contentStyles}>
+              <p
+                style={{
+                  margin: 0,
+                  fontSize: typography.sizes.sm,
+                  fontFamily: typography.fonts.body,
+                  color: colors.fg.secondary,
+                }}
+              >
+                These cards were edited here and in another ProjectLoom tab at the same time.
+                This tab&apos;s version is shown until you choose one.
+              </p>
+
+              {conflicts.map((conflict) => {
+                const workspaceTitle = workspaces.find((w) => w.id === conflict.workspaceId)?.metadata.title;
+                // Show the current local card; it may have changed since the conflict was detected
+                const local = conversations.get(conflict.cardId) ?? conflict.local;
+
+                return (
+                  <div key={conflict.cardId} style={conflictStyles}>
+                    <div
+                      style={{
+                        fontSize: typography.sizes.sm,
+                        fontFamily: typography.fonts.body,
+                        color: colors.fg.primary,
+                      }}
+                    >
+                      {conflict.title}
+                      {workspaceTitle && (
+                        <span style={{ color: colors.fg.tertiary }}> · {workspaceTitle}</span>
+                      )}
+                    </div>
+                    <div style={versionsStyles}>
+                      <VersionSummary label="This tab" conversation={local} />
+                      <VersionSummary label="Other tab" conversation={conflict.remote} />
+                    </div>
+                    <div style={{ display: 'flex', justifyContent: 'flex-end', gap: spacing[2] }}>
+                      <button style={buttonStyles} onClick={() => resolveSyncConflict(conflict.cardId, 'local')}>
+                        Keep this tab&apos;s
+                      </button>
+                      <button
+                        style={{ ...buttonStyles, backgroundColor: colors.accent.primary, border: 'none', color: colors.accent.contrast }}
+                        onClick={() => resolveSyncConflict(conflict.cardId, 'remote')}
+                      >
+                        Use other tab&apos;s
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -3,22 +3,23 @@
 /**
  * UndoToast - Lightweight undo notification for branch/merge actions
  * 
- * Shows toast after creating branches or merge nodes with quick undo option.
- * Auto-hides after 5 seconds per spec.
+ * Shows toast after creating branches or merge nodes with quick undo option,
+ * and names the step whenever one is undone or redone. Messages come from
+ * the history entry labels. Auto-hides after 5 seconds per spec.
  * 
  * @version 4.0.0
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GitBranch, GitMerge, Trash2, X, Undo2 } from 'lucide-react';
+import { GitBranch, GitMerge, Trash2, X, Undo2, Redo2 } from 'lucide-react';
 import { useCanvasStore } from '@/stores/canvas-store';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-type ActionType = 'branch' | 'merge' | 'delete';
+type ActionType = 'branch' | 'merge' | 'delete' | 'undo' | 'redo';
 
 interface ToastState {
   type: ActionType;
@@ -37,6 +38,8 @@ const ICONS: Record<ActionType, React.ReactNode> = {
   branch: <GitBranch className="w-4 h-4 text-warning-solid" />,
   merge: <GitMerge className="w-4 h-4 text-success-solid" />,
   delete: <Trash2 className="w-4 h-4 text-error-solid" />,
+  undo: <Undo2 className="w-4 h-4 text-fg-secondary" />,
+  redo: <Redo2 className="w-4 h-4 text-fg-secondary" />,
 };
 
 // =============================================================================
@@ -52,15 +55,13 @@ export function UndoToast() {
   const canUndo = useCanvasStore((s) => s.canUndo);
   const conversations = useCanvasStore((s) => s.conversations);
   const conversationCount = conversations.size;
-  const edgeCount = useCanvasStore((s) => s.edges.length);
   const activeWorkspaceId = useCanvasStore((s) => s.activeWorkspaceId);
-  const historyIndex = useCanvasStore((s) => s.historyIndex);
+  const lastHistoryEvent = useCanvasStore((s) => s.lastHistoryEvent);
   
-  // Track previous counts to detect changes
+  // Track previous values to detect changes
   const prevConversationCount = useRef(conversationCount);
-  const prevEdgeCount = useRef(edgeCount);
   const prevWorkspaceId = useRef(activeWorkspaceId);
-  const prevHistoryIndex = useRef(historyIndex);
+  const prevHistoryEvent = useRef(lastHistoryEvent);
 
   const showToast = useCallback((newToast: ToastState) => {
     // Clear any existing timeout
@@ -76,69 +77,65 @@ export function UndoToast() {
     }, AUTO_HIDE_MS);
   }, []);
 
-  // Detect branch/merge creation (simplified - checks count changes only)
+  // Detect branch/merge creation, deletion and undo/redo from history events
   useEffect(() => {
-    const currentCount = conversationCount;
-    
+    const previousCount = prevConversationCount.current;
+    const isNewEvent = lastHistoryEvent !== prevHistoryEvent.current;
+    const workspaceChanged = activeWorkspaceId !== prevWorkspaceId.current;
+
+    prevConversationCount.current = conversationCount;
+    prevWorkspaceId.current = activeWorkspaceId;
+    prevHistoryEvent.current = lastHistoryEvent;
+
     // Skip toast if workspace changed (don't interpret as conversation add/delete)
-    if (activeWorkspaceId !== prevWorkspaceId.current) {
-      prevConversationCount.current = currentCount;
-      prevEdgeCount.current = edgeCount;
-      prevWorkspaceId.current = activeWorkspaceId;
-      return;
-    }
-    
-    const didTimeTravel = historyIndex !== prevHistoryIndex.current;
-    if (didTimeTravel) {
-      prevConversationCount.current = currentCount;
-      prevEdgeCount.current = edgeCount;
-      prevWorkspaceId.current = activeWorkspaceId;
-      prevHistoryIndex.current = historyIndex;
+    if (workspaceChanged || !isNewEvent || !lastHistoryEvent) return;
+
+    if (lastHistoryEvent.kind !== 'record') {
+      showToast({
+        type: lastHistoryEvent.kind,
+        message: `${lastHistoryEvent.kind === 'undo' ? 'Undid' : 'Redid'}: ${lastHistoryEvent.label}`,
+        timestamp: new Date(),
+        canUndo: false,
+      });
       return;
     }
 
     // Check if a new conversation was added
-    if (currentCount > prevConversationCount.current) {
+    if (conversationCount > previousCount) {
       // Find the newest conversation by createdAt timestamp
       const convArray = Array.from(conversations.values());
       const newest = convArray.reduce((latest, conv) => 
         (!latest || new Date(conv.metadata.createdAt) > new Date(latest.metadata.createdAt)) ? conv : latest
       , convArray[0]);
       
-      if (newest) {
-        if (newest.isMergeNode) {
-          showToast({
-            type: 'merge',
-            message: `Merge node created from ${newest.parentCardIds?.length || 0} sources`,
-            timestamp: new Date(),
-            canUndo: canUndo(),
-          });
-        } else if (newest.parentCardIds?.length > 0) {
-          showToast({
-            type: 'branch',
-            message: `Branch created from message ${(newest.branchPoint?.messageIndex ?? 0) + 1}`,
-            timestamp: new Date(),
-            canUndo: canUndo(),
-          });
-        }
+      if (newest?.isMergeNode) {
+        showToast({
+          type: 'merge',
+          message: lastHistoryEvent.label,
+          timestamp: new Date(),
+          canUndo: canUndo(),
+        });
+      } else if (newest && newest.parentCardIds?.length > 0) {
+        showToast({
+          type: 'branch',
+          message: lastHistoryEvent.label,
+          timestamp: new Date(),
+          canUndo: canUndo(),
+        });
       }
     }
     
     // Track deletion (fewer conversations)
-    if (currentCount < prevConversationCount.current) {
+    if (conversationCount < previousCount) {
       showToast({
         type: 'delete',
-        message: 'Conversation deleted',
+        message: lastHistoryEvent.label,
         timestamp: new Date(),
         canUndo: canUndo(),
       });
     }
-    
-    prevConversationCount.current = currentCount;
-    prevEdgeCount.current = edgeCount;
-    prevHistoryIndex.current = historyIndex;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [conversationCount, edgeCount, activeWorkspaceId, historyIndex]);
+  }, [conversationCount, activeWorkspaceId, lastHistoryEvent]);
 
   const handleUndo = useCallback(() => {
     undo();
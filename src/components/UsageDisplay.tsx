@@ -166,6 +166,32 @@ export function UsageDisplay() {
             {formatUsd(usageTotals.byProvider.openai.costUsd)}
           </span>
         </div>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <span style={{ fontSize: typography.sizes.sm, color: colors.fg.secondary, fontFamily: typography.fonts.body }}>
+            Gemini (Google)
+            {usageTotals.byProvider.google.recordCount > 0 && (
+              <span style={{ fontSize: typography.sizes.xs, opacity: 0.6, marginLeft: spacing[1] }}>
+                ({usageTotals.byProvider.google.recordCount})
+              </span>
+            )}
+          </span>
+          <span style={{ fontSize: typography.sizes.sm, fontWeight: typography.weights.semibold, fontFamily: typography.fonts.code }}>
+            {formatUsd(usageTotals.byProvider.google.costUsd)}
+          </span>
+        </div>
+        {usageTotals.byProvider.custom.recordCount > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <span style={{ fontSize: typography.sizes.sm, color: colors.fg.secondary, fontFamily: typography.fonts.body }}>
+              Custom endpoint
+              <span style={{ fontSize: typography.sizes.xs, opacity: 0.6, marginLeft: spacing[1] }}>
+                ({usageTotals.byProvider.custom.recordCount})
+              </span>
+            </span>
+            <span style={{ fontSize: typography.sizes.sm, fontWeight: typography.weights.semibold, fontFamily: typography.fonts.code }}>
+              {formatUsd(usageTotals.byProvider.custom.costUsd)}
+            </span>
+          </div>
+        )}
         <div style={{ borderTop: `1px solid ${colors.border.default}`, paddingTop: spacing[2], display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
           <span style={{ fontSize: typography.sizes.sm, fontWeight: typography.weights.semibold, color: colors.fg.primary, fontFamily: typography.fonts.body }}>
             Total
@@ -0,0 +1,505 @@
+'use client';
+
+/**
+ * WorkspaceSnapshotsDialog - Snapshot timeline for one workspace
+ *
+ * Take named snapshots, browse them newest first, compare one against the
+ * current state and restore it in place or as a new workspace.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Camera, History, Loader2, Trash2, X } from 'lucide-react';
+
+import { useCanvasStore } from '@/stores/canvas-store';
+import { useToast } from '@/stores/toast-store';
+import { colors, typography, spacing, effects, animation } from '@/lib/design-tokens';
+import { zIndex } from '@/constants/zIndex';
+import {
+  createWorkspaceFromSnapshot,
+  deleteSnapshot,
+  diffWorkspaces,
+  listSnapshots,
+  loadSnapshot,
+  type SnapshotTrigger,
+  type WorkspaceDiff,
+  type WorkspaceSnapshotMeta,
+} from '@/lib/workspace-snapshots';
+import type { Workspace } from '@/types';
+
+interface WorkspaceSnapshotsDialogProps {
+  /** Workspace to show; null closes the dialog */
+  workspaceId: string | null;
+  onClose: () => void;
+}
+
+const TRIGGER_LABELS: Record<SnapshotTrigger, string | null> = {
+  manual: null,
+  agent: 'Before agent',
+  restore: 'Before restore',
+};
+
+/** Titles listed per diff section before collapsing into "and N more" */
+const MAX_DIFF_TITLES = 6;
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const overlayStyles: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  backgroundColor: 'var(--bg-overlay)',
+  backdropFilter: 'blur(4px)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: zIndex.overlay.modal,
+};
+
+const dialogStyles: React.CSSProperties = {
+  backgroundColor: colors.bg.secondary,
+  borderRadius: effects.border.radius.md,
+  border: `1px solid ${colors.border.default}`,
+  boxShadow: effects.shadow.lg,
+  width: '90%',
+  maxWidth: '560px',
+  maxHeight: '80vh',
+  overflow: 'hidden',
+  display: 'flex',
+  flexDirection: 'column',
+};
+
+const headerStyles: React.CSSProperties = {
+  padding: spacing[4],
+  borderBottom: `1px solid ${colors.border.default}`,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: spacing[3],
+};
+
+const createRowStyles: React.CSSProperties = {
+  padding: `${spacing[3]} ${spacing[4]}`,
+  borderBottom: `1px solid ${colors.border.default}`,
+  display: 'flex',
+  gap: spacing[2],
+};
+
+const inputStyles: React.CSSProperties = {
+  flex: 1,
+  padding: `${spacing[2]} ${spacing[3]}`,
+  backgroundColor: colors.bg.inset,
+  border: `1px solid ${colors.border.default}`,
+  borderRadius: effects.border.radius.default,
+  color: colors.fg.primary,
+  fontSize: typography.sizes.sm,
+  fontFamily: typography.fonts.body,
+  outline: 'none',
+};
+
+const buttonStyles: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: spacing[1],
+  backgroundColor: 'transparent',
+  border: `1px solid ${colors.border.default}`,
+  borderRadius: effects.border.radius.default,
+  color: colors.fg.primary,
+  padding: `${spacing[1]} ${spacing[3]}`,
+  cursor: 'pointer',
+  fontSize: typography.sizes.sm,
+  fontFamily: typography.fonts.body,
+};
+
+const primaryButtonStyles: React.CSSProperties = {
+  ...buttonStyles,
+  backgroundColor: colors.accent.primary,
+  border: 'none',
+  color: colors.accent.contrast,
+};
+
+const timelineStyles: React.CSSProperties = {
+  padding: spacing[4],
+  overflowY: 'auto',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: spacing[2],
+};
+
+const mutedTextStyles: React.CSSProperties = {
+  fontSize: typography.sizes.xs,
+  fontFamily: typography.fonts.body,
+  color: colors.fg.tertiary,
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function DiffSection({ label, titles, color }: { label: string; titles: string[]; color: string }) {
+  if (titles.length === 0) return null;
+  const shown = titles.slice(0, MAX_DIFF_TITLES);
+
+  return (
+    <div style={{ fontSize: typography.sizes.xs, fontFamily: typography.fonts.body, color: colors.fg.secondary }}>
+      <span style={{ color, fontWeight: typography.weights.semibold }}>{label} ({titles.length})</span>
+      <span>: {shown.join(', ')}{titles.length > shown.length ? ` and ${titles.length - shown.length} more` : ''}</span>
+    </div>
+  );
+}
+
+function DiffSummary({ diff }: { diff: WorkspaceDiff }) {
+  const isEmpty = diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+    && diff.edgesAdded === 0 && diff.edgesRemoved === 0;
+
+  if (isEmpty) {
+    return <div style={mutedTextStyles}>No differences from the current state.</div>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: spacing[1] }}>
+      <div style={mutedTextStyles}>Since this snapshot:</div>
+      <DiffSection
+        label="Added"
+        titles={diff.added.map((conv) => conv.metadata.title || 'Untitled')}
+        color={colors.semantic.success}
+      />
+      <DiffSection
+        label="Removed"
+        titles={diff.removed.map((conv) => conv.metadata.title || 'Untitled')}
+        color={colors.semantic.error}
+      />
+      <DiffSection
+        label="Changed"
+        titles={diff.changed.map(({ after, messagesAdded, messagesRemoved, titleChanged }) => {
+          const details = [
+            messagesAdded > 0 ? `+${messagesAdded} msg` : null,
+            messagesRemoved > 0 ? `−${messagesRemoved} msg` : null,
+            titleChanged ? 'renamed' : null,
+          ].filter(Boolean);
+          return `${after.metadata.title || 'Untitled'}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+        })}
+        color={colors.semantic.warning}
+      />
+      {(diff.edgesAdded > 0 || diff.edgesRemoved > 0) && (
+        <div style={mutedTextStyles}>
+          Connections: +{diff.edgesAdded} / −{diff.edgesRemoved}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function WorkspaceSnapshotsDialog({ workspaceId, onClose }: WorkspaceSnapshotsDialogProps) {
+  const workspace = useCanvasStore((s) => s.workspaces.find((w) => w.id === workspaceId));
+  const createWorkspaceSnapshot = useCanvasStore((s) => s.createWorkspaceSnapshot);
+  const restoreWorkspaceSnapshot = useCanvasStore((s) => s.restoreWorkspaceSnapshot);
+  const importWorkspace = useCanvasStore((s) => s.importWorkspace);
+  const { success: toastSuccess, error: toastError } = useToast();
+
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshotMeta[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<{ meta: WorkspaceSnapshotMeta; workspace: Workspace; diff: WorkspaceDiff } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const overlayMouseDownRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (!workspaceId) return;
+    setIsLoading(true);
+    try {
+      setSnapshots(await listSnapshots(workspaceId));
+    } catch (error) {
+      console.error('[WorkspaceSnapshotsDialog] Failed to list snapshots', error);
+      toastError('Failed to load snapshots');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId, toastError]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    setSelected(null);
+    setName('');
+    void refresh();
+  }, [workspaceId, refresh]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [workspaceId, onClose]);
+
+  const handleCreate = useCallback(async () => {
+    if (!workspaceId) return;
+    setBusy(true);
+    try {
+      const snapshotName = name.trim() || `Snapshot ${new Date().toLocaleString()}`;
+      await createWorkspaceSnapshot(workspaceId, snapshotName);
+      setName('');
+      toastSuccess(`Saved snapshot "${snapshotName}"`);
+      await refresh();
+    } catch (error) {
+      console.error('[WorkspaceSnapshotsDialog] Failed to save snapshot', error);
+      toastError('Failed to save snapshot');
+    } finally {
+      setBusy(false);
+    }
+  }, [workspaceId, name, createWorkspaceSnapshot, refresh, toastSuccess, toastError]);
+
+  const handleSelect = useCallback(async (meta: WorkspaceSnapshotMeta) => {
+    if (!workspaceId) return;
+    if (selected?.meta.id === meta.id) {
+      setSelected(null);
+      return;
+    }
+
+    try {
+      const snapshot = await loadSnapshot(meta.id);
+      const current = useCanvasStore.getState().getWorkspaceSnapshot(workspaceId);
+      if (!snapshot || !current) {
+        toastError('Snapshot data is missing');
+        return;
+      }
+      setSelected({ meta, workspace: snapshot, diff: diffWorkspaces(snapshot, current) });
+    } catch (error) {
+      console.error('[WorkspaceSnapshotsDialog] Failed to load snapshot', error);
+      toastError('Failed to load snapshot');
+    }
+  }, [workspaceId, selected, toastError]);
+
+  const handleRestoreInPlace = useCallback(async () => {
+    if (!workspaceId || !selected) return;
+    setBusy(true);
+    try {
+      await restoreWorkspaceSnapshot(workspaceId, selected.workspace, selected.meta.name);
+      toastSuccess(`Restored "${selected.meta.name}". The previous state was saved as a snapshot.`);
+      onClose();
+    } catch (error) {
+      console.error('[WorkspaceSnapshotsDialog] Restore failed', error);
+      toastError('Failed to restore snapshot');
+    } finally {
+      setBusy(false);
+    }
+  }, [workspaceId, selected, restoreWorkspaceSnapshot, toastSuccess, toastError, onClose]);
+
+  const handleRestoreAsNew = useCallback(async () => {
+    if (!workspace || !selected) return;
+    setBusy(true);
+    try {
+      const restored = await createWorkspaceFromSnapshot(
+        selected.workspace,
+        `${workspace.metadata.title} (${selected.meta.name})`
+      );
+      importWorkspace(restored);
+      toastSuccess(`Opened "${restored.metadata.title}"`);
+      onClose();
+    } catch (error) {
+      console.error('[WorkspaceSnapshotsDialog] Restore as new workspace failed', error);
+      toastError('Failed to restore snapshot');
+    } finally {
+      setBusy(false);
+    }
+  }, [workspace, selected, importWorkspace, toastSuccess, toastError, onClose]);
+
+  const handleDelete = useCallback(async (meta: WorkspaceSnapshotMeta) => {
+    try {
+      await deleteSnapshot(meta.id);
+      if (selected?.meta.id === meta.id) setSelected(null);
+      await refresh();
+    } catch (error) {
+      console.error('[WorkspaceSnapshotsDialog] Failed to delete snapshot', error);
+      toastError('Failed to delete snapshot');
+    }
+  }, [selected, refresh, toastError]);
+
+  return (
+    <AnimatePresence>
+      {workspaceId && workspace && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          style={overlayStyles}
+          onMouseDown={(e) => {
+            overlayMouseDownRef.current = e.target === e.currentTarget;
+          }}
+          onMouseUp={(e) => {
+            if (overlayMouseDownRef.current && e.target === e.currentTarget) {
+              onClose();
+            }
+            overlayMouseDownRef.current = false;
+          }}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 10 }}
+            transition={animation.spring.snappy}
+            style={dialogStyles}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="workspace-snapshots-title"
+          >
+            <div style={headerStyles}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: spacing[2], minWidth: 0 }}>
+                <History size={18} color={colors.fg.secondary} />
+                <h3
+                  id="workspace-snapshots-title"
+                  style={{
+                    margin: 0,
+                    fontSize: typography.sizes.lg,
+                    fontFamily: typography.fonts.heading,
+                    color: colors.fg.primary,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  Snapshots · {workspace.metadata.title}
+                </h3>
+              </div>
+              <button
+                onClick={onClose}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  color: colors.fg.tertiary,
+                  display: 'flex',
+                  alignItems: 'center',
+                }}
+                aria-label="Close"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            <div style={createRowStyles}>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !busy) void handleCreate();
+                }}
+                placeholder="Snapshot name (optional)"
+                style={inputStyles}
+                aria-label="Snapshot name"
+              />
+              <button style={primaryButtonStyles} onClick={() => void handleCreate()} disabled={busy}>
+                <Camera size={14} />
+                Take snapshot
+              </button>
+            </div>
+
+            <div style={timelineStyles}>
+              {isLoading && snapshots.length === 0 && (
+                <div style={{ ...mutedTextStyles, display: 'flex', alignItems: 'center', gap: spacing[2] }}>
+                  <Loader2 size={14} className="animate-spin" /> Loading snapshots…
+                </div>
+              )}
+              {!isLoading && snapshots.length === 0 && (
+                <div style={mutedTextStyles}>
+                  No snapshots yet. Snapshots are also taken automatically before agent actions and restores.
+                </div>
+              )}
+
+              {snapshots.map((meta) => {
+                const isSelected = selected?.meta.id === meta.id;
+                const triggerLabel = TRIGGER_LABELS[meta.trigger];
+
+                return (
+                  <div
+                    key={meta.id}
+                    style={{
+                      borderLeft: `2px solid ${isSelected ? colors.accent.primary : colors.border.default}`,
+                      paddingLeft: spacing[3],
+                      display: 'flex',
+                      flexDirection: 'column',
+                      gap: spacing[2],
+                    }}
+                  >
+                    <div style={{ display: 'flex', alignItems: 'center', gap: spacing[2] }}>
+                      <button
+                        onClick={() => void handleSelect(meta)}
+                        style={{
+                          flex: 1,
+                          minWidth: 0,
+                          background: 'none',
+                          border: 'none',
+                          padding: 0,
+                          cursor: 'pointer',
+                          textAlign: 'left',
+                          display: 'flex',
+                          flexDirection: 'column',
+                          gap: 2,
+                        }}
+                      >
+                        <span
+                          style={{
+                            fontSize: typography.sizes.sm,
+                            fontFamily: typography.fonts.body,
+                            color: colors.fg.primary,
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                          }}
+                        >
+                          {meta.name}
+                          {triggerLabel && (
+                            <span style={{ ...mutedTextStyles, marginLeft: spacing[2] }}>{triggerLabel}</span>
+                          )}
+                        </span>
+                        <span style={mutedTextStyles}>
+                          {new Date(meta.createdAt).toLocaleString()} · {meta.cardCount} card{meta.cardCount === 1 ? '' : 's'} · {meta.messageCount} message{meta.messageCount === 1 ? '' : 's'}
+                        </span>
+                      </button>
+                      <button
+                        onClick={() => void handleDelete(meta)}
+                        style={{ ...buttonStyles, border: 'none', padding: spacing[1], color: colors.fg.tertiary }}
+                        title="Delete snapshot"
+                        aria-label={`Delete snapshot ${meta.name}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+
+                    {isSelected && selected && (
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: spacing[2], paddingBottom: spacing[2] }}>
+                        <DiffSummary diff={selected.diff} />
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: spacing[2] }}>
+                          <button style={buttonStyles} onClick={() => void handleRestoreAsNew()} disabled={busy}>
+                            Restore as new workspace
+                          </button>
+                          <button style={primaryButtonStyles} onClick={() => void handleRestoreInPlace()} disabled={busy}>
+                            Restore here
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { getAttachmentBlob, getCachedAttachmentBlob } from '@/lib/attachment-store';
+import type { MessageAttachment } from '@/types';
+
+/**
+ * Displayable URL for an attachment. Inline attachments return their `url`
+ * directly; blob-backed ones are loaded lazily from the attachment store
+ * and return an empty string until the data is available.
+ */
+export function useAttachmentUrl(attachment: MessageAttachment): string {
+  const { url, blobId } = attachment;
+  const [loaded, setLoaded] = useState<{ blobId: string; url: string } | null>(null);
+
+  useEffect(() => {
+    if (url || !blobId || getCachedAttachmentBlob(blobId)) return;
+
+    let cancelled = false;
+    void getAttachmentBlob(blobId).then((dataUrl) => {
+      if (!cancelled && dataUrl) setLoaded({ blobId, url: dataUrl });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, blobId]);
+
+  if (url || !blobId) return url;
+  return getCachedAttachmentBlob(blobId) ?? (loaded?.blobId === blobId ? loaded.url : '');
+}
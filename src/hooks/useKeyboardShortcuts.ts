@@ -21,6 +21,12 @@ export interface KeyboardShortcutHandlers {
   onOpenChat?: () => void;
   /** Called when Ctrl+B is pressed */
   onBranch?: () => void;
+  /** Called when Ctrl+C is pressed and no text is selected */
+  onCopy?: () => void;
+  /** Called when Ctrl+V is pressed */
+  onPaste?: () => void;
+  /** Called when Ctrl+D is pressed */
+  onDuplicate?: () => void;
   /** Called when N is pressed */
   onAddConversation?: () => void;
   /** Called when + or = is pressed (zoom in) */
@@ -79,7 +85,7 @@ export function useKeyboardShortcuts({
       if (!enabled) return;
       // Always read from the ref to get the latest callbacks without stale closure
       const { onDelete, onEscape, onUndo, onRedo, onExpand, onOpenChat, onBranch,
-              onAddConversation, onZoomIn, onZoomOut, onFitView, onResetZoom,
+              onCopy, onPaste, onDuplicate, onAddConversation, onZoomIn, onZoomOut, onFitView, onResetZoom,
               onSelectAll, onShowShortcuts, onSearch, onSuggestLayout } = handlersRef.current;
 
       // Don't trigger shortcuts when typing in inputs (except Ctrl/Cmd+B for branching)
@@ -157,6 +163,33 @@ export function useKeyboardShortcuts({
           }
           break;
 
+        case 'c':
+        case 'C':
+          // Ctrl+C: Copy selected cards (leave text selections to the browser)
+          if ((event.ctrlKey || event.metaKey) && !window.getSelection()?.toString()) {
+            event.preventDefault();
+            onCopy?.();
+          }
+          break;
+
+        case 'v':
+        case 'V':
+          if (event.ctrlKey || event.metaKey) {
+            event.preventDefault();
+            // Ctrl+V: Paste copied cards
+            onPaste?.();
+          }
+          break;
+
+        case 'd':
+        case 'D':
+          if (event.ctrlKey || event.metaKey) {
+            event.preventDefault();
+            // Ctrl+D: Duplicate selected cards
+            onDuplicate?.();
+          }
+          break;
+
         case 'n':
         case 'N':
           event.preventDefault();
@@ -308,6 +341,9 @@ export const SHORTCUTS = {
   
   // Editing
   branch: { key: 'B', modifiers: { ctrl: true }, description: 'Branch from selected card' },
+  copy: { key: 'C', modifiers: { ctrl: true }, description: 'Copy selected cards and their branches' },
+  paste: { key: 'V', modifiers: { ctrl: true }, description: 'Paste cards at the cursor' },
+  duplicate: { key: 'D', modifiers: { ctrl: true }, description: 'Duplicate selected cards' },
   delete: { key: 'Delete', description: 'Delete selected card' },
   undo: { key: 'Z', modifiers: { ctrl: true }, description: 'Undo' },
   redo: { key: 'Z', modifiers: { ctrl: true, shift: true }, description: 'Redo' },
@@ -338,7 +374,7 @@ export const SHORTCUT_CATEGORIES = [
   },
   {
     name: 'Editing',
-    shortcuts: ['branch', 'delete', 'undo', 'redo'] as const,
+    shortcuts: ['branch', 'copy', 'paste', 'duplicate', 'delete', 'undo', 'redo'] as const,
   },
   {
     name: 'View',
@@ -73,7 +73,8 @@ export const analytics = {
   // ── API Keys ─────────────────────────────────────────────────────────────────
 
   apiKeySaved(props: {
-    provider: 'anthropic' | 'openai' | 'both';
+    /** 'both' means more than one provider (name kept for existing dashboards) */
+    provider: 'anthropic' | 'openai' | 'google' | 'both';
     was_trial_exhausted: boolean;
   }) {
     track('api_key_saved', props);
@@ -4,17 +4,28 @@
  * Hybrid approach for API key management:
  * - Environment variables for production (priority)
  * - localStorage for development (fallback)
+ * - Optional passphrase encryption (PBKDF2 + AES-GCM via Web Crypto).
+ *   Encrypted keys are decrypted into memory once per page session and
+ *   the passphrase itself is never stored.
  * 
- * @version 2.0.0
+ * @version 2.1.0
  */
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export type ProviderType = 'anthropic' | 'openai';
+export type ProviderType = 'anthropic' | 'openai' | 'google' | 'custom';
 export type StorageType = 'localStorage' | 'sessionStorage';
 
+/** Non-secret settings for the custom OpenAI-compatible endpoint (its key is stored like any other) */
+export interface CustomProviderConfig {
+  /** Base URL, e.g. 'http://localhost:11434/v1' */
+  baseURL: string;
+  /** Model names served by the endpoint, e.g. 'llama3.1:8b' */
+  models: string[];
+}
+
 export interface APIKeyInfo {
   /** The API key (if available) */
   key: string | null;
@@ -27,6 +38,23 @@ export interface APIKeyInfo {
 export interface APIKeyStatus {
   hasAnyKey: boolean;
   providers: Record<ProviderType, APIKeyInfo>;
+  /** Whether stored keys are encrypted with a passphrase */
+  isEncrypted: boolean;
+  /** Whether encrypted keys are still waiting for the passphrase */
+  isLocked: boolean;
+}
+
+/** Stored shape of passphrase-encrypted keys (replaces the obfuscated record) */
+export interface EncryptedKeyEnvelope {
+  version: 1;
+  encrypted: true;
+  iterations: number;
+  /** Base64 PBKDF2 salt */
+  salt: string;
+  /** Base64 AES-GCM nonce, fresh for every write */
+  iv: string;
+  /** Base64 ciphertext of the JSON key record */
+  data: string;
 }
 
 // =============================================================================
@@ -35,17 +63,142 @@ export interface APIKeyStatus {
 
 const STORAGE_KEY = 'projectloom:api-keys';
 const STORAGE_PREF_KEY = 'projectloom:storage-preference';
+const CUSTOM_PROVIDER_KEY = 'projectloom:custom-provider';
 
 const PROVIDER_DISPLAY_NAMES: Record<ProviderType, string> = {
   anthropic: 'Anthropic (Claude)',
   openai: 'OpenAI',
+  google: 'Google (Gemini)',
+  custom: 'Custom (OpenAI-compatible)',
 };
 
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// =============================================================================
+// ENCRYPTION HELPERS
+// =============================================================================
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function base64ToBytes(encoded: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+}
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedKeyEnvelope {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<EncryptedKeyEnvelope>;
+  return candidate.encrypted === true
+    && typeof candidate.salt === 'string'
+    && typeof candidate.iv === 'string'
+    && typeof candidate.data === 'string';
+}
+
+/**
+ * Derive a non-extractable AES-GCM key from a passphrase
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a key record into a storable envelope
+ */
+export async function sealKeys(
+  keys: Record<string, string>,
+  cryptoKey: CryptoKey,
+  salt: Uint8Array,
+  iterations = PBKDF2_ITERATIONS
+): Promise<EncryptedKeyEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    cryptoKey,
+    new TextEncoder().encode(JSON.stringify(keys))
+  );
+  return {
+    version: 1,
+    encrypted: true,
+    iterations,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt an envelope. Rejects when the key does not match (wrong passphrase).
+ */
+export async function openKeys(
+  envelope: EncryptedKeyEnvelope,
+  cryptoKey: CryptoKey
+): Promise<Record<string, string>> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) },
+    cryptoKey,
+    base64ToBytes(envelope.data)
+  );
+  const parsed: unknown = JSON.parse(new TextDecoder().decode(plaintext));
+  const result: Record<string, string> = {};
+  if (parsed && typeof parsed === 'object') {
+    for (const [key, value] of Object.entries(parsed)) {
+      if (typeof value === 'string') result[key] = value;
+    }
+  }
+  return result;
+}
+
 // =============================================================================
 // API KEY MANAGER CLASS
 // =============================================================================
 
 class APIKeyManager {
+  /** Decrypted keys while unlocked (encrypted mode only) */
+  private unlockedKeys: Record<string, string> | null = null;
+  /** Derived key + salt used to re-encrypt on save while unlocked */
+  private encryption: { cryptoKey: CryptoKey; salt: Uint8Array<ArrayBuffer>; iterations: number } | null = null;
+  /** Serializes encrypted writes so they land in order */
+  private writeQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Subscribe to lock/unlock and encryption changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
   /**
    * Get the storage object based on preference
    */
@@ -116,6 +269,20 @@ class APIKeyManager {
     }
   }
 
+  /**
+   * Read the raw parsed value stored under the keys entry
+   */
+  private readStoredValue(): unknown {
+    if (!this.isStorageAvailable()) return null;
+
+    try {
+      const raw = this.getStorage()?.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Get stored keys from browser storage
    */
@@ -123,13 +290,14 @@ class APIKeyManager {
     if (!this.isStorageAvailable()) return {};
 
     try {
-      const storage = this.getStorage();
-      if (!storage) return {};
+      const parsed = this.readStoredValue();
+      if (!parsed || typeof parsed !== 'object') return {};
 
-      const raw = storage.getItem(STORAGE_KEY);
-      if (!raw) return {};
+      // Encrypted keys are only readable once unlocked
+      if (isEncryptedEnvelope(parsed)) {
+        return this.unlockedKeys ? { ...this.unlockedKeys } : {};
+      }
 
-      const parsed = JSON.parse(raw);
       // Deobfuscate keys
       const result: Record<string, string> = {};
       for (const [key, value] of Object.entries(parsed)) {
@@ -161,6 +329,138 @@ class APIKeyManager {
     }
   }
 
+  /**
+   * Write the full key record in the current storage mode
+   */
+  private writeKeys(keys: Record<string, string>): boolean {
+    const storage = this.getStorage();
+    if (!storage) return false;
+
+    if (this.isEncrypted()) {
+      const encryption = this.encryption;
+      if (!this.unlockedKeys || !encryption) return false;
+
+      this.unlockedKeys = { ...keys };
+      const snapshot = { ...keys };
+      this.writeQueue = this.writeQueue
+        .then(async () => {
+          const envelope = await sealKeys(snapshot, encryption.cryptoKey, encryption.salt, encryption.iterations);
+          // The storage preference may have changed while queued
+          this.getStorage()?.setItem(STORAGE_KEY, JSON.stringify(envelope));
+        })
+        .catch((error) => {
+          console.warn('[APIKeyManager] Failed to write encrypted keys', error);
+        });
+      return true;
+    }
+
+    // Obfuscate before storing
+    const toStore: Record<string, string> = {};
+    for (const [k, v] of Object.entries(keys)) {
+      toStore[k] = this.obfuscate(v);
+    }
+
+    storage.setItem(STORAGE_KEY, JSON.stringify(toStore));
+    return true;
+  }
+
+  /**
+   * Whether stored keys are encrypted with a passphrase
+   */
+  isEncrypted(): boolean {
+    return isEncryptedEnvelope(this.readStoredValue());
+  }
+
+  /**
+   * Whether stored keys are encrypted and not yet unlocked this session
+   */
+  isLocked(): boolean {
+    return this.unlockedKeys === null && this.isEncrypted();
+  }
+
+  /**
+   * Decrypt stored keys into memory. Resolves false for a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const envelope = this.readStoredValue();
+    if (!isEncryptedEnvelope(envelope)) return false;
+
+    try {
+      const salt = base64ToBytes(envelope.salt);
+      const iterations = envelope.iterations || PBKDF2_ITERATIONS;
+      const cryptoKey = await deriveKeyFromPassphrase(passphrase, salt, iterations);
+      this.unlockedKeys = await openKeys(envelope, cryptoKey);
+      this.encryption = { cryptoKey, salt, iterations };
+      this.notify();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Forget decrypted keys until the passphrase is entered again
+   */
+  lock(): void {
+    if (!this.unlockedKeys && !this.encryption) return;
+    this.unlockedKeys = null;
+    this.encryption = null;
+    this.notify();
+  }
+
+  /**
+   * Encrypt the currently stored keys with a passphrase.
+   * Later saves stay encrypted until encryption is disabled.
+   */
+  async enableEncryption(passphrase: string): Promise<boolean> {
+    if (!passphrase || this.isEncrypted()) return false;
+
+    const storage = this.getStorage();
+    if (!storage || !this.isStorageAvailable()) return false;
+
+    try {
+      const keys = this.getStoredKeys();
+      const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+      const cryptoKey = await deriveKeyFromPassphrase(passphrase, salt);
+      const envelope = await sealKeys(keys, cryptoKey, salt);
+      storage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+      this.unlockedKeys = keys;
+      this.encryption = { cryptoKey, salt, iterations: PBKDF2_ITERATIONS };
+      this.notify();
+      return true;
+    } catch (error) {
+      console.warn('[APIKeyManager] Failed to enable encryption', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store the unlocked keys back in the obfuscated plaintext format.
+   * Keys must be unlocked first.
+   */
+  async disableEncryption(): Promise<boolean> {
+    if (!this.isEncrypted()) return true;
+    if (!this.unlockedKeys) return false;
+
+    // Let pending encrypted writes land before replacing them
+    await this.writeQueue;
+
+    const keys = this.unlockedKeys;
+    this.unlockedKeys = null;
+    this.encryption = null;
+    const storage = this.getStorage();
+    if (!storage) return false;
+
+    try {
+      storage.removeItem(STORAGE_KEY);
+      const success = this.writeKeys(keys);
+      this.notify();
+      return success;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Get API key for a provider
    */
@@ -198,20 +498,11 @@ class APIKeyManager {
     if (!this.isStorageAvailable()) return false;
 
     try {
-      const storage = this.getStorage();
-      if (!storage) return false;
+      if (this.isLocked()) return false;
 
       const keys = this.getStoredKeys();
       keys[provider] = key;
-
-      // Obfuscate before storing
-      const toStore: Record<string, string> = {};
-      for (const [k, v] of Object.entries(keys)) {
-        toStore[k] = this.obfuscate(v);
-      }
-
-      storage.setItem(STORAGE_KEY, JSON.stringify(toStore));
-      return true;
+      return this.writeKeys(keys);
     } catch {
       return false;
     }
@@ -224,27 +515,19 @@ class APIKeyManager {
     if (!this.isStorageAvailable()) return false;
 
     try {
-      const storage = this.getStorage();
-      if (!storage) return false;
+      if (this.isLocked()) return false;
 
       const keys = this.getStoredKeys();
       delete keys[provider];
-
-      // Obfuscate remaining before storing
-      const toStore: Record<string, string> = {};
-      for (const [k, v] of Object.entries(keys)) {
-        toStore[k] = this.obfuscate(v);
-      }
-
-      storage.setItem(STORAGE_KEY, JSON.stringify(toStore));
-      return true;
+      return this.writeKeys(keys);
     } catch {
       return false;
     }
   }
 
   /**
-   * Clear all stored keys
+   * Clear all stored keys. Also drops encryption, which makes this the
+   * reset path for a forgotten passphrase.
    */
   clearKeys(): boolean {
     if (!this.isStorageAvailable()) return false;
@@ -253,31 +536,106 @@ class APIKeyManager {
       const storage = this.getStorage();
       if (!storage) return false;
 
+      const wasEncrypted = this.isEncrypted();
       storage.removeItem(STORAGE_KEY);
+      this.unlockedKeys = null;
+      this.encryption = null;
+      if (wasEncrypted) this.notify();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the custom endpoint settings (always in localStorage — nothing secret)
+   */
+  getCustomProvider(): CustomProviderConfig | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const raw = window.localStorage.getItem(CUSTOM_PROVIDER_KEY);
+      if (!raw) return null;
+      const parsed = JSON.parse(raw) as Partial<CustomProviderConfig>;
+      if (typeof parsed.baseURL !== 'string' || !parsed.baseURL) return null;
+      const models = Array.isArray(parsed.models)
+        ? parsed.models.filter((model): model is string => typeof model === 'string' && model.length > 0)
+        : [];
+      return { baseURL: parsed.baseURL, models };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save the custom endpoint settings. Model names are trimmed and deduplicated.
+   */
+  saveCustomProvider(config: CustomProviderConfig): boolean {
+    if (typeof window === 'undefined') return false;
+    if (!this.validateCustomBaseURL(config.baseURL).valid) return false;
+
+    try {
+      const models = Array.from(new Set(config.models.map((model) => model.trim()).filter(Boolean)));
+      window.localStorage.setItem(CUSTOM_PROVIDER_KEY, JSON.stringify({ baseURL: config.baseURL.trim(), models }));
+      this.notify();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remove the custom endpoint and its key
+   */
+  removeCustomProvider(): boolean {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      window.localStorage.removeItem(CUSTOM_PROVIDER_KEY);
+      if (this.getKey('custom')) this.removeKey('custom');
+      this.notify();
       return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Credentials for the custom endpoint as sent to the API routes
+   */
+  getCustomProviderCredentials(): { baseURL: string; apiKey?: string } | undefined {
+    const config = this.getCustomProvider();
+    if (!config) return undefined;
+    return { baseURL: config.baseURL, apiKey: this.getKey('custom') ?? undefined };
+  }
+
   /**
    * Check if user has at least one API key configured.
-   * Anthropic key for Claude models, OpenAI key for GPT models.
+   * Anthropic key for Claude, OpenAI key for GPT, Google key for Gemini; a custom
+   * endpoint counts once it has a base URL and at least one model.
    */
   hasAnyKey(): boolean {
-    return this.getKey('anthropic') !== null || this.getKey('openai') !== null;
+    return this.getKey('anthropic') !== null
+      || this.getKey('openai') !== null
+      || this.getKey('google') !== null
+      || (this.getCustomProvider()?.models.length ?? 0) > 0;
   }
 
   /**
    * Get status of all providers
    */
   getStatus(): APIKeyStatus {
+    const isEncrypted = this.isEncrypted();
     return {
       hasAnyKey: this.hasAnyKey(),
       providers: {
         anthropic: this.getKeyInfo('anthropic'),
         openai: this.getKeyInfo('openai'),
+        google: this.getKeyInfo('google'),
+        custom: this.getKeyInfo('custom'),
       },
+      isEncrypted,
+      isLocked: isEncrypted && this.unlockedKeys === null,
     };
   }
 
@@ -304,6 +662,21 @@ class APIKeyManager {
     return `${key.slice(0, 8)}••••••••${key.slice(-4)}`;
   }
 
+  /**
+   * Validate a custom endpoint base URL (the API routes only accept http(s))
+   */
+  validateCustomBaseURL(baseURL: string): { valid: boolean; error?: string } {
+    try {
+      const url = new URL(baseURL.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { valid: false, error: 'Base URL must start with http:// or https://' };
+      }
+      return { valid: true };
+    } catch {
+      return { valid: false, error: 'Enter a full URL, e.g. http://localhost:11434/v1' };
+    }
+  }
+
   /**
    * Validate API key format (basic validation)
    */
@@ -323,6 +696,14 @@ class APIKeyManager {
           return { valid: false, error: 'OpenAI API keys should start with "sk-"' };
         }
         break;
+      case 'google':
+        if (!key.startsWith('AIza')) {
+          return { valid: false, error: 'Google API keys should start with "AIza"' };
+        }
+        break;
+      case 'custom':
+        // Self-hosted servers use arbitrary tokens
+        break;
     }
 
     return { valid: true };
@@ -339,7 +720,7 @@ export const apiKeyManager = new APIKeyManager();
 // REACT HOOK (for components)
 // =============================================================================
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 
 export function useAPIKeyStatus() {
   const [status, setStatus] = useState<APIKeyStatus>(() => apiKeyManager.getStatus());
@@ -348,6 +729,9 @@ export function useAPIKeyStatus() {
     setStatus(apiKeyManager.getStatus());
   }, []);
 
+  // Refresh after unlock/lock and encryption changes
+  useEffect(() => apiKeyManager.subscribe(refreshStatus), [refreshStatus]);
+
   const saveKey = useCallback((provider: ProviderType, key: string): boolean => {
     const success = apiKeyManager.saveKey(provider, key);
     if (success) refreshStatus();
@@ -366,6 +750,8 @@ export function useAPIKeyStatus() {
     saveKey,
     removeKey,
     hasDevModeKeys: status.providers.anthropic.isDevMode
-      || status.providers.openai.isDevMode,
+      || status.providers.openai.isDevMode
+      || status.providers.google.isDevMode
+      || status.providers.custom.isDevMode,
   };
 }
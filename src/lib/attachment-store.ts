@@ -0,0 +1,285 @@
+/**
+ * Attachment Blob Store
+ *
+ * Content-addressed IndexedDB store for message attachment data. Messages keep
+ * a `blobId` reference (SHA-256 of the data URL) instead of the base64 payload,
+ * so a file is stored once no matter how many branches inherit the message or
+ * how many undo snapshots contain it.
+ */
+
+import type { Conversation, Message, MessageAttachment } from '@/types';
+
+const DB_NAME = 'projectloom-attachments';
+const DB_VERSION = 1;
+const STORE_NAME = 'blobs';
+
+/** Unreferenced blobs younger than this survive GC (draft attachments not yet sent) */
+const GC_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+export interface AttachmentBlobRecord {
+  /** `sha256-<hex>` of the data URL */
+  id: string;
+  contentType: string;
+  dataUrl: string;
+  size: number;
+  createdAt: number;
+}
+
+/** Data URLs already written or read this session, keyed by blob ID */
+const blobCache = new Map<string, string>();
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open IndexedDB'));
+  });
+}
+
+function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDb().then((db) => {
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const store = tx.objectStore(STORE_NAME);
+      const request = action(store);
+
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+
+      tx.oncomplete = () => db.close();
+      tx.onerror = () => {
+        db.close();
+        reject(tx.error || new Error('IndexedDB transaction failed'));
+      };
+    });
+  });
+}
+
+async function hashDataUrl(dataUrl: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dataUrl));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `sha256-${hex}`;
+}
+
+/**
+ * Store a data URL and return its content-addressed blob ID.
+ * Storing the same content twice is a no-op.
+ */
+export async function putAttachmentBlob(dataUrl: string, contentType: string): Promise<string> {
+  const id = await hashDataUrl(dataUrl);
+  if (blobCache.has(id)) return id;
+
+  const record: AttachmentBlobRecord = {
+    id,
+    contentType,
+    dataUrl,
+    size: dataUrl.length,
+    createdAt: Date.now(),
+  };
+  await withStore('readwrite', (store) => store.put(record));
+  blobCache.set(id, dataUrl);
+  return id;
+}
+
+/**
+ * Move an attachment's inline data into the blob store.
+ * The returned attachment keeps its `url` so drafts can still preview it;
+ * `toAttachmentReference` drops the payload once the message is committed.
+ * If the blob store is unavailable the attachment stays inline.
+ */
+export async function storeAttachment(attachment: MessageAttachment): Promise<MessageAttachment> {
+  if (attachment.blobId || !attachment.url.startsWith('data:')) return attachment;
+
+  try {
+    const blobId = await putAttachmentBlob(attachment.url, attachment.contentType);
+    return { ...attachment, blobId };
+  } catch (error) {
+    console.warn('[AttachmentStore] Failed to store blob, keeping attachment inline', error);
+    return attachment;
+  }
+}
+
+/**
+ * Strip inline data from blob-backed attachments (what messages persist)
+ */
+export function toAttachmentReference(attachment: MessageAttachment): MessageAttachment {
+  return attachment.blobId ? { ...attachment, url: '' } : attachment;
+}
+
+/**
+ * Data URL for a blob already loaded this session, without touching IndexedDB
+ */
+export function getCachedAttachmentBlob(id: string): string | null {
+  return blobCache.get(id) ?? null;
+}
+
+export async function getAttachmentBlob(id: string): Promise<string | null> {
+  const cached = blobCache.get(id);
+  if (cached) return cached;
+
+  try {
+    const record = await withStore<AttachmentBlobRecord | undefined>('readonly', (store) => store.get(id));
+    if (!record) return null;
+    blobCache.set(id, record.dataUrl);
+    return record.dataUrl;
+  } catch (error) {
+    console.warn('[AttachmentStore] Failed to read blob', id, error);
+    return null;
+  }
+}
+
+/**
+ * Fill in `url` for blob-backed attachments. Missing blobs resolve to an
+ * empty url rather than failing the whole message.
+ */
+export async function resolveAttachments(attachments: MessageAttachment[]): Promise<MessageAttachment[]> {
+  return Promise.all(attachments.map(async (attachment) => {
+    if (!attachment.blobId || attachment.url) return attachment;
+    const url = await getAttachmentBlob(attachment.blobId);
+    return { ...attachment, url: url ?? '' };
+  }));
+}
+
+export async function resolveMessageAttachments<T extends { attachments?: MessageAttachment[] }>(
+  messages: T[]
+): Promise<T[]> {
+  return Promise.all(messages.map(async (message) => {
+    if (!message.attachments?.some((attachment) => attachment.blobId && !attachment.url)) return message;
+    return { ...message, attachments: await resolveAttachments(message.attachments) };
+  }));
+}
+
+/**
+ * For a stored Message, inline any text file attachments back into the content
+ * so the model has access to file contents throughout the conversation history,
+ * not just in the turn the file was originally attached.
+ */
+export function inlineTextAttachments(msg: { content: string; attachments?: MessageAttachment[] }): string {
+  const content = msg.content ?? '';
+  if (!msg.attachments?.length) return content;
+  const parts: string[] = [];
+  for (const att of msg.attachments) {
+    const contentType = att.contentType ?? '';
+    const url = att.url ?? '';
+    // Accept text/* content types, OR any non-image data URL (handles Windows .md files
+    // that the browser reports with empty MIME type before normalizeContentType was applied)
+    const isTextType = contentType.startsWith('text/');
+    const isNonImageDataUrl = !contentType.startsWith('image/') && url.startsWith('data:');
+    if ((isTextType || isNonImageDataUrl) && url.startsWith('data:')) {
+      try {
+        const base64Data = url.split(',')[1];
+        if (base64Data) {
+          const binaryString = atob(base64Data);
+          const bytes = new Uint8Array(binaryString.length);
+          for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+          const text = new TextDecoder('utf-8').decode(bytes);
+          parts.push(`[Attached file: ${att.name}]\n\n${text}`);
+        }
+      } catch {
+        // Silently skip undecodable attachments
+      }
+    }
+  }
+  if (parts.length === 0) return content;
+  return parts.join('\n\n---\n\n') + '\n\n---\n\n' + content;
+}
+
+/**
+ * Messages as a chat request sends them: blob-backed attachments resolved and
+ * text files inlined into the content. Use it to measure or summarize what
+ * the model actually receives.
+ */
+export async function withInlinedAttachments<T extends { content: string; attachments?: MessageAttachment[] }>(
+  messages: T[]
+): Promise<T[]> {
+  const resolved = await resolveMessageAttachments(messages);
+  return resolved.map((message) => (
+    message.attachments?.length ? { ...message, content: inlineTextAttachments(message) } : message
+  ));
+}
+
+/**
+ * Add every blob ID referenced by these conversations, including copies
+ * carried in inherited context
+ */
+export function collectAttachmentBlobIds(conversations: Iterable<Conversation>, into: Set<string>): void {
+  const addFrom = (messages: Message[]) => {
+    messages.forEach((msg) => {
+      msg.attachments?.forEach((att) => {
+        if (att.blobId) into.add(att.blobId);
+      });
+    });
+  };
+
+  for (const conv of conversations) {
+    addFrom(conv.content);
+    Object.values(conv.inheritedContext ?? {}).forEach((entry) => addFrom(entry.messages));
+  }
+}
+
+/**
+ * Delete every blob not in `referencedIds`. Blobs created within the grace
+ * period are kept so attachments waiting in an unsent draft are not lost.
+ * Returns the number of blobs removed.
+ */
+export async function collectAttachmentGarbage(referencedIds: Set<string>): Promise<number> {
+  const db = await openDb();
+  const cutoff = Date.now() - GC_GRACE_PERIOD_MS;
+  let removed = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const cursorRequest = store.openCursor();
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const record = cursor.value as AttachmentBlobRecord;
+      if (!referencedIds.has(record.id) && record.createdAt < cutoff) {
+        cursor.delete();
+        blobCache.delete(record.id);
+        removed++;
+      }
+      cursor.continue();
+    };
+
+    cursorRequest.onerror = () => reject(cursorRequest.error || new Error('Failed to scan attachment blobs'));
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error || new Error('Failed to collect attachment blobs'));
+  });
+
+  db.close();
+  return removed;
+}
+
+export async function clearAttachmentStorage(): Promise<void> {
+  blobCache.clear();
+  if (typeof indexedDB === 'undefined') return;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error || new Error('Failed to delete attachment storage'));
+    request.onblocked = () => reject(new Error('Attachment storage deletion was blocked'));
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Branch Compare
+ *
+ * Aligns the messages of several cards after the point where their lineages
+ * diverge and computes word-level diffs between corresponding responses.
+ * Used by BranchComparisonDialog, and by StaleContextBanner to show how a
+ * parent's messages changed since a card inherited them.
+ */
+
+import { collectLineage } from '@/stores/canvas-store';
+import type { Conversation, Message } from '@/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ComparedBranch {
+  conversation: Conversation;
+  /** Messages after the shared history, in order */
+  messages: Message[];
+}
+
+export interface MessageChange {
+  type: 'unchanged' | 'changed' | 'added' | 'removed';
+  /** Message as it was (absent for `added`) */
+  previous?: Message;
+  /** Message as it is now (absent for `removed`) */
+  current?: Message;
+}
+
+export interface BranchComparison {
+  branches: ComparedBranch[];
+  /** Deepest card all compared lineages pass through (null if they share none) */
+  commonAncestor: Conversation | null;
+  /** Number of leading messages every lineage has in common */
+  sharedMessageCount: number;
+  /** Row count of the aligned view (longest branch after the shared history) */
+  rowCount: number;
+}
+
+// =============================================================================
+// WORD DIFF
+// =============================================================================
+
+/**
+ * LCS table cells allowed before falling back to a coarse diff. Keeps very
+ * long responses (several thousand words each) from freezing the UI.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Split into words and the whitespace between them, so joining restores the input */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of `before` → `after`. Joining the `equal` and `removed`
+ * segments yields `before`; joining `equal` and `added` yields `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'removed', midA.join(''));
+    pushSegment(segments, 'added', midB.join(''));
+  } else if (rows > 0 || cols > 0) {
+    // lcs[i * (cols + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const width = cols + 1;
+    const lcs = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushSegment(segments, 'removed', midA[i++]);
+      } else {
+        pushSegment(segments, 'added', midB[j++]);
+      }
+    }
+    pushSegment(segments, 'removed', midA.slice(i).join(''));
+    pushSegment(segments, 'added', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}
+
+// =============================================================================
+// MESSAGE DIFF
+// =============================================================================
+
+/**
+ * Align two versions of a message list by message ID, in current order.
+ * Messages dropped from `current` are listed where they used to be.
+ */
+export function diffMessages(previous: Message[], current: Message[]): MessageChange[] {
+  const previousIndex = new Map(previous.map((msg, index) => [msg.id, index]));
+  const currentIds = new Set(current.map((msg) => msg.id));
+  const changes: MessageChange[] = [];
+  let next = 0;
+
+  const flushRemoved = (until: number) => {
+    for (; next < until; next++) {
+      if (!currentIds.has(previous[next].id)) changes.push({ type: 'removed', previous: previous[next] });
+    }
+  };
+
+  for (const msg of current) {
+    const index = previousIndex.get(msg.id);
+    if (index === undefined) {
+      changes.push({ type: 'added', current: msg });
+      continue;
+    }
+    flushRemoved(index);
+    next = Math.max(next, index + 1);
+    const before = previous[index];
+    changes.push({ type: before.content === msg.content ? 'unchanged' : 'changed', previous: before, current: msg });
+  }
+  flushRemoved(previous.length);
+
+  return changes;
+}
+
+// =============================================================================
+// ALIGNMENT
+// =============================================================================
+
+/** Messages shown in the comparison (no empty turns or system notices) */
+function isComparable(message: Message): boolean {
+  return message.role !== 'system' && !!message.content?.trim();
+}
+
+/**
+ * Align the given cards for side-by-side comparison. Each card's lineage
+ * (root → card) is flattened; the longest run of leading messages shared by
+ * all of them (by message ID) is the common history, and everything after
+ * it is compared row by row.
+ */
+export function buildBranchComparison(
+  cardIds: string[],
+  conversations: Map<string, Conversation>,
+): BranchComparison {
+  const lineages = cardIds
+    .map((id) => conversations.get(id))
+    .filter((conv): conv is Conversation => !!conv)
+    .map((conversation) => {
+      const segments = collectLineage(conversation, conversations);
+      return {
+        conversation,
+        cardIds: segments.map((segment) => segment.conversation.id),
+        messages: segments.flatMap((segment) => segment.messages).filter(isComparable),
+      };
+    });
+
+  let sharedMessageCount = 0;
+  if (lineages.length > 0) {
+    const shortest = Math.min(...lineages.map((lineage) => lineage.messages.length));
+    while (
+      sharedMessageCount < shortest
+      && lineages.every((lineage) => lineage.messages[sharedMessageCount].id === lineages[0].messages[sharedMessageCount].id)
+    ) {
+      sharedMessageCount++;
+    }
+  }
+
+  let commonAncestor: Conversation | null = null;
+  if (lineages.length > 0) {
+    for (const ancestorId of lineages[0].cardIds) {
+      if (!lineages.every((lineage) => lineage.cardIds.includes(ancestorId))) break;
+      commonAncestor = conversations.get(ancestorId) ?? null;
+    }
+  }
+
+  const branches = lineages.map((lineage) => ({
+    conversation: lineage.conversation,
+    messages: lineage.messages.slice(sharedMessageCount),
+  }));
+
+  return {
+    branches,
+    commonAncestor,
+    sharedMessageCount,
+    rowCount: Math.max(0, ...branches.map((branch) => branch.messages.length)),
+  };
+}
@@ -0,0 +1,458 @@
+/**
+ * Canvas History
+ *
+ * Undo/redo entries stored as diffs. The first entry holds every card and
+ * the edge list; each later entry holds only the cards whose node or
+ * conversation changed since the previous entry (null = removed) and the
+ * edge list when it changed. Unchanged cards are shared by reference with
+ * the live state, so recording stays cheap on large canvases.
+ *
+ * The last entries of each workspace can be persisted to IndexedDB so undo
+ * survives a reload.
+ */
+
+import type { Edge, Node } from '@xyflow/react';
+
+import { collectAttachmentBlobIds } from '@/lib/attachment-store';
+import type { Conversation, ConversationNodeData } from '@/types';
+
+const DB_NAME = 'projectloom-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+/** Entries kept in memory */
+export const MAX_HISTORY_LENGTH = 50;
+/** Entries persisted per workspace */
+export const PERSISTED_HISTORY_LENGTH = 20;
+
+type HistoryNode = Node<ConversationNodeData>;
+
+export interface HistoryCard {
+  node: HistoryNode;
+  conversation: Conversation;
+}
+
+export interface HistoryEntry {
+  /** What the operation did, e.g. "Branch from message 3" */
+  label: string;
+  timestamp: Date;
+  /** Cards changed by this entry; null marks a removed card */
+  cards: Map<string, HistoryCard | null>;
+  /** Full edge list, present only when edges changed */
+  edges?: Edge[];
+}
+
+/** Live canvas state history is recorded from and applied to */
+export interface HistoryState {
+  nodes: HistoryNode[];
+  edges: Edge[];
+  conversations: Map<string, Conversation>;
+}
+
+/** Card and edge values to put in place when stepping through history */
+export type HistoryChanges = Pick<HistoryEntry, 'cards' | 'edges'>;
+
+interface PersistedHistory {
+  workspaceId: string;
+  index: number;
+  entries: HistoryEntry[];
+}
+
+// =============================================================================
+// ENTRIES
+// =============================================================================
+
+/**
+ * First entry of a history: the full state
+ */
+export function createHistoryBase(state: HistoryState, label = 'Opened workspace'): HistoryEntry {
+  const cards = new Map<string, HistoryCard | null>();
+  state.nodes.forEach((node) => {
+    const conversation = state.conversations.get(node.id);
+    if (conversation) cards.set(node.id, { node, conversation });
+  });
+
+  return { label, timestamp: new Date(), cards, edges: state.edges };
+}
+
+function resolveCards(history: HistoryEntry[], index: number): Map<string, HistoryCard> {
+  const cards = new Map<string, HistoryCard>();
+  for (let i = 0; i <= index && i < history.length; i++) {
+    history[i].cards.forEach((card, id) => {
+      if (card) cards.set(id, card);
+      else cards.delete(id);
+    });
+  }
+  return cards;
+}
+
+function resolveEdges(history: HistoryEntry[], index: number): Edge[] {
+  for (let i = Math.min(index, history.length - 1); i >= 0; i--) {
+    const edges = history[i].edges;
+    if (edges) return edges;
+  }
+  return [];
+}
+
+function cardAt(history: HistoryEntry[], index: number, id: string): HistoryCard | null {
+  for (let i = Math.min(index, history.length - 1); i >= 0; i--) {
+    if (history[i].cards.has(id)) return history[i].cards.get(id) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Cards and edges of `live` that differ from the state at `index`, or null
+ * when nothing changed
+ */
+export function diffHistoryState(history: HistoryEntry[], index: number, live: HistoryState): HistoryChanges | null {
+  const previous = resolveCards(history, index);
+  const cards = new Map<string, HistoryCard | null>();
+  const liveIds = new Set<string>();
+
+  live.nodes.forEach((node) => {
+    const conversation = live.conversations.get(node.id);
+    if (!conversation) return;
+    liveIds.add(node.id);
+
+    const recorded = previous.get(node.id);
+    if (!recorded || recorded.node !== node || recorded.conversation !== conversation) {
+      cards.set(node.id, { node, conversation });
+    }
+  });
+  previous.forEach((_, id) => {
+    if (!liveIds.has(id)) cards.set(id, null);
+  });
+
+  const previousEdges = resolveEdges(history, index);
+  const edgesChanged = previousEdges !== live.edges
+    && (previousEdges.length !== live.edges.length || live.edges.some((edge, i) => edge !== previousEdges[i]));
+
+  if (cards.size === 0 && !edgesChanged) return null;
+  return edgesChanged ? { cards, edges: live.edges } : { cards };
+}
+
+/**
+ * Append `entry` after `index`, dropping any redo entries and folding the
+ * oldest entries into the base once `limit` is exceeded
+ */
+export function pushHistoryEntry(
+  history: HistoryEntry[],
+  index: number,
+  entry: HistoryEntry,
+  limit = MAX_HISTORY_LENGTH
+): HistoryEntry[] {
+  const next = history.slice(0, index + 1);
+  next.push(entry);
+
+  while (next.length > Math.max(limit, 1)) {
+    const [base, following] = next;
+    const cards = new Map(base.cards);
+    following.cards.forEach((card, id) => {
+      if (card) cards.set(id, card);
+      else cards.delete(id);
+    });
+    next.splice(0, 2, { ...following, cards, edges: following.edges ?? base.edges });
+  }
+
+  return next;
+}
+
+/**
+ * Make `card` the recorded value of its id at `index`, e.g. to capture
+ * messages sent since the card was last recorded before deleting it
+ */
+export function patchHistoryCard(history: HistoryEntry[], index: number, card: HistoryCard): HistoryEntry[] {
+  if (index < 0 || index >= history.length) return history;
+
+  const id = card.node.id;
+  let target = index;
+  for (let i = index; i >= 0; i--) {
+    if (history[i].cards.has(id)) {
+      target = i;
+      break;
+    }
+  }
+
+  const next = [...history];
+  const cards = new Map(next[target].cards);
+  cards.set(id, card);
+  next[target] = { ...next[target], cards };
+  return next;
+}
+
+/**
+ * Values that undo the entry at `index`
+ */
+export function getUndoChanges(history: HistoryEntry[], index: number): HistoryChanges {
+  const entry = history[index];
+  const cards = new Map<string, HistoryCard | null>();
+  entry.cards.forEach((_, id) => cards.set(id, cardAt(history, index - 1, id)));
+
+  return entry.edges ? { cards, edges: resolveEdges(history, index - 1) } : { cards };
+}
+
+// =============================================================================
+// APPLYING
+// =============================================================================
+
+/**
+ * Undo is structural-only: message content is never reverted, mirroring
+ * Figma/Miro (structural undo should not destroy chat history the user
+ * cannot recover). A card that survives the step keeps its live messages
+ * and generated title; a manual title is only changed when the step itself
+ * renamed the card.
+ */
+function keepLiveContent(restored: Conversation, live: Conversation | undefined, stepped: Conversation | undefined): Conversation {
+  if (!live || live.content.length === 0) return restored;
+
+  const steppedTitle = stepped?.metadata.title;
+  const isRenameStep = steppedTitle !== undefined
+    && restored.metadata.title !== steppedTitle
+    && live.metadata.title === steppedTitle
+    && !!(restored.metadata.titleIsManual || stepped?.metadata.titleIsManual);
+  const titleSource = isRenameStep
+    ? restored.metadata
+    : live.metadata.titleIsManual || live.metadata.titleAutoGenerated
+      ? live.metadata
+      : restored.metadata;
+
+  return {
+    ...restored,
+    content: live.content,
+    metadata: {
+      ...restored.metadata,
+      messageCount: live.content.length,
+      updatedAt: live.metadata.updatedAt,
+      title: titleSource.title,
+      titleIsManual: isRenameStep ? restored.metadata.titleIsManual : live.metadata.titleIsManual,
+      titleAutoGenerated: isRenameStep ? restored.metadata.titleAutoGenerated : live.metadata.titleAutoGenerated,
+    },
+  };
+}
+
+/**
+ * Put `changes` in place on top of the live state. `stepped` holds the
+ * values being stepped away from (the undone entry, or the state before a
+ * redo), used to tell renames apart from later title changes.
+ */
+export function applyHistoryChanges(
+  live: HistoryState,
+  changes: HistoryChanges,
+  stepped: Map<string, HistoryCard | null>
+): HistoryState {
+  const conversations = new Map(live.conversations);
+  const restoredNodes = new Map<string, HistoryNode>();
+
+  changes.cards.forEach((card, id) => {
+    if (!card) {
+      conversations.delete(id);
+      return;
+    }
+    const merged = keepLiveContent(card.conversation, live.conversations.get(id), stepped.get(id)?.conversation);
+    conversations.set(id, merged);
+    // Nodes embed the conversation too; keep both sources of truth consistent
+    restoredNodes.set(id, { ...card.node, data: { ...card.node.data, conversation: merged } });
+  });
+
+  const liveIds = new Set(live.nodes.map((node) => node.id));
+  const nodes = live.nodes
+    .filter((node) => conversations.has(node.id))
+    .map((node) => restoredNodes.get(node.id) ?? node);
+  restoredNodes.forEach((node, id) => {
+    if (!liveIds.has(id)) nodes.push(node);
+  });
+
+  return { nodes, edges: changes.edges ?? live.edges, conversations };
+}
+
+/**
+ * Whether a persisted history ends on the same cards and edges as `live`
+ */
+export function matchesHistoryHead(history: HistoryEntry[], index: number, live: HistoryState): boolean {
+  const cards = resolveCards(history, index);
+  const edges = resolveEdges(history, index);
+  if (cards.size !== live.conversations.size || edges.length !== live.edges.length) return false;
+
+  const edgeIds = new Set(live.edges.map((edge) => edge.id));
+  return Array.from(cards.keys()).every((id) => live.conversations.has(id))
+    && edges.every((edge) => edgeIds.has(edge.id));
+}
+
+/**
+ * Point the state at `index` of a restored history back at the live cards
+ * and edges it equals. Stored entries are copies and diffs compare by
+ * reference, so otherwise the first entry after a reload records every card.
+ */
+export function shareLiveReferences(history: HistoryEntry[], index: number, live: HistoryState): HistoryEntry[] {
+  if (index < 0 || index >= history.length) return history;
+  const next = [...history];
+  const patched = new Set<number>();
+  const serialize = (value: unknown) => JSON.stringify(value);
+
+  live.nodes.forEach((node) => {
+    const conversation = live.conversations.get(node.id);
+    if (!conversation) return;
+
+    let target = -1;
+    for (let i = index; i >= 0; i--) {
+      if (next[i].cards.has(node.id)) {
+        target = i;
+        break;
+      }
+    }
+    const recorded = target >= 0 ? next[target].cards.get(node.id) : null;
+    if (!recorded
+      || recorded.node.position.x !== node.position.x
+      || recorded.node.position.y !== node.position.y
+      || serialize(recorded.conversation) !== serialize(conversation)) return;
+
+    if (!patched.has(target)) {
+      next[target] = { ...next[target], cards: new Map(next[target].cards) };
+      patched.add(target);
+    }
+    next[target].cards.set(node.id, { node, conversation });
+  });
+
+  for (let i = index; i >= 0; i--) {
+    const edges = next[i].edges;
+    if (!edges) continue;
+    if (serialize(edges) === serialize(live.edges)) next[i] = { ...next[i], edges: live.edges };
+    break;
+  }
+
+  return next;
+}
+
+/**
+ * At most `limit` entries around `index`, the first folded into a full base
+ */
+export function trimHistory(
+  history: HistoryEntry[],
+  index: number,
+  limit: number
+): { entries: HistoryEntry[]; index: number } {
+  if (history.length <= limit) return { entries: history, index };
+
+  const start = Math.min(index, history.length - limit);
+  const base: HistoryEntry = {
+    ...history[start],
+    cards: resolveCards(history, start),
+    edges: resolveEdges(history, start),
+  };
+
+  return {
+    entries: [base, ...history.slice(start + 1, start + limit)],
+    index: index - start,
+  };
+}
+
+/**
+ * Add every conversation recorded in `history` to the attachment blob set
+ */
+export function collectHistoryBlobIds(history: HistoryEntry[], into: Set<string>): void {
+  history.forEach((entry) => {
+    const conversations: Conversation[] = [];
+    entry.cards.forEach((card) => {
+      if (card) conversations.push(card.conversation);
+    });
+    collectAttachmentBlobIds(conversations, into);
+  });
+}
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'workspaceId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open history storage'));
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? (request.result as T) : undefined);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error || new Error('History storage transaction failed'));
+    };
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error || new Error('History storage transaction aborted'));
+    };
+  });
+}
+
+/**
+ * Persist the last entries of a workspace's history
+ */
+export async function saveUndoHistory(workspaceId: string, history: HistoryEntry[], index: number): Promise<void> {
+  // A lone base entry has nothing to undo; keep any saved history that may still be restored
+  if (history.length <= 1) return;
+
+  const trimmed = trimHistory(history, index, PERSISTED_HISTORY_LENGTH);
+  const record: PersistedHistory = { workspaceId, index: trimmed.index, entries: trimmed.entries };
+  await withStore('readwrite', (store) => {
+    store.put(record);
+  });
+}
+
+export async function loadUndoHistory(workspaceId: string): Promise<{ entries: HistoryEntry[]; index: number } | null> {
+  const record = await withStore<PersistedHistory | undefined>('readonly', (store) => store.get(workspaceId));
+  if (!record || record.entries.length === 0) return null;
+  return { entries: record.entries, index: Math.min(record.index, record.entries.length - 1) };
+}
+
+export async function deleteUndoHistory(workspaceId: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  await withStore('readwrite', (store) => {
+    store.delete(workspaceId);
+  });
+}
+
+/**
+ * Add every attachment blob referenced by any persisted history to `into`
+ */
+export async function collectPersistedHistoryBlobIds(into: Set<string>): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  const records = await withStore<PersistedHistory[]>('readonly', (store) => store.getAll());
+  (records ?? []).forEach((record) => collectHistoryBlobIds(record.entries, into));
+}
+
+export async function clearUndoHistoryStorage(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error || new Error('Failed to delete history storage'));
+    request.onblocked = () => reject(new Error('History storage deletion was blocked'));
+  });
+}
@@ -0,0 +1,383 @@
+/**
+ * Chat History Import
+ *
+ * Turns ChatGPT (`conversations.json`, branching `mapping` trees) and
+ * Claude.ai data exports into a workspace. Each imported conversation is
+ * split into one card per linear segment: a fork (an edited prompt or a
+ * regenerated reply) ends the segment, and every alternative continues in
+ * a child card with `branchPoint` and full `inheritedContext`, exactly as
+ * if it had been branched on the canvas.
+ */
+
+import { nanoid } from 'nanoid';
+
+import { CURRENT_SCHEMA_VERSION } from '@/lib/storage';
+import { generateTreeLayout } from '@/utils/layoutGenerator';
+import type {
+  Conversation,
+  EdgeConnection,
+  InheritedContextEntry,
+  Message,
+  Workspace,
+} from '@/types';
+
+export type ChatHistorySource = 'chatgpt' | 'claude';
+
+export interface ChatHistoryImportResult {
+  workspace: Workspace;
+  source: ChatHistorySource;
+  /** Conversations in the export that produced at least one card */
+  conversationCount: number;
+}
+
+/** Source-agnostic message node; `parentId` points at the previous turn */
+export interface ImportedTurn {
+  id: string;
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  model?: string;
+}
+
+export interface ImportedConversation {
+  title: string;
+  turns: ImportedTurn[];
+}
+
+const SOURCE_LABELS: Record<ChatHistorySource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+};
+
+const MAX_TITLE_LENGTH = 60;
+
+// =============================================================================
+// EXPORT FORMATS
+// =============================================================================
+
+interface ChatGPTMappingNode {
+  id: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    id: string;
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGPTConversation {
+  title?: string;
+  create_time?: number;
+  mapping: Record<string, ChatGPTMappingNode>;
+}
+
+interface ClaudeChatMessage {
+  uuid: string;
+  parent_message_uuid?: string;
+  sender?: string;
+  text?: string;
+  content?: Array<{ type?: string; text?: string }>;
+  created_at?: string;
+}
+
+interface ClaudeConversation {
+  name?: string;
+  created_at?: string;
+  chat_messages: ClaudeChatMessage[];
+}
+
+function isChatGPTConversation(value: unknown): value is ChatGPTConversation {
+  return !!value && typeof value === 'object' && typeof (value as ChatGPTConversation).mapping === 'object';
+}
+
+function isClaudeConversation(value: unknown): value is ClaudeConversation {
+  return !!value && typeof value === 'object' && Array.isArray((value as ClaudeConversation).chat_messages);
+}
+
+function toDate(value: number | string | null | undefined, fallback: Date): Date {
+  if (value === null || value === undefined) return fallback;
+  // ChatGPT uses Unix seconds, Claude ISO strings
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+  return Number.isNaN(date.getTime()) ? fallback : date;
+}
+
+/**
+ * Visible user/assistant turns only. System prompts, tool calls and hidden
+ * nodes are dropped; their children attach to the nearest kept ancestor.
+ */
+function fromChatGPT(conversation: ChatGPTConversation): ImportedConversation {
+  const fallbackDate = toDate(conversation.create_time, new Date());
+  const mapping = conversation.mapping;
+
+  const toTurn = (node: ChatGPTMappingNode): Omit<ImportedTurn, 'parentId'> | null => {
+    const message = node.message;
+    const role = message?.author?.role;
+    if (!message || (role !== 'user' && role !== 'assistant')) return null;
+    if (message.metadata?.is_visually_hidden_from_conversation) return null;
+
+    const { content_type: contentType, parts, text } = message.content ?? {};
+    let content = '';
+    if (contentType === 'text' || contentType === 'multimodal_text') {
+      content = (parts ?? []).filter((part): part is string => typeof part === 'string').join('\n\n');
+    } else if (contentType === 'code' && typeof text === 'string') {
+      content = text;
+    }
+    if (!content.trim()) return null;
+
+    return {
+      id: node.id,
+      role,
+      content: content.trim(),
+      timestamp: toDate(message.create_time, fallbackDate),
+      ...(role === 'assistant' && message.metadata?.model_slug ? { model: message.metadata.model_slug } : {}),
+    };
+  };
+
+  const kept = new Map<string, Omit<ImportedTurn, 'parentId'>>();
+  Object.values(mapping).forEach((node) => {
+    const turn = node && toTurn(node);
+    if (turn) kept.set(node.id, turn);
+  });
+
+  const nearestKeptAncestor = (nodeId: string): string | null => {
+    const seen = new Set<string>();
+    let current = mapping[nodeId]?.parent ?? null;
+    while (current && !seen.has(current)) {
+      if (kept.has(current)) return current;
+      seen.add(current);
+      current = mapping[current]?.parent ?? null;
+    }
+    return null;
+  };
+
+  return {
+    title: conversation.title?.trim() || 'Untitled',
+    turns: Array.from(kept.values()).map((turn) => ({ ...turn, parentId: nearestKeptAncestor(turn.id) })),
+  };
+}
+
+/**
+ * Claude exports list messages in order; newer exports also carry
+ * `parent_message_uuid`, which is where edits and retries fork. Skipped
+ * messages (empty, non-text, unknown sender) pass their children on to the
+ * nearest kept ancestor.
+ */
+function fromClaude(conversation: ClaudeConversation): ImportedConversation {
+  const fallbackDate = toDate(conversation.created_at, new Date());
+  const turns: ImportedTurn[] = [];
+  const kept = new Set<string>();
+  // Parent of every message seen so far, kept or not
+  const parents = new Map<string, string | null>();
+  let previousId: string | null = null;
+
+  const nearestKeptAncestor = (parentId: string | null): string | null => {
+    const seen = new Set<string>();
+    let current = parentId;
+    while (current && !seen.has(current)) {
+      if (kept.has(current)) return current;
+      seen.add(current);
+      current = parents.get(current) ?? null;
+    }
+    return null;
+  };
+
+  conversation.chat_messages.forEach((message) => {
+    if (!message.uuid) return;
+    const parentId = message.parent_message_uuid !== undefined ? message.parent_message_uuid || null : previousId;
+    parents.set(message.uuid, parentId);
+    previousId = message.uuid;
+
+    const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null;
+    const blocks = (message.content ?? [])
+      .filter((block) => block.type === 'text' && typeof block.text === 'string')
+      .map((block) => block.text!.trim());
+    const content = (blocks.length > 0 ? blocks.join('\n\n') : message.text ?? '').trim();
+    if (!role || !content) return;
+
+    turns.push({
+      id: message.uuid,
+      parentId: nearestKeptAncestor(parentId),
+      role,
+      content,
+      timestamp: toDate(message.created_at, fallbackDate),
+    });
+    kept.add(message.uuid);
+  });
+
+  return { title: conversation.name?.trim() || 'Untitled', turns };
+}
+
+/**
+ * Which product a parsed `conversations.json` (or single conversation) came
+ * from; null if it is neither.
+ */
+export function detectChatHistorySource(value: unknown): ChatHistorySource | null {
+  const entries = Array.isArray(value) ? value : [value];
+  if (entries.length === 0) return null;
+  if (entries.every(isChatGPTConversation)) return 'chatgpt';
+  if (entries.every(isClaudeConversation)) return 'claude';
+  return null;
+}
+
+/**
+ * Parse export file contents. Accepts the `conversations.json` array from
+ * either product, or a single conversation object.
+ */
+export function parseChatHistoryExport(raw: string): { source: ChatHistorySource; conversations: ImportedConversation[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+  const source = detectChatHistorySource(parsed);
+  if (source === 'chatgpt') {
+    return { source, conversations: (entries as ChatGPTConversation[]).map(fromChatGPT) };
+  }
+  if (source === 'claude') {
+    return { source, conversations: (entries as ClaudeConversation[]).map(fromClaude) };
+  }
+
+  throw new Error('Not a ChatGPT or Claude conversations export');
+}
+
+// =============================================================================
+// CARD CONSTRUCTION
+// =============================================================================
+
+function truncateTitle(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine;
+}
+
+/**
+ * Build a new workspace from a parsed export. Cards of every conversation
+ * share one canvas, each conversation laid out as its own tree.
+ */
+export function chatHistoryToWorkspace(
+  source: ChatHistorySource,
+  importedConversations: ImportedConversation[]
+): ChatHistoryImportResult {
+  const now = new Date();
+  const workspaceId = nanoid();
+  const cards: Conversation[] = [];
+  const edges: EdgeConnection[] = [];
+  const layoutConnections: Array<{ source: number; target: number }> = [];
+  let conversationCount = 0;
+
+  importedConversations.forEach((imported) => {
+    if (imported.turns.length === 0) return;
+    conversationCount++;
+
+    const children = new Map<string | null, ImportedTurn[]>();
+    imported.turns.forEach((turn) => {
+      children.set(turn.parentId, [...(children.get(turn.parentId) ?? []), turn]);
+    });
+
+    // Walk a linear run of turns until a fork or leaf, then recurse per alternative
+    const buildSegment = (first: ImportedTurn, parent: { card: Conversation; cardIndex: number } | null) => {
+      const turns: ImportedTurn[] = [first];
+      let next = children.get(first.id) ?? [];
+      while (next.length === 1) {
+        turns.push(next[0]);
+        next = children.get(next[0].id) ?? [];
+      }
+
+      const content: Message[] = turns.map((turn) => ({
+        id: nanoid(),
+        role: turn.role,
+        content: turn.content,
+        timestamp: turn.timestamp,
+        ...(turn.model ? { metadata: { model: turn.model } } : {}),
+      }));
+
+      const inheritedContext: Record<string, InheritedContextEntry> = parent
+        ? {
+          ...parent.card.inheritedContext,
+          [parent.card.id]: {
+            mode: 'full',
+            messages: parent.card.content,
+            timestamp: now,
+            totalParentMessages: parent.card.content.length,
+          },
+        }
+        : {};
+
+      const firstUserTurn = turns.find((turn) => turn.role === 'user');
+      const title = parent
+        ? truncateTitle(firstUserTurn?.content ?? '') || `Branch from message ${parent.card.content.length}`
+        : imported.title;
+
+      const card: Conversation = {
+        id: nanoid(),
+        canvasId: workspaceId,
+        position: { x: 0, y: 0 },
+        content,
+        connections: [],
+        parentCardIds: parent ? [parent.card.id] : [],
+        ...(parent ? { branchPoint: { parentCardId: parent.card.id, messageIndex: parent.card.content.length - 1 } } : {}),
+        inheritedContext,
+        isMergeNode: false,
+        metadata: {
+          title,
+          titleIsManual: true,
+          createdAt: turns[0].timestamp,
+          updatedAt: turns[turns.length - 1].timestamp,
+          messageCount: content.length,
+          tags: [],
+          isExpanded: false,
+        },
+      };
+
+      const cardIndex = cards.length;
+      cards.push(card);
+
+      if (parent) {
+        layoutConnections.push({ source: parent.cardIndex, target: cardIndex });
+        edges.push({
+          id: `edge-branch-${parent.card.id}-${card.id}`,
+          source: parent.card.id,
+          target: card.id,
+          curveType: 'bezier',
+          relationType: 'branch',
+        });
+      }
+
+      next.forEach((child) => buildSegment(child, { card, cardIndex }));
+    };
+
+    (children.get(null) ?? []).forEach((root) => buildSegment(root, null));
+  });
+
+  const layout = generateTreeLayout(layoutConnections, { count: cards.length, jitter: 0 });
+  cards.forEach((card, index) => {
+    card.position = layout.positions[index] ?? card.position;
+  });
+
+  const title = `${SOURCE_LABELS[source]} import (${now.toLocaleDateString()})`;
+
+  return {
+    workspace: {
+      id: workspaceId,
+      title,
+      conversations: cards,
+      edges,
+      tags: [],
+      context: { instructions: '', knowledgeBaseFiles: [], updatedAt: now },
+      metadata: {
+        title,
+        createdAt: now,
+        updatedAt: now,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+      },
+    },
+    source,
+    conversationCount,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Context Compaction
+ *
+ * Measures how much of a model's context window a card's next request uses
+ * and decides when to compact: once the request passes COMPACTION_THRESHOLD,
+ * the inherited context and all but the most recent messages are rolled into
+ * a summary (a CompactionCheckpoint on the card). getConversationMessages
+ * then sends the summary in their place; the raw messages stay on the card.
+ */
+
+import { estimateMessagesTokens, estimateTokens, getModelById } from '@/lib/vercel-ai-integration';
+import type { CompactionCheckpoint, Conversation } from '@/types';
+
+/** Share of the context window a request may use before it is compacted */
+export const COMPACTION_THRESHOLD = 0.8;
+
+/** Most recent messages that always stay verbatim */
+export const KEEP_RECENT_MESSAGES = 4;
+
+/** Context window assumed for models missing from the catalog */
+export const DEFAULT_CONTEXT_WINDOW = 32000;
+
+/** Share of the summarizing model's window one summary request may fill */
+const SUMMARY_INPUT_RATIO = 0.5;
+
+/** Room left in each summary stage for the summary of the stages before it */
+const SUMMARY_CARRY_TOKENS = 2000;
+
+export function getContextWindow(modelId: string | null | undefined): number {
+  return (modelId ? getModelById(modelId)?.contextWindow : undefined) ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+export interface ContextUsage {
+  /** Estimated tokens of the request */
+  tokens: number;
+  contextWindow: number;
+  /** tokens / contextWindow (can exceed 1) */
+  ratio: number;
+}
+
+/**
+ * Estimated context use of a request. `extraTokens` covers content sent
+ * outside the messages (workspace instructions, knowledge base).
+ */
+export function getContextUsage(
+  messages: Array<{ content: string }>,
+  modelId: string | null | undefined,
+  extraTokens = 0
+): ContextUsage {
+  const tokens = estimateMessagesTokens(messages) + extraTokens;
+  const contextWindow = getContextWindow(modelId);
+  return { tokens, contextWindow, ratio: tokens / contextWindow };
+}
+
+/**
+ * Whether to compact before the request. Pass `kept`, the usage of what a new
+ * checkpoint leaves verbatim, to skip compacting when that alone is past the
+ * threshold: a summary could not bring the request under it, and every send
+ * would move the checkpoint and summarize again.
+ */
+export function shouldCompact(usage: ContextUsage, kept?: ContextUsage): boolean {
+  return usage.ratio >= COMPACTION_THRESHOLD && !(kept && kept.ratio >= COMPACTION_THRESHOLD);
+}
+
+/**
+ * The card's checkpoint if it still matches its messages. Editing or
+ * retrying a covered message truncates `content`, which invalidates it.
+ */
+export function getCurrentCompaction(conversation: Conversation): CompactionCheckpoint | null {
+  const checkpoint = conversation.compaction;
+  if (!checkpoint || checkpoint.messageCount > conversation.content.length) return null;
+  if (checkpoint.messageCount > 0
+    && conversation.content[checkpoint.messageCount - 1]?.id !== checkpoint.throughMessageId) {
+    return null;
+  }
+  return checkpoint;
+}
+
+/**
+ * Number of leading messages a new checkpoint would cover: everything but the
+ * most recent KEEP_RECENT_MESSAGES. Never less than the current checkpoint.
+ */
+export function getCompactionCutoff(conversation: Conversation): number {
+  const covered = getCurrentCompaction(conversation)?.messageCount ?? 0;
+  return Math.max(covered, conversation.content.length - KEEP_RECENT_MESSAGES);
+}
+
+/**
+ * Split the history a checkpoint covers into stages that each fit one summary
+ * request with `modelId`; a message longer than a stage is cut into parts.
+ * Each stage is summarized together with the summary of the stages before it.
+ */
+export function splitForSummary<T extends { content: string }>(
+  messages: T[],
+  modelId: string | null | undefined
+): T[][] {
+  const maxTokens = Math.floor(getContextWindow(modelId) * SUMMARY_INPUT_RATIO) - SUMMARY_CARRY_TOKENS;
+  const maxChars = maxTokens * 4;
+  const stages: T[][] = [];
+  let stage: T[] = [];
+  let stageTokens = 0;
+
+  for (const message of messages) {
+    const parts = message.content.length > maxChars
+      ? Array.from({ length: Math.ceil(message.content.length / maxChars) }, (_, i) => ({
+        ...message,
+        content: message.content.slice(i * maxChars, (i + 1) * maxChars),
+      }))
+      : [message];
+    for (const part of parts) {
+      const tokens = estimateTokens(part.content);
+      if (stage.length > 0 && stageTokens + tokens > maxTokens) {
+        stages.push(stage);
+        stage = [];
+        stageTokens = 0;
+      }
+      stage.push(part);
+      stageTokens += tokens;
+    }
+  }
+  if (stage.length > 0) stages.push(stage);
+  return stages;
+}
+
+/**
+ * Whether a new checkpoint would cover anything the current one doesn't. A
+ * card with too few messages of its own can still compact what it inherits.
+ */
+export function hasCompactableContext(conversation: Conversation): boolean {
+  const cutoff = getCompactionCutoff(conversation);
+  const current = getCurrentCompaction(conversation);
+  if (current) return cutoff > current.messageCount;
+  return cutoff > 0 || conversation.parentCardIds.length > 0 || !!conversation.detachedContext?.length;
+}
+
+/** Short token count for the UI (e.g. 12.4K, 1.05M) */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${Number((tokens / 1_000_000).toFixed(2))}M`;
+  if (tokens >= 1_000) return `${Number((tokens / 1_000).toFixed(1))}K`;
+  return `${tokens}`;
+}
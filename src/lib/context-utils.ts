@@ -1,18 +1,44 @@
 /**
  * Context Utilities for Phase 2 Branching
  * 
- * Handles context inheritance with full message history.
+ * Handles context inheritance: full history, the last N messages, a hand-picked
+ * selection, or an AI summary from /api/summarize.
  * 
- * @version 2.0.0
+ * @version 2.1.0
  */
 
+import { nanoid } from 'nanoid';
+
 import type { 
   Message, 
   ContextSnapshot,
   ContextMetadata,
   BranchMetadata,
+  InheritanceMode,
 } from '@/types';
 
+/**
+ * Inheritance mode plus the options it needs
+ */
+export interface InheritanceOptions {
+  mode: InheritanceMode;
+  /** `last-n`: number of messages to keep */
+  lastN?: number;
+  /** `custom`: IDs of the messages to keep */
+  selectedIds?: string[];
+}
+
+/** Messages kept by `last-n` when no count is given */
+export const DEFAULT_LAST_N = 6;
+
+/** Labels for the branch UI and structural metadata */
+export const INHERITANCE_MODE_LABELS: Record<InheritanceMode, string> = {
+  full: 'Full context',
+  'last-n': 'Last messages',
+  custom: 'Selected messages',
+  summary: 'AI summary',
+};
+
 // =============================================================================
 // TOKEN ESTIMATION
 // =============================================================================
@@ -41,12 +67,102 @@ export function estimateTokens(messages: Message[]): number {
 // =============================================================================
 
 /**
- * Select context messages (always full context)
+ * Select the context messages an inheritance mode keeps. `summary` keeps
+ * every message — they are the input to the summary.
  */
 export function selectContextMessages(
-  messages: Message[]
+  messages: Message[],
+  options: InheritanceOptions = { mode: 'full' }
 ): Message[] {
-  return [...messages];
+  switch (options.mode) {
+    case 'last-n':
+      return messages.slice(-Math.max(1, options.lastN ?? DEFAULT_LAST_N));
+    case 'custom': {
+      const selected = new Set(options.selectedIds ?? []);
+      return messages.filter((m) => selected.has(m.id));
+    }
+    case 'full':
+    case 'summary':
+    default:
+      return [...messages];
+  }
+}
+
+/**
+ * System message carrying an inherited summary in place of the raw messages
+ */
+export function createSummaryMessage(summary: string, summarizedMessageCount: number): Message {
+  return {
+    id: nanoid(),
+    role: 'system',
+    content: `[Summary of the parent conversation (${summarizedMessageCount} messages)]\n${summary.trim()}`,
+    timestamp: new Date(),
+    metadata: { custom: { inheritedSummary: { messageCount: summarizedMessageCount } } },
+  };
+}
+
+/**
+ * Number of messages an inherited summary message stands for (null if not a summary)
+ */
+export function getSummarizedMessageCount(message: Message): number | null {
+  const summary = message.metadata?.custom?.inheritedSummary as { messageCount?: number } | undefined;
+  return typeof summary?.messageCount === 'number' ? summary.messageCount : null;
+}
+
+// =============================================================================
+// SUMMARY INHERITANCE
+// =============================================================================
+
+export interface ContextSummaryResult {
+  summary: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+/**
+ * Summarize messages for `summary` inheritance (or, with purpose
+ * 'compaction', a card's own older history) via /api/summarize, using the
+ * stored BYOK keys. Throws with the route's error message on failure.
+ */
+export async function requestContextSummary(
+  messages: Array<Pick<Message, 'role' | 'content'>>,
+  model: string,
+  parentTitle?: string,
+  purpose: 'branch' | 'compaction' = 'branch'
+): Promise<ContextSummaryResult> {
+  // Import dynamically to avoid SSR issues
+  const { apiKeyManager } = await import('@/lib/api-key-manager');
+
+  const response = await fetch('/api/summarize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      messages: messages
+        .filter((m) => m.content.trim())
+        .map((m) => ({ role: m.role, content: m.content })),
+      model,
+      anthropicKey: apiKeyManager.getKey('anthropic') ?? undefined,
+      openaiKey: apiKeyManager.getKey('openai') ?? undefined,
+      googleKey: apiKeyManager.getKey('google') ?? undefined,
+      customProvider: apiKeyManager.getCustomProviderCredentials(),
+      parentTitle,
+      purpose,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(error?.error || `Summary request failed (${response.status})`);
+  }
+
+  const result = await response.json() as ContextSummaryResult;
+  if (!result.summary?.trim()) {
+    throw new Error('The model returned an empty summary');
+  }
+  return result;
 }
 
 // =============================================================================
@@ -87,13 +203,14 @@ export function createContextSnapshot(
 export function createBranchMetadata(
   parentCardId: string,
   messageIndex: number,
-  inheritedMessageCount: number
+  inheritedMessageCount: number,
+  inheritanceMode: InheritanceMode = 'full'
 ): BranchMetadata {
   return {
     parentCardId,
     messageIndex,
     inheritedMessageCount,
-    inheritanceMode: 'full',
+    inheritanceMode,
     createdAt: new Date(),
   };
 }
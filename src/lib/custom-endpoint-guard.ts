@@ -0,0 +1,191 @@
+/**
+ * Custom Endpoint Guard
+ *
+ * The API routes call the user's OpenAI-compatible endpoint from the server,
+ * so an unchecked base URL lets anyone make the server fetch internal
+ * addresses (cloud metadata, localhost services). Hosts must be listed in
+ * the CUSTOM_PROVIDER_HOSTS environment variable (comma-separated
+ * `host` or `host:port` entries; `*` allows any public host). Unless a host is
+ * listed by name, every address it resolves to must be public: loopback,
+ * private, link-local and other reserved ranges are rejected.
+ *
+ * Edge routes have no DNS module, so hostnames resolve over DNS-over-HTTPS.
+ * fetch then resolves the host again on its own, so a short-lived DNS record
+ * can pass the check and point elsewhere for the request (DNS rebinding).
+ * The CUSTOM_PROVIDER_HOSTS allowlist is the real boundary; the address check
+ * for `*` only narrows what an arbitrary host can reach. Servers with internal
+ * services worth protecting should list hosts instead of using `*`.
+ *
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const ALLOWED_HOSTS_ENV = 'CUSTOM_PROVIDER_HOSTS';
+const DNS_OVER_HTTPS_URL = 'https://cloudflare-dns.com/dns-query';
+
+/** DNS record types in DNS-over-HTTPS JSON answers */
+const DNS_TYPE_A = 1;
+const DNS_TYPE_AAAA = 28;
+
+/** IPv4 ranges that never belong to a public endpoint: [network, prefix length] */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+// =============================================================================
+// ADDRESSES
+// =============================================================================
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null when malformed */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+
+  // Rewrite a trailing dotted IPv4 (::ffff:10.0.0.1) as two groups
+  const lastColon = text.lastIndexOf(':');
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const ipv4 = parseIPv4(tail);
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+
+  const [head, rest, ...extra] = text.split('::');
+  if (extra.length > 0) return null;
+  const parse = (part: string | undefined) => (part ? part.split(':') : []).map((group) => (
+    /^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN
+  ));
+  const headGroups = parse(head);
+  const restGroups = parse(rest);
+  if ([...headGroups, ...restGroups].some(Number.isNaN)) return null;
+
+  // Without '::' all eight groups are spelled out; with it, zeros fill the gap
+  const explicit = headGroups.length + restGroups.length;
+  if (rest === undefined) return explicit === 8 ? headGroups : null;
+  if (explicit > 7) return null;
+  return [...headGroups, ...new Array<number>(8 - explicit).fill(0), ...restGroups];
+}
+
+function isBlockedIPv4(value: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor((parseIPv4(network) ?? 0) / size);
+  });
+}
+
+/**
+ * Whether an IP address (v4, or v6 with or without brackets) is publicly
+ * routable. Unparseable input counts as not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) return !isBlockedIPv4(ipv4);
+
+  const groups = parseIPv6(address.replace(/^\[|\]$/g, ''));
+  if (!groups) return false;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return !isBlockedIPv4(groups[6] * 65536 + groups[7]);
+  }
+
+  // NAT64 (64:ff9b::/96, 64:ff9b:1::/48) can reach any IPv4 host, private ones included
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return false;
+
+  const first = groups[0];
+  return (first & 0xfe00) !== 0xfc00 // unique local fc00::/7
+    && (first & 0xffc0) !== 0xfe80 // link-local fe80::/10
+    && (first & 0xffc0) !== 0xfec0 // deprecated site-local fec0::/10
+    && (first & 0xff00) !== 0xff00; // multicast ff00::/8
+}
+
+function isIPAddress(hostname: string): boolean {
+  return parseIPv4(hostname) !== null || parseIPv6(hostname.replace(/^\[|\]$/g, '')) !== null;
+}
+
+/**
+ * Resolve a hostname to its A and AAAA addresses
+ */
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = [DNS_TYPE_A, DNS_TYPE_AAAA].map(async (type) => {
+    const response = await fetch(`${DNS_OVER_HTTPS_URL}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+      headers: { accept: 'application/dns-json' },
+    });
+    if (!response.ok) throw new Error(`DNS lookup for ${hostname} failed (${response.status})`);
+    const result = await response.json() as { Answer?: Array<{ type: number; data: string }> };
+    return (result.Answer ?? []).filter((answer) => answer.type === type).map((answer) => answer.data);
+  });
+  return (await Promise.all(lookups)).flat();
+}
+
+// =============================================================================
+// ALLOWLIST
+// =============================================================================
+
+function getAllowedHosts(): string[] {
+  return (process.env[ALLOWED_HOSTS_ENV] ?? '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Throw unless the server may send requests to `url`: its host is on the
+ * CUSTOM_PROVIDER_HOSTS allowlist and, for hosts allowed only by `*`, every
+ * address it resolves to is public.
+ */
+export async function assertCustomEndpointAllowed(url: URL): Promise<void> {
+  const allowed = getAllowedHosts();
+  if (allowed.length === 0) {
+    throw new Error(`Custom endpoints are disabled on this server. Set ${ALLOWED_HOSTS_ENV} to the hosts it may call.`);
+  }
+
+  const host = url.host.toLowerCase();
+  const hostname = url.hostname.toLowerCase();
+  // Operators may list internal hosts on purpose, e.g. localhost:11434 for a local Ollama
+  if (allowed.includes(host) || allowed.includes(hostname)) return;
+  if (!allowed.includes('*')) {
+    throw new Error(`Custom endpoint host ${host} is not allowed on this server.`);
+  }
+
+  const addresses = isIPAddress(hostname) ? [hostname] : await resolveHost(hostname);
+  if (addresses.length === 0) {
+    throw new Error(`Custom endpoint host ${host} could not be resolved.`);
+  }
+  if (!addresses.every(isPublicAddress)) {
+    throw new Error(`Custom endpoint host ${host} resolves to a private, loopback or link-local address.`);
+  }
+}
+
+/**
+ * fetch for the custom provider: checks every request URL and refuses
+ * redirects, which could otherwise lead to an internal address
+ */
+export const guardedCustomFetch: typeof fetch = async (input, init) => {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+  await assertCustomEndpointAllowed(url);
+  return fetch(input, { ...init, redirect: 'error' });
+};
@@ -0,0 +1,206 @@
+/**
+ * IndexedDB Storage Adapter
+ *
+ * StorageAdapter for VersionedStorage backed by IndexedDB. IndexedDB is async,
+ * so the adapter keeps an in-memory cache that is hydrated once at startup;
+ * reads are served from the cache and writes are committed in the background.
+ * Failed writes are reported through `onWriteError` instead of being dropped.
+ */
+
+import type { StorageAdapter } from '@/lib/storage';
+
+const DB_NAME = 'projectloom-data';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+interface KeyValueRecord {
+  key: string;
+  value: string;
+}
+
+export interface IndexedDBStorageAdapterOptions {
+  /** Called when a background write fails (e.g. QuotaExceededError) */
+  onWriteError?: (error: Error, key: string) => void;
+}
+
+export interface StorageEstimate {
+  /** Bytes used by this origin */
+  usage: number;
+  /** Bytes available to this origin */
+  quota: number;
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDBAvailable()) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open IndexedDB'));
+  });
+}
+
+function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDb().then((db) => {
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const store = tx.objectStore(STORE_NAME);
+      const request = action(store);
+      let result: T;
+
+      request.onsuccess = () => {
+        result = request.result as T;
+      };
+      request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+
+      // Resolve on commit, not on request success, so a quota error raised
+      // at commit time is not reported as a successful write
+      tx.oncomplete = () => {
+        db.close();
+        resolve(result);
+      };
+      tx.onerror = () => {
+        db.close();
+        reject(tx.error || new Error('IndexedDB transaction failed'));
+      };
+      tx.onabort = () => {
+        db.close();
+        reject(tx.error || new Error('IndexedDB transaction aborted'));
+      };
+    });
+  });
+}
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = 'IndexedDB';
+
+  private cache = new Map<string, string>();
+  private hydrated = false;
+  private hydration: Promise<void> | null = null;
+  /** Latest pending write per key, chained so writes commit in order */
+  private pending = new Map<string, Promise<void>>();
+  private failedKeys = new Set<string>();
+  private onWriteError?: (error: Error, key: string) => void;
+
+  constructor(options: IndexedDBStorageAdapterOptions = {}) {
+    this.onWriteError = options.onWriteError;
+  }
+
+  /**
+   * Load every stored record into the cache. Safe to call repeatedly.
+   * Resolves even when IndexedDB is unavailable; the adapter then stays
+   * unavailable and VersionedStorage falls back to its legacy adapter.
+   */
+  hydrate(): Promise<void> {
+    if (this.hydration) return this.hydration;
+
+    this.hydration = (async () => {
+      if (!isIndexedDBAvailable()) return;
+
+      try {
+        const records = await withStore<KeyValueRecord[]>('readonly', (store) => store.getAll());
+        records.forEach((record) => this.cache.set(record.key, record.value));
+        this.hydrated = true;
+      } catch (error) {
+        console.warn('[IndexedDBStorage] Hydration failed, falling back', error);
+      }
+    })();
+
+    return this.hydration;
+  }
+
+  isAvailable(): boolean {
+    return this.hydrated;
+  }
+
+  getItem(key: string): string | null {
+    return this.cache.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.cache.set(key, value);
+    this.enqueue(key, () => withStore('readwrite', (store) => store.put({ key, value } satisfies KeyValueRecord)));
+  }
+
+  removeItem(key: string): void {
+    this.cache.delete(key);
+    this.enqueue(key, () => withStore('readwrite', (store) => store.delete(key)));
+  }
+
+  /**
+   * Resolve once every queued write has committed.
+   * Rejects if any key's most recent write failed.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pending.values()));
+    if (this.failedKeys.size > 0) {
+      throw new Error(`IndexedDB writes failed for: ${Array.from(this.failedKeys).join(', ')}`);
+    }
+  }
+
+  private enqueue(key: string, write: () => Promise<unknown>): void {
+    const previous = this.pending.get(key) ?? Promise.resolve();
+    const next = previous
+      .then(write)
+      .then(() => {
+        this.failedKeys.delete(key);
+      })
+      .catch((error: unknown) => {
+        this.failedKeys.add(key);
+        this.onWriteError?.(error instanceof Error ? error : new Error(String(error)), key);
+      })
+      .finally(() => {
+        if (this.pending.get(key) === next) {
+          this.pending.delete(key);
+        }
+      });
+
+    this.pending.set(key, next);
+  }
+}
+
+/**
+ * Origin-wide storage usage and quota, when the browser exposes it
+ */
+export async function estimateStorageUsage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return { usage: usage ?? 0, quota: quota ?? 0 };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete the whole workspace database (used by full resets)
+ */
+export async function clearIndexedDBStorage(): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error || new Error('Failed to delete workspace storage'));
+    request.onblocked = () => reject(new Error('Workspace storage deletion was blocked'));
+  });
+}
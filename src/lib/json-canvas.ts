@@ -0,0 +1,296 @@
+/**
+ * JSON Canvas Converter
+ *
+ * Maps workspaces to and from the open JSON Canvas format (`.canvas`,
+ * https://jsoncanvas.org) read by Obsidian and other tools. Cards become
+ * text nodes, edges keep their relation type as a color and their label.
+ * Importing creates cards from text nodes and reference edges from links.
+ */
+
+import { nanoid } from 'nanoid';
+
+import { card } from '@/lib/design-tokens';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/storage';
+import { renderMessageMarkdown } from '@/lib/markdown-export';
+import type {
+  Conversation,
+  EdgeConnection,
+  EdgeRelationType,
+  Message,
+  MessageRole,
+  Workspace,
+} from '@/types';
+
+export const JSON_CANVAS_FILE_EXTENSION = '.canvas';
+
+export type JsonCanvasColor = string;
+export type JsonCanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+export interface JsonCanvasNode {
+  id: string;
+  type: 'text' | 'file' | 'link' | 'group';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: JsonCanvasColor;
+  /** Markdown content (text nodes) */
+  text?: string;
+  /** Vault path (file nodes) */
+  file?: string;
+  /** URL (link nodes) */
+  url?: string;
+  /** Heading (group nodes) */
+  label?: string;
+}
+
+export interface JsonCanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: JsonCanvasSide;
+  fromEnd?: 'none' | 'arrow';
+  toNode: string;
+  toSide?: JsonCanvasSide;
+  toEnd?: 'none' | 'arrow';
+  color?: JsonCanvasColor;
+  label?: string;
+}
+
+export interface JsonCanvas {
+  nodes?: JsonCanvasNode[];
+  edges?: JsonCanvasEdge[];
+}
+
+export interface JsonCanvasImportResult {
+  workspace: Workspace;
+  /** File, link and group nodes have no card equivalent */
+  skippedNodes: number;
+  /** Edges dropped because an endpoint was skipped or they would form a cycle */
+  skippedEdges: number;
+}
+
+/** Preset colors from the spec: 2 = orange, 4 = green, 6 = purple */
+const RELATION_COLORS: Record<EdgeRelationType, JsonCanvasColor> = {
+  branch: '2',
+  merge: '4',
+  reference: '6',
+};
+
+const NODE_WIDTH = card.size.minWidth;
+const NODE_HEIGHT = card.size.collapsedHeight;
+
+const MESSAGE_HEADER_PATTERN = /^\*\*(User|Assistant|System)(?: \(([^)\n]+)\))?:\*\*[ \t]*$/gm;
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+function conversationToText(conversation: Conversation): string {
+  const messages = conversation.content
+    .filter((msg) => msg.content?.trim())
+    .map(renderMessageMarkdown);
+  return [`# ${conversation.metadata.title || 'Untitled'}`, ...messages].join('\n\n');
+}
+
+function edgeToJsonCanvas(edge: EdgeConnection): JsonCanvasEdge {
+  return {
+    id: edge.id,
+    fromNode: edge.source,
+    fromSide: 'right',
+    toNode: edge.target,
+    toSide: 'left',
+    toEnd: 'arrow',
+    color: RELATION_COLORS[edge.relationType] ?? RELATION_COLORS.branch,
+    ...(edge.label ? { label: edge.label } : {}),
+  };
+}
+
+/**
+ * Convert a workspace (use a live snapshot for the active one) to JSON Canvas
+ */
+export function workspaceToJsonCanvas(workspace: Workspace): JsonCanvas {
+  const cardIds = new Set(workspace.conversations.map((conv) => conv.id));
+
+  return {
+    nodes: workspace.conversations.map((conv) => ({
+      id: conv.id,
+      type: 'text',
+      x: Math.round(conv.position.x),
+      y: Math.round(conv.position.y),
+      width: NODE_WIDTH,
+      height: NODE_HEIGHT,
+      text: conversationToText(conv),
+      ...(conv.isMergeNode ? { color: RELATION_COLORS.merge } : {}),
+    })),
+    edges: workspace.edges
+      .filter((edge) => cardIds.has(edge.source) && cardIds.has(edge.target))
+      .map(edgeToJsonCanvas),
+  };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+export function isJsonCanvas(value: unknown): value is JsonCanvas {
+  const canvas = value as JsonCanvas | null;
+  return !!canvas && typeof canvas === 'object' && (Array.isArray(canvas.nodes) || Array.isArray(canvas.edges));
+}
+
+export function parseJsonCanvas(raw: string): JsonCanvas {
+  let parsed: JsonCanvas;
+  try {
+    parsed = JSON.parse(raw) as JsonCanvas;
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isJsonCanvas(parsed)) {
+    throw new Error('Not a JSON Canvas file');
+  }
+
+  return parsed;
+}
+
+/**
+ * Split text node content into a title and messages. Text written by
+ * `workspaceToJsonCanvas` round-trips; any other text becomes one user message.
+ */
+function textToMessages(text: string): { title: string; messages: Message[] } {
+  let body = text.trim();
+  let title = '';
+
+  const headingMatch = /^#{1,6}\s+(.+)$/m.exec(body);
+  if (headingMatch && body.startsWith(headingMatch[0])) {
+    title = headingMatch[1].trim();
+    body = body.slice(headingMatch[0].length).trim();
+  }
+
+  const now = new Date();
+  const makeMessage = (role: MessageRole, content: string, model?: string): Message => ({
+    id: nanoid(),
+    role,
+    content,
+    timestamp: now,
+    ...(model ? { metadata: { model } } : {}),
+  });
+
+  const headers = Array.from(body.matchAll(MESSAGE_HEADER_PATTERN));
+  const messages: Message[] = [];
+
+  if (headers.length === 0 || headers[0].index !== 0) {
+    const leading = headers.length > 0 ? body.slice(0, headers[0].index).trim() : body;
+    if (leading) messages.push(makeMessage('user', leading));
+  }
+
+  headers.forEach((match, index) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = headers[index + 1]?.index ?? body.length;
+    const content = body.slice(start, end).trim();
+    if (!content) return;
+    const role = match[1].toLowerCase() as MessageRole;
+    messages.push(makeMessage(role, content, match[2]));
+  });
+
+  if (!title) {
+    const firstLine = body.split('\n').find((line) => line.trim())?.trim() ?? '';
+    title = firstLine.replace(/^\*\*[^*]+:\*\*$/, '').slice(0, 60) || 'Imported card';
+  }
+
+  return { title, messages };
+}
+
+/**
+ * Build a new workspace from a JSON Canvas document. Cards get fresh IDs and
+ * every link becomes a reference edge (links carry no branch semantics).
+ */
+export function jsonCanvasToWorkspace(canvas: JsonCanvas, title: string): JsonCanvasImportResult {
+  const now = new Date();
+  const workspaceId = nanoid();
+  const nodes = canvas.nodes ?? [];
+  const textNodes = nodes.filter((node) => node.type === 'text' && typeof node.text === 'string');
+  const cardIds = new Map(textNodes.map((node) => [node.id, nanoid()]));
+
+  const conversations: Conversation[] = textNodes.map((node) => {
+    const { title: cardTitle, messages } = textToMessages(node.text ?? '');
+    return {
+      id: cardIds.get(node.id)!,
+      canvasId: workspaceId,
+      position: { x: Number(node.x) || 0, y: Number(node.y) || 0 },
+      content: messages,
+      connections: [],
+      parentCardIds: [],
+      inheritedContext: {},
+      isMergeNode: false,
+      metadata: {
+        title: cardTitle,
+        titleIsManual: true,
+        createdAt: now,
+        updatedAt: now,
+        messageCount: messages.length,
+        tags: [],
+        isExpanded: false,
+      },
+    };
+  });
+
+  // Reject self-links, duplicates and links that would close a cycle
+  const outgoing = new Map<string, string[]>();
+  const reaches = (from: string, to: string): boolean => {
+    const stack = [from];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === to) return true;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      stack.push(...(outgoing.get(current) ?? []));
+    }
+    return false;
+  };
+
+  const edges: EdgeConnection[] = [];
+  const edgeKeys = new Set<string>();
+  let skippedEdges = 0;
+
+  (canvas.edges ?? []).forEach((link) => {
+    const source = cardIds.get(link.fromNode);
+    const target = cardIds.get(link.toNode);
+    const key = `${source}->${target}`;
+    if (!source || !target || source === target || edgeKeys.has(key) || reaches(target, source)) {
+      skippedEdges++;
+      return;
+    }
+
+    edgeKeys.add(key);
+    outgoing.set(source, [...(outgoing.get(source) ?? []), target]);
+    edges.push({
+      id: `edge-reference-${source}-${target}`,
+      source,
+      target,
+      curveType: 'bezier',
+      relationType: 'reference',
+      animated: true,
+      ...(link.label ? { label: link.label } : {}),
+    });
+  });
+
+  return {
+    workspace: {
+      id: workspaceId,
+      title,
+      conversations,
+      edges,
+      tags: [],
+      context: { instructions: '', knowledgeBaseFiles: [], updatedAt: now },
+      metadata: {
+        title,
+        createdAt: now,
+        updatedAt: now,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+      },
+    },
+    skippedNodes: nodes.length - textNodes.length,
+    skippedEdges,
+  };
+}
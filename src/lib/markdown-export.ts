@@ -0,0 +1,144 @@
+/**
+ * Markdown Export
+ *
+ * Renders a card's lineage (root → card, as reconstructed from inherited
+ * context) or a card's whole subtree as structured Markdown: one heading
+ * per card, branch-point annotations and merge sources listed.
+ */
+
+import { collectLineage } from '@/stores/canvas-store';
+import { buildWorkspaceTree, type ConversationTreeNode } from '@/stores/canvas-tree-store';
+import type { Conversation, Message } from '@/types';
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+function heading(level: number, text: string): string {
+  return `${'#'.repeat(Math.min(level, 6))} ${text}`;
+}
+
+function cardTitle(conversation: Conversation | undefined): string {
+  return conversation?.metadata.title || 'Untitled';
+}
+
+/** Inheritance banners stored as system messages (not part of the conversation) */
+function isUiNotice(message: Message): boolean {
+  const custom = message.metadata?.custom;
+  return message.role === 'system' && !!custom && 'inheritedFrom' in custom;
+}
+
+/**
+ * One message as `**Role (model):**` followed by its content. Also the card
+ * text format used by the JSON Canvas converter.
+ */
+export function renderMessageMarkdown(message: Message): string {
+  const model = message.role === 'assistant' && message.metadata?.model ? ` (${message.metadata.model})` : '';
+  const lines = [`**${ROLE_LABELS[message.role]}${model}:**`, '', message.content.trim()];
+
+  message.attachments?.forEach((att) => {
+    lines.push('', `_Attachment: ${att.name}_`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Branch-point and merge-source annotations for a card
+ */
+function renderAnnotations(conversation: Conversation, conversations: Map<string, Conversation>): string[] {
+  const lines: string[] = [];
+
+  if (conversation.isMergeNode) {
+    const sourceIds = conversation.mergeMetadata?.sourceCardIds ?? conversation.parentCardIds;
+    lines.push('> **Merge of:**');
+    sourceIds.forEach((id) => lines.push(`> - ${cardTitle(conversations.get(id))}`));
+    if (conversation.mergeMetadata?.synthesisPrompt) {
+      lines.push('>', `> _Synthesis objective: ${conversation.mergeMetadata.synthesisPrompt}_`);
+    }
+  } else if (conversation.branchPoint) {
+    const parent = conversations.get(conversation.branchPoint.parentCardId);
+    lines.push(`> Branched from **${cardTitle(parent)}** at message ${conversation.branchPoint.messageIndex + 1}`);
+  }
+
+  return lines;
+}
+
+function renderCard(
+  conversation: Conversation,
+  messages: Message[],
+  level: number,
+  conversations: Map<string, Conversation>,
+  note?: string
+): string {
+  const blocks: string[] = [heading(level, cardTitle(conversation))];
+
+  const annotations = renderAnnotations(conversation, conversations);
+  if (annotations.length > 0) blocks.push(annotations.join('\n'));
+  if (note) blocks.push(`_${note}_`);
+
+  const visible = messages.filter((msg) => msg.content?.trim() && !isUiNotice(msg));
+  blocks.push(visible.length > 0 ? visible.map(renderMessageMarkdown).join('\n\n') : '_No messages_');
+
+  return blocks.join('\n\n');
+}
+
+function renderHeader(title: string): string {
+  return `${heading(1, title)}\n\n_Exported from ProjectLoom on ${new Date().toLocaleString()}_`;
+}
+
+/**
+ * Root → card path. Ancestor sections contain the messages the path
+ * inherited from them (up to each branch point); the final section is the
+ * card's own conversation.
+ */
+export function exportLineageMarkdown(conversationId: string, conversations: Map<string, Conversation>): string | null {
+  const conversation = conversations.get(conversationId);
+  if (!conversation) return null;
+
+  const segments = collectLineage(conversation, conversations);
+  const sections = segments.map((segment, index) => {
+    const isLast = index === segments.length - 1;
+    const next = segments[index + 1]?.conversation;
+    const note = !isLast && next?.branchPoint?.parentCardId === segment.conversation.id
+      ? `Messages up to the branch point (message ${next.branchPoint.messageIndex + 1})`
+      : undefined;
+    return renderCard(segment.conversation, segment.messages, 2, conversations, note);
+  });
+
+  return [renderHeader(`Lineage: ${cardTitle(conversation)}`), ...sections].join('\n\n---\n\n') + '\n';
+}
+
+function findTreeNode(nodes: ConversationTreeNode[], conversationId: string): ConversationTreeNode | null {
+  for (const node of nodes) {
+    if (node.conversation.id === conversationId) return node;
+    const found = findTreeNode(node.children, conversationId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Card and all of its descendants, nested by heading level. Each card
+ * lists only its own messages; merge nodes appear once, under their
+ * primary parent, with every source listed.
+ */
+export function exportSubtreeMarkdown(conversationId: string, conversations: Map<string, Conversation>): string | null {
+  const conversation = conversations.get(conversationId);
+  if (!conversation) return null;
+
+  const tree = buildWorkspaceTree(conversation.canvasId, conversations);
+  const root = findTreeNode(tree, conversationId);
+  if (!root) return null;
+
+  const sections: string[] = [];
+  const visit = (node: ConversationTreeNode, level: number) => {
+    sections.push(renderCard(node.conversation, node.conversation.content, level, conversations));
+    node.children.forEach((child) => visit(child, level + 1));
+  };
+  visit(root, 2);
+
+  return [renderHeader(`Card tree: ${cardTitle(conversation)}`), ...sections].join('\n\n') + '\n';
+}
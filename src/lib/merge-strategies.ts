@@ -0,0 +1,95 @@
+/**
+ * Merge Synthesis Strategies
+ *
+ * Prompt templates a merge node uses to ask for its synthesis. The strategy is
+ * stored in MergeMetadata, so the same request can be sent again after the
+ * parents change.
+ */
+
+import type { Conversation, MergeStrategy } from '@/types';
+
+// =============================================================================
+// STRATEGIES
+// =============================================================================
+
+export interface MergeStrategyDefinition {
+  id: MergeStrategy;
+  label: string;
+  description: string;
+  /** Prompt with {{sources}} (quoted card titles) and {{count}} placeholders */
+  template: string;
+}
+
+export const MERGE_STRATEGIES: MergeStrategyDefinition[] = [
+  {
+    id: 'compare-contrast',
+    label: 'Compare & contrast',
+    description: 'Where the directions agree, where they differ, and the tradeoffs',
+    template: 'I explored {{count}} directions separately: {{sources}}. Compare and contrast them: where they agree, where they differ, and the key tradeoffs. Finish with a recommendation.',
+  },
+  {
+    id: 'pick-best',
+    label: 'Pick best',
+    description: 'Choose the strongest direction and justify it against the others',
+    template: 'I explored {{count}} directions separately: {{sources}}. Pick the strongest one and justify the choice against each alternative. Note anything worth borrowing from the others.',
+  },
+  {
+    id: 'union-decisions',
+    label: 'Union of decisions',
+    description: 'One consolidated list of every decision reached, by topic',
+    template: 'I explored {{count}} directions separately: {{sources}}. Collect every decision and conclusion reached across them into one consolidated list, grouped by topic, noting where each came from. Flag anything still undecided.',
+  },
+  {
+    id: 'resolve-conflicts',
+    label: 'Resolve conflicts',
+    description: 'Find contradictions and propose a resolution for each',
+    template: 'I explored {{count}} directions separately: {{sources}}. Identify where they contradict each other. For each conflict, state both positions and propose a resolution, then summarize the combined position.',
+  },
+  {
+    id: 'custom',
+    label: 'Custom',
+    description: 'Your own template; {{sources}} and {{count}} are filled in',
+    template: 'Synthesize {{sources}} into ',
+  },
+];
+
+export const DEFAULT_MERGE_STRATEGY: MergeStrategy = 'compare-contrast';
+
+export function getMergeStrategy(id: MergeStrategy): MergeStrategyDefinition {
+  return MERGE_STRATEGIES.find((strategy) => strategy.id === id) ?? MERGE_STRATEGIES[0];
+}
+
+// =============================================================================
+// PROMPTS
+// =============================================================================
+
+/**
+ * Fill a strategy's template (or `customTemplate` for `custom`) with the
+ * source card titles. Returns an empty string for an empty custom template.
+ */
+export function buildSynthesisPrompt(
+  strategy: MergeStrategy,
+  sourceTitles: string[],
+  customTemplate?: string,
+): string {
+  const template = strategy === 'custom' ? customTemplate ?? '' : getMergeStrategy(strategy).template;
+  const sources = sourceTitles.map((title) => `"${title || 'Untitled'}"`).join(', ');
+  return template
+    .replace(/\{\{\s*sources\s*\}\}/g, sources)
+    .replace(/\{\{\s*count\s*\}\}/g, String(sourceTitles.length))
+    .trim();
+}
+
+/**
+ * The synthesis request of a merge card, from the strategy in its
+ * MergeMetadata and its parents' current titles. Null without a strategy.
+ */
+export function getMergeSynthesisPrompt(
+  conversation: Conversation,
+  conversations: Map<string, Conversation>,
+): string | null {
+  const metadata = conversation.mergeMetadata;
+  if (!metadata?.strategy) return null;
+  const titles = conversation.parentCardIds.map((id) => conversations.get(id)?.metadata.title ?? 'Untitled');
+  return buildSynthesisPrompt(metadata.strategy, titles, metadata.customTemplate) || null;
+}
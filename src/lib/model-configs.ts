@@ -14,6 +14,8 @@
  * @version 1.0.0
  */
 
+import type { GenerationSettings, ReasoningEffort } from '@/types';
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -23,10 +25,14 @@ export interface ModelConfig {
   temperature: number;
   /** Max output tokens for the response */
   maxTokens: number;
+  /** Highest max-output-token value the provider accepts (thinking budget included) */
+  outputTokenLimit: number;
   /** Optional baseline system prompt — undefined = let the model be itself */
   systemPrompt: string | undefined;
   /** Reasoning models (e.g. gpt-5.2) do not support temperature — omit the parameter entirely */
   reasoning?: boolean;
+  /** Supports Anthropic extended thinking with a token budget */
+  extendedThinking?: boolean;
 }
 
 // =============================================================================
@@ -38,16 +44,22 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
   'anthropic/claude-haiku-4-5': {
     temperature: 1.0,
     maxTokens: 8192,
+    outputTokenLimit: 64000,
+    extendedThinking: true,
     systemPrompt: undefined,
   },
   'anthropic/claude-sonnet-4-6': {
     temperature: 1.0,
     maxTokens: 8192,
+    outputTokenLimit: 128000,
+    extendedThinking: true,
     systemPrompt: undefined,
   },
   'anthropic/claude-opus-4-6': {
     temperature: 1.0,
     maxTokens: 8192,
+    outputTokenLimit: 128000,
+    extendedThinking: true,
     systemPrompt: undefined,
   },
 
@@ -55,21 +67,44 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
   'openai/gpt-5-mini': {
     temperature: 1.0,
     maxTokens: 8192,
+    outputTokenLimit: 128000,
     systemPrompt: undefined,
     reasoning: true,
   },
   'openai/gpt-5.2': {
     temperature: 0.7,
     maxTokens: 16384,
+    outputTokenLimit: 128000,
     systemPrompt: undefined,
     reasoning: true,
   },
   'openai/gpt-5.1': {
     temperature: 0.7,
     maxTokens: 16384,
+    outputTokenLimit: 128000,
     systemPrompt: undefined,
     reasoning: true,
   },
+
+  // ── Google Models ─────────────────────────────────────────────────────────
+  'google/gemini-2.5-flash': {
+    temperature: 1.0,
+    maxTokens: 8192,
+    outputTokenLimit: 65536,
+    systemPrompt: undefined,
+  },
+  'google/gemini-2.5-pro': {
+    temperature: 1.0,
+    maxTokens: 16384,
+    outputTokenLimit: 65536,
+    systemPrompt: undefined,
+  },
+  'google/gemini-3-pro-preview': {
+    temperature: 1.0,
+    maxTokens: 16384,
+    outputTokenLimit: 65536,
+    systemPrompt: undefined,
+  },
 };
 
 // =============================================================================
@@ -80,6 +115,18 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
 export const DEFAULT_MODEL_CONFIG: ModelConfig = {
   temperature: 0.8,
   maxTokens: 8192,
+  outputTokenLimit: 8192,
+  systemPrompt: undefined,
+};
+
+/**
+ * Used for every model on the custom OpenAI-compatible endpoint.
+ * Local models often have small context windows, so output is capped lower.
+ */
+export const CUSTOM_MODEL_CONFIG: ModelConfig = {
+  temperature: 0.7,
+  maxTokens: 4096,
+  outputTokenLimit: 32768,
   systemPrompt: undefined,
 };
 
@@ -91,5 +138,104 @@ export const DEFAULT_MODEL_CONFIG: ModelConfig = {
  * Get the tuned config for a model, falling back to sensible defaults.
  */
 export function getModelConfig(modelId: string): ModelConfig {
-  return MODEL_CONFIGS[modelId] ?? DEFAULT_MODEL_CONFIG;
+  if (MODEL_CONFIGS[modelId]) return MODEL_CONFIGS[modelId];
+  return modelId.startsWith('custom/') ? CUSTOM_MODEL_CONFIG : DEFAULT_MODEL_CONFIG;
+}
+
+// =============================================================================
+// PER-CARD GENERATION SETTINGS
+// =============================================================================
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+
+/** Smallest extended-thinking budget Anthropic accepts */
+export const MIN_THINKING_BUDGET = 1024;
+
+export interface GenerationLimits {
+  /** Allowed temperature range; null when the model ignores temperature */
+  temperature: { min: number; max: number } | null;
+  maxOutputTokens: { min: number; max: number };
+  reasoningEffort: boolean;
+  /** Whether reasoning summaries can be requested (OpenAI reasoning models) */
+  reasoningSummary: boolean;
+  /** Allowed thinking budget; null without extended thinking */
+  thinkingBudget: { min: number; max: number } | null;
+  /** Cap on max output tokens plus thinking budget */
+  outputTokenLimit: number;
+}
+
+export function getGenerationLimits(modelId: string): GenerationLimits {
+  const config = getModelConfig(modelId);
+  return {
+    // Anthropic accepts 0–1, OpenAI-style and Gemini APIs 0–2
+    temperature: config.reasoning ? null : { min: 0, max: modelId.startsWith('anthropic/') ? 1 : 2 },
+    maxOutputTokens: { min: 1, max: config.outputTokenLimit },
+    reasoningEffort: !!config.reasoning,
+    reasoningSummary: !!config.reasoning && modelId.startsWith('openai/'),
+    thinkingBudget: config.extendedThinking
+      ? { min: MIN_THINKING_BUDGET, max: config.outputTokenLimit - 1 }
+      : null,
+    outputTokenLimit: config.outputTokenLimit,
+  };
+}
+
+/**
+ * Check per-card settings against a model's limits. Settings the model
+ * doesn't support are dropped (a card keeps its settings when its model
+ * changes); out-of-range values are reported as an error.
+ */
+export function validateGenerationSettings(
+  modelId: string,
+  settings: GenerationSettings
+): { settings: GenerationSettings; error?: string } {
+  const limits = getGenerationLimits(modelId);
+  const config = getModelConfig(modelId);
+  const applied: GenerationSettings = {};
+  const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+  if (settings.thinkingBudget !== undefined && limits.thinkingBudget) {
+    const { min, max } = limits.thinkingBudget;
+    if (!isInteger(settings.thinkingBudget) || settings.thinkingBudget < min || settings.thinkingBudget > max) {
+      return { settings: applied, error: `Thinking budget must be between ${min.toLocaleString()} and ${max.toLocaleString()} tokens.` };
+    }
+    applied.thinkingBudget = settings.thinkingBudget;
+  }
+
+  // Extended thinking doesn't allow a custom temperature
+  if (settings.temperature !== undefined && limits.temperature && applied.thinkingBudget === undefined) {
+    const { min, max } = limits.temperature;
+    if (typeof settings.temperature !== 'number' || !(settings.temperature >= min && settings.temperature <= max)) {
+      return { settings: applied, error: `Temperature must be between ${min} and ${max}.` };
+    }
+    applied.temperature = settings.temperature;
+  }
+
+  if (settings.maxOutputTokens !== undefined) {
+    const { min, max } = limits.maxOutputTokens;
+    if (!isInteger(settings.maxOutputTokens) || settings.maxOutputTokens < min || settings.maxOutputTokens > max) {
+      return { settings: applied, error: `Max output tokens must be between ${min} and ${max.toLocaleString()} for this model.` };
+    }
+    applied.maxOutputTokens = settings.maxOutputTokens;
+  }
+
+  if (applied.thinkingBudget !== undefined
+    && (applied.maxOutputTokens ?? config.maxTokens) + applied.thinkingBudget > limits.outputTokenLimit) {
+    return { settings: applied, error: `Max output tokens plus thinking budget can't exceed ${limits.outputTokenLimit.toLocaleString()} for this model.` };
+  }
+
+  if (settings.reasoningEffort !== undefined && limits.reasoningEffort) {
+    if (!REASONING_EFFORTS.includes(settings.reasoningEffort)) {
+      return { settings: applied, error: `Reasoning effort must be one of: ${REASONING_EFFORTS.join(', ')}.` };
+    }
+    applied.reasoningEffort = settings.reasoningEffort;
+  }
+
+  if (settings.reasoningSummary !== undefined && limits.reasoningSummary) {
+    if (typeof settings.reasoningSummary !== 'boolean') {
+      return { settings: applied, error: 'Reasoning summary must be on or off.' };
+    }
+    applied.reasoningSummary = settings.reasoningSummary;
+  }
+
+  return { settings: applied };
 }
@@ -0,0 +1,158 @@
+/**
+ * Model Retry & Fallback
+ *
+ * Retry policy and fallback chain for /api/chat. A rate-limited or unavailable
+ * model is retried with exponential backoff (honoring the provider's
+ * retry-after header); once its retries run out, the next model in the
+ * user's fallback chain is tried. The route responds only once a model
+ * answers, so all retries share a budget of a few seconds: a wait that
+ * doesn't fit moves straight on to the next model. Other errors (invalid
+ * key, context too long) fail straight away.
+ */
+
+import type { ModelFallbackReason } from '@/types';
+
+// =============================================================================
+// RETRY POLICY
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Retries per model after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry */
+  initialDelayMs: number;
+  /** Multiplier applied to the delay after each retry */
+  backoffFactor: number;
+  /** Longest wait before a retry; a longer retry-after moves on to the next model */
+  maxDelayMs: number;
+  /** Wall-clock time retries may take in total; a wait past it moves on to the next model */
+  budgetMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  backoffFactor: 2,
+  maxDelayMs: 4000,
+  budgetMs: 6000,
+};
+
+/** Upper bounds for user-configured retries and fallback chains */
+export const MAX_RETRIES = 5;
+export const MAX_FALLBACK_MODELS = 3;
+
+/**
+ * Delay before retry number `retryIndex` (0-based). The provider's
+ * retry-after wins over the backoff; null means the wait is longer than the
+ * policy allows or than the `remainingMs` left of its budget.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  retryIndex: number,
+  retryAfterMs?: number,
+  remainingMs = policy.budgetMs
+): number | null {
+  const delay = retryAfterMs ?? Math.min(policy.initialDelayMs * policy.backoffFactor ** retryIndex, policy.maxDelayMs);
+  return delay <= Math.min(policy.maxDelayMs, remainingMs) ? delay : null;
+}
+
+/**
+ * Wait before a retry. Resolves early when `signal` aborts (the client went
+ * away), so the caller can stop instead of sleeping out the delay.
+ */
+export function waitForRetry(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delayMs);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+// =============================================================================
+// ERROR CLASSIFICATION
+// =============================================================================
+
+export interface ProviderFailure {
+  /** 'fatal' failures are neither retried nor sent to a fallback model */
+  kind: ModelFallbackReason | 'fatal';
+  status?: number;
+  /** Wait requested by the provider (retry-after / retry-after-ms) */
+  retryAfterMs?: number;
+}
+
+/** Provider stream error types (Anthropic SSE `error` events) */
+const RATE_LIMIT_ERROR_TYPES = new Set(['rate_limit_error']);
+const UNAVAILABLE_ERROR_TYPES = new Set(['overloaded_error', 'api_error']);
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND']);
+
+function parseRetryAfter(headers: Record<string, string> | undefined): number | undefined {
+  if (!headers) return undefined;
+  const retryAfterMs = parseFloat(headers['retry-after-ms'] ?? '');
+  if (!Number.isNaN(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = headers['retry-after'];
+  if (!retryAfter) return undefined;
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Sort a provider error into rate-limited, unavailable (5xx, overloaded,
+ * network) or fatal. Handles AI SDK `APICallError`s (`statusCode`,
+ * `responseHeaders`), plain `status` errors and provider stream error events.
+ */
+export function classifyProviderError(error: unknown): ProviderFailure {
+  const err = (typeof error === 'object' && error !== null ? error : {}) as {
+    status?: number;
+    statusCode?: number;
+    responseHeaders?: Record<string, string>;
+    code?: string;
+    type?: string;
+    error?: { type?: string };
+  };
+  const status = err.statusCode ?? err.status;
+  const retryAfterMs = parseRetryAfter(err.responseHeaders);
+  const errorType = err.type ?? err.error?.type;
+
+  if (status === 429 || (errorType && RATE_LIMIT_ERROR_TYPES.has(errorType))) {
+    return { kind: 'rate_limited', status, retryAfterMs };
+  }
+  if ((status !== undefined && status >= 500)
+    || (errorType && UNAVAILABLE_ERROR_TYPES.has(errorType))
+    || (err.code && NETWORK_ERROR_CODES.has(err.code))) {
+    return { kind: 'unavailable', status, retryAfterMs };
+  }
+  return { kind: 'fatal', status };
+}
+
+// =============================================================================
+// FALLBACK CHAIN
+// =============================================================================
+
+/**
+ * Models to try in order: the requested model, then its fallbacks. Duplicates
+ * and models without credentials are dropped.
+ */
+export function buildModelChain(
+  model: string,
+  fallbackModels: string[],
+  hasCredentials: (modelId: string) => boolean
+): string[] {
+  const chain = [model];
+  for (const fallback of fallbackModels) {
+    if (chain.includes(fallback) || !hasCredentials(fallback)) continue;
+    chain.push(fallback);
+  }
+  return chain;
+}
@@ -0,0 +1,149 @@
+/**
+ * Personas & Card Instructions
+ *
+ * Persona presets and per-card system prompts. A card without its own value
+ * inherits the nearest ancestor's (following its first parent), so a persona
+ * set on a root applies to the whole tree until a branch overrides it.
+ *
+ * The chat route layers instructions as workspace → persona → card; later
+ * layers refine earlier ones. ChatPanelHeader shows the same layers.
+ */
+
+import type { Conversation } from '@/types';
+
+// =============================================================================
+// PERSONAS
+// =============================================================================
+
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  description: string;
+  prompt: string;
+}
+
+export const PERSONA_PRESETS: PersonaPreset[] = [
+  {
+    id: 'skeptical-reviewer',
+    name: 'Skeptical reviewer',
+    description: 'Challenges assumptions and looks for weak spots',
+    prompt: 'Act as a skeptical reviewer. Question assumptions, point out gaps in reasoning, missing evidence and risks before agreeing with anything. Be direct, and say what would change your mind.',
+  },
+  {
+    id: 'domain-expert',
+    name: 'Domain expert',
+    description: 'Precise, technical answers with the tradeoffs an expert would raise',
+    prompt: 'Act as a senior domain expert in the subject of this conversation. Use precise terminology, state the tradeoffs and edge cases an experienced practitioner would raise, and say when something is uncertain or contested.',
+  },
+  {
+    id: 'devils-advocate',
+    name: "Devil's advocate",
+    description: 'Argues the strongest case against the current direction',
+    prompt: "Act as a devil's advocate. Whatever direction the conversation takes, make the strongest good-faith case for the alternative, then note which of your objections actually matter.",
+  },
+  {
+    id: 'concise-editor',
+    name: 'Concise editor',
+    description: 'Short answers, no filler',
+    prompt: 'Answer as a concise editor: lead with the answer, keep responses short, use lists only when they help, and cut filler and repetition.',
+  },
+  {
+    id: 'socratic-tutor',
+    name: 'Socratic tutor',
+    description: 'Guides with questions instead of giving answers away',
+    prompt: 'Act as a Socratic tutor. Help the user reach the answer themselves: ask one guiding question at a time, give hints before solutions, and check their understanding as you go.',
+  },
+];
+
+export function getPersona(id: string | undefined): PersonaPreset | undefined {
+  if (!id) return undefined;
+  return PERSONA_PRESETS.find((persona) => persona.id === id);
+}
+
+// =============================================================================
+// CARD INSTRUCTIONS
+// =============================================================================
+
+/** Maximum length of a card system prompt (same cap as workspace instructions) */
+export const MAX_CARD_SYSTEM_PROMPT = 1500;
+
+export interface ResolvedCardInstructions {
+  personaId?: string;
+  systemPrompt?: string;
+  /** Card the persona is set on (this card or an ancestor) */
+  personaSourceId?: string;
+  /** Card the system prompt is set on (this card or an ancestor) */
+  systemPromptSourceId?: string;
+}
+
+/**
+ * The persona and system prompt that apply to a card. Values set on the card
+ * win; otherwise the nearest ancestor's are used. An empty value on a card
+ * opts it out of what it would inherit.
+ */
+export function resolveCardInstructions(
+  conversation: Conversation,
+  conversations: Map<string, Conversation>
+): ResolvedCardInstructions {
+  const resolved: ResolvedCardInstructions = {};
+  let personaFound = false;
+  let promptFound = false;
+  const visited = new Set<string>();
+  let current: Conversation | undefined = conversation;
+
+  while (current && !visited.has(current.id) && !(personaFound && promptFound)) {
+    visited.add(current.id);
+    if (!personaFound && current.personaId !== undefined) {
+      personaFound = true;
+      if (getPersona(current.personaId)) {
+        resolved.personaId = current.personaId;
+        resolved.personaSourceId = current.id;
+      }
+    }
+    if (!promptFound && current.systemPrompt !== undefined) {
+      promptFound = true;
+      if (current.systemPrompt.trim()) {
+        resolved.systemPrompt = current.systemPrompt.trim();
+        resolved.systemPromptSourceId = current.id;
+      }
+    }
+    const parentId: string | undefined = current.parentCardIds[0];
+    current = parentId ? conversations.get(parentId) : undefined;
+  }
+
+  return resolved;
+}
+
+export type InstructionLayerSource = 'workspace' | 'persona' | 'card';
+
+export interface InstructionLayer {
+  source: InstructionLayerSource;
+  /** Short name for the UI */
+  label: string;
+  /** Section heading in the system prompt */
+  heading: string;
+  text: string;
+}
+
+/**
+ * Instruction layers in the order the chat route sends them. Empty layers
+ * and unknown persona IDs are skipped.
+ */
+export function buildInstructionLayers({ workspaceInstructions, personaId, systemPrompt }: {
+  workspaceInstructions?: string;
+  personaId?: string;
+  systemPrompt?: string;
+}): InstructionLayer[] {
+  const layers: InstructionLayer[] = [];
+  if (workspaceInstructions?.trim()) {
+    layers.push({ source: 'workspace', label: 'Workspace', heading: 'Workspace Instructions', text: workspaceInstructions.trim() });
+  }
+  const persona = getPersona(personaId);
+  if (persona) {
+    layers.push({ source: 'persona', label: persona.name, heading: `Persona: ${persona.name}`, text: persona.prompt });
+  }
+  if (systemPrompt?.trim()) {
+    layers.push({ source: 'card', label: 'Card', heading: 'Card Instructions', text: systemPrompt.trim() });
+  }
+  return layers;
+}
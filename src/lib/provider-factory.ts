@@ -1,26 +1,39 @@
 /**
  * Provider Factory
  * 
- * Creates Vercel AI SDK model instances for Anthropic and OpenAI providers.
+ * Creates Vercel AI SDK model instances for Anthropic, OpenAI and Google Gemini,
+ * plus a user-configured OpenAI-compatible endpoint (vLLM, Ollama, LM Studio).
  * Replaces the old Perplexity Agent API gateway with direct provider connections.
  * 
- * Model IDs use the 'provider/model' format: 'anthropic/claude-sonnet-4-6', 'openai/gpt-5.2'
- * The factory strips the prefix and routes to the correct provider SDK.
+ * Model IDs use the 'provider/model' format: 'anthropic/claude-sonnet-4-6', 'openai/gpt-5.2',
+ * 'google/gemini-2.5-pro', 'custom/llama3.1:8b'. The factory strips the prefix and routes to the correct provider SDK.
  * 
- * @version 1.0.0
+ * @version 1.2.0
  */
 
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import type { LanguageModel, ToolSet } from 'ai';
 
+import { guardedCustomFetch } from '@/lib/custom-endpoint-guard';
+
 // =============================================================================
 // TYPES
 // =============================================================================
 
+export interface CustomProviderCredentials {
+  /** OpenAI-compatible base URL, e.g. 'http://localhost:11434/v1' */
+  baseURL: string;
+  /** Optional key — most local servers accept any value */
+  apiKey?: string;
+}
+
 export interface ProviderKeys {
   anthropic?: string;
   openai?: string;
+  google?: string;
+  custom?: CustomProviderCredentials;
 }
 
 export interface CreateModelOptions {
@@ -32,19 +45,53 @@ export interface CreateModelOptions {
 // PROVIDER DETECTION
 // =============================================================================
 
-export type ProviderType = 'anthropic' | 'openai';
+export type ProviderType = 'anthropic' | 'openai' | 'google' | 'custom';
 
 /**
  * Detect provider from model ID prefix.
- * Only anthropic and openai are supported.
+ * Supports anthropic, openai, google and the custom OpenAI-compatible endpoint.
  */
 export function detectProvider(modelId: string): ProviderType {
   if (modelId.startsWith('anthropic/')) return 'anthropic';
   if (modelId.startsWith('openai/')) return 'openai';
+  if (modelId.startsWith('google/')) return 'google';
+  if (modelId.startsWith('custom/')) return 'custom';
   // Legacy bare model IDs
   if (modelId.startsWith('claude')) return 'anthropic';
   if (modelId.startsWith('gpt') || modelId.startsWith('o1') || modelId.startsWith('o3') || modelId.startsWith('o4')) return 'openai';
-  throw new Error(`Unknown provider for model: ${modelId}. Use 'anthropic/...' or 'openai/...' format.`);
+  if (modelId.startsWith('gemini')) return 'google';
+  throw new Error(`Unknown provider for model: ${modelId}. Use 'anthropic/...', 'openai/...', 'google/...' or 'custom/...' format.`);
+}
+
+/**
+ * Validate a custom endpoint base URL. Returns the URL without trailing
+ * slashes, or null when it is not an http(s) URL.
+ */
+export function normalizeCustomBaseURL(baseURL: string | undefined): string | null {
+  if (!baseURL) return null;
+  try {
+    const url = new URL(baseURL.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.toString().replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the credentials needed for a provider are present.
+ * The custom provider only needs a valid base URL.
+ */
+export function hasProviderCredentials(provider: ProviderType, keys: ProviderKeys): boolean {
+  if (provider === 'custom') return normalizeCustomBaseURL(keys.custom?.baseURL) !== null;
+  return !!keys[provider];
+}
+
+/**
+ * Whether any provider can be called with these keys
+ */
+export function hasAnyProviderCredentials(keys: ProviderKeys): boolean {
+  return !!keys.anthropic || !!keys.openai || !!keys.google || hasProviderCredentials('custom', keys);
 }
 
 /**
@@ -94,6 +141,25 @@ export function createModel(
       const openai = createOpenAI({ apiKey: keys.openai });
       return openai(bareModelId);
     }
+
+    case 'google': {
+      if (!keys.google) {
+        throw new Error('Google API key is required for Gemini models. Add it in Settings.');
+      }
+      const google = createGoogleGenerativeAI({ apiKey: keys.google });
+      return google(bareModelId);
+    }
+
+    case 'custom': {
+      const baseURL = normalizeCustomBaseURL(keys.custom?.baseURL);
+      if (!baseURL) {
+        throw new Error('A base URL is required for custom models. Add it in Settings.');
+      }
+      // OpenAI-compatible servers implement Chat Completions, not the Responses API.
+      // Requests run on the server, so each one is checked against the host allowlist.
+      const custom = createOpenAI({ baseURL, apiKey: keys.custom?.apiKey ?? '', name: 'custom', fetch: guardedCustomFetch });
+      return custom.chat(bareModelId);
+    }
   }
 }
 
@@ -133,6 +199,19 @@ export function getWebSearchTools(
         }),
       } as ToolSet;
     }
+
+    case 'google': {
+      if (!keys.google) return {};
+      // Grounding with Google Search — citations arrive as source parts
+      const google = createGoogleGenerativeAI({ apiKey: keys.google });
+      return {
+        web_search: google.tools.googleSearch({}),
+      } as ToolSet;
+    }
+
+    case 'custom':
+      // No provider-native web search on OpenAI-compatible endpoints
+      return {};
   }
 }
 
@@ -142,6 +221,7 @@ export function getWebSearchTools(
 export function getKeyForModel(modelId: string, keys: ProviderKeys): string | null {
   try {
     const provider = detectProvider(modelId);
+    if (provider === 'custom') return keys.custom?.apiKey ?? null;
     return keys[provider] ?? null;
   } catch {
     return null;
@@ -1,10 +1,10 @@
 /**
  * Versioned Storage Layer
  * 
- * Provides localStorage persistence with schema versioning,
- * migration handlers, and error recovery.
+ * Provides persistence with schema versioning, migration handlers,
+ * pluggable storage adapters (localStorage, IndexedDB) and error recovery.
  * 
- * @version 4.0.0 - Card-level branching architecture
+ * @version 5.0.0 - IndexedDB-backed workspace storage
  */
 
 // =============================================================================
@@ -28,8 +28,23 @@ export interface Migration<TFrom = unknown, TTo = unknown> {
   migrate: (data: TFrom) => TTo;
 }
 
+/**
+ * Synchronous key/value backend used by VersionedStorage.
+ * Async backends (IndexedDB) keep a hydrated in-memory cache so reads stay sync.
+ */
+export interface StorageAdapter {
+  /** Backend name shown in storage diagnostics */
+  readonly name: string;
+  isAvailable(): boolean;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /** Resolve once all pending writes have been committed */
+  flush?(): Promise<void>;
+}
+
 export interface StorageOptions<T> {
-  /** Storage key in localStorage */
+  /** Storage key */
   key: string;
   /** Current schema version */
   version: number;
@@ -39,6 +54,13 @@ export interface StorageOptions<T> {
   migrations?: Migration[];
   /** Enable console logging */
   debug?: boolean;
+  /** Backend to persist to (defaults to localStorage) */
+  adapter?: StorageAdapter;
+  /**
+   * Previous backend for this key. Data found only there is moved into
+   * `adapter` on first load, and it is used while `adapter` is unavailable.
+   */
+  legacyAdapter?: StorageAdapter;
 }
 
 export interface StorageResult<T> {
@@ -46,6 +68,8 @@ export interface StorageResult<T> {
   data: T;
   migrated: boolean;
   fromVersion?: number;
+  /** Data was moved over from the legacy adapter during this load */
+  movedFromLegacy?: boolean;
   error?: Error;
 }
 
@@ -61,8 +85,9 @@ export interface StorageResult<T> {
  *            - Workspaces are flat (no hierarchy)
  *            - Cards have parentCardIds for branching
  *            - Support for merge nodes with multiple parents
+ * Version 5: Workspace data lives in IndexedDB instead of localStorage
  */
-export const CURRENT_SCHEMA_VERSION = 4;
+export const CURRENT_SCHEMA_VERSION = 5;
 
 export const STORAGE_KEYS = {
   /** @deprecated Use WORKSPACES */
@@ -87,8 +112,38 @@ export const STORAGE_KEYS = {
   BACKUP_REMINDER_LAST_SHOWN: 'projectloom:backup:last-reminder',
   /** Last auto backup timestamp (ISO) */
   BACKUP_LAST_AUTO_EXPORT: 'projectloom:backup:last-auto',
+  /** Active workspace of the current tab (sessionStorage) */
+  TAB_WORKSPACE: 'projectloom:tab-workspace',
 } as const;
 
+/**
+ * Default adapter backed by window.localStorage
+ */
+export const localStorageAdapter: StorageAdapter = {
+  name: 'localStorage',
+  isAvailable: () => {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      const testKey = '__storage_test__';
+      window.localStorage.setItem(testKey, testKey);
+      window.localStorage.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  getItem: (key) => window.localStorage.getItem(key),
+  setItem: (key, value) => window.localStorage.setItem(key, value),
+  removeItem: (key) => window.localStorage.removeItem(key),
+};
+
+/**
+ * Storage instances by key, so backups read and write through whichever
+ * adapter currently owns the key instead of assuming localStorage.
+ */
+const registeredStorages = new Map<string, VersionedStorage<unknown>>();
+
 export interface BackupPayload {
   version: 1;
   exportedAt: string;
@@ -109,7 +164,8 @@ export function createBackupPayload(): BackupPayload {
 
   if (typeof window !== 'undefined') {
     BACKUP_EXPORT_KEYS.forEach((key) => {
-      data[key] = window.localStorage.getItem(key);
+      const owner = registeredStorages.get(key);
+      data[key] = owner ? owner.getRaw() : window.localStorage.getItem(key);
     });
   }
 
@@ -120,17 +176,37 @@ export function createBackupPayload(): BackupPayload {
   };
 }
 
-export function applyBackupPayload(payload: BackupPayload): void {
+/**
+ * Restore a backup. Resolves once every adapter has committed its writes,
+ * so callers can safely reload the page afterwards.
+ */
+export async function applyBackupPayload(payload: BackupPayload): Promise<void> {
   if (typeof window === 'undefined') return;
 
+  const owners = new Set<VersionedStorage<unknown>>();
+
   BACKUP_EXPORT_KEYS.forEach((key) => {
     const value = payload.data[key] ?? null;
+    const owner = registeredStorages.get(key);
+
+    if (owner) {
+      owners.add(owner);
+      if (value === null) {
+        owner.clear();
+      } else {
+        owner.setRaw(value);
+      }
+      return;
+    }
+
     if (value === null) {
       window.localStorage.removeItem(key);
     } else {
       window.localStorage.setItem(key, value);
     }
   });
+
+  await Promise.all(Array.from(owners).map((owner) => owner.flush()));
 }
 
 /**
@@ -186,6 +262,8 @@ export class VersionedStorage<T> {
   private defaultData: T;
   private migrations: Migration[];
   private debug: boolean;
+  private adapter: StorageAdapter;
+  private legacyAdapter: StorageAdapter | null;
 
   constructor(options: StorageOptions<T>) {
     this.key = options.key;
@@ -193,9 +271,13 @@ export class VersionedStorage<T> {
     this.defaultData = options.defaultData;
     this.migrations = options.migrations || [];
     this.debug = options.debug || false;
+    this.adapter = options.adapter || localStorageAdapter;
+    this.legacyAdapter = options.legacyAdapter || null;
 
     // Sort migrations by version
     this.migrations.sort((a, b) => a.fromVersion - b.fromVersion);
+
+    registeredStorages.set(this.key, this as VersionedStorage<unknown>);
   }
 
   /**
@@ -208,19 +290,13 @@ export class VersionedStorage<T> {
   }
 
   /**
-   * Check if localStorage is available
+   * Resolve the adapter to use right now: the primary one, or the legacy
+   * one while the primary is unavailable (e.g. IndexedDB not hydrated yet).
    */
-  private isStorageAvailable(): boolean {
-    if (typeof window === 'undefined') return false;
-    
-    try {
-      const testKey = '__storage_test__';
-      window.localStorage.setItem(testKey, testKey);
-      window.localStorage.removeItem(testKey);
-      return true;
-    } catch {
-      return false;
-    }
+  private getActiveAdapter(): StorageAdapter | null {
+    if (this.adapter.isAvailable()) return this.adapter;
+    if (this.legacyAdapter?.isAvailable()) return this.legacyAdapter;
+    return null;
   }
 
   /**
@@ -268,12 +344,32 @@ export class VersionedStorage<T> {
     return currentData as T;
   }
 
+  /**
+   * Remove the legacy copy once the primary adapter has committed it.
+   * If the commit fails the legacy copy stays, so nothing is lost.
+   */
+  private retireLegacyCopy(): void {
+    const legacy = this.legacyAdapter;
+    if (!legacy) return;
+
+    const committed = this.adapter.flush ? this.adapter.flush() : Promise.resolve();
+    void committed
+      .then(() => {
+        legacy.removeItem(this.key);
+        this.log(`Moved data from ${legacy.name} to ${this.adapter.name}`);
+      })
+      .catch((error) => {
+        this.log(`Keeping ${legacy.name} copy, ${this.adapter.name} commit failed`, error);
+      });
+  }
+
   /**
    * Load data from storage
    */
   load(): StorageResult<T> {
-    if (!this.isStorageAvailable()) {
-      this.log('localStorage not available, using default data');
+    const adapter = this.getActiveAdapter();
+    if (!adapter) {
+      this.log('Storage not available, using default data');
       return {
         success: true,
         data: this.defaultData,
@@ -282,7 +378,17 @@ export class VersionedStorage<T> {
     }
 
     try {
-      const raw = window.localStorage.getItem(this.key);
+      let raw = adapter.getItem(this.key);
+      let movedFromLegacy = false;
+
+      // First load after switching backends: pick the data up from the old one
+      if (!raw && this.legacyAdapter && adapter !== this.legacyAdapter && this.legacyAdapter.isAvailable()) {
+        raw = this.legacyAdapter.getItem(this.key);
+        movedFromLegacy = raw !== null;
+        if (movedFromLegacy) {
+          this.log(`Found data in ${this.legacyAdapter.name}, moving to ${adapter.name}`);
+        }
+      }
       
       if (!raw) {
         this.log('No stored data, using defaults');
@@ -323,22 +429,31 @@ export class VersionedStorage<T> {
         const migratedData = this.applyMigrations(schema.data, schema.version);
         
         // Save migrated data
-        this.save(migratedData);
+        const saved = this.save(migratedData);
+        if (saved && movedFromLegacy) {
+          this.retireLegacyCopy();
+        }
         
         return {
           success: true,
           data: migratedData,
           migrated: true,
           fromVersion: schema.version,
+          movedFromLegacy,
         };
       }
 
+      if (movedFromLegacy && this.save(schema.data)) {
+        this.retireLegacyCopy();
+      }
+
       // Version matches, return data directly
       this.log('Loaded data successfully');
       return {
         success: true,
         data: schema.data,
         migrated: false,
+        movedFromLegacy,
       };
 
     } catch (error) {
@@ -356,8 +471,9 @@ export class VersionedStorage<T> {
    * Save data to storage
    */
   save(data: T): boolean {
-    if (!this.isStorageAvailable()) {
-      this.log('localStorage not available, cannot save');
+    const adapter = this.getActiveAdapter();
+    if (!adapter) {
+      this.log('Storage not available, cannot save');
       return false;
     }
 
@@ -369,7 +485,7 @@ export class VersionedStorage<T> {
         checksum: this.generateChecksum(data),
       };
 
-      window.localStorage.setItem(this.key, JSON.stringify(schema));
+      adapter.setItem(this.key, JSON.stringify(schema));
       this.log('Saved data successfully');
       return true;
 
@@ -385,16 +501,38 @@ export class VersionedStorage<T> {
     }
   }
 
+  /**
+   * Write an already-serialized schema (used by backup restore)
+   */
+  setRaw(raw: string): boolean {
+    const adapter = this.getActiveAdapter();
+    if (!adapter) {
+      return false;
+    }
+
+    try {
+      adapter.setItem(this.key, raw);
+      return true;
+    } catch (error) {
+      this.log('Failed to write raw data', error);
+      return false;
+    }
+  }
+
   /**
    * Clear stored data
    */
   clear(): boolean {
-    if (!this.isStorageAvailable()) {
+    const adapter = this.getActiveAdapter();
+    if (!adapter) {
       return false;
     }
 
     try {
-      window.localStorage.removeItem(this.key);
+      adapter.removeItem(this.key);
+      if (this.legacyAdapter && adapter !== this.legacyAdapter && this.legacyAdapter.isAvailable()) {
+        this.legacyAdapter.removeItem(this.key);
+      }
       this.log('Cleared stored data');
       return true;
     } catch {
@@ -402,24 +540,39 @@ export class VersionedStorage<T> {
     }
   }
 
+  /**
+   * Resolve once pending writes have been committed by the adapter
+   */
+  async flush(): Promise<void> {
+    const adapter = this.getActiveAdapter();
+    if (adapter?.flush) {
+      await adapter.flush();
+    }
+  }
+
   /**
    * Check if data exists in storage
    */
   exists(): boolean {
-    if (!this.isStorageAvailable()) {
-      return false;
-    }
-    return window.localStorage.getItem(this.key) !== null;
+    return this.getRaw() !== null;
   }
 
   /**
    * Get the raw stored data without parsing
    */
   getRaw(): string | null {
-    if (!this.isStorageAvailable()) {
+    const adapter = this.getActiveAdapter();
+    if (!adapter) {
       return null;
     }
-    return window.localStorage.getItem(this.key);
+    return adapter.getItem(this.key);
+  }
+
+  /**
+   * Name of the backend currently holding the data
+   */
+  getBackendName(): string | null {
+    return this.getActiveAdapter()?.name ?? null;
   }
 
   /**
@@ -0,0 +1,418 @@
+/**
+ * Cross-Tab Sync
+ *
+ * Keeps several open tabs of the canvas in step over a BroadcastChannel.
+ * Each tab tracks a baseline: the card, edge and workspace versions it last
+ * exchanged with the others. After every save a tab broadcasts what changed
+ * relative to that baseline; receivers merge three-way against their own
+ * baseline. A card edited in both tabs since the last exchange is reported
+ * as a conflict and left untouched instead of being overwritten.
+ *
+ * The active workspace is per tab (kept in sessionStorage) and never synced.
+ */
+
+import { nanoid } from 'nanoid';
+
+import { STORAGE_KEYS } from '@/lib/storage';
+import type { Conversation, EdgeConnection, Position, Workspace } from '@/types';
+
+/** Identifies this tab's messages */
+export const TAB_ID = nanoid();
+
+const CHANNEL_NAME = 'projectloom-sync';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WorkspaceSyncMeta = Omit<Workspace, 'conversations' | 'edges'>;
+
+export interface CardSyncChange {
+  card: Conversation;
+  /** Sender's baseline fingerprint for the card (null for a new card) */
+  base: string | null;
+}
+
+export interface CardSyncRemoval {
+  id: string;
+  base: string | null;
+}
+
+export type TabSyncMessage =
+  | {
+    type: 'workspace-changes';
+    tabId: string;
+    workspaceId: string;
+    workspace: WorkspaceSyncMeta;
+    upserts: CardSyncChange[];
+    removals: CardSyncRemoval[];
+    edgeUpserts: EdgeConnection[];
+    edgeRemovals: string[];
+  }
+  | { type: 'workspace-removed'; tabId: string; workspaceId: string }
+  | {
+    /** Conflict resolution: receivers take `card` as-is (null = deleted) */
+    type: 'card-resolved';
+    tabId: string;
+    workspaceId: string;
+    cardId: string;
+    card: Conversation | null;
+  };
+
+export interface SyncConflict {
+  cardId: string;
+  workspaceId: string;
+  title: string;
+  /** This tab's version (null when deleted here) */
+  local: Conversation | null;
+  /** The other tab's version (null when deleted there) */
+  remote: Conversation | null;
+  detectedAt: Date;
+}
+
+export interface SyncBaseline {
+  cards: Map<string, { workspaceId: string; fingerprint: string; position: Position }>;
+  /** Serialized edges per workspace, keyed by edge ID */
+  edges: Map<string, Map<string, string>>;
+  /** Workspace metadata fingerprints */
+  workspaces: Map<string, string>;
+}
+
+export interface WorkspaceMergeResult {
+  workspace: Workspace;
+  conflicts: SyncConflict[];
+  /** Cards added, updated or removed by the merge */
+  changedCardIds: Set<string>;
+}
+
+// =============================================================================
+// FINGERPRINTS
+// =============================================================================
+
+/** FNV-1a; fingerprints only need to tell versions apart, not be secure */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${value.length}`;
+}
+
+/**
+ * Content fingerprint of a card. Position is tracked separately so moving
+ * the same card in two tabs is last-writer-wins rather than a conflict.
+ */
+export function fingerprintConversation(conversation: Conversation): string {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { position, ...content } = conversation;
+  return hashString(JSON.stringify(content));
+}
+
+function fingerprintWorkspaceMeta(meta: WorkspaceSyncMeta): string {
+  // updatedAt is bumped by every save of the active workspace
+  return hashString(JSON.stringify({ ...meta, metadata: { ...meta.metadata, updatedAt: null } }));
+}
+
+function toWorkspaceMeta(workspace: Workspace): WorkspaceSyncMeta {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { conversations, edges, ...meta } = workspace;
+  return meta;
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+export function createSyncBaseline(): SyncBaseline {
+  return { cards: new Map(), edges: new Map(), workspaces: new Map() };
+}
+
+/**
+ * Drop a workspace from the baseline (deleted here or in another tab)
+ */
+export function forgetSyncedWorkspace(baseline: SyncBaseline, workspaceId: string): void {
+  baseline.workspaces.delete(workspaceId);
+  baseline.edges.delete(workspaceId);
+  baseline.cards.forEach((entry, cardId) => {
+    if (entry.workspaceId === workspaceId) baseline.cards.delete(cardId);
+  });
+}
+
+// =============================================================================
+// OUTGOING
+// =============================================================================
+
+/**
+ * Diff the current workspaces (active one with live state folded in) against
+ * the baseline, advance the baseline and return the messages to broadcast.
+ * Call once with a fresh baseline at startup to seed it.
+ */
+export function collectWorkspaceChanges(workspaces: Workspace[], baseline: SyncBaseline): TabSyncMessage[] {
+  const messages: TabSyncMessage[] = [];
+  const currentIds = new Set(workspaces.map((workspace) => workspace.id));
+
+  Array.from(baseline.workspaces.keys()).forEach((workspaceId) => {
+    if (currentIds.has(workspaceId)) return;
+    forgetSyncedWorkspace(baseline, workspaceId);
+    messages.push({ type: 'workspace-removed', tabId: TAB_ID, workspaceId });
+  });
+
+  const cardLocations = new Map<string, string>();
+  workspaces.forEach((workspace) => {
+    workspace.conversations.forEach((conv) => cardLocations.set(conv.id, workspace.id));
+  });
+
+  // Cards deleted, or moved to another workspace
+  const removalsByWorkspace = new Map<string, CardSyncRemoval[]>();
+  baseline.cards.forEach((entry, cardId) => {
+    if (cardLocations.get(cardId) === entry.workspaceId) return;
+    const removals = removalsByWorkspace.get(entry.workspaceId) ?? [];
+    removals.push({ id: cardId, base: entry.fingerprint });
+    removalsByWorkspace.set(entry.workspaceId, removals);
+    baseline.cards.delete(cardId);
+  });
+
+  workspaces.forEach((workspace) => {
+    const meta = toWorkspaceMeta(workspace);
+    const metaFingerprint = fingerprintWorkspaceMeta(meta);
+    const metaChanged = baseline.workspaces.get(workspace.id) !== metaFingerprint;
+    baseline.workspaces.set(workspace.id, metaFingerprint);
+
+    const upserts: CardSyncChange[] = [];
+    workspace.conversations.forEach((card) => {
+      const fingerprint = fingerprintConversation(card);
+      const entry = baseline.cards.get(card.id);
+      if (entry && entry.fingerprint === fingerprint && samePosition(entry.position, card.position)) return;
+      upserts.push({ card, base: entry?.fingerprint ?? null });
+      baseline.cards.set(card.id, { workspaceId: workspace.id, fingerprint, position: card.position });
+    });
+
+    const baseEdges = baseline.edges.get(workspace.id) ?? new Map<string, string>();
+    const currentEdges = new Map(workspace.edges.map((edge) => [edge.id, JSON.stringify(edge)]));
+    const edgeUpserts = workspace.edges.filter((edge) => baseEdges.get(edge.id) !== currentEdges.get(edge.id));
+    const edgeRemovals = Array.from(baseEdges.keys()).filter((id) => !currentEdges.has(id));
+    baseline.edges.set(workspace.id, currentEdges);
+
+    const removals = removalsByWorkspace.get(workspace.id) ?? [];
+    if (!metaChanged && upserts.length === 0 && removals.length === 0 && edgeUpserts.length === 0 && edgeRemovals.length === 0) {
+      return;
+    }
+
+    messages.push({
+      type: 'workspace-changes',
+      tabId: TAB_ID,
+      workspaceId: workspace.id,
+      workspace: meta,
+      upserts,
+      removals,
+      edgeUpserts,
+      edgeRemovals,
+    });
+  });
+
+  return messages;
+}
+
+// =============================================================================
+// INCOMING
+// =============================================================================
+
+function toConflict(workspaceId: string, local: Conversation | null, remote: Conversation | null): SyncConflict {
+  return {
+    cardId: (local ?? remote)!.id,
+    workspaceId,
+    title: (local ?? remote)!.metadata.title || 'Untitled',
+    local,
+    remote,
+    detectedAt: new Date(),
+  };
+}
+
+/**
+ * Merge another tab's changes into the local copy of a workspace (undefined
+ * when the workspace is new to this tab) and advance the baseline. Cards
+ * changed on both sides since the last exchange keep the local version and
+ * are returned as conflicts.
+ */
+export function mergeWorkspaceChanges(
+  local: Workspace | undefined,
+  message: Extract<TabSyncMessage, { type: 'workspace-changes' }>,
+  baseline: SyncBaseline
+): WorkspaceMergeResult {
+  const { workspaceId } = message;
+  const cards = new Map((local?.conversations ?? []).map((conv) => [conv.id, conv]));
+  const conflicts: SyncConflict[] = [];
+  const changedCardIds = new Set<string>();
+
+  const accept = (card: Conversation, fingerprint: string) => {
+    cards.set(card.id, card);
+    baseline.cards.set(card.id, { workspaceId, fingerprint, position: card.position });
+    changedCardIds.add(card.id);
+  };
+
+  message.upserts.forEach(({ card, base }) => {
+    const localCard = cards.get(card.id);
+    const synced = baseline.cards.get(card.id);
+    const remoteFingerprint = fingerprintConversation(card);
+    const localFingerprint = localCard ? fingerprintConversation(localCard) : null;
+
+    if (localFingerprint === remoteFingerprint || (!localCard && !synced)) {
+      accept(card, remoteFingerprint);
+      return;
+    }
+
+    // Moved only: adopt the position, keep any local content edits
+    if (remoteFingerprint === base) {
+      if (localCard) {
+        cards.set(card.id, { ...localCard, position: card.position });
+        changedCardIds.add(card.id);
+      }
+      if (synced) synced.position = card.position;
+      return;
+    }
+
+    const localChanged = localFingerprint !== (synced?.fingerprint ?? null);
+    if (!localChanged && base === (synced?.fingerprint ?? null)) {
+      accept(card, remoteFingerprint);
+      return;
+    }
+
+    conflicts.push(toConflict(workspaceId, localCard ?? null, card));
+  });
+
+  message.removals.forEach(({ id, base }) => {
+    const localCard = cards.get(id);
+    const synced = baseline.cards.get(id);
+    if (!localCard) {
+      baseline.cards.delete(id);
+      return;
+    }
+
+    const localFingerprint = fingerprintConversation(localCard);
+    if (localFingerprint === synced?.fingerprint || localFingerprint === base) {
+      cards.delete(id);
+      baseline.cards.delete(id);
+      changedCardIds.add(id);
+      return;
+    }
+
+    conflicts.push(toConflict(workspaceId, localCard, null));
+  });
+
+  const edges = new Map((local?.edges ?? []).map((edge) => [edge.id, edge]));
+  const baseEdges = baseline.edges.get(workspaceId) ?? new Map<string, string>();
+  message.edgeUpserts.forEach((edge) => {
+    edges.set(edge.id, edge);
+    baseEdges.set(edge.id, JSON.stringify(edge));
+  });
+  message.edgeRemovals.forEach((id) => {
+    edges.delete(id);
+    baseEdges.delete(id);
+  });
+  baseline.edges.set(workspaceId, baseEdges);
+
+  baseline.workspaces.set(workspaceId, fingerprintWorkspaceMeta(message.workspace));
+
+  return {
+    workspace: {
+      ...(local ?? {}),
+      ...message.workspace,
+      conversations: Array.from(cards.values()),
+      edges: Array.from(edges.values()),
+    },
+    conflicts,
+    changedCardIds,
+  };
+}
+
+/**
+ * Put `card` in place of the card with `cardId` (null removes it together
+ * with its edges) and record the result as synced.
+ */
+export function replaceSyncedCard(
+  workspace: Workspace,
+  cardId: string,
+  card: Conversation | null,
+  baseline: SyncBaseline
+): Workspace {
+  if (card) {
+    baseline.cards.set(cardId, {
+      workspaceId: workspace.id,
+      fingerprint: fingerprintConversation(card),
+      position: card.position,
+    });
+  } else {
+    baseline.cards.delete(cardId);
+  }
+
+  const exists = workspace.conversations.some((conv) => conv.id === cardId);
+  const conversations = card
+    ? (exists
+      ? workspace.conversations.map((conv) => (conv.id === cardId ? card : conv))
+      : [...workspace.conversations, card])
+    : workspace.conversations.filter((conv) => conv.id !== cardId);
+
+  return {
+    ...workspace,
+    conversations,
+    edges: card
+      ? workspace.edges
+      : workspace.edges.filter((edge) => edge.source !== cardId && edge.target !== cardId),
+  };
+}
+
+// =============================================================================
+// CHANNEL
+// =============================================================================
+
+export interface TabSyncChannel {
+  post: (message: TabSyncMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Open the sync channel; null where BroadcastChannel is unavailable
+ * (the app then behaves as a single tab).
+ */
+export function openTabSyncChannel(onMessage: (message: TabSyncMessage) => void): TabSyncChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+    if (event.data && event.data.tabId !== TAB_ID) onMessage(event.data);
+  };
+
+  return {
+    post: (message) => {
+      try {
+        channel.postMessage(message);
+      } catch (error) {
+        console.warn('[TabSync] Failed to broadcast change', error);
+      }
+    },
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * This tab's active workspace, so a reload returns to it even when another
+ * tab saved a different one as active
+ */
+export function getTabWorkspaceId(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.sessionStorage.getItem(STORAGE_KEYS.TAB_WORKSPACE);
+  } catch {
+    return null;
+  }
+}
+
+export function setTabWorkspaceId(workspaceId: string): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.sessionStorage.setItem(STORAGE_KEYS.TAB_WORKSPACE, workspaceId);
+  } catch {
+    // sessionStorage unavailable (private mode); tabs then share the stored active workspace
+  }
+}
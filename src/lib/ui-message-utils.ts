@@ -0,0 +1,78 @@
+/**
+ * UI Message Utilities
+ *
+ * Helpers for reading AI SDK v6 UIMessages (parts-based) returned by /api/chat.
+ * Shared by the ChatPanel useChat stream and fan-out branch streams.
+ *
+ * @version 1.0.0
+ */
+
+import type { UIMessage } from 'ai';
+
+export interface WebSearchSource {
+  title: string;
+  url: string;
+}
+
+/** Extract text content from a UIMessage's parts array */
+export function getMessageText(message: UIMessage): string {
+  return message.parts
+    .filter((p): p is { type: 'text'; text: string } => p.type === 'text')
+    .map(p => p.text)
+    .join('');
+}
+
+/**
+ * Extract reasoning (extended thinking / reasoning summary) text from a
+ * UIMessage. Each reasoning part is one block, separated by a blank line.
+ */
+export function getMessageReasoning(message: UIMessage): string {
+  return message.parts
+    .filter((p): p is { type: 'reasoning'; text: string } => p.type === 'reasoning')
+    .map(p => p.text.trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Extract web search sources from message parts.
+ * AI SDK v6: tool parts have type 'tool-${toolName}' with state/input/output.
+ * Source parts are emitted by the SDK for some providers.
+ */
+export function extractWebSearchSources(message: UIMessage): { used: boolean; sources: WebSearchSource[] } {
+  const sources: WebSearchSource[] = [];
+  let used = false;
+  type AISV6ToolPart = { type: string; state: string; input?: unknown; output?: unknown };
+  type AISV6SourcePart = { type: 'source-url'; url: string; title?: string };
+  for (const part of message.parts ?? []) {
+    // Tool parts: type is 'tool-web_search', 'tool-whatever', etc.
+    if (part.type.startsWith('tool-')) {
+      const toolName = part.type.slice(5); // Strip 'tool-' prefix
+      const tp = part as unknown as AISV6ToolPart;
+      if (toolName === 'web_search' && tp.state === 'output' && tp.output) {
+        used = true;
+        // Anthropic: output is an array of result objects with url/title
+        // OpenAI: output is { action: { query }, sources: [{ type: 'url', url }] }
+        const out = tp.output as Record<string, unknown> | unknown[];
+        const rawResults = Array.isArray(out)
+          ? out
+          : Array.isArray((out as Record<string, unknown>).sources)
+            ? (out as Record<string, unknown>).sources as unknown[]
+            : [];
+        for (const r of rawResults) {
+          const res = r as { url?: string; title?: string };
+          if (res.url) sources.push({ url: res.url, title: res.title ?? res.url });
+        }
+      }
+    }
+    // source-url parts: emitted by AI SDK for web citations
+    if (part.type === 'source-url') {
+      const sp = part as unknown as AISV6SourcePart;
+      if (sp.url && !sources.find((s) => s.url === sp.url)) {
+        used = true;
+        sources.push({ url: sp.url, title: sp.title ?? sp.url });
+      }
+    }
+  }
+  return { used, sources };
+}
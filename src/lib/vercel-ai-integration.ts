@@ -11,15 +11,17 @@
 // MODEL DEFINITIONS
 // =============================================================================
 
+export type ModelProvider = 'anthropic' | 'openai' | 'google' | 'custom';
+
 export interface ModelDefinition {
   /** Model ID used in API calls */
   id: string;
   /** Human-readable display name */
   name: string;
-  /** Provider (anthropic/openai) */
-  provider: 'anthropic' | 'openai';
-  /** Maximum context tokens */
-  maxTokens: number;
+  /** Provider (anthropic/openai/google, or custom for an OpenAI-compatible endpoint) */
+  provider: ModelProvider;
+  /** Context window in tokens (prompt and response together) */
+  contextWindow: number;
   /** Whether streaming is supported */
   supportsStreaming: boolean;
   /** Whether vision (image) is supported */
@@ -40,7 +42,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     id: 'anthropic/claude-haiku-4-5',
     name: 'Claude Haiku 4.5',
     provider: 'anthropic',
-    maxTokens: 200000,
+    contextWindow: 200000,
     supportsStreaming: true,
     supportsVision: true,
     costTier: 'low',
@@ -50,7 +52,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     id: 'anthropic/claude-sonnet-4-6',
     name: 'Claude Sonnet 4.6',
     provider: 'anthropic',
-    maxTokens: 200000,
+    contextWindow: 200000,
     supportsStreaming: true,
     supportsVision: true,
     costTier: 'medium',
@@ -60,7 +62,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     id: 'anthropic/claude-opus-4-6',
     name: 'Claude Opus 4.6',
     provider: 'anthropic',
-    maxTokens: 200000,
+    contextWindow: 200000,
     supportsStreaming: true,
     supportsVision: true,
     costTier: 'high',
@@ -72,7 +74,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     id: 'openai/gpt-5-mini',
     name: 'GPT-5 Mini',
     provider: 'openai',
-    maxTokens: 128000,
+    contextWindow: 128000,
     supportsStreaming: true,
     supportsVision: true,
     costTier: 'low',
@@ -82,7 +84,7 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     id: 'openai/gpt-5.2',
     name: 'GPT-5.2',
     provider: 'openai',
-    maxTokens: 128000,
+    contextWindow: 128000,
     supportsStreaming: true,
     supportsVision: true,
     costTier: 'high',
@@ -92,39 +94,100 @@ export const AVAILABLE_MODELS: ModelDefinition[] = [
     id: 'openai/gpt-5.1',
     name: 'GPT-5.1',
     provider: 'openai',
-    maxTokens: 128000,
+    contextWindow: 128000,
     supportsStreaming: true,
     supportsVision: true,
     costTier: 'medium',
     description: '128K context. Balanced OpenAI model between mini and flagship.',
   },
+
+  // ── Google Gemini (direct API via @ai-sdk/google) ────────────────────────
+  {
+    id: 'google/gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    provider: 'google',
+    contextWindow: 1048576,
+    supportsStreaming: true,
+    supportsVision: true,
+    costTier: 'low',
+    description: '1M context. Fast, low-cost Gemini with thinking.',
+  },
+  {
+    id: 'google/gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    provider: 'google',
+    contextWindow: 1048576,
+    supportsStreaming: true,
+    supportsVision: true,
+    costTier: 'medium',
+    description: '1M context. Strong reasoning across long documents and code.',
+  },
+  {
+    id: 'google/gemini-3-pro-preview',
+    name: 'Gemini 3 Pro',
+    provider: 'google',
+    contextWindow: 1048576,
+    supportsStreaming: true,
+    supportsVision: true,
+    costTier: 'high',
+    description: '1M context. Most capable Gemini (preview).',
+  },
 ];
 
+/** Prefix for models served by the user's OpenAI-compatible endpoint */
+export const CUSTOM_MODEL_PREFIX = 'custom/';
+
+/**
+ * Build a definition for a model on the custom endpoint.
+ * Accepts either the bare model name or the prefixed ID.
+ */
+export function createCustomModelDefinition(model: string): ModelDefinition {
+  const name = model.startsWith(CUSTOM_MODEL_PREFIX) ? model.slice(CUSTOM_MODEL_PREFIX.length) : model;
+  return {
+    id: `${CUSTOM_MODEL_PREFIX}${name}`,
+    name,
+    provider: 'custom',
+    contextWindow: 32000,
+    supportsStreaming: true,
+    supportsVision: false,
+    costTier: 'low',
+    description: 'Served by a custom OpenAI-compatible endpoint.',
+  };
+}
+
 /**
  * Get models available based on configured API keys.
- * Each provider requires its own key.
+ * Each provider requires its own key; custom models are listed by name.
  */
 export function getAvailableModels(
-  keys: { anthropic?: boolean; openai?: boolean }
+  keys: { anthropic?: boolean; openai?: boolean; google?: boolean; custom?: string[] }
 ): ModelDefinition[] {
-  return AVAILABLE_MODELS.filter((m) => {
+  const builtIn = AVAILABLE_MODELS.filter((m) => {
     if (m.provider === 'anthropic') return keys.anthropic;
     if (m.provider === 'openai') return keys.openai;
+    if (m.provider === 'google') return keys.google;
     return false;
   });
+  return [...builtIn, ...(keys.custom ?? []).map(createCustomModelDefinition)];
 }
 
 /**
- * Get a specific model by ID
+ * Get a specific model by ID. Custom model IDs resolve to a generic definition
+ * because their catalog lives in the user's settings, not here.
  */
 export function getModelById(id: string): ModelDefinition | undefined {
-  return AVAILABLE_MODELS.find((model) => model.id === id);
+  const model = AVAILABLE_MODELS.find((m) => m.id === id);
+  if (model) return model;
+  if (id.startsWith(CUSTOM_MODEL_PREFIX) && id.length > CUSTOM_MODEL_PREFIX.length) {
+    return createCustomModelDefinition(id);
+  }
+  return undefined;
 }
 
 /**
  * Get the default model for a provider
  */
-export function getDefaultModel(provider: 'anthropic' | 'openai'): ModelDefinition {
+export function getDefaultModel(provider: 'anthropic' | 'openai' | 'google'): ModelDefinition {
   const models = AVAILABLE_MODELS.filter((m) => m.provider === provider);
   if (models.length === 0) {
     if (AVAILABLE_MODELS.length === 0) {
@@ -141,12 +204,15 @@ export function getDefaultModel(provider: 'anthropic' | 'openai'): ModelDefiniti
  * Detect the underlying provider from a model ID.
  * Model IDs use the 'provider/model-name' format.
  */
-export function detectProvider(modelId: string): 'anthropic' | 'openai' {
+export function detectProvider(modelId: string): ModelProvider {
   if (modelId.startsWith('anthropic/')) return 'anthropic';
   if (modelId.startsWith('openai/')) return 'openai';
+  if (modelId.startsWith('google/')) return 'google';
+  if (modelId.startsWith(CUSTOM_MODEL_PREFIX)) return 'custom';
   // Legacy bare model IDs
   if (modelId.startsWith('claude')) return 'anthropic';
   if (modelId.startsWith('gpt') || modelId.startsWith('o1') || modelId.startsWith('o3') || modelId.startsWith('o4')) return 'openai';
+  if (modelId.startsWith('gemini')) return 'google';
   // Default to anthropic for unknown
   return 'anthropic';
 }
@@ -235,7 +301,8 @@ export function getErrorAction(suggestion: AIErrorResponse['suggestion']): {
 
 /**
  * Cost per 1M tokens (input/output) by model ID.
- * Direct provider pricing via @ai-sdk/anthropic and @ai-sdk/openai.
+ * Direct provider pricing via @ai-sdk/anthropic, @ai-sdk/openai and @ai-sdk/google.
+ * Gemini Pro rates are the ≤200K-token prompt tier.
  */
 export const MODEL_PRICING = {
   // Anthropic Claude (direct API)
@@ -246,6 +313,11 @@ export const MODEL_PRICING = {
   // OpenAI (direct API)
   'openai/gpt-5-mini': { input: 0.25, output: 2 },
   'openai/gpt-5.2': { input: 1.75, output: 14 },
+
+  // Google Gemini (direct API)
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'google/gemini-3-pro-preview': { input: 2, output: 12 },
 } as const;
 
 const DEFAULT_PRICING = { input: 3, output: 15 };
@@ -258,6 +330,8 @@ export function calculateCost(
   inputTokens: number,
   outputTokens: number
 ): number {
+  // Self-hosted models have no per-token price
+  if (modelId.startsWith(CUSTOM_MODEL_PREFIX)) return 0;
   const pricing = MODEL_PRICING[modelId as keyof typeof MODEL_PRICING] ?? DEFAULT_PRICING;
   return (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output;
 }
@@ -0,0 +1,249 @@
+/**
+ * Workspace Archive (.loom)
+ *
+ * Self-contained, versioned export of a single workspace: conversations,
+ * edges, canvas instructions, knowledge base file contents and attachment
+ * blobs. Importing re-IDs everything so an archive can be loaded next to
+ * existing workspaces (including the one it was exported from).
+ */
+
+import { nanoid } from 'nanoid';
+
+import { CURRENT_SCHEMA_VERSION } from '@/lib/storage';
+import { getKnowledgeBaseContents, saveKnowledgeBaseFile } from '@/lib/knowledge-base-db';
+import { collectAttachmentBlobIds, getAttachmentBlob, putAttachmentBlob } from '@/lib/attachment-store';
+import type {
+  Conversation,
+  InheritedContextEntry,
+  KnowledgeBaseFileMeta,
+  Message,
+  Workspace,
+} from '@/types';
+
+export const LOOM_ARCHIVE_FORMAT = 'projectloom-workspace';
+export const LOOM_ARCHIVE_VERSION = 1;
+export const LOOM_FILE_EXTENSION = '.loom';
+
+export interface LoomArchiveKnowledgeBaseFile extends KnowledgeBaseFileMeta {
+  content: string;
+}
+
+export interface LoomArchive {
+  format: typeof LOOM_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Workspace schema version at export time */
+  schemaVersion: number;
+  workspace: Workspace;
+  knowledgeBase: LoomArchiveKnowledgeBaseFile[];
+  /** Attachment data URLs keyed by blob ID */
+  attachments: Record<string, string>;
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Bundle a workspace with its knowledge base and attachment data.
+ * Pass a live snapshot (see `getWorkspaceSnapshot`) so unsaved card
+ * positions and messages are included.
+ */
+export async function createWorkspaceArchive(workspace: Workspace): Promise<LoomArchive> {
+  const kbContents = await getKnowledgeBaseContents(workspace.id).catch(() => []);
+  const contentById = new Map(kbContents.map((file) => [file.id, file.content]));
+  const knowledgeBase = workspace.context.knowledgeBaseFiles
+    .filter((meta) => contentById.has(meta.id))
+    .map((meta) => ({ ...meta, content: contentById.get(meta.id) ?? '' }));
+
+  const blobIds = new Set<string>();
+  collectAttachmentBlobIds(workspace.conversations, blobIds);
+
+  const attachments: Record<string, string> = {};
+  await Promise.all(Array.from(blobIds).map(async (blobId) => {
+    const dataUrl = await getAttachmentBlob(blobId);
+    if (dataUrl) attachments[blobId] = dataUrl;
+  }));
+
+  return {
+    format: LOOM_ARCHIVE_FORMAT,
+    version: LOOM_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    workspace,
+    knowledgeBase,
+    attachments,
+  };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+export function isWorkspaceArchive(value: unknown): boolean {
+  return !!value && typeof value === 'object' && (value as Partial<LoomArchive>).format === LOOM_ARCHIVE_FORMAT;
+}
+
+/**
+ * Parse and validate archive file contents. Throws on anything that is not
+ * a supported `.loom` archive.
+ */
+export function parseWorkspaceArchive(raw: string): LoomArchive {
+  let parsed: Partial<LoomArchive>;
+  try {
+    parsed = JSON.parse(raw) as Partial<LoomArchive>;
+  } catch {
+    throw new Error('Archive is not valid JSON');
+  }
+
+  if (!isWorkspaceArchive(parsed)) {
+    throw new Error('Not a ProjectLoom workspace archive');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > LOOM_ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version: ${parsed.version}`);
+  }
+  if (typeof parsed.schemaVersion === 'number' && parsed.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('Archive was created by a newer version of ProjectLoom');
+  }
+  if (!parsed.workspace || !Array.isArray(parsed.workspace.conversations)) {
+    throw new Error('Archive is missing workspace data');
+  }
+
+  return {
+    format: LOOM_ARCHIVE_FORMAT,
+    version: parsed.version,
+    exportedAt: parsed.exportedAt ?? new Date().toISOString(),
+    schemaVersion: parsed.schemaVersion ?? CURRENT_SCHEMA_VERSION,
+    workspace: parsed.workspace,
+    knowledgeBase: parsed.knowledgeBase ?? [],
+    attachments: parsed.attachments ?? {},
+  };
+}
+
+/**
+ * Give the workspace and everything inside it fresh IDs, rewriting every
+ * internal reference (edges, parents, inherited context, merge sources,
+ * knowledge base snapshots). Message IDs are remapped consistently so
+ * inherited copies still dedupe against their originals.
+ */
+export function remapWorkspaceIds(
+  workspace: Workspace,
+  knowledgeBaseIds: Map<string, string> = new Map()
+): Workspace {
+  const workspaceId = nanoid();
+  const conversationIds = new Map(workspace.conversations.map((conv) => [conv.id, nanoid()]));
+  const messageIds = new Map<string, string>();
+
+  const mapConversationIds = (ids: string[]) =>
+    ids.flatMap((id) => {
+      const mapped = conversationIds.get(id);
+      return mapped ? [mapped] : [];
+    });
+
+  const remapMessage = (message: Message): Message => {
+    let id = messageIds.get(message.id);
+    if (!id) {
+      id = nanoid();
+      messageIds.set(message.id, id);
+    }
+
+    const custom = message.metadata?.custom;
+    const inheritedFrom = typeof custom?.inheritedFrom === 'string' ? custom.inheritedFrom : undefined;
+
+    return {
+      ...message,
+      id,
+      ...(message.attachments ? {
+        attachments: message.attachments.map((att) => ({ ...att, id: nanoid() })),
+      } : {}),
+      ...(message.contextSnapshot?.knowledgeBaseFileIds ? {
+        contextSnapshot: {
+          ...message.contextSnapshot,
+          knowledgeBaseFileIds: message.contextSnapshot.knowledgeBaseFileIds
+            .flatMap((fileId) => knowledgeBaseIds.get(fileId) ?? []),
+        },
+      } : {}),
+      ...(inheritedFrom && message.metadata ? {
+        metadata: {
+          ...message.metadata,
+          custom: { ...custom, inheritedFrom: conversationIds.get(inheritedFrom) ?? inheritedFrom },
+        },
+      } : {}),
+    };
+  };
+
+  const conversations: Conversation[] = workspace.conversations.map((conv) => {
+    const inheritedContext: Record<string, InheritedContextEntry> = {};
+    Object.entries(conv.inheritedContext ?? {}).forEach(([parentId, entry]) => {
+      const mappedParentId = conversationIds.get(parentId);
+      if (!mappedParentId) return;
+      inheritedContext[mappedParentId] = { ...entry, messages: entry.messages.map(remapMessage) };
+    });
+
+    const branchParentId = conv.branchPoint ? conversationIds.get(conv.branchPoint.parentCardId) : undefined;
+
+    return {
+      ...conv,
+      id: conversationIds.get(conv.id)!,
+      canvasId: workspaceId,
+      content: conv.content.map(remapMessage),
+      connections: mapConversationIds(conv.connections ?? []),
+      parentCardIds: mapConversationIds(conv.parentCardIds ?? []),
+      branchPoint: conv.branchPoint && branchParentId
+        ? { ...conv.branchPoint, parentCardId: branchParentId }
+        : undefined,
+      inheritedContext,
+      ...(conv.detachedContext ? { detachedContext: conv.detachedContext.map(remapMessage) } : {}),
+      mergeMetadata: conv.mergeMetadata
+        ? { ...conv.mergeMetadata, sourceCardIds: mapConversationIds(conv.mergeMetadata.sourceCardIds) }
+        : undefined,
+    };
+  });
+
+  const edges = (workspace.edges ?? []).flatMap((edge) => {
+    const source = conversationIds.get(edge.source);
+    const target = conversationIds.get(edge.target);
+    return source && target ? [{ ...edge, id: nanoid(), source, target }] : [];
+  });
+
+  return {
+    ...workspace,
+    id: workspaceId,
+    conversations,
+    edges,
+    context: {
+      ...workspace.context,
+      knowledgeBaseFiles: workspace.context.knowledgeBaseFiles.flatMap((file) => {
+        const id = knowledgeBaseIds.get(file.id);
+        return id ? [{ ...file, id }] : [];
+      }),
+    },
+  };
+}
+
+/**
+ * Write an archive's knowledge base and attachments to local storage and
+ * return the re-IDed workspace, ready to add to the store.
+ */
+export async function importWorkspaceArchive(archive: LoomArchive): Promise<Workspace> {
+  const knowledgeBaseIds = new Map(archive.knowledgeBase.map((file) => [file.id, nanoid()]));
+  const workspace = remapWorkspaceIds(archive.workspace, knowledgeBaseIds);
+
+  // Blob IDs are content hashes, so attachments keep their IDs and dedupe
+  // against blobs already stored locally
+  await Promise.all(Object.values(archive.attachments).map((dataUrl) => {
+    const contentType = /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? 'application/octet-stream';
+    return putAttachmentBlob(dataUrl, contentType);
+  }));
+
+  await Promise.all(archive.knowledgeBase.map(({ content, ...meta }) =>
+    saveKnowledgeBaseFile({
+      ...meta,
+      id: knowledgeBaseIds.get(meta.id)!,
+      workspaceId: workspace.id,
+      content,
+    })
+  ));
+
+  return workspace;
+}
@@ -0,0 +1,275 @@
+/**
+ * Workspace Snapshots
+ *
+ * Named, persistent copies of a workspace kept in IndexedDB, independent of
+ * the in-memory undo history. Snapshot metadata and payloads live in
+ * separate stores so the timeline can be listed without loading every
+ * workspace copy. Automatic snapshots (e.g. before agent actions) are pruned
+ * per workspace; manual ones are kept until deleted.
+ */
+
+import { nanoid } from 'nanoid';
+
+import { collectAttachmentBlobIds } from '@/lib/attachment-store';
+import { getKnowledgeBaseContents, saveKnowledgeBaseFile } from '@/lib/knowledge-base-db';
+import { fingerprintConversation } from '@/lib/tab-sync';
+import { remapWorkspaceIds } from '@/lib/workspace-archive';
+import type { Conversation, Workspace } from '@/types';
+
+const DB_NAME = 'projectloom-snapshots';
+const DB_VERSION = 1;
+const META_STORE = 'snapshots';
+const DATA_STORE = 'snapshot-data';
+
+/** Automatic snapshots kept per workspace */
+const MAX_AUTO_SNAPSHOTS = 20;
+
+export type SnapshotTrigger = 'manual' | 'agent' | 'restore';
+
+export interface WorkspaceSnapshotMeta {
+  id: string;
+  workspaceId: string;
+  name: string;
+  trigger: SnapshotTrigger;
+  createdAt: Date;
+  cardCount: number;
+  messageCount: number;
+  /** Attachment blobs referenced by the snapshot (kept alive by blob GC) */
+  blobIds: string[];
+}
+
+interface SnapshotDataRecord {
+  id: string;
+  workspace: Workspace;
+}
+
+export interface CardChange {
+  before: Conversation;
+  after: Conversation;
+  messagesAdded: number;
+  messagesRemoved: number;
+  titleChanged: boolean;
+}
+
+export interface WorkspaceDiff {
+  /** Cards in the current state that the snapshot does not have */
+  added: Conversation[];
+  /** Cards in the snapshot that no longer exist */
+  removed: Conversation[];
+  changed: CardChange[];
+  edgesAdded: number;
+  edgesRemoved: number;
+}
+
+// =============================================================================
+// DATABASE
+// =============================================================================
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        const store = db.createObjectStore(META_STORE, { keyPath: 'id' });
+        store.createIndex('workspaceId', 'workspaceId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open snapshot storage'));
+  });
+}
+
+/**
+ * Run `action` in one transaction over both stores; resolves with its
+ * return value once the transaction has committed
+ */
+async function withStores<T>(
+  mode: IDBTransactionMode,
+  action: (meta: IDBObjectStore, data: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction([META_STORE, DATA_STORE], mode);
+    const request = action(tx.objectStore(META_STORE), tx.objectStore(DATA_STORE));
+
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? (request.result as T) : undefined);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error || new Error('Snapshot storage transaction failed'));
+    };
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error || new Error('Snapshot storage transaction aborted'));
+    };
+  });
+}
+
+// =============================================================================
+// CRUD
+// =============================================================================
+
+/**
+ * Newest first
+ */
+export async function listSnapshots(workspaceId: string): Promise<WorkspaceSnapshotMeta[]> {
+  const records = await withStores<WorkspaceSnapshotMeta[]>('readonly', (meta) =>
+    meta.index('workspaceId').getAll(workspaceId)
+  );
+  return (records ?? []).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+export async function loadSnapshot(snapshotId: string): Promise<Workspace | null> {
+  const record = await withStores<SnapshotDataRecord | undefined>('readonly', (_, data) => data.get(snapshotId));
+  return record?.workspace ?? null;
+}
+
+export async function deleteSnapshot(snapshotId: string): Promise<void> {
+  await withStores('readwrite', (meta, data) => {
+    meta.delete(snapshotId);
+    data.delete(snapshotId);
+  });
+}
+
+/**
+ * Store a copy of `workspace` (pass a live snapshot for the active one)
+ */
+export async function saveSnapshot(
+  workspace: Workspace,
+  name: string,
+  trigger: SnapshotTrigger = 'manual'
+): Promise<WorkspaceSnapshotMeta> {
+  const blobIds = new Set<string>();
+  collectAttachmentBlobIds(workspace.conversations, blobIds);
+
+  const meta: WorkspaceSnapshotMeta = {
+    id: nanoid(),
+    workspaceId: workspace.id,
+    name: name.trim() || 'Untitled snapshot',
+    trigger,
+    createdAt: new Date(),
+    cardCount: workspace.conversations.length,
+    messageCount: workspace.conversations.reduce((sum, conv) => sum + conv.content.length, 0),
+    blobIds: Array.from(blobIds),
+  };
+
+  await withStores('readwrite', (metaStore, dataStore) => {
+    metaStore.put(meta);
+    dataStore.put({ id: meta.id, workspace } satisfies SnapshotDataRecord);
+  });
+
+  if (trigger !== 'manual') {
+    const automatic = (await listSnapshots(workspace.id)).filter((snapshot) => snapshot.trigger !== 'manual');
+    await Promise.all(automatic.slice(MAX_AUTO_SNAPSHOTS).map((snapshot) => deleteSnapshot(snapshot.id)));
+  }
+
+  return meta;
+}
+
+export async function deleteWorkspaceSnapshots(workspaceId: string): Promise<void> {
+  const snapshots = await listSnapshots(workspaceId);
+  await Promise.all(snapshots.map((snapshot) => deleteSnapshot(snapshot.id)));
+}
+
+/**
+ * Add every attachment blob referenced by any snapshot to `into`
+ */
+export async function collectSnapshotBlobIds(into: Set<string>): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  const records = await withStores<WorkspaceSnapshotMeta[]>('readonly', (meta) => meta.getAll());
+  (records ?? []).forEach((record) => record.blobIds.forEach((id) => into.add(id)));
+}
+
+export async function clearSnapshotStorage(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error || new Error('Failed to delete snapshot storage'));
+    request.onblocked = () => reject(new Error('Snapshot storage deletion was blocked'));
+  });
+}
+
+/**
+ * Turn a snapshot into a new, re-IDed workspace. Knowledge base files that
+ * still exist in the source workspace are copied; the rest are dropped.
+ */
+export async function createWorkspaceFromSnapshot(snapshot: Workspace, title: string): Promise<Workspace> {
+  const kbContents = await getKnowledgeBaseContents(snapshot.id).catch(() => []);
+  const contentById = new Map(kbContents.map((file) => [file.id, file.content]));
+  const kbFiles = snapshot.context.knowledgeBaseFiles.filter((file) => contentById.has(file.id));
+  const knowledgeBaseIds = new Map(kbFiles.map((file) => [file.id, nanoid()]));
+
+  const workspace = remapWorkspaceIds(snapshot, knowledgeBaseIds);
+
+  await Promise.all(kbFiles.map((meta) =>
+    saveKnowledgeBaseFile({
+      ...meta,
+      id: knowledgeBaseIds.get(meta.id)!,
+      workspaceId: workspace.id,
+      content: contentById.get(meta.id) ?? '',
+    })
+  ));
+
+  const now = new Date();
+  return {
+    ...workspace,
+    title,
+    metadata: { ...workspace.metadata, title, createdAt: now, updatedAt: now },
+  };
+}
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+/**
+ * Card-level difference between a snapshot and the current workspace.
+ * Moving a card is not a change.
+ */
+export function diffWorkspaces(snapshot: Workspace, current: Workspace): WorkspaceDiff {
+  const before = new Map(snapshot.conversations.map((conv) => [conv.id, conv]));
+  const after = new Map(current.conversations.map((conv) => [conv.id, conv]));
+
+  const changed: CardChange[] = [];
+  after.forEach((card, id) => {
+    const previous = before.get(id);
+    if (!previous || fingerprintConversation(previous) === fingerprintConversation(card)) return;
+
+    const previousIds = new Set(previous.content.map((msg) => msg.id));
+    const currentIds = new Set(card.content.map((msg) => msg.id));
+    changed.push({
+      before: previous,
+      after: card,
+      messagesAdded: card.content.filter((msg) => !previousIds.has(msg.id)).length,
+      messagesRemoved: previous.content.filter((msg) => !currentIds.has(msg.id)).length,
+      titleChanged: previous.metadata.title !== card.metadata.title,
+    });
+  });
+
+  const beforeEdges = new Set(snapshot.edges.map((edge) => edge.id));
+  const afterEdges = new Set(current.edges.map((edge) => edge.id));
+
+  return {
+    added: current.conversations.filter((conv) => !before.has(conv.id)),
+    removed: snapshot.conversations.filter((conv) => !after.has(conv.id)),
+    changed,
+    edgesAdded: current.edges.filter((edge) => !beforeEdges.has(edge.id)).length,
+    edgesRemoved: snapshot.edges.filter((edge) => !afterEdges.has(edge.id)).length,
+  };
+}
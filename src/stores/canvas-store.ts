@@ -5,40 +5,117 @@ import { subscribeWithSelector } from 'zustand/middleware';
 import { nanoid } from 'nanoid';
 import type { Node, Edge, NodeChange, EdgeChange, Connection } from '@xyflow/react';
 
-import { VersionedStorage, STORAGE_KEYS, CURRENT_SCHEMA_VERSION, clearLegacyStorage } from '@/lib/storage';
+import { VersionedStorage, STORAGE_KEYS, CURRENT_SCHEMA_VERSION, clearLegacyStorage, localStorageAdapter, type Migration } from '@/lib/storage';
+import { IndexedDBStorageAdapter, clearIndexedDBStorage } from '@/lib/indexeddb-storage';
 import { generateMockData } from '@/lib/mock-data';
 import { clearKnowledgeBaseStorage, deleteWorkspaceKnowledgeBase } from '@/lib/knowledge-base-db';
+import { clearAttachmentStorage, collectAttachmentBlobIds, collectAttachmentGarbage, toAttachmentReference } from '@/lib/attachment-store';
+import { remapWorkspaceIds } from '@/lib/workspace-archive';
+import { getMergeStrategy } from '@/lib/merge-strategies';
+import { resolveCardInstructions } from '@/lib/personas';
+import {
+  TAB_ID,
+  collectWorkspaceChanges,
+  createSyncBaseline,
+  forgetSyncedWorkspace,
+  getTabWorkspaceId,
+  mergeWorkspaceChanges,
+  openTabSyncChannel,
+  replaceSyncedCard,
+  setTabWorkspaceId,
+  type SyncConflict,
+  type TabSyncChannel,
+  type TabSyncMessage,
+} from '@/lib/tab-sync';
+import {
+  clearSnapshotStorage,
+  collectSnapshotBlobIds,
+  deleteWorkspaceSnapshots,
+  saveSnapshot,
+  type SnapshotTrigger,
+  type WorkspaceSnapshotMeta,
+} from '@/lib/workspace-snapshots';
+import {
+  MAX_HISTORY_LENGTH,
+  applyHistoryChanges,
+  clearUndoHistoryStorage,
+  collectHistoryBlobIds,
+  collectPersistedHistoryBlobIds,
+  createHistoryBase,
+  deleteUndoHistory,
+  diffHistoryState,
+  getUndoChanges,
+  loadUndoHistory,
+  matchesHistoryHead,
+  patchHistoryCard,
+  pushHistoryEntry,
+  saveUndoHistory,
+  shareLiveReferences,
+  type HistoryEntry,
+} from '@/lib/canvas-history';
 import type { 
   Conversation, 
   Message,
   MessageMetadata,
+  MessageVariant,
   Position, 
   EdgeConnection, 
   StorageData, 
   ConversationNodeData,
   Workspace,
   BranchFromMessageData,
+  FanOutMessageData,
+  CardClipboard,
   CreateMergeNodeData,
   EdgeRelationType,
   BranchPoint,
+  InheritanceMode,
   InheritedContextEntry,
   MergeMetadata,
   WorkspaceContext,
 } from '@/types';
 import { logger } from '@/lib/logger';
-import { estimateTokens } from '@/lib/context-utils';
+import {
+  createSummaryMessage,
+  estimateTokens,
+  getSummarizedMessageCount,
+  selectContextMessages,
+} from '@/lib/context-utils';
 import { useToastStore } from '@/stores/toast-store';
+import { usePreferencesStore } from '@/stores/preferences-store';
 import { generateConversationTitle } from '@/utils/formatters';
+import { getModelById } from '@/lib/vercel-ai-integration';
+import { getCurrentCompaction } from '@/lib/context-compaction';
 
 // Debounce helper for performance
 let saveTimeout: NodeJS.Timeout | null = null;
 const SAVE_DEBOUNCE_MS = 300;
 
+let attachmentGcTimeout: NodeJS.Timeout | null = null;
+const ATTACHMENT_GC_DELAY_MS = 2000;
+
+// Cross-tab sync: open channel and the state last exchanged with other tabs
+let tabSyncChannel: TabSyncChannel | null = null;
+const syncBaseline = createSyncBaseline();
+
 // Throttle quota-exceeded toasts so we only show one per session
 let quotaToastShown = false;
 
-// History configuration
-const MAX_HISTORY_LENGTH = 50;
+function notifyStorageFull(): void {
+  if (quotaToastShown) return;
+  quotaToastShown = true;
+  useToastStore.getState().warning(
+    'Storage is full — changes may not be saved. Try removing image attachments from older messages to free up space.',
+    { duration: 8000 }
+  );
+}
+
+// Nesting depth of beginHistoryBatch; recordHistory is deferred while > 0
+let historyBatchDepth = 0;
+
+// Undo history last written or restored per workspace; saves skip the write
+// until the entries or the index change
+const persistedHistory = new Map<string, { history: HistoryEntry[]; index: number }>();
 
 // Merge node configuration (from types)
 const MERGE_CONFIG = {
@@ -58,6 +135,8 @@ const INHERITED_CONTEXT_CONFIG = {
 const BRANCH_OFFSET_X = 380;
 const BRANCH_DEFAULT_LANE_OFFSET_Y = 180;
 const BRANCH_LANE_STEP_Y = 220;
+/** Offset of duplicated (or pasted without a cursor position) cards from the originals */
+const PASTE_OFFSET = 40;
 
 const ONBOARDING_STEP_TITLES: Record<string, string> = {
   'auto-chat-0': 'Job Offer Decision Analysis',
@@ -177,22 +256,31 @@ function collectInheritedMessages(
   conversations: Map<string, Conversation>,
   visited: Set<string> = new Set(),
   depth: number = 0,
-): Array<{ role: 'user' | 'assistant' | 'system'; content: string }> {
+): Message[] {
   // Guard: max depth and cycle prevention
   if (depth >= INHERITED_CONTEXT_CONFIG.MAX_DEPTH || visited.has(conversation.id)) {
     return [];
   }
   visited.add(conversation.id);
 
-  const result: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> = [];
+  const result: Message[] = [];
   const seenMessageIds = new Set<string>();
 
+  // Context frozen when the card was detached comes before anything else
+  for (const msg of conversation.detachedContext ?? []) {
+    if (!msg.content?.trim() || seenMessageIds.has(msg.id)) continue;
+    seenMessageIds.add(msg.id);
+    result.push(msg);
+  }
+
   // Process each parent card
   for (const parentId of conversation.parentCardIds) {
     const parentConversation = conversations.get(parentId);
     const inheritedEntry = conversation.inheritedContext[parentId];
 
-    if (parentConversation) {
+    // Selective modes (last-n, custom, summary) already hold the complete
+    // inherited context, so only full inheritance walks further up
+    if (parentConversation && (inheritedEntry?.mode ?? 'full') === 'full') {
       // First, recursively collect the parent's own inherited context
       // This gives us grandparent→parent chain messages
       const ancestorMessages = collectInheritedMessages(
@@ -216,7 +304,7 @@ function collectInheritedMessages(
         // Skip empty-content messages — they cause 500s on providers like Perplexity
         if (!msg.content?.trim()) continue;
 
-        result.push({ role: msg.role, content: msg.content });
+        result.push(msg);
       }
     }
   }
@@ -224,6 +312,300 @@ function collectInheritedMessages(
   return result;
 }
 
+/**
+ * A message's current response as a variant entry
+ */
+function toMessageVariant(message: Message): MessageVariant {
+  return {
+    id: nanoid(),
+    content: message.content,
+    timestamp: message.timestamp,
+    metadata: message.metadata,
+    ...(message.reasoning ? { reasoning: message.reasoning } : {}),
+  };
+}
+
+/**
+ * Make `variants[index]` the message's active response
+ */
+function withActiveVariant(message: Message, variants: MessageVariant[], index: number): Message {
+  const variant = variants[index];
+  return {
+    ...message,
+    content: variant.content,
+    timestamp: variant.timestamp,
+    metadata: variant.metadata,
+    reasoning: variant.reasoning,
+    variants,
+    activeVariantIndex: index,
+  };
+}
+
+/**
+ * One card on a lineage path and the messages it contributes to the path
+ */
+export interface LineageSegment {
+  conversation: Conversation;
+  /**
+   * Messages the next card inherited from this one (own content for the last
+   * card). A detached root's frozen context comes first.
+   */
+  messages: Message[];
+}
+
+/**
+ * Linear ancestor path of a card, root first. Follows the same inherited
+ * context as collectInheritedMessages but keeps card boundaries and walks
+ * only the primary parent of merge nodes (other sources stay listed in
+ * mergeMetadata). Same depth guard, cycle prevention and ID dedup; stops at
+ * a parent inherited selectively, whose segment holds the whole context.
+ */
+export function collectLineage(
+  conversation: Conversation,
+  conversations: Map<string, Conversation>,
+): LineageSegment[] {
+  const segments: LineageSegment[] = [{
+    conversation,
+    messages: conversation.content.filter((msg) => {
+      const custom = msg.metadata?.custom;
+      return !(msg.role === 'system' && custom && 'inheritedFrom' in custom);
+    }),
+  }];
+  const visited = new Set<string>([conversation.id]);
+  const seenMessageIds = new Set<string>(segments[0].messages.map((msg) => msg.id));
+
+  let child = conversation;
+  for (let depth = 0; depth < INHERITED_CONTEXT_CONFIG.MAX_DEPTH; depth++) {
+    const parentId = child.parentCardIds[0];
+    const parent = parentId ? conversations.get(parentId) : undefined;
+    if (!parent || visited.has(parent.id)) break;
+    visited.add(parent.id);
+
+    const entry = child.inheritedContext[parent.id];
+    const inherited = (entry?.messages ?? []).filter((msg) => {
+      if (!msg.content?.trim() || seenMessageIds.has(msg.id)) return false;
+      seenMessageIds.add(msg.id);
+      return true;
+    });
+    segments.unshift({ conversation: parent, messages: inherited });
+    if (entry && entry.mode !== 'full') break;
+    child = parent;
+  }
+
+  const root = segments[0];
+  const frozen = (root.conversation.detachedContext ?? []).filter((msg) => (
+    !!msg.content?.trim() && !seenMessageIds.has(msg.id)
+  ));
+  if (frozen.length > 0) {
+    segments[0] = { ...root, messages: [...frozen, ...root.messages] };
+  }
+
+  return segments;
+}
+
+/**
+ * Everything a branch from `messageIndex` of `source` could inherit, oldest
+ * first: the source's own inherited context followed by its messages up to
+ * the branch point. The pool selective inheritance modes pick from.
+ */
+export function collectBranchContext(
+  source: Conversation,
+  messageIndex: number,
+  conversations: Map<string, Conversation>,
+): Message[] {
+  const segments = collectLineage(source, conversations);
+  // A detached root carries its frozen context itself
+  const ancestors = segments.length > 1
+    ? segments.slice(0, -1).flatMap((segment) => segment.messages)
+    : (source.detachedContext ?? []).filter((msg) => !!msg.content?.trim());
+  const own = source.content.slice(0, messageIndex + 1).filter((msg) => {
+    const custom = msg.metadata?.custom;
+    return !!msg.content?.trim() && !(msg.role === 'system' && custom && 'inheritedFrom' in custom);
+  });
+  return [...ancestors, ...own];
+}
+
+/**
+ * The card without the given parents and the context they gave it. A merge
+ * card left with a single parent becomes a plain branch again.
+ */
+function withoutParents(conversation: Conversation, removedIds: Set<string>): Conversation {
+  const inheritedContext = { ...conversation.inheritedContext };
+  removedIds.forEach((removedId) => delete inheritedContext[removedId]);
+  const updated: Conversation = {
+    ...conversation,
+    parentCardIds: conversation.parentCardIds.filter((parentId) => !removedIds.has(parentId)),
+    inheritedContext,
+  };
+  if (!conversation.isMergeNode) return updated;
+
+  if (updated.parentCardIds.length > 1) {
+    return conversation.mergeMetadata ? {
+      ...updated,
+      mergeMetadata: {
+        ...conversation.mergeMetadata,
+        sourceCardIds: conversation.mergeMetadata.sourceCardIds.filter((id) => !removedIds.has(id)),
+      },
+    } : updated;
+  }
+  return {
+    ...updated,
+    isMergeNode: false,
+    mergeMetadata: undefined,
+    metadata: { ...conversation.metadata, tags: conversation.metadata.tags.filter((tag) => tag !== 'merge') },
+  };
+}
+
+/**
+ * The card as a root that keeps what it inherited as `detachedContext`
+ */
+function toDetachedRoot(conversation: Conversation, conversations: Map<string, Conversation>): Conversation {
+  const detachedContext = collectInheritedMessages(conversation, conversations);
+  // Keep the instructions the card inherited, since it no longer has a parent to inherit from
+  const instructions = resolveCardInstructions(conversation, conversations);
+  return {
+    ...conversation,
+    personaId: conversation.personaId ?? instructions.personaId,
+    systemPrompt: conversation.systemPrompt ?? instructions.systemPrompt,
+    parentCardIds: [],
+    branchPoint: undefined,
+    inheritedContext: {},
+    isMergeNode: false,
+    mergeMetadata: undefined,
+    detachedContext: detachedContext.length > 0 ? detachedContext : undefined,
+  };
+}
+
+/**
+ * A card and every descendant whose parents all lie inside the subtree,
+ * root first. Merge cards that also draw from outside cards are left out.
+ */
+export function collectSubtreeIds(rootId: string, conversations: Map<string, Conversation>): string[] {
+  if (!conversations.has(rootId)) return [];
+  const ids = [rootId];
+  const included = new Set(ids);
+  let added = true;
+  while (added) {
+    added = false;
+    conversations.forEach((conv) => {
+      if (included.has(conv.id) || conv.parentCardIds.length === 0) return;
+      if (conv.parentCardIds.every((parentId) => included.has(parentId))) {
+        included.add(conv.id);
+        ids.push(conv.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+}
+
+/**
+ * Snapshot cards and their subtrees for the card clipboard. Cards whose
+ * parents were not copied become roots that keep their inherited messages.
+ */
+function createCardClipboard(
+  ids: string[],
+  state: Pick<WorkspaceState, 'conversations' | 'edges' | 'nodes' | 'activeWorkspaceId'>
+): CardClipboard | null {
+  const { conversations, edges, nodes, activeWorkspaceId } = state;
+  const idSet = new Set(ids.flatMap((id) => collectSubtreeIds(id, conversations)));
+  if (idSet.size === 0) return null;
+
+  const livePositions = new Map(nodes.map((node) => [node.id, node.position]));
+  const copied = Array.from(idSet).map((id) => {
+    const conv = conversations.get(id)!;
+    const card = conv.parentCardIds.some((parentId) => !idSet.has(parentId)) ? toDetachedRoot(conv, conversations) : conv;
+    return {
+      ...card,
+      position: livePositions.get(id) ?? card.position,
+      connections: card.connections.filter((connectedId) => idSet.has(connectedId)),
+    };
+  });
+
+  return {
+    format: 'projectloom/cards',
+    version: 1,
+    sourceWorkspaceId: activeWorkspaceId,
+    conversations: copied,
+    edges: edges.filter((edge) => idSet.has(edge.source) && idSet.has(edge.target)).map(edgeToConnection),
+    copiedAt: new Date(),
+  };
+}
+
+/**
+ * A parent whose messages changed after a card inherited from it
+ */
+export interface StaleInheritedContext {
+  parentId: string;
+  mode: InheritanceMode;
+  /** Inherited messages as stored on the card */
+  previous: Message[];
+  /**
+   * What a rebase would inherit now. In summary mode these are the messages
+   * a new summary has to cover.
+   */
+  current: Message[];
+}
+
+/** Same message IDs in the same order with the same content */
+function sameMessages(a: Message[], b: Message[]): boolean {
+  return a.length === b.length
+    && a.every((msg, index) => msg.id === b[index].id && msg.content === b[index].content);
+}
+
+/**
+ * Parents of `conversation` whose messages up to the branch point no longer
+ * match what the card inherited, e.g. after an earlier message was edited.
+ * Messages added to a parent after the branch point never make a card stale.
+ */
+export function getStaleInheritedContext(
+  conversation: Conversation,
+  conversations: Map<string, Conversation>,
+): StaleInheritedContext[] {
+  const stale: StaleInheritedContext[] = [];
+
+  for (const parentId of conversation.parentCardIds) {
+    const parent = conversations.get(parentId);
+    const entry = conversation.inheritedContext[parentId];
+    if (!parent || !entry) continue;
+
+    if (entry.mode === 'full') {
+      // Full entries hold the parent's first N messages
+      const current = parent.content.slice(0, entry.messages.length);
+      if (!sameMessages(entry.messages, current)) {
+        stale.push({ parentId, mode: entry.mode, previous: entry.messages, current });
+      }
+      continue;
+    }
+
+    // Selective entries are picked from the parent's context at the branch point
+    const branchIndex = entry.totalParentMessages > 0 && conversation.branchPoint?.parentCardId === parentId
+      ? conversation.branchPoint.messageIndex
+      : -1;
+    const pool = collectBranchContext(parent, branchIndex, conversations);
+
+    if (entry.mode === 'summary') {
+      const summarizedAt = new Date(entry.timestamp).getTime();
+      const editedSince = pool.some((msg) => (
+        msg.metadata?.editedAt !== undefined && new Date(msg.metadata.editedAt).getTime() > summarizedAt
+      ));
+      if (editedSince) {
+        stale.push({ parentId, mode: entry.mode, previous: entry.messages, current: pool });
+      }
+      continue;
+    }
+
+    const current = entry.mode === 'last-n'
+      ? selectContextMessages(pool, { mode: 'last-n', lastN: entry.messages.length })
+      : selectContextMessages(pool, { mode: 'custom', selectedIds: entry.messages.map((msg) => msg.id) });
+    if (!sameMessages(entry.messages, current)) {
+      stale.push({ parentId, mode: entry.mode, previous: entry.messages, current });
+    }
+  }
+
+  return stale;
+}
+
 /**
  * Build a structural metadata system message that gives the AI awareness
  * of the conversation's position in the canvas tree.
@@ -242,7 +624,9 @@ function buildStructuralMetadata(
   parts.push('[Current Card Context]');
   parts.push(`Conversation: "${conversation.metadata.title}"`);
 
-  if (isRoot) {
+  if (isRoot && conversation.detachedContext?.length) {
+    parts.push('Type: Detached branch (no parent cards; keeps the context it inherited before detaching)');
+  } else if (isRoot) {
     parts.push('Type: Root conversation (no parent cards)');
   } else if (isMerge) {
     const parentNames = conversation.parentCardIds
@@ -257,17 +641,41 @@ function buildStructuralMetadata(
     const parentId = conversation.parentCardIds[0];
     const parent = conversations.get(parentId);
     const branchIdx = conversation.branchPoint?.messageIndex;
+    const entry = conversation.inheritedContext[parentId];
     parts.push('Type: Branched conversation');
     if (parent) {
-      parts.push(`Parent card: "${parent.metadata.title}"${branchIdx !== undefined ? ` (includes first ${branchIdx + 1} messages)` : ''}`);
+      const upTo = branchIdx !== undefined ? ` up to message ${branchIdx + 1}` : '';
+      let scope = branchIdx !== undefined ? ` (includes first ${branchIdx + 1} messages)` : '';
+      if (entry?.mode === 'last-n') {
+        scope = ` (inherits only the last ${entry.messages.length} messages${upTo})`;
+      } else if (entry?.mode === 'custom') {
+        scope = ` (inherits ${entry.messages.length} selected messages${upTo})`;
+      } else if (entry?.mode === 'summary') {
+        const summarized = entry.messages[0] ? getSummarizedMessageCount(entry.messages[0]) : null;
+        scope = ` (inherits an AI summary${summarized !== null ? ` of ${summarized} messages` : ''}${upTo} instead of the raw messages)`;
+      }
+      parts.push(`Parent card: "${parent.metadata.title}"${scope}`);
     }
   }
 
-  // Inform about inherited context
-  const totalInherited = Object.values(conversation.inheritedContext)
-    .reduce((sum, entry) => sum + (entry.messages?.length || 0), 0);
-  if (totalInherited > 0) {
-    parts.push(`\nInherited context: ${totalInherited} messages from parent card(s)`);
+  // Inform about inherited context. Ancestor entries copied onto the card
+  // only count when the parent is inherited in full.
+  const parentEntries = conversation.parentCardIds
+    .map((id) => conversation.inheritedContext[id])
+    .filter((entry): entry is InheritedContextEntry => !!entry);
+  const entries = parentEntries.some((entry) => entry.mode !== 'full')
+    ? parentEntries
+    : Object.values(conversation.inheritedContext);
+  const totalInherited = entries
+    .filter((entry) => entry.mode !== 'summary')
+    .reduce((sum, entry) => sum + (entry.messages?.length || 0), conversation.detachedContext?.length ?? 0);
+  const summaryCount = entries.filter((entry) => entry.mode === 'summary').length;
+  if (totalInherited > 0 || summaryCount > 0) {
+    const inheritedParts = [
+      totalInherited > 0 ? `${totalInherited} messages` : null,
+      summaryCount > 0 ? `${summaryCount} ${summaryCount === 1 ? 'summary' : 'summaries'}` : null,
+    ].filter(Boolean);
+    parts.push(`\nInherited context: ${inheritedParts.join(' and ')} from parent card(s)`);
     parts.push('(Messages below marked with source)');
   }
 
@@ -326,8 +734,10 @@ async function generateAITitle(
     // Get API keys for the model's provider
     const anthropicKey = apiKeyManager.getKey('anthropic') ?? undefined;
     const openaiKey = apiKeyManager.getKey('openai') ?? undefined;
+    const googleKey = apiKeyManager.getKey('google') ?? undefined;
+    const customProvider = apiKeyManager.getCustomProviderCredentials();
 
-    if (!anthropicKey && !openaiKey) {
+    if (!anthropicKey && !openaiKey && !googleKey && !customProvider) {
       // If trial mode is active, the server will inject its own key.
       // Check using the public env var (client-accessible).
       const trialEnabled = process.env.NEXT_PUBLIC_TRIAL_REQUEST_CAP !== undefined;
@@ -352,6 +762,8 @@ async function generateAITitle(
         model,
         anthropicKey,
         openaiKey,
+        googleKey,
+        customProvider,
       }),
     });
 
@@ -447,10 +859,10 @@ interface CreateConversationOptions {
   openChat?: boolean;
 }
 
-interface HistoryState {
-  nodes: ConversationNode[];
-  edges: Edge[];
-  conversations: Map<string, Conversation>;
+/** Most recent history operation, for undo feedback in the UI */
+export interface HistoryEvent {
+  kind: 'record' | 'undo' | 'redo';
+  label: string;
 }
 
 interface WorkspaceState {
@@ -477,30 +889,42 @@ interface WorkspaceState {
 
   // Hierarchical Merge Dialog State
   hierarchicalMergeDialogOpen: boolean;
+  /** Merge waiting for a synthesis strategy; the dialog shows the strategy picker while set */
+  pendingMerge: CreateMergeNodeData | null;
+
+  // Cross-tab sync (session-only)
+  /** Cards edited here and in another tab since they last synced */
+  syncConflicts: SyncConflict[];
+  syncConflictDialogOpen: boolean;
 
   // Chat Panel State (session-only)
   chatPanelOpen: boolean;
   activeConversationId: string | null;
   draftMessages: Map<string, string>;
   /** One-shot signal for pushing text into a visible MessageInput without a card switch. */
-  inputInjection: { cardId: string; text: string; seq: number } | null;
+  inputInjection: { cardId: string; text: string; seq: number; send?: boolean } | null;
   
   // Last used model (persisted)
   lastUsedModel: string | null;
 
   // Usage Panel State (session-only)
   usagePanelOpen: boolean;
+  /** Cards copied with Ctrl+C (session-only, shared by all workspaces) */
+  cardClipboard: CardClipboard | null;
   // Pending conversation delete request (session-only)
   pendingDeleteConversationIds: string[];
 
   // History for undo/redo
-  history: HistoryState[];
+  history: HistoryEntry[];
   historyIndex: number;
+  lastHistoryEvent: HistoryEvent | null;
 
   // Actions - Node Management
   createConversationCard: (workspaceId: string, position?: Position, options?: CreateConversationOptions) => Conversation;
   addConversation: (conversation: Conversation, position?: Position) => void;
   deleteConversation: (id: string) => void;
+  /** Delete several cards as one undo step */
+  deleteConversations: (ids: string[]) => void;
   updateConversation: (id: string, updates: Partial<Conversation>) => void;
 
   // Actions - Node State
@@ -517,7 +941,11 @@ interface WorkspaceState {
   redo: () => void;
   canUndo: () => boolean;
   canRedo: () => boolean;
-  recordHistory: () => void;
+  /** Record the changes since the last entry as one undo step */
+  recordHistory: (label?: string) => void;
+  /** Defer recording until the matching endHistoryBatch, which records one entry */
+  beginHistoryBatch: () => void;
+  endHistoryBatch: (label: string) => void;
 
   // Actions - React Flow Handlers
   onNodesChange: (changes: NodeChange<ConversationNode>[]) => void;
@@ -525,7 +953,7 @@ interface WorkspaceState {
   onConnect: (connection: Connection) => void;
 
   // Actions - Persistence
-  initializeFromStorage: () => void;
+  initializeFromStorage: () => Promise<void>;
   saveToStorage: () => void;
   loadMockData: () => void;
   initializeEmpty: () => void;
@@ -536,21 +964,66 @@ interface WorkspaceState {
   navigateToWorkspace: (workspaceId: string) => void;
   getCurrentWorkspace: () => Workspace | undefined;
   getWorkspaces: () => Workspace[];
+  /** Workspace with the live canvas state folded in when it is the active one */
+  getWorkspaceSnapshot: (workspaceId: string) => Workspace | undefined;
+  /** Add an already re-IDed workspace (e.g. from a .loom archive) and switch to it */
+  importWorkspace: (workspace: Workspace) => void;
   updateWorkspace: (workspaceId: string, updates: Partial<Workspace>) => void;
   deleteWorkspace: (workspaceId: string) => void;
+  /** Save a named, persistent copy of the workspace's current state */
+  createWorkspaceSnapshot: (workspaceId: string, name: string, trigger?: SnapshotTrigger) => Promise<WorkspaceSnapshotMeta | null>;
+  /** Replace the workspace's cards, edges and instructions with a snapshot's (snapshotting the current state first) */
+  restoreWorkspaceSnapshot: (workspaceId: string, snapshot: Workspace, snapshotName: string) => Promise<void>;
   clearWorkspaceKnowledgeBase: (workspaceId: string) => void;
 
   // Actions - Card-Level Branching (v4)
   branchFromMessage: (data: BranchFromMessageData) => Conversation | null;
+  /** Branch the card once per model and add the prompt to each branch. Returns the new branches. */
+  fanOutMessage: (data: FanOutMessageData) => Conversation[];
+  /** Branch from the prompt of an assistant message with one of its response variants as the reply */
+  promoteVariantToBranch: (conversationId: string, messageIndex: number, variantIndex: number) => Conversation | null;
+  /**
+   * Refresh the inherited context of every stale parent (see getStaleInheritedContext).
+   * Summary entries need a new `summary`. Returns false if nothing was rebased.
+   */
+  rebaseBranch: (conversationId: string, summary?: string) => boolean;
+  /** Turn a card into a root that keeps the context it inherited as `detachedContext` */
+  detachBranch: (conversationId: string) => boolean;
+  /** Make `newParentId` the card's only parent, inheriting its full context. Refuses cycles and merge cards. */
+  reparentConversation: (conversationId: string, newParentId: string) => boolean;
+  /**
+   * Move (or copy) a card and its subtree (see collectSubtreeIds) into another
+   * workspace. Returns the number of cards transferred.
+   */
+  moveSubtreeToWorkspace: (rootId: string, workspaceId: string, options?: { copy?: boolean }) => number;
+  /** Put the cards and their subtrees on the card clipboard. Returns the number of cards copied. */
+  copyCards: (ids: string[]) => number;
+  /**
+   * Add the clipboard's cards to the active workspace with fresh IDs, the
+   * top-left card at `position`, and select them. Returns the new cards.
+   */
+  pasteCards: (position?: Position, clipboard?: CardClipboard) => Conversation[];
+  /** Paste a copy of the cards and their subtrees next to them, leaving the clipboard alone */
+  duplicateCards: (ids: string[]) => Conversation[];
   createMergeNode: (data: CreateMergeNodeData) => Conversation | null;
   createEdge: (sourceId: string, targetId: string, relationType: EdgeRelationType) => Edge | null;
   canAddMergeParent: (mergeNodeId: string) => boolean;
   getMergeParentCount: (mergeNodeId: string) => number;
 
   // Actions - Hierarchical Merge Dialog
-  openHierarchicalMergeDialog: () => void;
+  /** Open the merge-limit explainer, or the synthesis strategy picker for `pendingMerge` */
+  openHierarchicalMergeDialog: (pendingMerge?: CreateMergeNodeData) => void;
   closeHierarchicalMergeDialog: () => void;
 
+  // Actions - Cross-Tab Sync
+  /** Restore this tab's workspace, seed the sync baseline and listen to other tabs. Returns a cleanup. */
+  startTabSync: () => () => void;
+  applyTabSyncMessage: (message: TabSyncMessage) => void;
+  /** Keep this tab's version of a conflicted card or take the other tab's */
+  resolveSyncConflict: (cardId: string, resolution: 'local' | 'remote') => void;
+  openSyncConflictDialog: () => void;
+  closeSyncConflictDialog: () => void;
+
   // Actions - Chat Panel
   openChatPanel: (conversationId: string) => void;
   closeChatPanel: () => void;
@@ -560,9 +1033,11 @@ interface WorkspaceState {
    * Immediately push text into the visible MessageInput for `cardId`, even when
    * that card's conversation ID has not changed (e.g. edge-draw merge promotion).
    * Also calls setDraftMessage so the text persists if the panel is closed/reopened.
+   * With `send`, ChatPanel sends the text as soon as that card is open.
    */
-  injectInputValue: (cardId: string, text: string) => void;
-  sendMessage: (content: string, attachments?: import('@/types').MessageAttachment[]) => Promise<void>;
+  injectInputValue: (cardId: string, text: string, options?: { send?: boolean }) => void;
+  /** Add a user message to `conversationId`, or to the active conversation when omitted */
+  sendMessage: (content: string, attachments?: import('@/types').MessageAttachment[], conversationId?: string) => Promise<void>;
   editMessage: (conversationId: string, messageIndex: number, newContent: string, newAttachments?: import('@/types').MessageAttachment[]) => void;
   // Actions - Usage Panel
   openUsagePanel: () => void;
@@ -573,10 +1048,21 @@ interface WorkspaceState {
 
   // Actions - AI Integration (Phase 2)
   addUserMessage: (conversationId: string, content: string) => void;
-  addAIMessage: (conversationId: string, content: string, model: string, metadata?: MessageMetadata, id?: string) => void;
+  /**
+   * Append a finished response. With `variantOf` (the response being regenerated)
+   * the new message keeps its earlier responses as variants.
+   */
+  addAIMessage: (conversationId: string, content: string, model: string, metadata?: MessageMetadata, id?: string, variantOf?: Message, reasoning?: string) => void;
+  /** Switch which response variant of an assistant message is active */
+  setActiveVariant: (conversationId: string, messageIndex: number, variantIndex: number) => void;
   setConversationModel: (conversationId: string, model: string) => void;
   getConversationModel: (conversationId: string) => string | undefined;
-  getConversationMessages: (conversationId: string) => Array<{ role: 'user' | 'assistant' | 'system'; content: string; attachments?: import('@/types').MessageAttachment[] }>;
+  /**
+   * Messages sent to the model for a card: inherited context (or its
+   * compaction summary) followed by the card's own messages.
+   * `throughMessageCount` stops after that many own messages.
+   */
+  getConversationMessages: (conversationId: string, options?: { throughMessageCount?: number }) => Array<{ role: 'user' | 'assistant' | 'system'; content: string; attachments?: import('@/types').MessageAttachment[] }>;
 
   // Actions - Drag State
   setIsAnyNodeDragging: (isDragging: boolean) => void;
@@ -641,28 +1127,190 @@ function normalizeWorkspaceContext(context?: WorkspaceContext): WorkspaceContext
 }
 
 // =============================================================================
-// STORAGE INSTANCE (v4 - flat workspaces)
+// STORAGE INSTANCE (v5 - IndexedDB-backed flat workspaces)
 // =============================================================================
 
+/**
+ * Workspace data lives in IndexedDB; localStorage is the legacy backend the
+ * v5 migration moves data out of, and the fallback where IndexedDB is missing.
+ */
+const workspaceDb = new IndexedDBStorageAdapter({
+  onWriteError: (error, key) => {
+    logger.error(`Failed to persist ${key} to IndexedDB`, error);
+    notifyStorageFull();
+  },
+});
+
+type WorkspaceStoragePayload = { workspaces: Workspace[]; activeWorkspaceId: string };
+
+// v4 → v5: data shape is unchanged; stamp the new schema version on workspaces
+const canvasDataMigrations: Migration[] = [
+  {
+    fromVersion: 4,
+    toVersion: 5,
+    migrate: (data) => ({ ...(data as StorageData), schemaVersion: 5 }),
+  },
+];
+
+const workspaceMigrations: Migration[] = [
+  {
+    fromVersion: 4,
+    toVersion: 5,
+    migrate: (data) => {
+      const payload = data as WorkspaceStoragePayload;
+      return {
+        ...payload,
+        workspaces: (payload.workspaces || []).map((workspace) => ({
+          ...workspace,
+          metadata: { ...workspace.metadata, schemaVersion: 5 },
+        })),
+      };
+    },
+  },
+];
+
 const storage = new VersionedStorage<StorageData>({
   key: STORAGE_KEYS.CANVAS_DATA,
   version: CURRENT_SCHEMA_VERSION,
   defaultData: defaultStorageData,
+  migrations: canvasDataMigrations,
+  adapter: workspaceDb,
+  legacyAdapter: localStorageAdapter,
   debug: process.env.NODE_ENV === 'development',
 });
 
-// Workspace storage (v4 - flat, no hierarchy)
-const workspaceStorage = new VersionedStorage<{ workspaces: Workspace[]; activeWorkspaceId: string }>({
+// Workspace storage (flat, no hierarchy)
+const workspaceStorage = new VersionedStorage<WorkspaceStoragePayload>({
   key: STORAGE_KEYS.WORKSPACES,
   version: CURRENT_SCHEMA_VERSION,
   defaultData: { workspaces: [], activeWorkspaceId: '' },
+  migrations: workspaceMigrations,
+  adapter: workspaceDb,
+  legacyAdapter: localStorageAdapter,
   debug: process.env.NODE_ENV === 'development',
 });
 
+export interface WorkspaceStorageInfo {
+  /** Backend currently holding workspace data ('IndexedDB' or 'localStorage') */
+  backend: string | null;
+  /** Serialized size in bytes of workspace + canvas data */
+  size: number;
+  /** Last successful save (ISO) */
+  savedAt: string | null;
+}
+
+/**
+ * Size and backend of persisted workspace data, for the settings panel
+ */
+export function getWorkspaceStorageInfo(): WorkspaceStorageInfo {
+  const workspaceInfo = workspaceStorage.getInfo();
+  const canvasInfo = storage.getInfo();
+  return {
+    backend: workspaceStorage.getBackendName(),
+    size: workspaceInfo.size + canvasInfo.size,
+    savedAt: workspaceInfo.savedAt ?? canvasInfo.savedAt,
+  };
+}
+
+/**
+ * Remove all persisted workspace data from every backend (dev reset flows)
+ */
+export async function clearWorkspaceStorage(): Promise<void> {
+  storage.clear();
+  workspaceStorage.clear();
+  persistedHistory.clear();
+  await Promise.all([clearIndexedDBStorage(), clearAttachmentStorage(), clearSnapshotStorage(), clearUndoHistoryStorage()]);
+}
+
 // =============================================================================
 // HELPERS
 // =============================================================================
 
+/**
+ * Debounced sweep of attachment blobs no longer referenced by any workspace,
+ * undo entry or saved snapshot. Runs after card/workspace deletion.
+ */
+function scheduleAttachmentGarbageCollection(getState: () => WorkspaceState): void {
+  if (attachmentGcTimeout) clearTimeout(attachmentGcTimeout);
+
+  attachmentGcTimeout = setTimeout(() => {
+    attachmentGcTimeout = null;
+    const { conversations, workspaces, activeWorkspaceId, history } = getState();
+
+    const referenced = new Set<string>();
+    collectAttachmentBlobIds(conversations.values(), referenced);
+    workspaces
+      .filter((w) => w.id !== activeWorkspaceId)
+      .forEach((w) => collectAttachmentBlobIds(w.conversations, referenced));
+    collectHistoryBlobIds(history, referenced);
+
+    // If saved snapshots or undo history cannot be read, skip the sweep rather than delete their blobs
+    Promise.all([collectSnapshotBlobIds(referenced), collectPersistedHistoryBlobIds(referenced)])
+      .then(() => collectAttachmentGarbage(referenced))
+      .then((removed) => {
+        if (removed > 0) logger.debug(`Removed ${removed} orphaned attachment blob(s)`);
+      })
+      .catch((error) => {
+        logger.warn('Attachment garbage collection failed', error);
+      });
+  }, ATTACHMENT_GC_DELAY_MS);
+}
+
+/**
+ * Text of an inherited message as sent to the model. Reasoning is left out
+ * unless the user opted in (`includeReasoningInContext`).
+ */
+function toInheritedContent(msg: Message, includeReasoning: boolean): string {
+  if (!includeReasoning || msg.role !== 'assistant' || !msg.reasoning?.trim()) return msg.content;
+  return `[Reasoning]\n${msg.reasoning.trim()}\n[/Reasoning]\n\n${msg.content}`;
+}
+
+function isUndoHistoryPersisted(): boolean {
+  return usePreferencesStore.getState().preferences.ui.persistUndoHistory;
+}
+
+function persistUndoHistory(workspaceId: string, history: HistoryEntry[], historyIndex: number): void {
+  if (!workspaceId) return;
+  if (!isUndoHistoryPersisted()) {
+    persistedHistory.delete(workspaceId);
+    return;
+  }
+
+  const persisted = persistedHistory.get(workspaceId);
+  if (persisted?.history === history && persisted.index === historyIndex) return;
+  persistedHistory.set(workspaceId, { history, index: historyIndex });
+  void saveUndoHistory(workspaceId, history, historyIndex).catch((error) => {
+    logger.warn('Failed to persist undo history', error);
+  });
+}
+
+/**
+ * Bring back the undo history saved for a workspace in an earlier session.
+ * Skipped when the user already recorded something or the saved history no
+ * longer ends on the loaded cards and edges.
+ */
+function restoreUndoHistory(
+  workspaceId: string,
+  getState: () => WorkspaceState,
+  setState: (partial: Partial<WorkspaceState>) => void
+): void {
+  if (!workspaceId || !isUndoHistoryPersisted()) return;
+
+  loadUndoHistory(workspaceId)
+    .then((saved) => {
+      const { activeWorkspaceId, history, nodes, edges, conversations } = getState();
+      if (!saved || activeWorkspaceId !== workspaceId || history.length > 1) return;
+      if (!matchesHistoryHead(saved.entries, saved.index, { nodes, edges, conversations })) return;
+
+      const entries = shareLiveReferences(saved.entries, saved.index, { nodes, edges, conversations });
+      persistedHistory.set(workspaceId, { history: entries, index: saved.index });
+      setState({ history: entries, historyIndex: saved.index });
+    })
+    .catch((error) => {
+      logger.warn('Failed to restore undo history', error);
+    });
+}
+
 /**
  * Convert conversation to React Flow node
  */
@@ -720,6 +1368,72 @@ function connectionToEdge(connection: EdgeConnection): Edge {
       ?? (relationType === 'merge' || relationType === 'reference'),
     style,
     data: { relationType },
+    ...(connection.label ? { label: connection.label } : {}),
+  };
+}
+
+/**
+ * Convert React Flow edge back to a persisted edge connection
+ */
+function edgeToConnection(edge: Edge): EdgeConnection {
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    curveType: (edge.type as 'smoothstep' | 'bezier' | 'straight') || 'smoothstep',
+    relationType: (edge.data?.relationType as EdgeRelationType) || 'branch',
+    animated: edge.animated ?? false,
+    ...(typeof edge.label === 'string' && edge.label ? { label: edge.label } : {}),
+  };
+}
+
+/**
+ * All workspaces with the live canvas state folded into the active one
+ */
+function snapshotWorkspaces(state: WorkspaceState): Workspace[] {
+  return state.workspaces.map((workspace) =>
+    workspace.id === state.activeWorkspaceId
+      ? state.getWorkspaceSnapshot(workspace.id) ?? workspace
+      : workspace
+  );
+}
+
+/**
+ * State patch that puts a workspace merged from another tab in place. For
+ * the active workspace, nodes of untouched cards keep their identity.
+ */
+function applySyncedWorkspace(
+  state: WorkspaceState,
+  workspace: Workspace,
+  changedCardIds: Set<string>,
+  edgesChanged: boolean
+): Partial<WorkspaceState> {
+  const exists = state.workspaces.some((w) => w.id === workspace.id);
+  const workspaces = exists
+    ? state.workspaces.map((w) => (w.id === workspace.id ? workspace : w))
+    : [...state.workspaces, workspace];
+
+  if (workspace.id !== state.activeWorkspaceId) return { workspaces };
+
+  const conversations = new Map(workspace.conversations.map((conv) => [conv.id, conv]));
+  const nodesById = new Map(state.nodes.map((node) => [node.id, node]));
+  const nodes = workspace.conversations.map((conv) => {
+    const node = nodesById.get(conv.id);
+    if (node && !changedCardIds.has(conv.id)) return node;
+    if (node) {
+      return { ...node, position: { ...conv.position }, data: { ...node.data, conversation: conv } };
+    }
+    return conversationToNode(conv, conv.position, false, false);
+  });
+
+  const activeConversationRemoved = !!state.activeConversationId && !conversations.has(state.activeConversationId);
+
+  return {
+    workspaces,
+    conversations,
+    nodes,
+    ...(edgesChanged ? { edges: workspace.edges.map(connectionToEdge) } : {}),
+    ...(activeConversationRemoved ? { chatPanelOpen: false, activeConversationId: null } : {}),
   };
 }
 
@@ -748,6 +1462,10 @@ export const useCanvasStore = create<WorkspaceState>()(
     
     // Hierarchical Merge Dialog State
     hierarchicalMergeDialogOpen: false,
+    pendingMerge: null,
+
+    syncConflicts: [],
+    syncConflictDialogOpen: false,
     
     // Chat Panel State (session-only)
     chatPanelOpen: false,
@@ -760,12 +1478,14 @@ export const useCanvasStore = create<WorkspaceState>()(
 
     // Usage Panel State (session-only)
     usagePanelOpen: false,
+    cardClipboard: null,
 
     // Pending delete request
     pendingDeleteConversationIds: [],
     
     history: [],
     historyIndex: -1,
+    lastHistoryEvent: null,
 
     // =========================================================================
     // History Management
@@ -778,121 +1498,83 @@ export const useCanvasStore = create<WorkspaceState>()(
       return historyIndex < history.length - 1;
     },
 
-    recordHistory: () => {
-      const { nodes, edges, conversations, history, historyIndex } = get();
-      const newState: HistoryState = {
-        nodes: [...nodes],
-        edges: [...edges],
-        conversations: new Map(conversations),
-      };
+    recordHistory: (label = 'Canvas edit') => {
+      if (historyBatchDepth > 0) return;
 
-      const newHistory = history.slice(0, historyIndex + 1);
-      newHistory.push(newState);
+      const { nodes, edges, conversations, history, historyIndex } = get();
+      const live = { nodes, edges, conversations };
 
-      if (newHistory.length > MAX_HISTORY_LENGTH) {
-        newHistory.shift();
+      if (history.length === 0) {
+        set({ history: [createHistoryBase(live, label)], historyIndex: 0 });
+        return;
       }
 
+      // Nothing changed since the last entry (e.g. a click without a drag)
+      const changes = diffHistoryState(history, historyIndex, live);
+      if (!changes) return;
+
+      const newHistory = pushHistoryEntry(
+        history,
+        historyIndex,
+        { label, timestamp: new Date(), ...changes },
+        MAX_HISTORY_LENGTH
+      );
+
       set({
         history: newHistory,
         historyIndex: newHistory.length - 1,
+        lastHistoryEvent: { kind: 'record', label },
       });
     },
 
+    beginHistoryBatch: () => {
+      historyBatchDepth++;
+    },
+
+    endHistoryBatch: (label: string) => {
+      historyBatchDepth = Math.max(0, historyBatchDepth - 1);
+      if (historyBatchDepth === 0) {
+        get().recordHistory(label);
+      }
+    },
+
     undo: () => {
-      const { historyIndex, history, conversations } = get();
+      const { historyIndex, history, nodes, edges, conversations } = get();
       
       if (historyIndex <= 0) return; // Nothing to undo
 
-      const previousState = history[historyIndex - 1];
-
-      // Undo is structural-only: node existence, position, and edges.
-      // Message content is never reverted — this mirrors how Figma/Miro handle undo
-      // (structural undo should not destroy chat history the user cannot recover).
-      // For each conversation that survives the undo (exists in both live state and the
-      // restored state), carry forward the live message content and its updated metadata.
-      const mergedConversations = new Map(previousState.conversations);
-      for (const [id, restoredConv] of mergedConversations) {
-        const liveConv = conversations.get(id);
-        if (liveConv && liveConv.content.length > 0) {
-          mergedConversations.set(id, {
-            ...restoredConv,
-            content: liveConv.content,
-            metadata: {
-              ...restoredConv.metadata,
-              messageCount: liveConv.content.length,
-              updatedAt: liveConv.metadata.updatedAt,
-              // Preserve the AI-generated title if one was assigned after creation
-              title: liveConv.metadata.titleIsManual || liveConv.metadata.titleAutoGenerated
-                ? liveConv.metadata.title
-                : restoredConv.metadata.title,
-              titleIsManual: liveConv.metadata.titleIsManual,
-              titleAutoGenerated: liveConv.metadata.titleAutoGenerated,
-            },
-          });
-        }
-      }
-      
-      // Nodes also embed conversation data in node.data.conversation — patch them
-      // so the two sources of truth remain consistent after message-content preservation.
-      const mergedNodes = previousState.nodes.map((node) => {
-        const merged = mergedConversations.get(node.id);
-        if (!merged) return node;
-        return { ...node, data: { ...node.data, conversation: merged } };
-      });
+      const entry = history[historyIndex];
+      const restored = applyHistoryChanges(
+        { nodes, edges, conversations },
+        getUndoChanges(history, historyIndex),
+        entry.cards
+      );
 
       set({
-        nodes: mergedNodes,
-        edges: previousState.edges,
-        conversations: mergedConversations,
+        ...restored,
         historyIndex: historyIndex - 1,
+        lastHistoryEvent: { kind: 'undo', label: entry.label },
       });
 
       get().saveToStorage();
     },
 
     redo: () => {
-      const { historyIndex, history, conversations } = get();
+      const { historyIndex, history, nodes, edges, conversations } = get();
       
       if (historyIndex >= history.length - 1) return; // Nothing to redo
 
-      const nextState = history[historyIndex + 1];
-
-      // Same structural-only principle for redo: preserve live message content for
-      // conversations that exist in both states.
-      const mergedConversations = new Map(nextState.conversations);
-      for (const [id, restoredConv] of mergedConversations) {
-        const liveConv = conversations.get(id);
-        if (liveConv && liveConv.content.length > 0) {
-          mergedConversations.set(id, {
-            ...restoredConv,
-            content: liveConv.content,
-            metadata: {
-              ...restoredConv.metadata,
-              messageCount: liveConv.content.length,
-              updatedAt: liveConv.metadata.updatedAt,
-              title: liveConv.metadata.titleIsManual || liveConv.metadata.titleAutoGenerated
-                ? liveConv.metadata.title
-                : restoredConv.metadata.title,
-              titleIsManual: liveConv.metadata.titleIsManual,
-              titleAutoGenerated: liveConv.metadata.titleAutoGenerated,
-            },
-          });
-        }
-      }
-
-      // Patch nodes to match the merged conversations.
-      const mergedNodes = nextState.nodes.map((node) => {
-        const merged = mergedConversations.get(node.id);
-        if (!merged) return node;
-        return { ...node, data: { ...node.data, conversation: merged } };
-      });
+      const entry = history[historyIndex + 1];
+      const restored = applyHistoryChanges(
+        { nodes, edges, conversations },
+        entry,
+        getUndoChanges(history, historyIndex + 1).cards
+      );
 
       set({
-        nodes: mergedNodes,
-        edges: nextState.edges,
-        conversations: mergedConversations,
+        ...restored,
         historyIndex: historyIndex + 1,
+        lastHistoryEvent: { kind: 'redo', label: entry.label },
       });
 
       get().saveToStorage();
@@ -936,7 +1618,7 @@ export const useCanvasStore = create<WorkspaceState>()(
         get().openChatPanel(newConversation.id);
       }
 
-      get().recordHistory();
+      get().recordHistory('Card created');
 
       return newConversation;
     },
@@ -982,43 +1664,15 @@ export const useCanvasStore = create<WorkspaceState>()(
       const newSelected = new Set(selectedNodeIds);
       newSelected.delete(id);
 
-      // Save the NEW state (after deletion) to history
-      const newState: HistoryState = {
-        nodes: newNodes,
-        edges: newEdges,
-        conversations: newConversations,
-      };
-
-      // Truncate history if we're not at the end (user did undo then made a new change)
-      const newHistory = history.slice(0, historyIndex + 1);
-
-      // The pre-deletion snapshot may be stale: messages are never recorded in history
+      // The recorded card may be stale: messages are never recorded in history
       // (updateConversation / sendMessage / addAIMessage skip recordHistory for perf).
-      // Patch the snapshot we're branching from so that undoing the deletion restores
-      // the card with its actual message content, not the creation-time empty state.
-      if (newHistory.length > 0) {
-        const preDeleteEntry = newHistory[newHistory.length - 1];
-        const liveConvBeingDeleted = conversations.get(id);
-        if (liveConvBeingDeleted && liveConvBeingDeleted.content.length > 0) {
-          const patchedConversations = new Map(preDeleteEntry.conversations);
-          patchedConversations.set(id, liveConvBeingDeleted);
-          const patchedNodes = preDeleteEntry.nodes.map((n) =>
-            n.id === id ? { ...n, data: { ...n.data, conversation: liveConvBeingDeleted } } : n
-          );
-          newHistory[newHistory.length - 1] = {
-            ...preDeleteEntry,
-            conversations: patchedConversations,
-            nodes: patchedNodes,
-          };
-        }
-      }
-
-      newHistory.push(newState);
-
-      // Limit history to last N states
-      if (newHistory.length > MAX_HISTORY_LENGTH) {
-        newHistory.shift();
-      }
+      // Record the live card first so that undoing the deletion restores it with
+      // its actual message content, not the creation-time empty state.
+      const liveConversation = conversations.get(id);
+      const liveNode = nodes.find((n) => n.id === id);
+      const patchedHistory = liveConversation && liveNode
+        ? patchHistoryCard(history, historyIndex, { node: liveNode, conversation: liveConversation })
+        : history;
 
       set({
         nodes: newNodes,
@@ -1026,12 +1680,27 @@ export const useCanvasStore = create<WorkspaceState>()(
         conversations: newConversations,
         expandedNodeIds: newExpanded,
         selectedNodeIds: newSelected,
-        history: newHistory,
-        historyIndex: newHistory.length - 1,
+        history: patchedHistory,
       });
 
+      get().recordHistory(
+        liveConversation ? `Deleted "${liveConversation.metadata.title}"` : 'Card deleted'
+      );
+
       // Persist
       get().saveToStorage();
+      scheduleAttachmentGarbageCollection(get);
+    },
+
+    deleteConversations: (ids) => {
+      if (ids.length <= 1) {
+        ids.forEach((id) => get().deleteConversation(id));
+        return;
+      }
+
+      get().beginHistoryBatch();
+      ids.forEach((id) => get().deleteConversation(id));
+      get().endHistoryBatch(`Deleted ${ids.length} cards`);
     },
 
     updateConversation: (id, updates) => {
@@ -1270,10 +1939,10 @@ export const useCanvasStore = create<WorkspaceState>()(
       });
 
       // Debounced save after position changes (only when drag ends)
-      const hasPositionFinalized = changes.some((c) => c.type === 'position' && c.dragging === false);
-      if (hasPositionFinalized) {
+      const finalizedMoves = changes.filter((c) => c.type === 'position' && c.dragging === false).length;
+      if (finalizedMoves > 0) {
         get().saveToStorage();
-        get().recordHistory();
+        get().recordHistory(finalizedMoves === 1 ? 'Card moved' : `Moved ${finalizedMoves} cards`);
       }
     },
 
@@ -1294,15 +1963,8 @@ export const useCanvasStore = create<WorkspaceState>()(
           for (const edge of removedEdges) {
             const targetConv = newConversations.get(edge.target);
             if (targetConv && targetConv.parentCardIds.includes(edge.source)) {
-              const updated = {
-                ...targetConv,
-                parentCardIds: targetConv.parentCardIds.filter(id => id !== edge.source),
-              };
               // Also remove inherited context from that parent
-              // eslint-disable-next-line @typescript-eslint/no-unused-vars
-              const { [edge.source]: _removed, ...remainingContext } = updated.inheritedContext;
-              updated.inheritedContext = remainingContext;
-              newConversations.set(edge.target, updated);
+              newConversations.set(edge.target, withoutParents(targetConv, new Set([edge.source])));
             }
           }
 
@@ -1317,7 +1979,7 @@ export const useCanvasStore = create<WorkspaceState>()(
 
       get().saveToStorage();
       if (didRemove) {
-        get().recordHistory();
+        get().recordHistory('Connection removed');
       }
     },
 
@@ -1418,8 +2080,8 @@ export const useCanvasStore = create<WorkspaceState>()(
         const nextIsMergeNode = isMergeTarget || updatedParentIds.length > 1;
         const nextMergeMetadata = nextIsMergeNode
           ? {
+              ...targetConversation.mergeMetadata,
               sourceCardIds: updatedParentIds,
-              synthesisPrompt: targetConversation.mergeMetadata?.synthesisPrompt,
               createdAt: targetConversation.mergeMetadata?.createdAt ?? now,
             }
           : undefined;
@@ -1456,16 +2118,20 @@ export const useCanvasStore = create<WorkspaceState>()(
         });
       }
 
-      get().recordHistory();
+      get().recordHistory('Cards connected');
     },
 
     // =========================================================================
     // Persistence (v4 - flat workspaces)
     // =========================================================================
 
-    initializeFromStorage: () => {
+    initializeFromStorage: async () => {
       // Clear legacy v3 storage keys on startup
       clearLegacyStorage();
+
+      // Load IndexedDB into the adapter cache before the first synchronous read
+      await workspaceDb.hydrate();
+      if (get().isInitialized) return;
       
       const result = storage.load();
       const workspaceResult = workspaceStorage.load();
@@ -1523,13 +2189,10 @@ export const useCanvasStore = create<WorkspaceState>()(
           expandedNodeIds: new Set(),
           selectedNodeIds: new Set(),
           isInitialized: true,
-          history: [{
-            nodes: [...nodes],
-            edges: [...edges],
-            conversations: new Map(conversations),
-          }],
+          history: [createHistoryBase({ nodes, edges, conversations })],
           historyIndex: 0,
         });
+        restoreUndoHistory(activeId, get, set);
         return;
       }
 
@@ -1593,29 +2256,26 @@ export const useCanvasStore = create<WorkspaceState>()(
         lastUsedModel: storedData.lastUsedModel ?? null,
         isInitialized: true,
         // Initialize history with the initial state
-        history: [{
-          nodes: [...nodes],
-          edges: [...edges],
-          conversations: new Map(conversations),
-        }],
+        history: [createHistoryBase({ nodes, edges, conversations })],
         historyIndex: 0,
       });
+      restoreUndoHistory(activeWorkspaceId, get, set);
     },
 
     saveToStorage: () => {
-      // Debounce saves to prevent excessive localStorage writes during drag
+      // Debounce saves to prevent excessive storage writes during drag
       if (saveTimeout) clearTimeout(saveTimeout);
       
       saveTimeout = setTimeout(() => {
         const { nodes, edges, conversations, workspaces, activeWorkspaceId, draftMessages } = get();
 
-        // Strip base64 data URLs from message attachments before persisting.
-        // Base64 image data is only needed while sending to the AI; keeping it in
-        // localStorage quickly exceeds the 5 MB quota and silently breaks saves.
-        // Attachment metadata (id, name, contentType) is preserved so message
-        // history remains fully intact — only the raw image bytes are dropped.
+        // On the localStorage fallback, strip base64 data URLs from message
+        // attachments before persisting: keeping them quickly exceeds the 5 MB
+        // quota and breaks saves. IndexedDB has room for them, so they are kept.
+        // Attachment metadata (id, name, contentType) is preserved either way.
+        const isLocalStorageBackend = workspaceStorage.getBackendName() === localStorageAdapter.name;
         const stripAttachmentData = (convList: Conversation[]): Conversation[] =>
-          convList.map(conv => ({
+          !isLocalStorageBackend ? convList : convList.map(conv => ({
             ...conv,
             content: conv.content.map(msg =>
               msg.attachments?.some(a => a.url.startsWith('data:'))
@@ -1639,14 +2299,7 @@ export const useCanvasStore = create<WorkspaceState>()(
         });
 
         // Build connections array (v4 with relation types)
-        const connections: EdgeConnection[] = edges.map((edge) => ({
-          id: edge.id,
-          source: edge.source,
-          target: edge.target,
-          curveType: (edge.type as 'smoothstep' | 'bezier' | 'straight') || 'smoothstep',
-          relationType: (edge.data?.relationType as EdgeRelationType) || 'branch',
-          animated: edge.animated ?? false,
-        }));
+        const connections: EdgeConnection[] = edges.map(edgeToConnection);
 
         // Convert draft messages Map to plain object for storage
         const draftMessagesObj: Record<string, string> = {};
@@ -1696,14 +2349,18 @@ export const useCanvasStore = create<WorkspaceState>()(
           workspaceSaved = workspaceStorage.save({ workspaces: updatedWorkspaces, activeWorkspaceId });
         }
 
-        if ((!canvasSaved || !workspaceSaved) && !quotaToastShown) {
-          quotaToastShown = true;
-          useToastStore.getState().warning(
-            'Storage is full — changes may not be saved. Try removing image attachments from older messages to free up space.',
-            { duration: 8000 }
-          );
+        if (!canvasSaved || !workspaceSaved) {
+          notifyStorageFull();
         }
 
+        persistUndoHistory(activeWorkspaceId, get().history, get().historyIndex);
+
+        setTabWorkspaceId(activeWorkspaceId);
+        if (tabSyncChannel) {
+          collectWorkspaceChanges(snapshotWorkspaces(get()), syncBaseline).forEach((message) => {
+            tabSyncChannel?.post(message);
+          });
+        }
       }, SAVE_DEBOUNCE_MS);
     },
 
@@ -1748,11 +2405,7 @@ export const useCanvasStore = create<WorkspaceState>()(
         selectedNodeIds: new Set(),
         isInitialized: true,
         // Initialize history with the initial state
-        history: [{
-          nodes: [...nodes],
-          edges: [...edges],
-          conversations: new Map(conversations),
-        }],
+        history: [createHistoryBase({ nodes, edges, conversations })],
         historyIndex: 0,
       });
 
@@ -1772,11 +2425,7 @@ export const useCanvasStore = create<WorkspaceState>()(
         expandedNodeIds: new Set(),
         selectedNodeIds: new Set(),
         isInitialized: true,
-        history: [{
-          nodes: [],
-          edges: [],
-          conversations: new Map(),
-        }],
+        history: [createHistoryBase({ nodes: [], edges: [], conversations: new Map() })],
         historyIndex: 0,
       });
 
@@ -1845,14 +2494,12 @@ export const useCanvasStore = create<WorkspaceState>()(
 
       // Save current workspace's state before switching
       if (activeWorkspaceId && activeWorkspaceId !== workspaceId) {
-        const currentConnections: EdgeConnection[] = currentEdges.map((edge) => ({
-          id: edge.id,
-          source: edge.source,
-          target: edge.target,
-          curveType: (edge.type as 'smoothstep' | 'bezier' | 'straight') || 'smoothstep',
-          relationType: (edge.data?.relationType as EdgeRelationType) || 'branch',
-          animated: edge.animated ?? false,
-        }));
+        // Not when the outgoing workspace was just deleted
+        if (workspaces.some((w) => w.id === activeWorkspaceId)) {
+          persistUndoHistory(activeWorkspaceId, get().history, get().historyIndex);
+        }
+
+        const currentConnections: EdgeConnection[] = currentEdges.map(edgeToConnection);
 
         // Reconcile conv.position from live node positions before snapshotting,
         // so the saved workspace has accurate positions even if the user dragged
@@ -1911,16 +2558,13 @@ export const useCanvasStore = create<WorkspaceState>()(
         selectedNodeIds: new Set(),
         chatPanelOpen: false,
         activeConversationId: null,
-        history: [{
-          nodes: [...nodes],
-          edges: [...edges],
-          conversations: new Map(conversations),
-        }],
+        history: [createHistoryBase({ nodes, edges, conversations })],
         historyIndex: 0,
       });
 
       // Clear the flag after React has committed the new nodes
       requestAnimationFrame(() => set({ _skipMountAnimation: false }));
+      restoreUndoHistory(workspaceId, get, set);
 
       // Persist the workspace switch
       get().saveToStorage();
@@ -1935,6 +2579,35 @@ export const useCanvasStore = create<WorkspaceState>()(
       return get().workspaces;
     },
 
+    getWorkspaceSnapshot: (workspaceId: string) => {
+      const { workspaces, activeWorkspaceId, conversations, nodes, edges } = get();
+      const workspace = workspaces.find(w => w.id === workspaceId);
+      if (!workspace || workspaceId !== activeWorkspaceId) return workspace;
+
+      const livePositions: Record<string, Position> = {};
+      nodes.forEach((node) => {
+        livePositions[node.id] = { x: node.position.x, y: node.position.y };
+      });
+
+      return {
+        ...workspace,
+        conversations: Array.from(conversations.values()).map(conv => ({
+          ...conv,
+          position: livePositions[conv.id] ?? conv.position,
+        })),
+        edges: edges.map(edgeToConnection),
+      };
+    },
+
+    importWorkspace: (workspace: Workspace) => {
+      set((state) => ({
+        workspaces: [...state.workspaces, workspace],
+      }));
+
+      get().navigateToWorkspace(workspace.id);
+      get().saveToStorage();
+    },
+
     updateWorkspace: (workspaceId: string, updates: Partial<Workspace>) => {
       set((state) => ({
         workspaces: state.workspaces.map(w => 
@@ -1967,6 +2640,13 @@ export const useCanvasStore = create<WorkspaceState>()(
       void deleteWorkspaceKnowledgeBase(workspaceId).catch((error) => {
         logger.warn('Failed to delete workspace knowledge base files', error);
       });
+      void deleteWorkspaceSnapshots(workspaceId).catch((error) => {
+        logger.warn('Failed to delete workspace snapshots', error);
+      });
+      persistedHistory.delete(workspaceId);
+      void deleteUndoHistory(workspaceId).catch((error) => {
+        logger.warn('Failed to delete undo history', error);
+      });
 
       // If we deleted the active workspace, navigate to first remaining
       if (workspaceId === activeWorkspaceId) {
@@ -1992,6 +2672,60 @@ export const useCanvasStore = create<WorkspaceState>()(
       }
 
       get().saveToStorage();
+      scheduleAttachmentGarbageCollection(get);
+    },
+
+    createWorkspaceSnapshot: async (workspaceId: string, name: string, trigger: SnapshotTrigger = 'manual') => {
+      const workspace = get().getWorkspaceSnapshot(workspaceId);
+      if (!workspace) {
+        logger.warn(`Workspace ${workspaceId} not found`);
+        return null;
+      }
+      return saveSnapshot(workspace, name, trigger);
+    },
+
+    restoreWorkspaceSnapshot: async (workspaceId: string, snapshot: Workspace, snapshotName: string) => {
+      if (!get().workspaces.some(w => w.id === workspaceId)) {
+        logger.warn(`Workspace ${workspaceId} not found`);
+        return;
+      }
+
+      // Restoring in place is itself reversible from the timeline
+      await get().createWorkspaceSnapshot(workspaceId, `Before restoring "${snapshotName}"`, 'restore');
+
+      const now = new Date();
+      const conversations = snapshot.conversations.map(conv => ({ ...conv, canvasId: workspaceId }));
+      const restoreContents = (w: Workspace): Workspace => ({
+        ...w,
+        conversations,
+        edges: snapshot.edges,
+        // Knowledge base files are not versioned; keep the current set
+        context: { ...w.context, instructions: snapshot.context.instructions, updatedAt: now },
+        metadata: { ...w.metadata, updatedAt: now },
+      });
+
+      set((state) => ({ workspaces: state.workspaces.map(w => (w.id === workspaceId ? restoreContents(w) : w)) }));
+
+      if (workspaceId === get().activeWorkspaceId) {
+        const conversationMap = new Map(conversations.map(conv => [conv.id, conv]));
+        const nodes = conversations.map(conv => conversationToNode(conv, conv.position, false, false));
+        const edges = snapshot.edges.map(connectionToEdge);
+
+        set({
+          nodes,
+          edges,
+          conversations: conversationMap,
+          expandedNodeIds: new Set(),
+          selectedNodeIds: new Set(),
+          chatPanelOpen: false,
+          activeConversationId: null,
+          history: [createHistoryBase({ nodes, edges, conversations: conversationMap })],
+          historyIndex: 0,
+        });
+      }
+
+      get().saveToStorage();
+      scheduleAttachmentGarbageCollection(get);
     },
 
     clearWorkspaceKnowledgeBase: (workspaceId: string) => {
@@ -2035,6 +2769,7 @@ export const useCanvasStore = create<WorkspaceState>()(
 
     branchFromMessage: (data: BranchFromMessageData) => {
       const { sourceCardId, messageIndex, branchReason, targetPosition } = data;
+      const inheritanceMode = data.inheritanceMode ?? 'full';
       const { conversations, nodes, activeWorkspaceId } = get();
       
       const sourceConversation = conversations.get(sourceCardId);
@@ -2045,10 +2780,13 @@ export const useCanvasStore = create<WorkspaceState>()(
 
       const contentMessages = sourceConversation.content;
       const hasOwnMessages = contentMessages.length > 0;
-      const inheritedParentMessages = sourceConversation.parentCardIds.flatMap((parentId) => {
-        const entry = sourceConversation.inheritedContext[parentId];
-        return entry?.messages ?? [];
-      });
+      const inheritedParentMessages = [
+        ...(sourceConversation.detachedContext ?? []),
+        ...sourceConversation.parentCardIds.flatMap((parentId) => {
+          const entry = sourceConversation.inheritedContext[parentId];
+          return entry?.messages ?? [];
+        }),
+      ];
 
       if (!hasOwnMessages && inheritedParentMessages.length === 0) {
         logger.error(`No messages to branch from for conversation ${sourceCardId}`);
@@ -2060,6 +2798,11 @@ export const useCanvasStore = create<WorkspaceState>()(
         return null;
       }
 
+      if (inheritanceMode === 'summary' && !data.summary?.trim()) {
+        logger.error('Summary inheritance requires a summary');
+        return null;
+      }
+
       const sourceNode = nodes.find(n => n.id === sourceCardId);
       if (!sourceNode) {
         logger.error(`Source node not found: ${sourceCardId}`);
@@ -2114,15 +2857,36 @@ export const useCanvasStore = create<WorkspaceState>()(
 
       // Create inherited context entry
       const now = new Date();
-      const inheritedContext: Record<string, InheritedContextEntry> = {
-        ...sourceConversation.inheritedContext,
-        [sourceCardId]: {
-          mode: 'full',
-          messages: messagesUpToIndex,
-          timestamp: now,
-          totalParentMessages: contentMessages.length,
-        },
-      };
+      let inheritedContext: Record<string, InheritedContextEntry>;
+      if (inheritanceMode === 'full') {
+        inheritedContext = {
+          ...sourceConversation.inheritedContext,
+          [sourceCardId]: {
+            mode: 'full',
+            messages: messagesUpToIndex,
+            timestamp: now,
+            totalParentMessages: contentMessages.length,
+          },
+        };
+      } else {
+        // Selective modes store the complete inherited context on the parent entry
+        const pool = collectBranchContext(sourceConversation, hasOwnMessages ? messageIndex : -1, conversations);
+        const messages = inheritanceMode === 'summary'
+          ? [createSummaryMessage(data.summary ?? '', pool.length)]
+          : selectContextMessages(pool, {
+            mode: inheritanceMode,
+            lastN: data.lastN,
+            selectedIds: data.selectedMessageIds,
+          });
+        inheritedContext = {
+          [sourceCardId]: {
+            mode: inheritanceMode,
+            messages,
+            timestamp: now,
+            totalParentMessages: contentMessages.length,
+          },
+        };
+      }
 
       // Create the new branched conversation
       // Copy model from parent conversation if available, otherwise use lastUsedModel
@@ -2147,8 +2911,9 @@ export const useCanvasStore = create<WorkspaceState>()(
           tags: [],
           isExpanded: false,
         },
-        // Inherit model from parent
+        // Inherit model and generation settings from parent
         model: inheritedModel,
+        generationSettings: sourceConversation.generationSettings,
       };
 
       // Add conversation to store
@@ -2158,13 +2923,362 @@ export const useCanvasStore = create<WorkspaceState>()(
       get().createEdge(sourceCardId, newConversation.id, 'branch');
 
       // Record history AFTER all changes so undo restores to this exact state.
-      get().recordHistory();
+      get().recordHistory(`Branch from message ${(hasOwnMessages ? messageIndex : 0) + 1}`);
 
       return newConversation;
     },
 
+    fanOutMessage: (data: FanOutMessageData) => {
+      const { sourceCardId, models, content, attachments } = data;
+      const source = get().conversations.get(sourceCardId);
+      if (!source) {
+        logger.error(`Invalid source conversation ${sourceCardId}`);
+        return [];
+      }
+
+      const branches: Conversation[] = [];
+      get().beginHistoryBatch();
+      try {
+        for (const model of models) {
+          // Branches without an explicit position take the next free sibling
+          // lane, so consecutive calls land in adjacent lanes.
+          const branch = get().branchFromMessage({
+            sourceCardId,
+            messageIndex: Math.max(0, source.content.length - 1),
+            branchReason: getModelById(model)?.name ?? model,
+          });
+          if (!branch) continue;
+
+          // Keep the model name as the title so the siblings stay comparable
+          get().updateConversation(branch.id, {
+            model,
+            metadata: { ...branch.metadata, titleAutoGenerated: false },
+          });
+          void get().sendMessage(content, attachments, branch.id);
+          branches.push(get().conversations.get(branch.id) ?? branch);
+        }
+      } finally {
+        get().endHistoryBatch(`Sent to ${models.length} models`);
+      }
+
+      return branches;
+    },
+
+    rebaseBranch: (conversationId: string, summary?: string) => {
+      const { conversations } = get();
+      const conversation = conversations.get(conversationId);
+      if (!conversation) {
+        logger.warn(`Cannot rebase: conversation ${conversationId} not found`);
+        return false;
+      }
+
+      const stale = getStaleInheritedContext(conversation, conversations);
+      if (stale.length === 0) return false;
+      if (stale.some((item) => item.mode === 'summary') && !summary?.trim()) {
+        logger.error('Rebasing a summary branch requires a new summary');
+        return false;
+      }
+
+      const now = new Date();
+      let inheritedContext = { ...conversation.inheritedContext };
+      let branchPoint = conversation.branchPoint;
+      for (const { parentId, mode, current } of stale) {
+        const parent = conversations.get(parentId);
+        if (!parent) continue;
+
+        if (mode === 'full') {
+          // Refresh the ancestor copies too, as branchFromMessage does
+          inheritedContext = { ...inheritedContext, ...parent.inheritedContext };
+          // A truncated parent may no longer reach the old branch point
+          if (branchPoint?.parentCardId === parentId && current.length > 0) {
+            branchPoint = { ...branchPoint, messageIndex: Math.min(branchPoint.messageIndex, current.length - 1) };
+          }
+        }
+        inheritedContext[parentId] = {
+          mode,
+          messages: mode === 'summary' ? [createSummaryMessage(summary ?? '', current.length)] : current,
+          timestamp: now,
+          totalParentMessages: parent.content.length,
+        };
+      }
+
+      // A compaction summary still embeds the old inherited context
+      get().updateConversation(conversationId, { inheritedContext, branchPoint, compaction: undefined });
+      get().recordHistory('Rebase branch');
+      logger.debug(`Rebased ${conversationId} onto ${stale.length} changed parent(s)`);
+      return true;
+    },
+
+    detachBranch: (conversationId: string) => {
+      const { conversations, edges } = get();
+      const conversation = conversations.get(conversationId);
+      if (!conversation || conversation.parentCardIds.length === 0) {
+        logger.warn(`Cannot detach: ${conversationId} has no parent cards`);
+        return false;
+      }
+
+      // Freeze what the card currently inherits (its own messages stay as they are)
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { content: _content, ...detached } = toDetachedRoot(conversation, conversations);
+
+      set({ edges: edges.filter((edge) => edge.target !== conversationId || edge.data?.relationType === 'reference') });
+      get().updateConversation(conversationId, detached);
+      get().recordHistory('Detach branch');
+      logger.debug(`Detached ${conversationId} with ${detached.detachedContext?.length ?? 0} inherited messages`);
+      return true;
+    },
+
+    reparentConversation: (conversationId: string, newParentId: string) => {
+      const { conversations, edges } = get();
+      const conversation = conversations.get(conversationId);
+      const parent = conversations.get(newParentId);
+      if (!conversation || !parent) {
+        logger.warn(`Cannot re-parent ${conversationId} under ${newParentId}: card not found`);
+        return false;
+      }
+      if (conversation.parentCardIds.length === 1 && conversation.parentCardIds[0] === newParentId) {
+        return false;
+      }
+      if (conversation.isMergeNode) {
+        useToastStore.getState().warning('Merge cards keep their sources. Move one of the merged branches instead.');
+        return false;
+      }
+      if (conversationId === newParentId || wouldCreateCycle(newParentId, conversationId, edges, conversations)) {
+        useToastStore.getState().warning('A card cannot move under itself or one of its descendants.');
+        return false;
+      }
+
+      // Inherit the new parent in full, as if branched from its last message
+      const now = new Date();
+      const inheritedContext: Record<string, InheritedContextEntry> = {
+        ...parent.inheritedContext,
+        [newParentId]: {
+          mode: 'full',
+          messages: parent.content,
+          timestamp: now,
+          totalParentMessages: parent.content.length,
+        },
+      };
+
+      set({
+        edges: edges.filter((edge) => (
+          edge.target !== conversationId
+          || (edge.data?.relationType === 'reference' && edge.source !== newParentId)
+        )),
+      });
+      get().updateConversation(conversationId, {
+        parentCardIds: [newParentId],
+        branchPoint: { parentCardId: newParentId, messageIndex: Math.max(0, parent.content.length - 1) },
+        inheritedContext,
+        detachedContext: undefined,
+        compaction: undefined,
+      });
+      get().createEdge(newParentId, conversationId, 'branch');
+      get().recordHistory(`Moved "${conversation.metadata.title}" under "${parent.metadata.title}"`);
+      return true;
+    },
+
+    moveSubtreeToWorkspace: (rootId: string, workspaceId: string, options: { copy?: boolean } = {}) => {
+      const { conversations, edges, nodes, workspaces, activeWorkspaceId } = get();
+      const root = conversations.get(rootId);
+      const target = workspaces.find((w) => w.id === workspaceId);
+      if (!root || !target || workspaceId === activeWorkspaceId) {
+        logger.warn(`Cannot move ${rootId} to workspace ${workspaceId}`);
+        return 0;
+      }
+
+      const ids = collectSubtreeIds(rootId, conversations);
+      const idSet = new Set(ids);
+      const livePositions = new Map(nodes.map((node) => [node.id, node.position]));
+
+      // The root leaves its parents behind but keeps the context they gave it;
+      // descendants drop entries for ancestors outside the subtree, as copies do
+      let cards = ids.map((id) => {
+        const conv = conversations.get(id)!;
+        const card = id === rootId && conv.parentCardIds.length > 0 ? toDetachedRoot(conv, conversations) : conv;
+        return {
+          ...card,
+          position: livePositions.get(id) ?? card.position,
+          connections: card.connections.filter((connectedId) => idSet.has(connectedId)),
+          inheritedContext: Object.fromEntries(
+            Object.entries(card.inheritedContext).filter(([parentId]) => idSet.has(parentId))
+          ),
+        };
+      });
+      let connections = edges
+        .filter((edge) => idSet.has(edge.source) && idSet.has(edge.target))
+        .map(edgeToConnection);
+
+      if (options.copy) {
+        const copy = remapWorkspaceIds({ ...target, conversations: cards, edges: connections });
+        cards = copy.conversations;
+        connections = copy.edges;
+      }
+
+      // Place the subtree to the right of the target's existing cards
+      const targetRight = Math.max(...target.conversations.map((conv) => conv.position.x));
+      const subtreeLeft = Math.min(...cards.map((card) => card.position.x));
+      const offsetX = Number.isFinite(targetRight) ? targetRight + BRANCH_OFFSET_X - subtreeLeft : 0;
+      const placed = cards.map((card) => ({
+        ...card,
+        canvasId: workspaceId,
+        position: { x: card.position.x + offsetX, y: card.position.y },
+      }));
+
+      set((state) => ({
+        workspaces: state.workspaces.map((w) => (w.id === workspaceId ? {
+          ...w,
+          conversations: [...w.conversations, ...placed],
+          edges: [...(w.edges ?? []), ...connections],
+          metadata: { ...w.metadata, updatedAt: new Date() },
+        } : w)),
+      }));
+
+      if (!options.copy) {
+        // Cards left behind lose their links to moved cards, as when the edge is deleted
+        const remaining = new Map<string, Conversation>();
+        conversations.forEach((conv, id) => {
+          if (idSet.has(id)) return;
+          const parentCardIds = conv.parentCardIds.filter((parentId) => !idSet.has(parentId));
+          const connectionIds = conv.connections.filter((connectedId) => !idSet.has(connectedId));
+          if (parentCardIds.length === conv.parentCardIds.length && connectionIds.length === conv.connections.length) {
+            remaining.set(id, conv);
+            return;
+          }
+          remaining.set(id, { ...withoutParents(conv, idSet), connections: connectionIds });
+        });
+
+        const remainingNodes = nodes
+          .filter((node) => !idSet.has(node.id))
+          .map((node) => {
+            const conv = remaining.get(node.id);
+            return conv && conv !== node.data.conversation
+              ? { ...node, data: { ...node.data, conversation: conv } }
+              : node;
+          });
+        const remainingEdges = edges.filter((edge) => !idSet.has(edge.source) && !idSet.has(edge.target));
+        const { activeConversationId } = get();
+
+        set((state) => ({
+          nodes: remainingNodes,
+          edges: remainingEdges,
+          conversations: remaining,
+          selectedNodeIds: new Set(Array.from(state.selectedNodeIds).filter((id) => !idSet.has(id))),
+          expandedNodeIds: new Set(Array.from(state.expandedNodeIds).filter((id) => !idSet.has(id))),
+          ...(activeConversationId && idSet.has(activeConversationId)
+            ? { chatPanelOpen: false, activeConversationId: null }
+            : {}),
+          // Undo cannot reach into the other workspace; start over so it never
+          // brings the moved cards back here as duplicates
+          history: [createHistoryBase({ nodes: remainingNodes, edges: remainingEdges, conversations: remaining })],
+          historyIndex: 0,
+        }));
+      }
+
+      get().saveToStorage();
+      logger.debug(`${options.copy ? 'Copied' : 'Moved'} ${ids.length} card(s) to workspace ${workspaceId}`);
+      return ids.length;
+    },
+
+    copyCards: (ids: string[]) => {
+      const clipboard = createCardClipboard(ids, get());
+      if (!clipboard) return 0;
+      set({ cardClipboard: clipboard });
+      logger.debug(`Copied ${clipboard.conversations.length} card(s) to the clipboard`);
+      return clipboard.conversations.length;
+    },
+
+    pasteCards: (position?: Position, clipboard: CardClipboard | null = get().cardClipboard) => {
+      const workspace = get().getCurrentWorkspace();
+      if (!clipboard || clipboard.conversations.length === 0 || !workspace) return [];
+
+      const copy = remapWorkspaceIds({ ...workspace, conversations: clipboard.conversations, edges: clipboard.edges });
+      const left = Math.min(...copy.conversations.map((conv) => conv.position.x));
+      const top = Math.min(...copy.conversations.map((conv) => conv.position.y));
+      const offset = position
+        ? { x: position.x - left, y: position.y - top }
+        : { x: PASTE_OFFSET, y: PASTE_OFFSET };
+
+      const now = new Date();
+      const pasted = copy.conversations.map((conv) => ({
+        ...conv,
+        canvasId: workspace.id,
+        position: { x: conv.position.x + offset.x, y: conv.position.y + offset.y },
+        metadata: { ...conv.metadata, createdAt: now, updatedAt: now },
+      }));
+      const pastedIds = new Set(pasted.map((conv) => conv.id));
+
+      const newConversations = new Map(get().conversations);
+      pasted.forEach((conv) => newConversations.set(conv.id, conv));
+
+      set((state) => ({
+        conversations: newConversations,
+        nodes: [
+          ...state.nodes.map((node) => (node.selected || node.data.isSelected
+            ? { ...node, selected: false, data: { ...node.data, isSelected: false } }
+            : node)),
+          ...pasted.map((conv) => conversationToNode(conv, conv.position, false, true)),
+        ],
+        edges: [...state.edges, ...copy.edges.map(connectionToEdge)],
+        selectedNodeIds: pastedIds,
+      }));
+
+      get().recordHistory(`Pasted ${pasted.length} ${pasted.length === 1 ? 'card' : 'cards'}`);
+      get().saveToStorage();
+      return pasted;
+    },
+
+    duplicateCards: (ids: string[]) => {
+      const clipboard = createCardClipboard(ids, get());
+      return clipboard ? get().pasteCards(undefined, clipboard) : [];
+    },
+
+    promoteVariantToBranch: (conversationId: string, messageIndex: number, variantIndex: number) => {
+      const source = get().conversations.get(conversationId);
+      const message = source?.content[messageIndex];
+      const variant = message?.variants?.[variantIndex];
+      if (!source || !message || message.role !== 'assistant' || !variant) {
+        logger.error(`Invalid response variant ${variantIndex} at message ${messageIndex} in conversation ${conversationId}`);
+        return null;
+      }
+      // The branch inherits up to the prompt and starts with the variant as its reply
+      if (messageIndex < 1) {
+        logger.warn(`Cannot promote variant: message ${messageIndex} has no prompt before it`);
+        return null;
+      }
+
+      let branch: Conversation | null = null;
+      get().beginHistoryBatch();
+      try {
+        branch = get().branchFromMessage({
+          sourceCardId: conversationId,
+          messageIndex: messageIndex - 1,
+          branchReason: `Response variant ${variantIndex + 1}`,
+        });
+        if (branch) {
+          const reply: Message = {
+            id: nanoid(),
+            role: 'assistant',
+            content: variant.content,
+            timestamp: variant.timestamp,
+            metadata: variant.metadata,
+          };
+          get().updateConversation(branch.id, {
+            content: [reply],
+            model: variant.metadata?.model ?? branch.model,
+            metadata: { ...branch.metadata, messageCount: 1 },
+          });
+          branch = get().conversations.get(branch.id) ?? branch;
+        }
+      } finally {
+        get().endHistoryBatch('Promote response variant');
+      }
+
+      return branch;
+    },
+
     createMergeNode: (data: CreateMergeNodeData) => {
-      const { sourceCardIds, position, synthesisPrompt } = data;
+      const { sourceCardIds, position, synthesisPrompt, strategy, customTemplate } = data;
       const { conversations, activeWorkspaceId } = get();
       const toast = useToastStore.getState();
       
@@ -2235,6 +3349,8 @@ export const useCanvasStore = create<WorkspaceState>()(
       const mergeMetadata: MergeMetadata = {
         sourceCardIds,
         synthesisPrompt,
+        ...(strategy ? { strategy } : {}),
+        ...(strategy === 'custom' && customTemplate ? { customTemplate } : {}),
         createdAt: now,
       };
 
@@ -2253,7 +3369,10 @@ export const useCanvasStore = create<WorkspaceState>()(
         isMergeNode: true,
         mergeMetadata,
         metadata: {
-          title: synthesisPrompt || `Merge of ${sourceCardIds.length} threads`,
+          title: synthesisPrompt
+            || (strategy && strategy !== 'custom'
+              ? `${getMergeStrategy(strategy).label}: ${sourceCardIds.length} threads`
+              : `Merge of ${sourceCardIds.length} threads`),
           titleAutoGenerated: true,
           createdAt: now,
           updatedAt: now,
@@ -2261,8 +3380,9 @@ export const useCanvasStore = create<WorkspaceState>()(
           tags: ['merge'],
           isExpanded: false,
         },
-        // Inherit model from first parent
+        // Inherit model and generation settings from first parent
         model: inheritedModel,
+        generationSettings: sourceConversations[0].generationSettings,
       };
 
       // Add conversation to store
@@ -2312,7 +3432,7 @@ export const useCanvasStore = create<WorkspaceState>()(
         });
       }
 
-      get().recordHistory();
+      get().recordHistory(`Merge of ${sourceCardIds.length} cards`);
 
       return mergeNode;
     },
@@ -2362,12 +3482,129 @@ export const useCanvasStore = create<WorkspaceState>()(
     // Hierarchical Merge Dialog
     // =========================================================================
 
-    openHierarchicalMergeDialog: () => {
-      set({ hierarchicalMergeDialogOpen: true });
+    openHierarchicalMergeDialog: (pendingMerge?: CreateMergeNodeData) => {
+      set({ hierarchicalMergeDialogOpen: true, pendingMerge: pendingMerge ?? null });
     },
 
     closeHierarchicalMergeDialog: () => {
-      set({ hierarchicalMergeDialogOpen: false });
+      set({ hierarchicalMergeDialogOpen: false, pendingMerge: null });
+    },
+
+    // =========================================================================
+    // Cross-Tab Sync
+    // =========================================================================
+
+    startTabSync: () => {
+      // Another tab may have saved a different active workspace; return to ours
+      const tabWorkspaceId = getTabWorkspaceId();
+      const { activeWorkspaceId, workspaces } = get();
+      if (tabWorkspaceId && tabWorkspaceId !== activeWorkspaceId && workspaces.some(w => w.id === tabWorkspaceId)) {
+        get().navigateToWorkspace(tabWorkspaceId);
+      }
+
+      // Everything loaded from storage counts as already synced
+      collectWorkspaceChanges(snapshotWorkspaces(get()), syncBaseline);
+
+      tabSyncChannel?.close();
+      const channel = openTabSyncChannel((message) => get().applyTabSyncMessage(message));
+      tabSyncChannel = channel;
+
+      return () => {
+        channel?.close();
+        if (tabSyncChannel === channel) tabSyncChannel = null;
+      };
+    },
+
+    applyTabSyncMessage: (message: TabSyncMessage) => {
+      const state = get();
+      if (!state.isInitialized || message.tabId === TAB_ID) return;
+
+      if (message.type === 'workspace-removed') {
+        const workspace = state.workspaces.find(w => w.id === message.workspaceId);
+        forgetSyncedWorkspace(syncBaseline, message.workspaceId);
+        if (!workspace) return;
+
+        if (workspace.id === state.activeWorkspaceId) {
+          useToastStore.getState().warning(`"${workspace.metadata.title}" was deleted in another tab`);
+        }
+        set({ syncConflicts: state.syncConflicts.filter(c => c.workspaceId !== message.workspaceId) });
+        get().deleteWorkspace(message.workspaceId);
+        return;
+      }
+
+      const local = state.getWorkspaceSnapshot(message.workspaceId);
+
+      if (message.type === 'card-resolved') {
+        if (!local) return;
+        const workspace = replaceSyncedCard(local, message.cardId, message.card, syncBaseline);
+        set({
+          ...applySyncedWorkspace(state, workspace, new Set([message.cardId]), !message.card),
+          syncConflicts: state.syncConflicts.filter(c => c.cardId !== message.cardId),
+        });
+        get().saveToStorage();
+        return;
+      }
+
+      const { workspace, conflicts, changedCardIds } = mergeWorkspaceChanges(local, message, syncBaseline);
+      const edgesChanged = message.edgeUpserts.length > 0 || message.edgeRemovals.length > 0;
+      const conflictIds = new Set(conflicts.map(c => c.cardId));
+
+      set({
+        ...applySyncedWorkspace(state, workspace, changedCardIds, edgesChanged),
+        // A card that synced cleanly is no longer in conflict
+        syncConflicts: [
+          ...state.syncConflicts.filter(c => !conflictIds.has(c.cardId) && !changedCardIds.has(c.cardId)),
+          ...conflicts,
+        ],
+      });
+
+      // Repeated updates to an already conflicted card (e.g. streaming) notify once
+      const newConflicts = conflicts.filter(c => !state.syncConflicts.some(existing => existing.cardId === c.cardId));
+      if (newConflicts.length > 0) {
+        const label = newConflicts.length === 1 ? `"${newConflicts[0].title}" was` : `${newConflicts.length} cards were`;
+        useToastStore.getState().warning(`${label} also changed in another tab. This tab's version is kept for now.`, {
+          action: { label: 'Review', onClick: () => get().openSyncConflictDialog() },
+          duration: 10000,
+        });
+      }
+
+      get().saveToStorage();
+    },
+
+    resolveSyncConflict: (cardId: string, resolution: 'local' | 'remote') => {
+      const state = get();
+      const conflict = state.syncConflicts.find(c => c.cardId === cardId);
+      if (!conflict) return;
+
+      const remaining = state.syncConflicts.filter(c => c.cardId !== cardId);
+      const local = state.getWorkspaceSnapshot(conflict.workspaceId);
+      if (!local) {
+        set({ syncConflicts: remaining, syncConflictDialogOpen: remaining.length > 0 && state.syncConflictDialogOpen });
+        return;
+      }
+
+      // "local" keeps the current version, including edits made since the conflict
+      const card = resolution === 'remote'
+        ? conflict.remote
+        : local.conversations.find(conv => conv.id === cardId) ?? null;
+      const workspace = replaceSyncedCard(local, cardId, card, syncBaseline);
+
+      set({
+        ...applySyncedWorkspace(state, workspace, new Set([cardId]), !card),
+        syncConflicts: remaining,
+        syncConflictDialogOpen: remaining.length > 0 && state.syncConflictDialogOpen,
+      });
+
+      tabSyncChannel?.post({ type: 'card-resolved', tabId: TAB_ID, workspaceId: conflict.workspaceId, cardId, card });
+      get().saveToStorage();
+    },
+
+    openSyncConflictDialog: () => {
+      set({ syncConflictDialogOpen: true });
+    },
+
+    closeSyncConflictDialog: () => {
+      set({ syncConflictDialogOpen: false });
     },
 
     // =========================================================================
@@ -2454,12 +3691,12 @@ export const useCanvasStore = create<WorkspaceState>()(
       return get().draftMessages.get(conversationId) || '';
     },
 
-    injectInputValue: (cardId: string, text: string) => {
+    injectInputValue: (cardId: string, text: string, options?: { send?: boolean }) => {
       // Persist so the draft is available if the panel is closed and reopened
       get().setDraftMessage(cardId, text);
       // Bump seq to signal MessageInput to update even when conversationId is unchanged
       const prev = get().inputInjection;
-      set({ inputInjection: { cardId, text, seq: (prev?.seq ?? 0) + 1 } });
+      set({ inputInjection: { cardId, text, seq: (prev?.seq ?? 0) + 1, ...(options?.send ? { send: true } : {}) } });
     },
 
     requestDeleteConversation: (conversationIds: string[]) => {
@@ -2470,19 +3707,20 @@ export const useCanvasStore = create<WorkspaceState>()(
       set({ pendingDeleteConversationIds: [] });
     },
 
-    sendMessage: async (content: string, attachments?: import('@/types').MessageAttachment[]) => {
-      const { activeConversationId, conversations, draftMessages, workspaces, activeWorkspaceId } = get();
+    sendMessage: async (content: string, attachments?: import('@/types').MessageAttachment[], conversationId?: string) => {
+      const { conversations, draftMessages, workspaces, activeWorkspaceId } = get();
+      const targetConversationId = conversationId ?? get().activeConversationId;
       
       // Allow send when there are attachments even with no text
       const hasText = content.trim().length > 0;
       const hasAttachments = attachments && attachments.length > 0;
-      if (!activeConversationId || (!hasText && !hasAttachments)) {
+      if (!targetConversationId || (!hasText && !hasAttachments)) {
         return;
       }
 
-      const conversation = conversations.get(activeConversationId);
+      const conversation = conversations.get(targetConversationId);
       if (!conversation) {
-        logger.warn(`Active conversation ${activeConversationId} not found`);
+        logger.warn(`Conversation ${targetConversationId} not found`);
         return;
       }
 
@@ -2503,7 +3741,7 @@ export const useCanvasStore = create<WorkspaceState>()(
         content: content.trim(),
         timestamp: new Date(),
         ...(contextSnapshot ? { contextSnapshot } : {}),
-        ...(attachments && attachments.length > 0 ? { attachments } : {}),
+        ...(attachments && attachments.length > 0 ? { attachments: attachments.map(toAttachmentReference) } : {}),
       };
 
       // Update conversation with new message
@@ -2534,16 +3772,16 @@ export const useCanvasStore = create<WorkspaceState>()(
 
       // Clear draft after sending
       const newDrafts = new Map(draftMessages);
-      newDrafts.delete(activeConversationId);
+      newDrafts.delete(targetConversationId);
 
       // Update store
       const newConversations = new Map(conversations);
-      newConversations.set(activeConversationId, updatedConversation);
+      newConversations.set(targetConversationId, updatedConversation);
 
       // Update nodes to reflect new message count
       const { nodes } = get();
       const updatedNodes = nodes.map(node => {
-        if (node.id === activeConversationId) {
+        if (node.id === targetConversationId) {
           return {
             ...node,
             data: {
@@ -2564,7 +3802,7 @@ export const useCanvasStore = create<WorkspaceState>()(
       // Save to storage
       get().saveToStorage();
       
-      logger.debug(`Sent message to conversation ${activeConversationId}`);
+      logger.debug(`Sent message to conversation ${targetConversationId}`);
 
       // AI response is now handled by ChatPanel via useChat hook
     },
@@ -2616,7 +3854,7 @@ export const useCanvasStore = create<WorkspaceState>()(
       get().saveToStorage();
     },
 
-    addAIMessage: (conversationId: string, content: string, model: string, metadata?: MessageMetadata, id?: string) => {
+    addAIMessage: (conversationId: string, content: string, model: string, metadata?: MessageMetadata, id?: string, variantOf?: Message, reasoning?: string) => {
       const { conversations, nodes, workspaces } = get();
       let conversation = conversations.get(conversationId);
 
@@ -2642,7 +3880,7 @@ export const useCanvasStore = create<WorkspaceState>()(
       }
 
       // Create new AI message
-      const aiMessage = {
+      let aiMessage: Message = {
         id: id ?? nanoid(),
         role: 'assistant' as const,
         content: content,
@@ -2654,8 +3892,15 @@ export const useCanvasStore = create<WorkspaceState>()(
             ...(metadata?.custom ?? {}),
           },
         },
+        ...(reasoning?.trim() ? { reasoning } : {}),
       };
 
+      // Regenerated response: keep the earlier responses as variants
+      if (variantOf) {
+        const variants = [...(variantOf.variants ?? [toMessageVariant(variantOf)]), toMessageVariant(aiMessage)];
+        aiMessage = withActiveVariant(aiMessage, variants, variants.length - 1);
+      }
+
       // Update conversation
       const hasFirstUserMessage = conversation.content.length === 1;
       const shouldGenerateAITitle = hasFirstUserMessage
@@ -2771,6 +4016,22 @@ export const useCanvasStore = create<WorkspaceState>()(
       }
     },
 
+    setActiveVariant: (conversationId: string, messageIndex: number, variantIndex: number) => {
+      const conversation = get().conversations.get(conversationId);
+      const message = conversation?.content[messageIndex];
+      if (!conversation || !message?.variants) {
+        logger.warn(`No response variants at message ${messageIndex} in conversation ${conversationId}`);
+        return;
+      }
+      if (variantIndex < 0 || variantIndex >= message.variants.length || variantIndex === message.activeVariantIndex) return;
+
+      const updatedMessages = [...conversation.content];
+      updatedMessages[messageIndex] = withActiveVariant(message, message.variants, variantIndex);
+      get().updateConversation(conversationId, { content: updatedMessages });
+
+      logger.debug(`Message ${messageIndex} in conversation ${conversationId} now uses variant ${variantIndex + 1}`);
+    },
+
     editMessage: (conversationId: string, messageIndex: number, newContent: string, newAttachments?: import('@/types').MessageAttachment[]) => {
       const { conversations, updateConversation } = get();
       
@@ -2804,7 +4065,7 @@ export const useCanvasStore = create<WorkspaceState>()(
       const updatedMessage: Message = {
         ...message,
         content: newContent.trim(),
-        attachments: newAttachments,
+        attachments: newAttachments?.map(toAttachmentReference),
         timestamp: new Date(), // Update timestamp to reflect edit time
         metadata: {
           ...message.metadata,
@@ -2879,7 +4140,7 @@ export const useCanvasStore = create<WorkspaceState>()(
       return conversation?.model;
     },
 
-    getConversationMessages: (conversationId: string) => {
+    getConversationMessages: (conversationId: string, options?: { throughMessageCount?: number }) => {
       const { conversations } = get();
       const conversation = conversations.get(conversationId);
       
@@ -2890,10 +4151,36 @@ export const useCanvasStore = create<WorkspaceState>()(
       const result: Array<{ role: 'user' | 'assistant' | 'system'; content: string; attachments?: import('@/types').MessageAttachment[] }> = [];
 
       // --- Collect inherited context from parent cards ---
+      const { includeReasoningInContext } = usePreferencesStore.getState().preferences.branching;
       const hasParents = conversation.parentCardIds.length > 0;
+      const hasDetachedContext = !!conversation.detachedContext?.length;
       const isMerge = conversation.isMergeNode;
+      const compaction = getCurrentCompaction(conversation);
 
-      if (hasParents) {
+      if (compaction) {
+        // Compacted: the summary stands in for the inherited context and the
+        // messages it covers (they stay on the card for display)
+        if (hasParents || hasDetachedContext) {
+          result.push({ role: 'system', content: buildStructuralMetadata(conversation, conversations) });
+        }
+        const earlier = `${compaction.messageCount} earlier messages`;
+        const covered = !(hasParents || hasDetachedContext) ? earlier
+          : compaction.messageCount > 0 ? `the inherited context and ${earlier}` : 'the inherited context';
+        result.push({
+          role: 'system',
+          content: `[Summary of ${covered}, compacted to fit the context window]\n\n${compaction.summary}`,
+        });
+        if (conversation.mergeMetadata?.synthesisPrompt) {
+          result.push({
+            role: 'system',
+            content: `[Synthesis objective: ${conversation.mergeMetadata.synthesisPrompt}]`,
+          });
+        }
+        result.push({
+          role: 'system',
+          content: '--- Current conversation messages (below) ---',
+        });
+      } else if (hasParents || hasDetachedContext) {
         // Build structural metadata system message
         const metadata = buildStructuralMetadata(conversation, conversations);
         result.push({ role: 'system', content: metadata });
@@ -2922,7 +4209,7 @@ export const useCanvasStore = create<WorkspaceState>()(
                 const key = `${msg.role}::${msg.content}`;
                 if (seenAncestorContent.has(key)) continue;
                 seenAncestorContent.add(key);
-                sharedAncestorMessages.push(msg);
+                sharedAncestorMessages.push({ role: msg.role, content: toInheritedContent(msg, includeReasoningInContext) });
               }
             }
           }
@@ -2949,7 +4236,7 @@ export const useCanvasStore = create<WorkspaceState>()(
 
               for (const msg of inheritedEntry.messages) {
                 if (!msg.content?.trim()) continue;
-                allInheritedMessages.push({ role: msg.role, content: msg.content });
+                allInheritedMessages.push({ role: msg.role, content: toInheritedContent(msg, includeReasoningInContext) });
               }
             }
           }
@@ -3031,18 +4318,16 @@ export const useCanvasStore = create<WorkspaceState>()(
 
             // Add inherited messages
             for (const msg of inheritedMessages) {
-              result.push({ role: msg.role, content: msg.content });
+              result.push({ role: msg.role, content: toInheritedContent(msg, includeReasoningInContext) });
             }
           }
         }
 
         // Separator between inherited and current context
-        if (conversation.parentCardIds.length > 0) {
-          result.push({
-            role: 'system',
-            content: '--- Current conversation messages (below) ---',
-          });
-        }
+        result.push({
+          role: 'system',
+          content: '--- Current conversation messages (below) ---',
+        });
       }
 
       // --- Add current conversation's own messages ---
@@ -3051,7 +4336,8 @@ export const useCanvasStore = create<WorkspaceState>()(
       //      that must not be sent to the LLM.
       //   2. Empty-content messages — an empty assistant turn causes 500 errors on
       //      providers like Perplexity (can happen when a previous stream failed).
-      for (const msg of conversation.content) {
+      const ownMessages = conversation.content.slice(compaction?.messageCount ?? 0, options?.throughMessageCount);
+      for (const msg of ownMessages) {
         const isUiNotice =
           msg.role === 'system' &&
           typeof msg.metadata?.custom === 'object' &&
@@ -3062,6 +4348,8 @@ export const useCanvasStore = create<WorkspaceState>()(
         // Skip messages with no meaningful content
         if (!msg.content?.trim()) continue;
 
+        // Blob-backed attachments are returned as references (empty url);
+        // ChatPanel resolves them via resolveMessageAttachments before sending
         result.push({
           role: msg.role,
           content: msg.content,
@@ -3130,6 +4418,22 @@ export const selectDraftMessages = (state: WorkspaceState) => state.draftMessage
 // Usage panel selector
 export const selectUsagePanelOpen = (state: WorkspaceState) => state.usagePanelOpen;
 
+// Stale-branch selector: computed once per conversations Map, not once per card and update
+let staleCardIdsCache: { conversations: Map<string, Conversation>; ids: Set<string> } | null = null;
+export const selectStaleCardIds = (state: WorkspaceState): Set<string> => {
+  if (staleCardIdsCache?.conversations !== state.conversations) {
+    const ids = new Set<string>();
+    state.conversations.forEach((conversation) => {
+      if (conversation.parentCardIds.length > 0
+        && getStaleInheritedContext(conversation, state.conversations).length > 0) {
+        ids.add(conversation.id);
+      }
+    });
+    staleCardIdsCache = { conversations: state.conversations, ids };
+  }
+  return staleCardIdsCache.ids;
+};
+
 // Legacy alias for compatibility
 /** @deprecated Use selectWorkspaces instead */
 export const selectCanvases = selectWorkspaces;
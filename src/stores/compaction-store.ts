@@ -0,0 +1,133 @@
+/**
+ * Compaction Store
+ *
+ * Rolls a card's inherited context and older messages into a summary
+ * checkpoint (see context-compaction) via /api/summarize. History too long
+ * for one request is summarized in stages, each folding in the summary so
+ * far, so a card already past its model's window can still compact. The
+ * checkpoint is
+ * saved on the conversation; this store only tracks which cards are being
+ * compacted right now and is never persisted.
+ *
+ * @version 1.0.0
+ */
+
+import { create } from 'zustand';
+
+import { withInlinedAttachments } from '@/lib/attachment-store';
+import { getCompactionCutoff, hasCompactableContext, splitForSummary } from '@/lib/context-compaction';
+import { requestContextSummary } from '@/lib/context-utils';
+import { detectProvider, estimateMessagesTokens } from '@/lib/vercel-ai-integration';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { useToastStore } from '@/stores/toast-store';
+import { useUsageStore } from '@/stores/usage-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CompactionState {
+  /** Conversation IDs with a summary request in flight */
+  compacting: Set<string>;
+
+  /**
+   * Summarize everything but the card's most recent messages with `model`.
+   * Resolves true once a new checkpoint is saved; false if there was nothing
+   * new to compact or the request failed (a toast reports the failure).
+   */
+  compact: (conversationId: string, model: string) => Promise<boolean>;
+
+  /** Drop the card's checkpoint so requests send the full history again */
+  discard: (conversationId: string) => void;
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+export const useCompactionStore = create<CompactionState>()(
+  (set, get) => {
+    const setCompacting = (conversationId: string, active: boolean) =>
+      set((state) => {
+        const next = new Set(state.compacting);
+        if (active) next.add(conversationId);
+        else next.delete(conversationId);
+        return { compacting: next };
+      });
+
+    return {
+      compacting: new Set(),
+
+      compact: async (conversationId, model) => {
+        if (get().compacting.has(conversationId)) return false;
+        const canvas = useCanvasStore.getState();
+        const conversation = canvas.conversations.get(conversationId);
+        if (!conversation) return false;
+
+        // The summary covers the previous checkpoint too, so only compact when
+        // there is something past it to fold in
+        if (!hasCompactableContext(conversation)) return false;
+        const cutoff = getCompactionCutoff(conversation);
+
+        const stored = canvas.getConversationMessages(conversationId, { throughMessageCount: cutoff });
+        if (stored.length === 0) return false;
+
+        setCompacting(conversationId, true);
+        try {
+          const messages = await withInlinedAttachments(stored);
+          let summary = '';
+          const usage = { promptTokens: 0, completionTokens: 0 };
+          for (const stage of splitForSummary(messages, model)) {
+            const input = summary
+              ? [{ role: 'system' as const, content: `[Summary of the conversation so far]\n\n${summary}` }, ...stage]
+              : stage;
+            const result = await requestContextSummary(input, model, conversation.metadata.title, 'compaction');
+            summary = result.summary;
+            usage.promptTokens += result.usage.promptTokens;
+            usage.completionTokens += result.usage.completionTokens;
+          }
+
+          // Messages may have been edited while the summary was written
+          const latest = useCanvasStore.getState().conversations.get(conversationId);
+          const throughMessageId = conversation.content[cutoff - 1]?.id;
+          if (!latest || latest.content[cutoff - 1]?.id !== throughMessageId) return false;
+
+          useCanvasStore.getState().updateConversation(conversationId, {
+            compaction: {
+              summary,
+              messageCount: cutoff,
+              throughMessageId,
+              compactedTokens: estimateMessagesTokens(messages),
+              model,
+              createdAt: new Date(),
+            },
+          });
+
+          if (usage.promptTokens > 0 || usage.completionTokens > 0) {
+            useUsageStore.getState().addUsage({
+              provider: detectProvider(model),
+              model,
+              inputTokens: usage.promptTokens,
+              outputTokens: usage.completionTokens,
+              conversationId,
+              source: 'summarize',
+            });
+          }
+          return true;
+        } catch (error) {
+          console.error('[Compaction] Summary failed:', { conversationId, model, error });
+          useToastStore.getState().error(
+            `Couldn't compact the conversation: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+          return false;
+        } finally {
+          setCompacting(conversationId, false);
+        }
+      },
+
+      discard: (conversationId) => {
+        useCanvasStore.getState().updateConversation(conversationId, { compaction: undefined });
+      },
+    };
+  },
+);
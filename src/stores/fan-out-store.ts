@@ -0,0 +1,197 @@
+/**
+ * Fan-Out Store
+ *
+ * Live state for prompts sent to several models at once. Each sibling branch
+ * streams its own /api/chat response outside ChatPanel's single useChat, so
+ * all of them generate concurrently. Finished responses are persisted with
+ * addAIMessage and recorded per card in the usage store. Streams are transient
+ * and never persisted.
+ *
+ * @version 1.0.0
+ */
+
+import { create } from 'zustand';
+import { DefaultChatTransport, readUIMessageStream, type UIMessage } from 'ai';
+
+import { detectProvider, getModelById } from '@/lib/vercel-ai-integration';
+import { extractWebSearchSources, getMessageReasoning, getMessageText } from '@/lib/ui-message-utils';
+import { useCanvasStore } from '@/stores/canvas-store';
+import { useToastStore } from '@/stores/toast-store';
+import { useUsageStore, type UsageInput } from '@/stores/usage-store';
+import type { MessageMetadata } from '@/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FanOutStream {
+  conversationId: string;
+  model: string;
+  /** Latest snapshot of the streaming assistant message (null until the first chunk) */
+  message: UIMessage | null;
+}
+
+export interface FanOutRequest {
+  conversationId: string;
+  model: string;
+  /** Full conversation history (inherited context + the prompt) in UIMessage format */
+  messages: UIMessage[];
+  /** Remaining /api/chat body fields: model, keys, attachments, canvas context */
+  body: Record<string, unknown>;
+}
+
+/** Metadata attached by /api/chat via messageMetadata */
+type ChatResponseMetadata = MessageMetadata & {
+  usage?: { inputTokens: number; outputTokens: number };
+  actualCost?: UsageInput['actualCost'];
+  tokenDetails?: UsageInput['tokenDetails'];
+};
+
+interface FanOutState {
+  /** In-flight streams keyed by branch conversation ID */
+  streams: Map<string, FanOutStream>;
+
+  /** Stream one branch's response; resolves once it is persisted, stopped or has failed */
+  startStream: (request: FanOutRequest) => Promise<void>;
+
+  /** Abort a branch's stream, keeping any partial response */
+  stopStream: (conversationId: string) => void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const CHARS_PER_TOKEN = 4;
+
+// Kept outside the store so aborting never triggers a re-render
+const abortControllers = new Map<string, AbortController>();
+
+function persistResponse(conversationId: string, model: string, message: UIMessage): void {
+  const messageText = getMessageText(message);
+  // Empty assistant turns are rejected by providers on the next request
+  if (!messageText.trim()) return;
+
+  const serverMeta = message.metadata as ChatResponseMetadata | undefined;
+  // The server reports the model that answered — a fallback may have stood in
+  const answeredModel = serverMeta?.model ?? model;
+  const webSearch = extractWebSearchSources(message);
+  useCanvasStore.getState().addAIMessage(
+    conversationId,
+    messageText,
+    answeredModel,
+    {
+      ...serverMeta,
+      ...(webSearch.used ? {
+        custom: {
+          ...(serverMeta?.custom ?? {}),
+          webSearch: { used: true, sources: webSearch.sources },
+        },
+      } : {}),
+    },
+    message.id,
+    undefined,
+    getMessageReasoning(message)
+  );
+
+  const usage = serverMeta?.usage;
+  if (usage && (usage.inputTokens > 0 || usage.outputTokens > 0)) {
+    useUsageStore.getState().addUsage({
+      provider: detectProvider(answeredModel),
+      model: answeredModel,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      conversationId,
+      source: 'chat',
+      actualCost: serverMeta?.actualCost,
+      tokenDetails: serverMeta?.tokenDetails,
+    });
+    return;
+  }
+
+  // Usage missing (e.g. stopped mid-stream) — estimate like ChatPanel does
+  const conversationChars = (useCanvasStore.getState().conversations.get(conversationId)?.content ?? [])
+    .reduce((sum, m) => sum + m.content.length, 0);
+  useUsageStore.getState().addUsage({
+    provider: detectProvider(answeredModel),
+    model: answeredModel,
+    inputTokens: Math.ceil(Math.max(conversationChars, messageText.length) / CHARS_PER_TOKEN),
+    outputTokens: Math.ceil(messageText.length / CHARS_PER_TOKEN),
+    conversationId,
+    source: 'chat',
+  });
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+export const useFanOutStore = create<FanOutState>()(
+  (set, get) => {
+    const setStream = (stream: FanOutStream) =>
+      set((state) => {
+        const next = new Map(state.streams);
+        next.set(stream.conversationId, stream);
+        return { streams: next };
+      });
+
+    const clearStream = (conversationId: string) =>
+      set((state) => {
+        const next = new Map(state.streams);
+        next.delete(conversationId);
+        return { streams: next };
+      });
+
+    return {
+      streams: new Map(),
+
+      startStream: async ({ conversationId, model, messages, body }) => {
+        get().stopStream(conversationId);
+        const abortController = new AbortController();
+        abortControllers.set(conversationId, abortController);
+        setStream({ conversationId, model, message: null });
+
+        let lastMessage: UIMessage | null = null;
+        let failed = false;
+        try {
+          const transport = new DefaultChatTransport<UIMessage>({ api: '/api/chat' });
+          const stream = await transport.sendMessages({
+            trigger: 'submit-message',
+            chatId: `fan-out-${conversationId}`,
+            messageId: undefined,
+            messages,
+            abortSignal: abortController.signal,
+            body,
+          });
+
+          for await (const message of readUIMessageStream({ stream, terminateOnError: true })) {
+            lastMessage = message;
+            setStream({ conversationId, model, message });
+          }
+        } catch (error) {
+          if (!abortController.signal.aborted) {
+            failed = true;
+            console.error('[FanOut] Stream failed:', { conversationId, model, error });
+            const modelName = getModelById(model)?.name ?? model;
+            useToastStore.getState().error(
+              `${modelName} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+          }
+        }
+
+        // Persist before dropping the live stream so the message never flickers out
+        if (lastMessage && !failed) {
+          persistResponse(conversationId, model, lastMessage);
+        }
+        if (abortControllers.get(conversationId) === abortController) {
+          abortControllers.delete(conversationId);
+          clearStream(conversationId);
+        }
+      },
+
+      stopStream: (conversationId) => {
+        abortControllers.get(conversationId)?.abort();
+      },
+    };
+  },
+);
@@ -12,7 +12,9 @@ import { subscribeWithSelector } from 'zustand/middleware';
 
 import type { 
   BranchingPreferences, 
+  ModelRetryPreferences,
 } from '@/types';
+import { DEFAULT_RETRY_POLICY } from '@/lib/model-fallback';
 import { STORAGE_KEYS, VersionedStorage } from '@/lib/storage';
 
 /**
@@ -33,6 +35,8 @@ export type ThemeMode = 'light' | 'dark' | 'system';
 export interface UserPreferences {
   /** Branching-related preferences */
   branching: BranchingPreferences;
+  /** Retry and fallback of failed chat requests */
+  retry: ModelRetryPreferences;
   /** UI preferences */
   ui: {
     /** Confirm before deleting */
@@ -45,6 +49,8 @@ export interface UserPreferences {
     theme: ThemeMode;
     /** Whether the canvas tip has been shown */
     hasSeenCanvasTip: boolean;
+    /** Keep the last undo steps of each workspace across reloads */
+    persistUndoHistory: boolean;
   };
 }
 
@@ -60,6 +66,8 @@ interface PreferencesActions {
   savePreferences: () => void;
   /** Update branching preferences */
   setBranchingPreferences: (prefs: Partial<BranchingPreferences>) => void;
+  /** Update retry preferences */
+  setRetryPreferences: (prefs: Partial<ModelRetryPreferences>) => void;
   /** Update UI preferences */
   setUIPreferences: (prefs: Partial<UserPreferences['ui']>) => void;
   /** Set theme mode and apply to document */
@@ -75,6 +83,12 @@ interface PreferencesActions {
 
 const DEFAULT_BRANCHING_PREFERENCES: BranchingPreferences = {
   defaultInheritanceMode: 'full',
+  includeReasoningInContext: false,
+};
+
+const DEFAULT_RETRY_PREFERENCES: ModelRetryPreferences = {
+  maxRetries: DEFAULT_RETRY_POLICY.maxRetries,
+  fallbackModels: [],
 };
 
 const DEFAULT_UI_PREFERENCES: UserPreferences['ui'] = {
@@ -83,10 +97,12 @@ const DEFAULT_UI_PREFERENCES: UserPreferences['ui'] = {
   sidebarOpen: false, // Left sidebar hidden by default — users can open it
   theme: 'system', // Follow system preference by default
   hasSeenCanvasTip: false,
+  persistUndoHistory: true,
 };
 
 const DEFAULT_PREFERENCES: UserPreferences = {
   branching: DEFAULT_BRANCHING_PREFERENCES,
+  retry: DEFAULT_RETRY_PREFERENCES,
   ui: DEFAULT_UI_PREFERENCES,
 };
 
@@ -114,6 +130,7 @@ const preferencesStorage = new VersionedStorage<UserPreferences>({
               ...DEFAULT_BRANCHING_PREFERENCES,
               ...(d?.branching as object | undefined),
             },
+            retry: DEFAULT_RETRY_PREFERENCES,
             ui: {
               ...DEFAULT_UI_PREFERENCES,
               // Preserve the user's saved theme — the whole point of this migration
@@ -166,6 +183,10 @@ function mergeWithDefaults(loadedPrefs: Partial<UserPreferences>): UserPreferenc
       ...DEFAULT_BRANCHING_PREFERENCES,
       ...loadedPrefs.branching,
     },
+    retry: {
+      ...DEFAULT_RETRY_PREFERENCES,
+      ...loadedPrefs.retry,
+    },
     ui: {
       ...DEFAULT_UI_PREFERENCES,
       ...loadedPrefs.ui,
@@ -242,6 +263,19 @@ export const usePreferencesStore = create<PreferencesState & PreferencesActions>
       get().savePreferences();
     },
 
+    setRetryPreferences: (prefs: Partial<ModelRetryPreferences>) => {
+      set((state) => ({
+        preferences: {
+          ...state.preferences,
+          retry: {
+            ...state.preferences.retry,
+            ...prefs,
+          },
+        },
+      }));
+      get().savePreferences();
+    },
+
     setUIPreferences: (prefs: Partial<UserPreferences['ui']>) => {
       set((state) => ({
         preferences: {
@@ -289,5 +323,11 @@ export const selectUIPreferences = (state: PreferencesState) =>
 export const selectTheme = (state: PreferencesState) => 
   state.preferences.ui.theme;
 
+export const selectBranchingPreferences = (state: PreferencesState) =>
+  state.preferences.branching;
+
+export const selectRetryPreferences = (state: PreferencesState) =>
+  state.preferences.retry;
+
 // Export helper for resolved theme
 export { getResolvedTheme };
\ No newline at end of file
@@ -20,7 +20,7 @@ import { calculateCost } from '@/lib/vercel-ai-integration';
 // TYPES
 // =============================================================================
 
-export type UsageProvider = 'anthropic' | 'openai';
+export type UsageProvider = 'anthropic' | 'openai' | 'google' | 'custom';
 export type UsageSource = 'chat' | 'agent' | 'summarize' | 'embeddings' | 'title-generation';
 
 export type UsageRange = 'this_month' | 'last_month' | 'year_to_date' | 'all_time';
@@ -91,6 +91,14 @@ export interface UsageTotals {
   }>;
 }
 
+export interface ConversationUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  recordCount: number;
+}
+
 interface UsageState {
   records: UsageRecord[];
   addUsage: (input: UsageInput) => void;
@@ -163,6 +171,8 @@ export function getUsageTotals(records: UsageRecord[], range: UsageRange, now =
     byProvider: {
       anthropic: { costUsd: 0, totalTokens: 0, recordCount: 0 },
       openai: { costUsd: 0, totalTokens: 0, recordCount: 0 },
+      google: { costUsd: 0, totalTokens: 0, recordCount: 0 },
+      custom: { costUsd: 0, totalTokens: 0, recordCount: 0 },
     },
   };
 
@@ -175,7 +185,7 @@ export function getUsageTotals(records: UsageRecord[], range: UsageRange, now =
     totals.totalCostUsd += record.costUsd;
     totals.totalTokens += record.totalTokens;
     // Guard: skip records whose provider no longer exists in byProvider
-    // (e.g. legacy 'google' records from before Gemini was removed).
+    // (records persisted by an older build with a since-removed provider).
     if (!totals.byProvider[record.provider]) continue;
     totals.byProvider[record.provider].costUsd += record.costUsd;
     totals.byProvider[record.provider].totalTokens += record.totalTokens;
@@ -185,6 +195,26 @@ export function getUsageTotals(records: UsageRecord[], range: UsageRange, now =
   return totals;
 }
 
+/**
+ * All-time token and cost totals recorded for one card
+ */
+export function getConversationUsage(records: UsageRecord[], conversationId: string): ConversationUsage {
+  const totals: ConversationUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, recordCount: 0 };
+
+  for (const record of records) {
+    if (record.conversationId !== conversationId) continue;
+    if (!Number.isFinite(record.costUsd) || !Number.isFinite(record.totalTokens)) continue;
+
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.totalTokens += record.totalTokens;
+    totals.costUsd += record.costUsd;
+    totals.recordCount += 1;
+  }
+
+  return totals;
+}
+
 // =============================================================================
 // STORE
 // =============================================================================
@@ -248,8 +278,8 @@ export const useUsageStore = create<UsageState>()(
       partialize: (state) => ({ records: state.records }),
       onRehydrateStorage: () => (state) => {
         // Clean up invalid records on load, and purge legacy providers that
-        // have been removed (e.g. 'google' after Gemini was dropped).
-        const VALID_PROVIDERS: UsageProvider[] = ['anthropic', 'openai'];
+        // have been removed.
+        const VALID_PROVIDERS: UsageProvider[] = ['anthropic', 'openai', 'google', 'custom'];
         if (state?.records) {
           const validRecords = state.records.filter(
             (record) =>
@@ -12,7 +12,7 @@
 // SCHEMA VERSION
 // =============================================================================
 
-export const SCHEMA_VERSION = 4;
+export const SCHEMA_VERSION = 5;
 
 // =============================================================================
 // POSITION & GEOMETRY
@@ -97,6 +97,22 @@ export interface MessageMetadata {
   editedAt?: Date;
   /** Original content before edit (for history/undo) */
   originalContent?: string;
+  /** Set when a fallback model answered instead of the requested one */
+  fallback?: ModelFallbackInfo;
+}
+
+/** Why /api/chat moved on from a model */
+export type ModelFallbackReason = 'rate_limited' | 'unavailable';
+
+/**
+ * Record of an automatic model fallback (`MessageMetadata.model` holds the
+ * model that actually answered)
+ */
+export interface ModelFallbackInfo {
+  /** Model the card asked for */
+  requestedModel: string;
+  /** Why the requested model did not answer */
+  reason: ModelFallbackReason;
 }
 
 /**
@@ -122,8 +138,27 @@ export interface MessageAttachment {
   contentType: string;
   /** Display name */
   name: string;
-  /** Base64 data URL or object URL */
+  /** Base64 data URL or object URL; empty when the data lives in the blob store */
   url: string;
+  /** Content-addressed ID in the attachment blob store */
+  blobId?: string;
+}
+
+/**
+ * One generated response of an assistant message. Regenerating keeps every
+ * earlier response as a variant instead of overwriting it.
+ */
+export interface MessageVariant {
+  /** Unique identifier */
+  id: string;
+  /** Response text */
+  content: string;
+  /** When the response was generated */
+  timestamp: Date;
+  /** Model, usage and web search metadata of this response */
+  metadata?: MessageMetadata;
+  /** Reasoning / extended-thinking text streamed with this response */
+  reasoning?: string;
 }
 
 export interface Message {
@@ -141,6 +176,20 @@ export interface Message {
   contextSnapshot?: MessageContextSnapshot;
   /** Optional file/image attachments */
   attachments?: MessageAttachment[];
+  /**
+   * Reasoning / extended-thinking text of an assistant response, kept apart
+   * from `content`. Left out of inherited context unless
+   * `BranchingPreferences.includeReasoningInContext` is on.
+   */
+  reasoning?: string;
+  /**
+   * Every response generated for this assistant turn, oldest first. `content`,
+   * `timestamp` and `metadata` always mirror the active variant, so context
+   * building and exports only ever see the active one.
+   */
+  variants?: MessageVariant[];
+  /** Index into `variants` of the response used as downstream context */
+  activeVariantIndex?: number;
 }
 
 // =============================================================================
@@ -191,7 +240,12 @@ export interface BranchPoint {
 export interface InheritedContextEntry {
   /** How context was inherited */
   mode: InheritanceMode;
-  /** Messages inherited from this parent */
+  /**
+   * Messages inherited from this parent. In `full` mode the parent's own
+   * messages up to the branch point (ancestors are collected recursively);
+   * in the other modes the complete inherited context — the chosen messages,
+   * or a single system message holding the summary.
+   */
   messages: Message[];
   /** When this context was captured */
   timestamp: Date;
@@ -199,6 +253,16 @@ export interface InheritedContextEntry {
   totalParentMessages: number;
 }
 
+/**
+ * How a merge node asks for its synthesis (see lib/merge-strategies)
+ */
+export type MergeStrategy =
+  | 'compare-contrast'
+  | 'pick-best'
+  | 'union-decisions'
+  | 'resolve-conflicts'
+  | 'custom';
+
 /**
  * Merge node metadata for synthesis cards
  */
@@ -207,6 +271,10 @@ export interface MergeMetadata {
   sourceCardIds: string[];
   /** Optional synthesis prompt used */
   synthesisPrompt?: string;
+  /** Strategy of the synthesis request, kept so it can be re-run when parents change */
+  strategy?: MergeStrategy;
+  /** `custom` strategy: prompt template ({{sources}} and {{count}} are filled in) */
+  customTemplate?: string;
   /** When merge was created */
   createdAt: Date;
 }
@@ -223,6 +291,51 @@ export const MERGE_NODE_CONFIG = {
   BUNDLE_THRESHOLD: 4,
 } as const;
 
+/**
+ * Reasoning effort for models with `reasoning: true` in MODEL_CONFIGS
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Per-card generation settings. Unset fields fall back to the model's
+ * defaults in MODEL_CONFIGS; fields the model doesn't support are ignored.
+ */
+export interface GenerationSettings {
+  /** Sampling temperature (not used by reasoning models or with extended thinking) */
+  temperature?: number;
+  /** Max output tokens for a response */
+  maxOutputTokens?: number;
+  /** Reasoning effort (reasoning models only) */
+  reasoningEffort?: ReasoningEffort;
+  /**
+   * Ask OpenAI reasoning models for a reasoning summary to show while they
+   * think. Off by default: it costs output tokens and needs a verified organization.
+   */
+  reasoningSummary?: boolean;
+  /** Anthropic extended-thinking budget in tokens; unset leaves thinking off */
+  thinkingBudget?: number;
+}
+
+/**
+ * Compaction checkpoint: the card's inherited context and older messages
+ * rolled into one summary once requests near the model's context window.
+ * Requests send the summary plus the messages after it; `content` keeps the
+ * full history for display.
+ */
+export interface CompactionCheckpoint {
+  /** Summary from /api/summarize */
+  summary: string;
+  /** Number of leading messages in `content` the summary covers */
+  messageCount: number;
+  /** ID of the last covered message; the checkpoint is dropped if it changes */
+  throughMessageId?: string;
+  /** Estimated tokens of the context the summary replaced */
+  compactedTokens: number;
+  /** Model that wrote the summary */
+  model: string;
+  createdAt: Date;
+}
+
 /**
  * A conversation node (card) on the canvas
  * v4: Supports card-level branching and multi-parent merge
@@ -253,11 +366,36 @@ export interface Conversation {
   isMergeNode: boolean;
   /** Merge metadata (only if isMergeNode is true) */
   mergeMetadata?: MergeMetadata;
+  /**
+   * Context the card inherited before it was detached from its parents.
+   * Only set on root cards; it precedes `content` as the card's history.
+   */
+  detachedContext?: Message[];
   
   // === AI Model Selection ===
   
   /** Selected AI model for this conversation (e.g., 'claude-3-5-sonnet-20241022') */
   model?: string;
+  /** Generation settings overriding the model's defaults (copied to branches) */
+  generationSettings?: GenerationSettings;
+
+  // === Card Instructions ===
+
+  /**
+   * Persona preset ID (see lib/personas). Unset inherits the parent's;
+   * an empty string opts out of an inherited persona.
+   */
+  personaId?: string;
+  /**
+   * Card-level system prompt, layered after workspace instructions and the
+   * persona. Unset inherits the parent's; an empty string opts out.
+   */
+  systemPrompt?: string;
+
+  // === Context Compaction ===
+
+  /** Latest compaction checkpoint (see CompactionCheckpoint) */
+  compaction?: CompactionCheckpoint;
 }
 
 // =============================================================================
@@ -456,8 +594,12 @@ export interface ContextSnapshot {
 
 /**
  * How context is inherited
+ * - `full`: every message up to the branch point
+ * - `last-n`: only the last N messages up to the branch point
+ * - `custom`: messages picked by hand
+ * - `summary`: an AI summary instead of the raw messages
  */
-export type InheritanceMode = 'full';
+export type InheritanceMode = 'full' | 'last-n' | 'custom' | 'summary';
 
 /**
  * Message selection for custom inheritance
@@ -495,6 +637,44 @@ export interface BranchFromMessageData {
   branchReason?: string;
   /** Optional target position for the new card */
   targetPosition?: Position;
+  /** How context is inherited (default: full) */
+  inheritanceMode?: InheritanceMode;
+  /** `last-n`: number of messages to keep */
+  lastN?: number;
+  /** `custom`: IDs of the messages to inherit */
+  selectedMessageIds?: string[];
+  /** `summary`: summary text from /api/summarize */
+  summary?: string;
+}
+
+/**
+ * Data required to send one prompt to several models as sibling branches
+ */
+export interface FanOutMessageData {
+  /** ID of the card whose latest message the branches fork from */
+  sourceCardId: string;
+  /** Model IDs — one branch is created per model */
+  models: string[];
+  /** Prompt sent as the first user message of every branch */
+  content: string;
+  /** Optional attachments for the prompt */
+  attachments?: MessageAttachment[];
+}
+
+/**
+ * Cards copied with Ctrl+C. Self-contained so they can be pasted into any
+ * workspace: cards whose parents were not copied carry their inherited
+ * messages as `detachedContext`.
+ */
+export interface CardClipboard {
+  format: 'projectloom/cards';
+  version: 1;
+  /** Workspace the cards were copied from */
+  sourceWorkspaceId: string;
+  conversations: Conversation[];
+  /** Edges between the copied cards */
+  edges: EdgeConnection[];
+  copiedAt: Date;
 }
 
 /**
@@ -507,6 +687,10 @@ export interface CreateMergeNodeData {
   position: Position;
   /** Optional synthesis prompt */
   synthesisPrompt?: string;
+  /** Synthesis strategy stored in MergeMetadata */
+  strategy?: MergeStrategy;
+  /** `custom` strategy: prompt template */
+  customTemplate?: string;
 }
 
 /**
@@ -527,6 +711,18 @@ export interface BranchData {
 export interface BranchingPreferences {
   /** Default inheritance mode */
   defaultInheritanceMode: InheritanceMode;
+  /** Send the reasoning of inherited assistant messages along with their text */
+  includeReasoningInContext: boolean;
+}
+
+/**
+ * User preferences for retrying failed chat requests
+ */
+export interface ModelRetryPreferences {
+  /** Retries of a rate-limited or unavailable model before moving on */
+  maxRetries: number;
+  /** Models tried in order when the card's model keeps failing; empty disables fallback */
+  fallbackModels: string[];
 }
 
 // =============================================================================
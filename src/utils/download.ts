@@ -0,0 +1,35 @@
+/**
+ * File Download Utilities
+ *
+ * Trigger a browser download for content generated on the client.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Download text content as a file
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Turn a title into a safe file name stem ("My Canvas!" -> "my-canvas")
+ */
+export function toFileSlug(title: string, fallback = 'untitled'): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || fallback;
+}
@@ -183,6 +183,16 @@ export function formatCompactNumber(num: number): string {
   return `${(num / 1000000).toFixed(1)}M`;
 }
 
+/**
+ * Format a byte count (e.g., 512 B, 12 KB, 3.4 MB, 1.2 GB)
+ */
+export function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${Math.round(size / 1024)} KB`;
+  if (size < 1024 * 1024 * 1024) return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(size / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
 /**
  * Format message count with label
  */